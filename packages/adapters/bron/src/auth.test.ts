@@ -2,7 +2,7 @@
  * Bron Auth Client Tests
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { BronAuthClient } from './auth';
 import type { BronAuthConfig } from './auth';
 
@@ -77,4 +77,77 @@ describe('BronAuthClient', () => {
       expect(retrieved).toBeNull();
     });
   });
+
+  describe('token refresh', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should return null without a refresh token', async () => {
+      (authClient as any).tokens = {
+        accessToken: 'test-token',
+        expiresAt: Date.now() + 1000,
+        tokenType: 'Bearer',
+      };
+
+      expect(await authClient.refreshTokens()).toBeNull();
+    });
+
+    it('should exchange the refresh token and keep it when not rotated', async () => {
+      const fetchMock = vi.fn(async () =>
+        new Response(JSON.stringify({ access_token: 'new-token', expires_in: 3600, token_type: 'Bearer' }))
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      (authClient as any).tokens = {
+        accessToken: 'old-token',
+        refreshToken: 'refresh-1',
+        expiresAt: Date.now() + 1000,
+        tokenType: 'Bearer',
+      };
+
+      const tokens = await authClient.refreshTokens();
+
+      const body = new URLSearchParams((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+      expect(body.get('grant_type')).toBe('refresh_token');
+      expect(body.get('refresh_token')).toBe('refresh-1');
+      expect(tokens).toMatchObject({ accessToken: 'new-token', refreshToken: 'refresh-1' });
+      expect(await authClient.getAccessToken()).toBe('new-token');
+    });
+  });
+
+  describe('client credentials', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should require a client secret', async () => {
+      await expect(authClient.authenticateClient()).rejects.toThrow('requires clientSecret');
+    });
+
+    it('should request tokens with the client credentials grant', async () => {
+      const fetchMock = vi.fn(async () =>
+        new Response(JSON.stringify({ access_token: 'server-token', expires_in: 60, token_type: 'Bearer' }))
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      authClient = new BronAuthClient({
+        tokenUrl: config.tokenUrl,
+        authorizationUrl: config.authorizationUrl,
+        clientId: 'worker',
+        clientSecret: 'secret',
+        scopes: ['sign'],
+        grantType: 'client_credentials',
+      });
+
+      await authClient.authenticateClient();
+
+      const body = new URLSearchParams((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+      expect(Object.fromEntries(body)).toEqual({
+        grant_type: 'client_credentials',
+        client_id: 'worker',
+        client_secret: 'secret',
+        scope: 'sign',
+      });
+      expect(await authClient.getAccessToken()).toBe('server-token');
+    });
+  });
 });
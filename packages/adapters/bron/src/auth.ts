@@ -22,12 +22,17 @@ export interface BronAuthConfig {
   clientId: string;
   /** Client secret (for server-side flows) */
   clientSecret?: string;
-  /** Redirect URI */
-  redirectUri: string;
+  /** Redirect URI (authorization code flow only) */
+  redirectUri?: string;
   /** Scopes */
   scopes?: string[];
   /** Use PKCE (recommended for browser) */
   usePKCE?: boolean;
+  /**
+   * OAuth2 grant used to connect. Defaults to 'authorization_code' (browser
+   * redirect); 'client_credentials' needs a clientSecret and works in Node.
+   */
+  grantType?: 'authorization_code' | 'client_credentials';
 }
 
 /**
@@ -82,6 +87,10 @@ export class BronAuthClient {
    * Start authorization flow
    */
   async startAuth(): Promise<string> {
+    if (!this.config.redirectUri) {
+      throw new Error('Authorization code flow requires redirectUri');
+    }
+
     const state = this.generateRandomString(32);
     const params = new URLSearchParams({
       response_type: 'code',
@@ -130,6 +139,10 @@ export class BronAuthClient {
       throw new Error('No authorization code in callback');
     }
 
+    if (!this.config.redirectUri) {
+      throw new Error('Authorization code flow requires redirectUri');
+    }
+
     // Validate state
     if (typeof window !== 'undefined') {
       const storedState = sessionStorage.getItem('bron_auth_state');
@@ -155,6 +168,77 @@ export class BronAuthClient {
       }
     }
 
+    const tokens = await this.requestTokens(tokenParams);
+
+    // Clean up session storage
+    if (typeof window !== 'undefined') {
+      sessionStorage.removeItem('bron_auth_state');
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Obtain tokens with the client credentials grant (no browser or user)
+   */
+  async authenticateClient(): Promise<BronTokens> {
+    if (!this.config.clientSecret) {
+      throw new Error('Client credentials flow requires clientSecret');
+    }
+
+    const tokenParams = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: this.config.clientId,
+    });
+    if (this.config.scopes) {
+      tokenParams.set('scope', this.config.scopes.join(' '));
+    }
+
+    return this.requestTokens(tokenParams);
+  }
+
+  /**
+   * Exchange the refresh token for new tokens
+   *
+   * @returns The new tokens, or null if no refresh token is available
+   */
+  async refreshTokens(): Promise<BronTokens | null> {
+    if (!this.tokens && this.storage) {
+      const stored = await this.storage.get('bron_tokens');
+      if (stored) {
+        this.tokens = JSON.parse(stored) as BronTokens;
+      }
+    }
+
+    const refreshToken = this.tokens?.refreshToken;
+    if (!refreshToken) {
+      return null;
+    }
+
+    const tokens = await this.requestTokens(
+      new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        client_id: this.config.clientId,
+      })
+    );
+
+    // Servers may omit the refresh token when it is not rotated
+    if (!tokens.refreshToken) {
+      tokens.refreshToken = refreshToken;
+      this.tokens = tokens;
+      if (this.storage) {
+        await this.storage.set('bron_tokens', JSON.stringify(tokens));
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Request tokens from the token endpoint and store them
+   */
+  private async requestTokens(tokenParams: URLSearchParams): Promise<BronTokens> {
     // Add client secret for server-side flow
     if (this.config.clientSecret) {
       tokenParams.set('client_secret', this.config.clientSecret);
@@ -195,11 +279,6 @@ export class BronAuthClient {
       await this.storage.set('bron_tokens', JSON.stringify(tokens));
     }
 
-    // Clean up session storage
-    if (typeof window !== 'undefined') {
-      sessionStorage.removeItem('bron_auth_state');
-    }
-
     return tokens;
   }
 
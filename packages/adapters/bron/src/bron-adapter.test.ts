@@ -0,0 +1,102 @@
+/**
+ * Bron adapter tests (Node runtime)
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { AdapterContext, Session, StorageAdapter } from '@partylayer/core';
+import { BronAdapter } from './bron-adapter';
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+const ctx = {
+  appName: 'Worker',
+  origin: 'https://worker.example',
+  network: 'devnet',
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+} as unknown as AdapterContext;
+
+function createFetch() {
+  return vi.fn(async (url: string, init?: RequestInit) => {
+    if (url === 'https://auth.bron.org/token') {
+      return new Response(JSON.stringify({ access_token: 'server-token', expires_in: 3600, token_type: 'Bearer' }));
+    }
+    expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer server-token');
+    return new Response(JSON.stringify({ sessionId: 'bron-session', partyId: 'party::worker' }));
+  });
+}
+
+const serverAuth = {
+  authorizationUrl: 'https://auth.bron.org/authorize',
+  tokenUrl: 'https://auth.bron.org/token',
+  clientId: 'worker',
+  clientSecret: 'secret',
+  grantType: 'client_credentials' as const,
+};
+
+describe('BronAdapter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should connect outside a browser with client credentials', async () => {
+    const fetchMock = createFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    const storage = new MemoryStorage();
+    const adapter = new BronAdapter({
+      auth: serverAuth,
+      api: { baseUrl: 'https://api.bron.org' },
+      storage,
+    });
+
+    const result = await adapter.connect(ctx);
+
+    expect(typeof window).toBe('undefined');
+    expect(result.partyId).toBe('party::worker');
+    expect(result.session.metadata).toEqual({ sessionId: 'bron-session' });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://auth.bron.org/token',
+      'https://api.bron.org/sessions',
+    ]);
+    expect(JSON.parse((await storage.get('bron_tokens'))!)).toMatchObject({ accessToken: 'server-token' });
+  });
+
+  it('should re-authenticate on refresh without a refresh token', async () => {
+    const fetchMock = createFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    const adapter = new BronAdapter({ auth: serverAuth, api: { baseUrl: 'https://api.bron.org' } });
+    const { session } = await adapter.connect(ctx);
+
+    const refreshed = await adapter.refresh(ctx, session as Session);
+
+    expect(refreshed?.expiresAt).toBeGreaterThan(Date.now());
+    expect(fetchMock.mock.calls.filter(([url]) => url === serverAuth.tokenUrl)).toHaveLength(2);
+  });
+
+  it('should explain the browser requirement for the authorization code flow', async () => {
+    const adapter = new BronAdapter({
+      auth: {
+        authorizationUrl: 'https://auth.bron.org/authorize',
+        tokenUrl: 'https://auth.bron.org/token',
+        clientId: 'app',
+        redirectUri: 'https://app.example/callback',
+      },
+      api: { baseUrl: 'https://api.bron.org' },
+    });
+
+    await expect(adapter.connect(ctx)).rejects.toThrow("grantType 'client_credentials'");
+  });
+});
@@ -11,6 +11,7 @@
 
 import type {
   WalletAdapter,
+  StorageAdapter,
   AdapterContext,
   AdapterDetectResult,
   AdapterConnectResult,
@@ -23,6 +24,8 @@ import {
   toTransactionHash,
   UserRejectedError,
   mapUnknownErrorToPartyLayerError,
+  isDamlTransaction,
+  toJsonApiCommands,
   type CapabilityKey,
 } from '@partylayer/core';
 import { BronAuthClient, type BronAuthConfig } from './auth';
@@ -40,6 +43,8 @@ export interface BronAdapterConfig {
   auth: BronAuthConfig;
   /** API configuration */
   api: BronApiConfig;
+  /** Token storage (tokens are kept in memory when omitted) */
+  storage?: StorageAdapter;
   /** Use mock API in development */
   useMockApi?: boolean;
 }
@@ -50,15 +55,18 @@ export interface BronAdapterConfig {
 export class BronAdapter implements WalletAdapter {
   readonly walletId = toWalletId('bron');
   readonly name = 'Bron';
+  readonly runtimes = ['browser', 'node'] as const;
 
   private authClient: BronAuthClient;
   private apiClient: BronApiClient;
+  private clientCredentials: boolean;
 
   constructor(config: BronAdapterConfig) {
     // Initialize auth client
     // Tokens stored in memory by default (secure)
     // Can optionally use encrypted storage if provided
-    this.authClient = new BronAuthClient(config.auth);
+    this.authClient = new BronAuthClient(config.auth, config.storage);
+    this.clientCredentials = config.auth.grantType === 'client_credentials';
 
     // Initialize API client
     if (config.useMockApi || process.env.NODE_ENV === 'development') {
@@ -120,10 +128,17 @@ export class BronAdapter implements WalletAdapter {
       // Check if we have an access token
       let accessToken = await this.authClient.getAccessToken();
 
+      // Client credentials need no user interaction (server-side)
+      if (!accessToken && this.clientCredentials) {
+        accessToken = (await this.authClient.authenticateClient()).accessToken;
+      }
+
       // If no token, start OAuth flow
       if (!accessToken) {
         if (typeof window === 'undefined') {
-          throw new Error('OAuth flow requires browser environment');
+          throw new Error(
+            "OAuth flow requires browser environment; use grantType 'client_credentials' server-side"
+          );
         }
 
         const authUrl = await this.authClient.startAuth();
@@ -213,6 +228,32 @@ export class BronAdapter implements WalletAdapter {
     };
   }
 
+  async refresh(
+    _ctx: AdapterContext,
+    session: import('@partylayer/core').Session
+  ): Promise<import('@partylayer/core').Session | null> {
+    try {
+      // Extend the session with the new access token lifetime
+      const tokens =
+        (await this.authClient.refreshTokens()) ??
+        (this.clientCredentials ? await this.authClient.authenticateClient() : null);
+      if (!tokens) {
+        return null;
+      }
+
+      return {
+        ...session,
+        expiresAt: tokens.expiresAt,
+      };
+    } catch (err) {
+      throw mapUnknownErrorToPartyLayerError(err, {
+        walletId: this.walletId,
+        phase: 'refresh',
+        transport: 'remote',
+      });
+    }
+  }
+
   async signMessage(
     _ctx: AdapterContext,
     session: import('@partylayer/core').Session,
@@ -284,7 +325,10 @@ export class BronAdapter implements WalletAdapter {
 
       // Request signature
       const signResponse = await this.apiClient.requestSignature({
-        transaction: params.tx,
+        // DamlTransactions travel as JSON Ledger API commands
+        transaction: isDamlTransaction(params.tx)
+          ? toJsonApiCommands(params.tx, { actAs: [session.partyId] })
+          : params.tx,
         sessionId,
       });
 
@@ -23,6 +23,8 @@ import {
   toTransactionHash,
   UserRejectedError,
   mapUnknownErrorToPartyLayerError,
+  isDamlTransaction,
+  toJsonApiCommands,
   type CapabilityKey,
 } from '@partylayer/core';
 import { DeepLinkTransport, MockTransport } from '@partylayer/core';
@@ -52,6 +54,7 @@ export interface Cantor8AdapterConfig {
 export class Cantor8Adapter implements WalletAdapter {
   readonly walletId = toWalletId('cantor8');
   readonly name = 'Cantor8';
+  readonly runtimes = ['browser'] as const;
 
   private vendorModule: Cantor8VendorModule;
   private vendorConfig: Cantor8VendorConfig;
@@ -267,7 +270,10 @@ export class Cantor8Adapter implements WalletAdapter {
       const state = this.generateState();
       const redirectUri = this.vendorConfig.redirectUri || `${ctx.origin}/callback`;
       const request: import('@partylayer/core').SignRequest = {
-        transaction: params.tx,
+        // DamlTransactions travel as JSON Ledger API commands
+        transaction: isDamlTransaction(params.tx)
+          ? toJsonApiCommands(params.tx, { actAs: [session.partyId] })
+          : params.tx,
         state,
         redirectUri,
       };
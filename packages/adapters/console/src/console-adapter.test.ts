@@ -5,16 +5,40 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { consoleWallet } from '@console-wallet/dapp-sdk';
 import { ConsoleAdapter } from './console-adapter';
-import type { AdapterContext } from '@partylayer/core';
+import type { AdapterContext, DamlTransaction, Session } from '@partylayer/core';
 import {
   toWalletId,
   toPartyId,
 } from '@partylayer/core';
 
+// The Console SDK's CJS build requires .svg/.png assets, which Node cannot load
+vi.mock('@console-wallet/dapp-sdk', () => ({
+  consoleWallet: {
+    checkExtensionAvailability: vi.fn(),
+    submitCommands: vi.fn(),
+    prepareExecute: vi.fn(),
+    prepareExecuteAndWait: vi.fn(),
+  },
+}));
+
 // Check if we're in a browser environment
 const isBrowser = typeof window !== 'undefined';
 
+function createSession(overrides: Partial<Session> = {}): Session {
+  return {
+    sessionId: 'session-1',
+    walletId: toWalletId('console'),
+    partyId: toPartyId('alice::1220'),
+    network: 'devnet',
+    createdAt: Date.now(),
+    origin: 'https://test.com',
+    capabilitiesSnapshot: [],
+    ...overrides,
+  } as unknown as Session;
+}
+
 describe('ConsoleAdapter', () => {
   let adapter: ConsoleAdapter;
   let mockContext: AdapterContext;
@@ -92,6 +116,38 @@ describe('ConsoleAdapter', () => {
     });
   });
 
+  describe('signTransaction', () => {
+    it('should reject Daml transactions instead of executing them', async () => {
+      const tx: DamlTransaction = {
+        commands: [{ type: 'create', templateId: 'pkg:Mod:T', createArguments: {} }],
+      };
+
+      await expect(adapter.signTransaction(mockContext, createSession(), { tx })).rejects.toMatchObject({
+        code: 'CAPABILITY_NOT_SUPPORTED',
+      });
+      expect(consoleWallet.prepareExecute).not.toHaveBeenCalled();
+      expect(consoleWallet.prepareExecuteAndWait).not.toHaveBeenCalled();
+      expect(consoleWallet.submitCommands).not.toHaveBeenCalled();
+    });
+
+    it('should sign other payloads with submitCommands as the primary party', async () => {
+      vi.mocked(consoleWallet.submitCommands).mockResolvedValue({ signature: 'sig' } as never);
+      const session = createSession({
+        partyId: toPartyId('bob::1220'),
+        accounts: [
+          { partyId: toPartyId('alice::1220'), primary: true },
+          { partyId: toPartyId('bob::1220'), primary: false },
+        ],
+      });
+
+      const signed = await adapter.signTransaction(mockContext, session, { tx: { payload: 'raw' } });
+
+      expect(consoleWallet.submitCommands).toHaveBeenCalledWith({ payload: 'raw' });
+      expect(signed.signedTx).toEqual({ signature: 'sig' });
+      expect(signed.partyId).toBe('alice::1220');
+    });
+  });
+
   describe('adapter properties', () => {
     it('should have correct walletId', () => {
       expect(adapter.walletId).toBe(toWalletId('console'));
@@ -21,8 +21,10 @@ import type {
   TxReceipt,
   Session,
   PersistedSession,
+  SessionAccount,
   CapabilityKey,
   PartyId,
+  DamlTransaction,
 } from '@partylayer/core';
 import {
   toWalletId,
@@ -30,10 +32,16 @@ import {
   toTransactionHash,
   toSignature,
   WalletNotInstalledError,
+  CapabilityNotSupportedError,
   mapUnknownErrorToPartyLayerError,
+  isDamlTransaction,
+  toJsonApiCommands,
+  getSigningPartyId,
 } from '@partylayer/core';
 import { consoleWallet } from '@console-wallet/dapp-sdk';
 
+type ConsoleExecuteRequest = Parameters<typeof consoleWallet.prepareExecute>[0];
+
 /**
  * Console Wallet adapter
  *
@@ -44,6 +52,7 @@ import { consoleWallet } from '@console-wallet/dapp-sdk';
 export class ConsoleAdapter implements WalletAdapter {
   readonly walletId = toWalletId('console');
   readonly name = 'Console Wallet';
+  readonly runtimes = ['browser'] as const;
 
   getCapabilities(): CapabilityKey[] {
     return [
@@ -55,6 +64,7 @@ export class ConsoleAdapter implements WalletAdapter {
       'submitTransaction',
       'events',
       'injected',
+      'multiParty',
     ];
   }
 
@@ -134,43 +144,7 @@ export class ConsoleAdapter implements WalletAdapter {
         );
       }
 
-      // Get primary account for party ID
-      const account = await consoleWallet.getPrimaryAccount();
-      const partyIdStr = account?.partyId || `party-${Date.now()}`;
-
-      // Get active network
-      let networkId = ctx.network;
-      try {
-        const network = await consoleWallet.getActiveNetwork();
-        if (network?.id) networkId = network.id;
-      } catch {
-        // Network query failed — use context network
-      }
-
-      // Get status for provider info
-      let providerId: string | undefined;
-      let providerType: string | undefined;
-      try {
-        const status = await consoleWallet.status();
-        providerId = status.provider?.id;
-        providerType = status.provider?.providerType;
-      } catch {
-        // Status query optional
-      }
-
-      return {
-        partyId: toPartyId(partyIdStr),
-        session: {
-          walletId: this.walletId,
-          network: networkId,
-          createdAt: Date.now(),
-          metadata: {
-            ...(providerId ? { providerId } : {}),
-            ...(providerType ? { providerType } : {}),
-          },
-        },
-        capabilities: this.getCapabilities(),
-      };
+      return await this.describeConnection(ctx);
     } catch (err) {
       throw mapUnknownErrorToPartyLayerError(err, {
         walletId: this.walletId,
@@ -181,6 +155,91 @@ export class ConsoleAdapter implements WalletAdapter {
     }
   }
 
+  /**
+   * Connect without the extension popup if this origin is already
+   * connected.
+   */
+  async connectSilently(
+    ctx: AdapterContext,
+  ): Promise<AdapterConnectResult | null> {
+    try {
+      const availability = await consoleWallet.checkExtensionAvailability();
+      if (availability.status !== 'installed') return null;
+
+      const connectStatus = await consoleWallet.isConnected();
+      if (!connectStatus.isConnected) return null;
+
+      ctx.logger.debug('Connected to Console Wallet silently');
+      return await this.describeConnection(ctx);
+    } catch (err) {
+      ctx.logger.debug('Console Wallet silent connect failed', err);
+      return null;
+    }
+  }
+
+  /**
+   * Read accounts, network and provider of the current connection.
+   */
+  private async describeConnection(
+    ctx: AdapterContext,
+  ): Promise<AdapterConnectResult> {
+    // Get primary account for party ID
+    const account = await consoleWallet.getPrimaryAccount();
+    const partyIdStr = account?.partyId || `party-${Date.now()}`;
+
+    // Get every party the wallet exposes to this origin
+    let accounts: SessionAccount[] | undefined;
+    try {
+      const wallets = await consoleWallet.getAccounts();
+      if (wallets?.length) {
+        accounts = wallets.map((wallet) => ({
+          partyId: toPartyId(wallet.partyId),
+          primary: wallet.primary,
+          hint: wallet.hint,
+          publicKey: wallet.publicKey,
+          namespace: wallet.namespace,
+        }));
+      }
+    } catch {
+      // Account list optional — session falls back to the primary party
+    }
+
+    // Get active network
+    let networkId = ctx.network;
+    try {
+      const network = await consoleWallet.getActiveNetwork();
+      if (network?.id) networkId = network.id;
+    } catch {
+      // Network query failed — use context network
+    }
+
+    // Get status for provider info
+    let providerId: string | undefined;
+    let providerType: string | undefined;
+    try {
+      const status = await consoleWallet.status();
+      providerId = status.provider?.id;
+      providerType = status.provider?.providerType;
+    } catch {
+      // Status query optional
+    }
+
+    return {
+      partyId: toPartyId(partyIdStr),
+      accounts,
+      session: {
+        walletId: this.walletId,
+        network: networkId,
+        createdAt: Date.now(),
+        metadata: {
+          ...(providerId ? { providerId } : {}),
+          ...(providerType ? { providerType } : {}),
+        },
+      },
+      capabilities: this.getCapabilities(),
+    };
+  }
+
   /**
    * Disconnect from Console Wallet
    */
@@ -262,7 +321,7 @@ export class ConsoleAdapter implements WalletAdapter {
 
       return {
         signature: toSignature(String(signature)),
-        partyId: session.partyId,
+        partyId: getSigningPartyId(session),
         message: params.message,
         nonce: params.nonce,
         domain: params.domain,
@@ -278,7 +337,12 @@ export class ConsoleAdapter implements WalletAdapter {
   }
 
   /**
-   * Sign a transaction. Uses submitCommands without waitForFinalization.
+   * Sign a transaction.
+   *
+   * Console cannot sign a DamlTransaction without executing it (its
+   * prepareExecute prepares, signs and executes), so DamlTransactions are
+   * rejected here; send them through submitTransaction instead. Other
+   * payloads use submitCommands without waitForFinalization.
    */
   async signTransaction(
     ctx: AdapterContext,
@@ -290,17 +354,24 @@ export class ConsoleAdapter implements WalletAdapter {
         sessionId: session.sessionId,
       });
 
+      if (isDamlTransaction(params.tx)) {
+        throw new CapabilityNotSupportedError(this.walletId, 'signTransaction');
+      }
+
       // submitCommands is the SDK's tx signing method
       const result = await consoleWallet.submitCommands(
         params.tx as Parameters<typeof consoleWallet.submitCommands>[0],
       );
+      if (!result) {
+        throw new Error('Console Wallet returned no signing result');
+      }
 
       const txHash = `tx_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
 
       return {
         signedTx: result,
         transactionHash: toTransactionHash(txHash),
-        partyId: session.partyId,
+        partyId: getSigningPartyId(session),
       };
     } catch (err) {
       throw mapUnknownErrorToPartyLayerError(err, {
@@ -313,7 +384,10 @@ export class ConsoleAdapter implements WalletAdapter {
   }
 
   /**
-   * Submit a transaction. Uses submitCommands with waitForFinalization.
+   * Submit a transaction.
+   *
+   * DamlTransactions use prepareExecuteAndWait; other payloads use
+   * submitCommands with waitForFinalization.
    */
   async submitTransaction(
     ctx: AdapterContext,
@@ -325,6 +399,18 @@ export class ConsoleAdapter implements WalletAdapter {
         sessionId: session.sessionId,
       });
 
+      if (isDamlTransaction(params.signedTx)) {
+        const request = this.toExecuteRequest(params.signedTx, session);
+        const { tx } = await consoleWallet.prepareExecuteAndWait(request);
+
+        return {
+          transactionHash: toTransactionHash(tx.payload.updateId),
+          submittedAt: Date.now(),
+          commandId: tx.commandId,
+          updateId: tx.payload.updateId,
+        };
+      }
+
       const txData = params.signedTx as Parameters<typeof consoleWallet.submitCommands>[0];
       const result = await consoleWallet.submitCommands({
         ...txData,
@@ -350,6 +436,29 @@ export class ConsoleAdapter implements WalletAdapter {
     }
   }
 
+  /**
+   * Encode a DamlTransaction as a Console prepareExecute request
+   */
+  private toExecuteRequest(
+    tx: DamlTransaction,
+    session: Session,
+  ): ConsoleExecuteRequest & { commandId: string } {
+    const encoded = toJsonApiCommands(tx, {
+      actAs: [getSigningPartyId(session)],
+      commandId: `cmd_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`,
+    });
+
+    // Console's request has no workflowId field
+    return {
+      commands: encoded.commands,
+      actAs: encoded.actAs,
+      readAs: encoded.readAs,
+      commandId: encoded.commandId!,
+      disclosedContracts: encoded.disclosedContracts,
+      synchronizerId: encoded.synchronizerId,
+    };
+  }
+
   /**
    * Subscribe to wallet events using the SDK's event callbacks.
    */
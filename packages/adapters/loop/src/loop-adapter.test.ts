@@ -9,6 +9,7 @@ import { LoopAdapter } from './loop-adapter';
 import type { AdapterContext } from '@partylayer/core';
 import {
   CapabilityNotSupportedError,
+  DamlTransactionBuilder,
   toWalletId,
   toPartyId,
 } from '@partylayer/core';
@@ -86,6 +87,51 @@ describe('LoopAdapter', () => {
     });
   });
 
+  describe('submitTransaction', () => {
+    it('should encode DamlTransactions as JSON Ledger API commands', async () => {
+      const submitTransaction = vi.fn(async () => ({
+        command_id: 'cmd-1',
+        submission_id: 'sub-1',
+      }));
+      (adapter as unknown as { currentProvider: unknown }).currentProvider = {
+        submitTransaction,
+      };
+      const session = {
+        sessionId: 'test' as import('@partylayer/core').SessionId,
+        walletId: toWalletId('loop'),
+        partyId: toPartyId('party::test'),
+        network: 'devnet',
+        createdAt: Date.now(),
+        origin: 'https://test.com',
+        capabilitiesSnapshot: [] as import('@partylayer/core').CapabilityKey[],
+      };
+      const tx = new DamlTransactionBuilder()
+        .exercise('#pkg:Main:Asset', 'cid-1', 'Transfer', { newOwner: 'party::bob' })
+        .build();
+
+      const receipt = await adapter.submitTransaction(mockContext, session, { signedTx: tx });
+
+      expect(submitTransaction).toHaveBeenCalledWith(
+        {
+          commands: [
+            {
+              ExerciseCommand: {
+                templateId: '#pkg:Main:Asset',
+                contractId: 'cid-1',
+                choice: 'Transfer',
+                choiceArgument: { newOwner: 'party::bob' },
+              },
+            },
+          ],
+          actAs: ['party::test'],
+        },
+        expect.any(Object),
+      );
+      expect(receipt.commandId).toBe('cmd-1');
+      expect(receipt.updateId).toBeUndefined();
+    });
+  });
+
   describe('signTransaction', () => {
     it('should throw CapabilityNotSupportedError', async () => {
       const session = {
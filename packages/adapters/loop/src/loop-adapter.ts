@@ -32,6 +32,8 @@ import {
   WalletNotInstalledError,
   CapabilityNotSupportedError,
   mapUnknownErrorToPartyLayerError,
+  isDamlTransaction,
+  toJsonApiCommands,
 } from '@partylayer/core';
 import { loop } from '@fivenorth/loop-sdk';
 import type { LoopProvider } from '@fivenorth/loop-sdk';
@@ -49,6 +51,7 @@ import type { LoopProvider } from '@fivenorth/loop-sdk';
 export class LoopAdapter implements WalletAdapter {
   readonly walletId = toWalletId('loop');
   readonly name = '5N Loop';
+  readonly runtimes = ['browser'] as const;
 
   private currentProvider: LoopProvider | null = null;
 
@@ -227,61 +230,102 @@ export class LoopAdapter implements WalletAdapter {
         return null;
       }
 
-      // Try auto-connect — the SDK checks localStorage for a valid auth token
-      const loopNetwork = this.mapNetworkToLoop(persisted.network || ctx.network);
-
-      return new Promise<Session | null>((resolve) => {
-        let resolved = false;
+      const provider = await this.autoConnect(ctx, persisted.network || ctx.network);
+      if (!provider) {
+        ctx.logger.debug('Loop Wallet session not restorable');
+        return null;
+      }
 
-        // 5 second timeout for auto-connect
-        const timeoutId = setTimeout(() => {
-          if (!resolved) {
-            resolved = true;
-            ctx.logger.debug(
-              'Loop Wallet auto-connect timed out, session not restorable',
-            );
-            resolve(null);
-          }
-        }, 5000);
+      ctx.logger.debug('Restored Loop Wallet session via auto-connect', {
+        partyId: provider.party_id,
+      });
+      return { ...persisted, walletId: this.walletId };
+    } catch (err) {
+      ctx.logger.warn('Failed to restore Loop Wallet session', err);
+      return null;
+    }
+  }
 
-        loop.init({
-          appName: ctx.appName,
-          network: loopNetwork,
-          onAccept: (provider: LoopProvider) => {
-            if (resolved) return;
-            resolved = true;
-            clearTimeout(timeoutId);
+  /**
+   * Connect without the QR code if the Loop SDK still holds a valid
+   * auth token.
+   */
+  async connectSilently(
+    ctx: AdapterContext,
+  ): Promise<AdapterConnectResult | null> {
+    try {
+      if (typeof window === 'undefined') return null;
 
-            this.currentProvider = provider;
-            ctx.logger.debug('Restored Loop Wallet session via auto-connect', {
-              partyId: provider.party_id,
-            });
+      const provider = await this.autoConnect(ctx, ctx.network);
+      if (!provider) return null;
 
-            resolve({ ...persisted, walletId: this.walletId });
-          },
-          onReject: () => {
-            if (resolved) return;
-            resolved = true;
-            clearTimeout(timeoutId);
-            resolve(null);
-          },
-        });
-
-        // autoConnect checks localStorage and reconnects if valid
-        loop.autoConnect().catch(() => {
-          if (!resolved) {
-            resolved = true;
-            clearTimeout(timeoutId);
-            resolve(null);
-          }
-        });
+      ctx.logger.debug('Connected to Loop Wallet silently', {
+        partyId: provider.party_id,
       });
+
+      return {
+        partyId: toPartyId(provider.party_id),
+        session: {
+          walletId: this.walletId,
+          network: ctx.network,
+          createdAt: Date.now(),
+        },
+        capabilities: this.getCapabilities(),
+      };
     } catch (err) {
-      ctx.logger.warn('Failed to restore Loop Wallet session', err);
+      ctx.logger.debug('Loop Wallet silent connect failed', err);
       return null;
     }
   }
 
+  /**
+   * Run the SDK's autoConnect(), which checks localStorage for a valid
+   * auth token. Resolves null if there is none (or after 5 seconds).
+   */
+  private autoConnect(
+    ctx: AdapterContext,
+    network: string,
+  ): Promise<LoopProvider | null> {
+    return new Promise<LoopProvider | null>((resolve) => {
+      let resolved = false;
+
+      const timeoutId = setTimeout(() => {
+        if (!resolved) {
+          resolved = true;
+          ctx.logger.debug('Loop Wallet auto-connect timed out');
+          resolve(null);
+        }
+      }, 5000);
+
+      loop.init({
+        appName: ctx.appName,
+        network: this.mapNetworkToLoop(network),
+        onAccept: (provider: LoopProvider) => {
+          if (resolved) return;
+          resolved = true;
+          clearTimeout(timeoutId);
+
+          this.currentProvider = provider;
+          resolve(provider);
+        },
+        onReject: () => {
+          if (resolved) return;
+          resolved = true;
+          clearTimeout(timeoutId);
+          resolve(null);
+        },
+      });
+
+      loop.autoConnect().catch(() => {
+        if (!resolved) {
+          resolved = true;
+          clearTimeout(timeoutId);
+          resolve(null);
+        }
+      });
+    });
+  }
+
   /**
    * Sign a message.
    */
@@ -342,7 +386,10 @@ export class LoopAdapter implements WalletAdapter {
    * Submit a transaction.
    *
    * Loop SDK's submitTransaction signs and submits the DAML command.
-   * Returns command_id and submission_id.
+   * DamlTransactions are encoded as JSON Ledger API commands, which is
+   * the command format Loop expects. Loop returns command_id and
+   * submission_id; the submission ID is not an update ID, so the receipt
+   * carries no updateId.
    */
   async submitTransaction(
     ctx: AdapterContext,
@@ -358,8 +405,12 @@ export class LoopAdapter implements WalletAdapter {
         sessionId: session.sessionId,
       });
 
+      const command = isDamlTransaction(params.signedTx)
+        ? toJsonApiCommands(params.signedTx, { actAs: [session.partyId] })
+        : params.signedTx;
+
       const result = await this.currentProvider.submitTransaction(
-        params.signedTx,
+        command,
         {
           message: 'Submit transaction via PartyLayer',
         },
@@ -369,7 +420,6 @@ export class LoopAdapter implements WalletAdapter {
         transactionHash: toTransactionHash(result.command_id),
         submittedAt: Date.now(),
         commandId: result.command_id,
-        updateId: result.submission_id,
       };
     } catch (err) {
       throw mapUnknownErrorToPartyLayerError(err, {
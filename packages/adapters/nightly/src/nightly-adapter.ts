@@ -24,6 +24,7 @@ import type {
   PersistedSession,
   CapabilityKey,
   PartyId,
+  DamlTransaction,
 } from '@partylayer/core';
 import {
   toWalletId,
@@ -33,6 +34,8 @@ import {
   WalletNotInstalledError,
   CapabilityNotSupportedError,
   mapUnknownErrorToPartyLayerError,
+  isDamlTransaction,
+  toJsonApiCommands,
 } from '@partylayer/core';
 
 // ─── Nightly Canton Types ───────────────────────────────────────────────────
@@ -104,6 +107,22 @@ declare global {
   }
 }
 
+// ─── Encoding ───────────────────────────────────────────────────────────────
+
+/**
+ * Encode a DamlTransaction as a Nightly TransactionCommand.
+ * Disclosed contracts travel next to the JSON Ledger API command.
+ */
+function toTransactionCommand(
+  tx: DamlTransaction,
+  partyId: PartyId,
+): TransactionCommand {
+  const { disclosedContracts, ...command } = toJsonApiCommands(tx, {
+    actAs: [partyId],
+  });
+  return { command, disclosedContracts: disclosedContracts ?? [] };
+}
+
 // ─── Adapter ────────────────────────────────────────────────────────────────
 
 /**
@@ -119,6 +138,7 @@ declare global {
 export class NightlyAdapter implements WalletAdapter {
   readonly walletId = toWalletId('nightly');
   readonly name = 'Nightly';
+  readonly runtimes = ['browser'] as const;
 
   private wallet: NightlyCantonWallet | null = null;
 
@@ -184,26 +204,11 @@ export class NightlyAdapter implements WalletAdapter {
       // connect() opens the extension popup for approval
       await provider.connect();
 
-      // After connect, the provider itself acts as the wallet
-      this.wallet = provider;
-      const partyId = toPartyId(provider.partyId);
-
       ctx.logger.info('Connected to Nightly Wallet', {
         partyId: provider.partyId,
       });
 
-      return {
-        partyId,
-        session: {
-          walletId: this.walletId,
-          network: ctx.network,
-          createdAt: Date.now(),
-          metadata: {
-            publicKey: provider.publicKey,
-          },
-        },
-        capabilities: this.getCapabilities(),
-      };
+      return this.useProvider(ctx, provider);
     } catch (err) {
       throw mapUnknownErrorToPartyLayerError(err, {
         walletId: this.walletId,
@@ -214,6 +219,60 @@ export class NightlyAdapter implements WalletAdapter {
     }
   }
 
+  /**
+   * Connect without a popup if Nightly already reports being connected.
+   */
+  async connectSilently(
+    ctx: AdapterContext,
+  ): Promise<AdapterConnectResult | null> {
+    try {
+      if (typeof window === 'undefined') return null;
+
+      const provider = window.nightly?.canton;
+      if (!provider || typeof provider.isConnected !== 'function' || !provider.isConnected()) {
+        return null;
+      }
+
+      ctx.logger.debug('Connected to Nightly Wallet silently', {
+        partyId: provider.partyId,
+      });
+
+      return this.useProvider(ctx, provider);
+    } catch (err) {
+      ctx.logger.debug('Nightly Wallet silent connect failed', err);
+      return null;
+    }
+  }
+
+  /**
+   * Adopt a connected provider as the wallet and describe the connection.
+   */
+  private useProvider(
+    ctx: AdapterContext,
+    provider: NightlyCantonProvider,
+  ): AdapterConnectResult {
+    // After connect, the provider itself acts as the wallet
+    this.wallet = provider;
+    const partyId = toPartyId(provider.partyId);
+
+    return {
+      partyId,
+      // Nightly exposes a single party per connection
+      accounts: [
+        { partyId, primary: true, publicKey: provider.publicKey },
+      ],
+      session: {
+        walletId: this.walletId,
+        network: ctx.network,
+        createdAt: Date.now(),
+        metadata: {
+          publicKey: provider.publicKey,
+        },
+      },
+      capabilities: this.getCapabilities(),
+    };
+  }
+
   /**
    * Disconnect from Nightly Wallet.
    */
@@ -334,8 +393,8 @@ export class NightlyAdapter implements WalletAdapter {
    * Submit a transaction.
    *
    * Nightly uses callback-based submitTransactionCommand.
-   * The signedTx should be a TransactionCommand object created via
-   * createTransferCommand or createTransactionChoiceCommand.
+   * The signedTx should be a DamlTransaction or a TransactionCommand
+   * object created via createTransferCommand or createTransactionChoiceCommand.
    */
   async submitTransaction(
     ctx: AdapterContext,
@@ -351,7 +410,12 @@ export class NightlyAdapter implements WalletAdapter {
         sessionId: session.sessionId,
       });
 
-      const txCommand = params.signedTx as TransactionCommand;
+      if (typeof params.signedTx === 'string') {
+        throw new Error('Nightly Wallet expects a transaction command object');
+      }
+      const txCommand = isDamlTransaction(params.signedTx)
+        ? toTransactionCommand(params.signedTx, session.partyId)
+        : (params.signedTx as unknown as TransactionCommand);
 
       const result = await new Promise<{ signature?: string; updateId?: string }>(
         (resolve, reject) => {
@@ -9,6 +9,8 @@ import type { WalletAdapter, CapabilityKey } from './adapters';
 import {
   capabilityGuard,
   installGuard,
+  supportsRuntime,
+  detectRuntime,
   CapabilityNotSupportedError,
   WalletNotInstalledError,
 } from './adapters';
@@ -88,6 +90,23 @@ describe('Adapter Contract', () => {
     });
   });
 
+  describe('supportsRuntime', () => {
+    it('should treat adapters without runtimes as universal', () => {
+      const adapter = new MockAdapter();
+
+      expect(supportsRuntime(adapter, 'browser')).toBe(true);
+      expect(supportsRuntime(adapter, 'node')).toBe(true);
+    });
+
+    it('should check declared runtimes against the current one', () => {
+      const adapter = Object.assign(new MockAdapter(), { runtimes: ['browser'] as const });
+
+      expect(detectRuntime()).toBe('node');
+      expect(supportsRuntime(adapter)).toBe(false);
+      expect(supportsRuntime(adapter, 'browser')).toBe(true);
+    });
+  });
+
   describe('WalletAdapter interface', () => {
     it('should have required properties', () => {
       const adapter = new MockAdapter();
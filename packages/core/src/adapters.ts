@@ -19,11 +19,13 @@ import type {
   NetworkId,
   CapabilityKey,
   Session,
+  SessionAccount,
   PersistedSession,
   SignedMessage,
   SignedTransaction,
   TxReceipt,
 } from './types';
+import type { TransactionPayload, SignedTransactionPayload } from './commands';
 import {
   CapabilityNotSupportedError,
   WalletNotInstalledError,
@@ -45,12 +47,34 @@ export interface AdapterDetectResult {
 export interface AdapterConnectResult {
   /** Connected party ID */
   partyId: PartyId;
+  /** All parties available to the dApp (default: only `partyId`) */
+  accounts?: SessionAccount[];
   /** Partial session data (SDK will complete it) */
   session: Partial<Session>;
   /** Capabilities available in this session */
   capabilities: CapabilityKey[];
 }
 
+/**
+ * Switch network parameters
+ */
+export interface SwitchNetworkParams {
+  /** Target network */
+  network: NetworkId;
+}
+
+/**
+ * Adapter network switch result
+ */
+export interface AdapterSwitchNetworkResult {
+  /** Party ID on the new network (default: unchanged) */
+  partyId?: PartyId;
+  /** Parties available on the new network (default: unchanged) */
+  accounts?: SessionAccount[];
+  /** Partial session data (SDK will complete it) */
+  session?: Partial<Session>;
+}
+
 /**
  * Sign message parameters
  */
@@ -67,16 +91,27 @@ export interface SignMessageParams {
  * Sign transaction parameters
  */
 export interface SignTransactionParams {
-  /** Transaction to sign (type kept as unknown for wallet-specific formats) */
-  tx: unknown;
+  /** Transaction to sign */
+  tx: TransactionPayload;
+}
+
+/**
+ * Sign batch parameters
+ */
+export interface SignBatchParams {
+  /** Transactions to sign, in order */
+  txs: TransactionPayload[];
 }
 
 /**
  * Submit transaction parameters
  */
 export interface SubmitTransactionParams {
-  /** Signed transaction */
-  signedTx: unknown;
+  /**
+   * Signed transaction (SignedTransaction.signedTx), or a DamlTransaction
+   * for wallets that sign and submit in one step
+   */
+  signedTx: SignedTransactionPayload;
 }
 
 /**
@@ -99,6 +134,18 @@ export interface LedgerApiResult {
   response: string;
 }
 
+/**
+ * Ledger update stream parameters
+ */
+export interface StreamUpdatesParams {
+  /** Deliver updates after this offset */
+  beginExclusive: number;
+  /** Parties to read as */
+  parties: PartyId[];
+  /** Template IDs to filter on (all templates if omitted) */
+  templateIds?: string[];
+}
+
 /**
  * Logger interface
  */
@@ -159,6 +206,15 @@ export interface CryptoAdapter {
   encrypt(data: string, key: string): Promise<string>;
   decrypt(encrypted: string, key: string): Promise<string>;
   generateKey(): Promise<string>;
+  /**
+   * Start encrypting with a new key. Data written with older keys must stay
+   * decryptable until retireKeys() is called.
+   */
+  rotateKey?(): Promise<void>;
+  /**
+   * Drop keys other than the current one
+   */
+  retireKeys?(): Promise<void>;
 }
 
 /**
@@ -204,6 +260,11 @@ export interface AdapterContext {
   abortSignal?: AbortSignal;
 }
 
+/**
+ * Runtime an adapter can run in
+ */
+export type AdapterRuntime = 'browser' | 'node';
+
 /**
  * Adapter event names
  */
@@ -226,6 +287,11 @@ export interface WalletAdapter {
   readonly walletId: WalletId;
   /** Wallet display name */
   readonly name: string;
+  /**
+   * Runtimes the adapter works in. Adapters that do not declare any are
+   * assumed to work everywhere.
+   */
+  readonly runtimes?: readonly AdapterRuntime[];
 
   /**
    * Get supported capabilities
@@ -250,6 +316,20 @@ export interface WalletAdapter {
     }
   ): Promise<AdapterConnectResult>;
 
+  /**
+   * Connect without prompting the user (optional), e.g. when the wallet
+   * has already authorised this origin
+   * @param ctx Adapter context
+   * @param opts Connection options (optional)
+   * @returns Connection result, or null if connecting needs user approval
+   */
+  connectSilently?(
+    ctx: AdapterContext,
+    opts?: {
+      partyId?: PartyId;
+    }
+  ): Promise<AdapterConnectResult | null>;
+
   /**
    * Disconnect from wallet
    * @param ctx Adapter context
@@ -267,6 +347,14 @@ export interface WalletAdapter {
     persisted: PersistedSession
   ): Promise<Session | null>;
 
+  /**
+   * Refresh a session before it expires (optional - e.g. OAuth refresh tokens)
+   * @param ctx Adapter context
+   * @param session Session about to expire
+   * @returns The session with a later `expiresAt`, or null if it cannot be refreshed
+   */
+  refresh?(ctx: AdapterContext, session: Session): Promise<Session | null>;
+
   /**
    * Sign message (optional - only if wallet supports it)
    * @param ctx Adapter context
@@ -291,6 +379,21 @@ export interface WalletAdapter {
     params: SignTransactionParams
   ): Promise<SignedTransaction>;
 
+  /**
+   * Sign several transactions with a single approval (optional)
+   *
+   * All or nothing: resolves one SignedTransaction per input, in order,
+   * or rejects. Without it, the client signs the transactions one by one.
+   * @param ctx Adapter context
+   * @param session Active session
+   * @param params Transactions to sign
+   */
+  signBatch?(
+    ctx: AdapterContext,
+    session: Session,
+    params: SignBatchParams
+  ): Promise<SignedTransaction[]>;
+
   /**
    * Submit transaction (optional - only if wallet supports it)
    * @param ctx Adapter context
@@ -315,6 +418,39 @@ export interface WalletAdapter {
     params: LedgerApiParams
   ): Promise<LedgerApiResult>;
 
+  /**
+   * Stream ledger updates (optional - only if wallet supports it)
+   *
+   * Delivers JSON Ledger API update objects (the items of
+   * `/v2/updates/flats`) in offset order until unsubscribed. Calling
+   * `onError` ends the stream.
+   * @param ctx Adapter context
+   * @param session Active session
+   * @param params Stream parameters
+   * @param onUpdate Update handler
+   * @param onError Error handler
+   * @returns Unsubscribe function
+   */
+  streamUpdates?(
+    ctx: AdapterContext,
+    session: Session,
+    params: StreamUpdatesParams,
+    onUpdate: (update: unknown) => void,
+    onError: (err: unknown) => void
+  ): Promise<() => void>;
+
+  /**
+   * Switch the wallet to another network (optional - only if wallet supports it)
+   * @param ctx Adapter context (for the target network)
+   * @param session Session on the current network
+   * @param params Switch network parameters
+   */
+  switchNetwork?(
+    ctx: AdapterContext,
+    session: Session,
+    params: SwitchNetworkParams
+  ): Promise<AdapterSwitchNetworkResult>;
+
   /**
    * Subscribe to adapter events (optional)
    * @param event Event name
@@ -327,6 +463,23 @@ export interface WalletAdapter {
   ): () => void;
 }
 
+/**
+ * Detect the current runtime
+ */
+export function detectRuntime(): AdapterRuntime {
+  return typeof window !== 'undefined' && typeof document !== 'undefined' ? 'browser' : 'node';
+}
+
+/**
+ * Check if adapter can run in a runtime
+ */
+export function supportsRuntime(
+  adapter: WalletAdapter,
+  runtime: AdapterRuntime = detectRuntime()
+): boolean {
+  return !adapter.runtimes || adapter.runtimes.includes(runtime);
+}
+
 /**
  * Check if adapter supports required capabilities
  * Throws CapabilityNotSupportedError if not supported
@@ -97,6 +97,13 @@ export interface CIP0103StatusEvent {
 
 export type CIP0103TxStatus = 'pending' | 'signed' | 'executed' | 'failed';
 
+export interface CIP0103PrepareExecuteResult {
+  /** Async wallet extension: URL for user to approve the transaction */
+  userUrl?: string;
+  /** Command ID carried by the txChanged events of this transaction */
+  commandId?: string;
+}
+
 export interface CIP0103TxPendingPayload {
   status: 'pending';
   commandId: string;
@@ -178,6 +185,35 @@ export type CIP0103Method = (typeof CIP0103_METHODS)[keyof typeof CIP0103_METHOD
 /** All mandatory method names as an array (useful for conformance testing) */
 export const CIP0103_MANDATORY_METHODS: readonly CIP0103Method[] = Object.values(CIP0103_METHODS);
 
+// ─── Method Signatures ───────────────────────────────────────────────────────
+
+/** Params and result of every mandatory method */
+export interface CIP0103MethodMap {
+  connect: { params: undefined; result: CIP0103ConnectResult };
+  disconnect: { params: undefined; result: void };
+  isConnected: { params: undefined; result: CIP0103ConnectResult };
+  status: { params: undefined; result: CIP0103StatusEvent };
+  getActiveNetwork: { params: undefined; result: CIP0103Network };
+  listAccounts: { params: undefined; result: CIP0103Account[] };
+  getPrimaryAccount: { params: undefined; result: CIP0103Account };
+  /** Result: the signature */
+  signMessage: { params: CIP0103SignMessageRequest; result: string };
+  /** Params: the transaction payload, passed to the wallet as is */
+  prepareExecute: { params: Record<string, unknown>; result: CIP0103PrepareExecuteResult | null | void };
+  ledgerApi: { params: CIP0103LedgerApiRequest; result: CIP0103LedgerApiResponse };
+}
+
+export type CIP0103MethodParams<M extends CIP0103Method> = CIP0103MethodMap[M]['params'];
+
+export type CIP0103MethodResult<M extends CIP0103Method> = CIP0103MethodMap[M]['result'];
+
+/** request() payload for a mandatory method; params are required when the method takes any */
+export type CIP0103TypedRequestPayload<M extends CIP0103Method> = M extends CIP0103Method
+  ? CIP0103MethodParams<M> extends undefined
+    ? { method: M; params?: undefined }
+    : { method: M; params: CIP0103MethodParams<M> }
+  : never;
+
 // ─── Canonical Event Names ───────────────────────────────────────────────────
 
 export const CIP0103_EVENTS = {
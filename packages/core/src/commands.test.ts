@@ -0,0 +1,98 @@
+/**
+ * Tests for the Daml command model
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DamlTransactionBuilder,
+  isDamlTransaction,
+  toJsonApiCommands,
+} from './commands';
+import { toPartyId } from './types';
+
+describe('Daml commands', () => {
+  describe('DamlTransactionBuilder', () => {
+    it('should build a transaction with all command kinds', () => {
+      const tx = new DamlTransactionBuilder()
+        .create('#pkg:Main:Asset', { owner: 'alice' })
+        .exercise('#pkg:Main:Asset', 'cid-1', 'Archive')
+        .createAndExercise('#pkg:Main:Offer', { from: 'alice' }, 'Accept', { by: 'bob' })
+        .actAs(toPartyId('alice'))
+        .readAs(toPartyId('observer'))
+        .commandId('cmd-1')
+        .workflowId('wf-1')
+        .build();
+
+      expect(tx.commands.map((c) => c.type)).toEqual(['create', 'exercise', 'createAndExercise']);
+      expect(tx.commands[1]).toMatchObject({ choiceArgument: {} });
+      expect(tx.actAs).toEqual(['alice']);
+      expect(tx.readAs).toEqual(['observer']);
+      expect(tx.commandId).toBe('cmd-1');
+      expect(tx.workflowId).toBe('wf-1');
+    });
+
+    it('should reject empty transactions', () => {
+      expect(() => new DamlTransactionBuilder().build()).toThrow();
+    });
+  });
+
+  describe('isDamlTransaction', () => {
+    it('should recognise typed transactions only', () => {
+      const tx = new DamlTransactionBuilder().create('#pkg:Main:Asset', {}).build();
+
+      expect(isDamlTransaction(tx)).toBe(true);
+      expect(isDamlTransaction({ commands: [] })).toBe(false);
+      expect(isDamlTransaction({ commands: [{ CreateCommand: {} }] })).toBe(false);
+      expect(isDamlTransaction('tx')).toBe(false);
+      expect(isDamlTransaction(null)).toBe(false);
+    });
+  });
+
+  describe('toJsonApiCommands', () => {
+    it('should encode commands and options in JSON Ledger API format', () => {
+      const disclosed = {
+        templateId: '#pkg:Main:Factory',
+        contractId: 'cid-f',
+        createdEventBlob: 'blob',
+      };
+      const tx = new DamlTransactionBuilder()
+        .create('#pkg:Main:Asset', { owner: 'alice' })
+        .exercise('#pkg:Main:Factory', 'cid-f', 'Make', { n: 1 })
+        .disclose(disclosed)
+        .synchronizer('sync-1')
+        .build();
+
+      expect(toJsonApiCommands(tx)).toEqual({
+        commands: [
+          { CreateCommand: { templateId: '#pkg:Main:Asset', createArguments: { owner: 'alice' } } },
+          {
+            ExerciseCommand: {
+              templateId: '#pkg:Main:Factory',
+              contractId: 'cid-f',
+              choice: 'Make',
+              choiceArgument: { n: 1 },
+            },
+          },
+        ],
+        disclosedContracts: [disclosed],
+        synchronizerId: 'sync-1',
+      });
+    });
+
+    it('should fill actAs and commandId from defaults only when unset', () => {
+      const tx = new DamlTransactionBuilder().create('#pkg:Main:Asset', {}).build();
+      const defaults = { actAs: [toPartyId('session-party')], commandId: 'generated' };
+
+      expect(toJsonApiCommands(tx, defaults)).toMatchObject({
+        actAs: ['session-party'],
+        commandId: 'generated',
+      });
+
+      const explicit = { ...tx, actAs: [toPartyId('alice')], commandId: 'mine' };
+      expect(toJsonApiCommands(explicit, defaults)).toMatchObject({
+        actAs: ['alice'],
+        commandId: 'mine',
+      });
+    });
+  });
+});
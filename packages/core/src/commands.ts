@@ -0,0 +1,328 @@
+/**
+ * Daml command model
+ *
+ * Wallet-agnostic representation of a Daml transaction. dApps build a
+ * DamlTransaction once and pass it as `SignTransactionParams.tx` or
+ * `SubmitTransactionParams.signedTx`; each adapter encodes it into the
+ * format its wallet expects.
+ *
+ * The canonical wire format is the JSON Ledger API (v2) commands request,
+ * which CIP-0103 `prepareExecute` also uses.
+ *
+ * Reference: https://github.com/canton-foundation/cips/blob/main/cip-0103/cip-0103.md
+ */
+
+import type { PartyId } from './types';
+
+/**
+ * Create a contract
+ */
+export interface CreateCommand {
+  type: 'create';
+  /** Template ID ("<package-id>:<module>:<entity>" or "#<package-name>:<module>:<entity>") */
+  templateId: string;
+  /** Template arguments */
+  createArguments: Record<string, unknown>;
+}
+
+/**
+ * Exercise a choice on an existing contract
+ */
+export interface ExerciseCommand {
+  type: 'exercise';
+  /** Template or interface ID the choice belongs to */
+  templateId: string;
+  /** Target contract ID */
+  contractId: string;
+  /** Choice name */
+  choice: string;
+  /** Choice argument */
+  choiceArgument: Record<string, unknown>;
+}
+
+/**
+ * Create a contract and exercise a choice on it in one command
+ */
+export interface CreateAndExerciseCommand {
+  type: 'createAndExercise';
+  /** Template ID */
+  templateId: string;
+  /** Template arguments */
+  createArguments: Record<string, unknown>;
+  /** Choice name */
+  choice: string;
+  /** Choice argument */
+  choiceArgument: Record<string, unknown>;
+}
+
+/**
+ * Any Daml command
+ */
+export type DamlCommand = CreateCommand | ExerciseCommand | CreateAndExerciseCommand;
+
+/**
+ * Contract disclosed to the submitter (explicit disclosure)
+ */
+export interface DisclosedContract {
+  /** Template ID */
+  templateId: string;
+  /** Contract ID */
+  contractId: string;
+  /** Opaque created event blob (base64) */
+  createdEventBlob: string;
+  /** Synchronizer the contract lives on */
+  synchronizerId?: string;
+}
+
+/**
+ * Wallet-agnostic Daml transaction
+ */
+export interface DamlTransaction {
+  /** Commands, executed atomically */
+  commands: DamlCommand[];
+  /** Submitting parties (default: the session party) */
+  actAs?: PartyId[];
+  /** Additional parties whose data may be read */
+  readAs?: PartyId[];
+  /** Command ID used for deduplication (default: generated by the wallet) */
+  commandId?: string;
+  /** Workflow ID */
+  workflowId?: string;
+  /** Explicitly disclosed contracts */
+  disclosedContracts?: DisclosedContract[];
+  /** Synchronizer to submit to */
+  synchronizerId?: string;
+}
+
+/**
+ * Command in JSON Ledger API format
+ */
+export type JsonApiCommand =
+  | { CreateCommand: Omit<CreateCommand, 'type'> }
+  | { ExerciseCommand: Omit<ExerciseCommand, 'type'> }
+  | { CreateAndExerciseCommand: Omit<CreateAndExerciseCommand, 'type'> };
+
+/**
+ * Commands request in JSON Ledger API format (also used by CIP-0103 prepareExecute)
+ */
+export interface JsonApiCommands {
+  commands: JsonApiCommand[];
+  actAs?: string[];
+  readAs?: string[];
+  commandId?: string;
+  workflowId?: string;
+  disclosedContracts?: DisclosedContract[];
+  synchronizerId?: string;
+}
+
+/**
+ * Transaction payload: a DamlTransaction (encoded by the adapter),
+ * JSON Ledger API commands, or a wallet-specific object
+ */
+export type TransactionPayload = DamlTransaction | JsonApiCommands | Record<string, unknown>;
+
+/**
+ * Signed transaction: a transaction payload, or an encoded string
+ */
+export type SignedTransactionPayload = TransactionPayload | string;
+
+/**
+ * Check if a value is a DamlTransaction
+ */
+export function isDamlTransaction(value: unknown): value is DamlTransaction {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const commands = (value as Record<string, unknown>).commands;
+  return (
+    Array.isArray(commands) &&
+    commands.length > 0 &&
+    commands.every(
+      (cmd) =>
+        typeof cmd === 'object' &&
+        cmd !== null &&
+        ['create', 'exercise', 'createAndExercise'].includes(
+          (cmd as Record<string, unknown>).type as string
+        )
+    )
+  );
+}
+
+/**
+ * Encode a single command in JSON Ledger API format
+ */
+function toJsonApiCommand(command: DamlCommand): JsonApiCommand {
+  switch (command.type) {
+    case 'create':
+      return {
+        CreateCommand: {
+          templateId: command.templateId,
+          createArguments: command.createArguments,
+        },
+      };
+    case 'exercise':
+      return {
+        ExerciseCommand: {
+          templateId: command.templateId,
+          contractId: command.contractId,
+          choice: command.choice,
+          choiceArgument: command.choiceArgument,
+        },
+      };
+    case 'createAndExercise':
+      return {
+        CreateAndExerciseCommand: {
+          templateId: command.templateId,
+          createArguments: command.createArguments,
+          choice: command.choice,
+          choiceArgument: command.choiceArgument,
+        },
+      };
+  }
+}
+
+/**
+ * Encode a DamlTransaction in JSON Ledger API format
+ *
+ * @param tx Transaction to encode
+ * @param defaults Values used when the transaction leaves them unset
+ */
+export function toJsonApiCommands(
+  tx: DamlTransaction,
+  defaults?: { actAs?: PartyId[]; commandId?: string }
+): JsonApiCommands {
+  const actAs = tx.actAs?.length ? tx.actAs : defaults?.actAs;
+  const commandId = tx.commandId ?? defaults?.commandId;
+
+  const encoded: JsonApiCommands = {
+    commands: tx.commands.map(toJsonApiCommand),
+  };
+  if (actAs?.length) encoded.actAs = actAs.map(String);
+  if (tx.readAs?.length) encoded.readAs = tx.readAs.map(String);
+  if (commandId) encoded.commandId = commandId;
+  if (tx.workflowId) encoded.workflowId = tx.workflowId;
+  if (tx.disclosedContracts?.length) encoded.disclosedContracts = tx.disclosedContracts;
+  if (tx.synchronizerId) encoded.synchronizerId = tx.synchronizerId;
+
+  return encoded;
+}
+
+/**
+ * Fluent builder for DamlTransaction
+ *
+ * @example
+ * ```typescript
+ * const tx = new DamlTransactionBuilder()
+ *   .exercise('#my-pkg:Main:Asset', assetCid, 'Transfer', { newOwner })
+ *   .disclose(disclosedAsset)
+ *   .commandId('transfer-1')
+ *   .build();
+ *
+ * await client.submitTransaction({ signedTx: tx });
+ * ```
+ */
+export class DamlTransactionBuilder {
+  private tx: DamlTransaction = { commands: [] };
+
+  /**
+   * Add a create command
+   */
+  create(templateId: string, createArguments: Record<string, unknown>): this {
+    this.tx.commands.push({ type: 'create', templateId, createArguments });
+    return this;
+  }
+
+  /**
+   * Add an exercise command
+   */
+  exercise(
+    templateId: string,
+    contractId: string,
+    choice: string,
+    choiceArgument: Record<string, unknown> = {}
+  ): this {
+    this.tx.commands.push({ type: 'exercise', templateId, contractId, choice, choiceArgument });
+    return this;
+  }
+
+  /**
+   * Add a create-and-exercise command
+   */
+  createAndExercise(
+    templateId: string,
+    createArguments: Record<string, unknown>,
+    choice: string,
+    choiceArgument: Record<string, unknown> = {}
+  ): this {
+    this.tx.commands.push({
+      type: 'createAndExercise',
+      templateId,
+      createArguments,
+      choice,
+      choiceArgument,
+    });
+    return this;
+  }
+
+  /**
+   * Set the submitting parties
+   */
+  actAs(...parties: PartyId[]): this {
+    this.tx.actAs = parties;
+    return this;
+  }
+
+  /**
+   * Set the additional reading parties
+   */
+  readAs(...parties: PartyId[]): this {
+    this.tx.readAs = parties;
+    return this;
+  }
+
+  /**
+   * Set the command ID
+   */
+  commandId(commandId: string): this {
+    this.tx.commandId = commandId;
+    return this;
+  }
+
+  /**
+   * Set the workflow ID
+   */
+  workflowId(workflowId: string): this {
+    this.tx.workflowId = workflowId;
+    return this;
+  }
+
+  /**
+   * Add disclosed contracts
+   */
+  disclose(...contracts: DisclosedContract[]): this {
+    this.tx.disclosedContracts = [...(this.tx.disclosedContracts ?? []), ...contracts];
+    return this;
+  }
+
+  /**
+   * Set the synchronizer
+   */
+  synchronizer(synchronizerId: string): this {
+    this.tx.synchronizerId = synchronizerId;
+    return this;
+  }
+
+  /**
+   * Build the transaction
+   */
+  build(): DamlTransaction {
+    if (this.tx.commands.length === 0) {
+      throw new Error('DamlTransaction requires at least one command');
+    }
+    return {
+      ...this.tx,
+      commands: [...this.tx.commands],
+    };
+  }
+}
@@ -17,8 +17,12 @@ export type ErrorCode =
   | 'USER_REJECTED'
   | 'ORIGIN_NOT_ALLOWED'
   | 'SESSION_EXPIRED'
+  | 'PARTY_NOT_FOUND'
+  | 'NETWORK_NOT_SUPPORTED'
   | 'CAPABILITY_NOT_SUPPORTED'
+  | 'TRANSACTION_FAILED'
   | 'TRANSPORT_ERROR'
+  | 'LEDGER_API_ERROR'
   | 'REGISTRY_FETCH_FAILED'
   | 'REGISTRY_VERIFICATION_FAILED'
   | 'REGISTRY_SCHEMA_INVALID'
@@ -32,7 +36,7 @@ export interface ErrorMappingContext {
   /** Wallet ID (if applicable) */
   walletId?: string;
   /** Operation phase */
-  phase: 'connect' | 'restore' | 'signMessage' | 'signTransaction' | 'submitTransaction' | 'ledgerApi';
+  phase: 'connect' | 'connectSilently' | 'restore' | 'signMessage' | 'signTransaction' | 'signBatch' | 'submitTransaction' | 'ledgerApi' | 'switchNetwork' | 'registry' | 'disconnect' | 'refresh' | 'streamUpdates';
   /** Transport type */
   transport?: 'injected' | 'popup' | 'deeplink' | 'remote';
   /** Timeout in milliseconds (for timeout errors) */
@@ -161,6 +165,38 @@ export class SessionExpiredError extends PartyLayerError {
   }
 }
 
+/**
+ * Party not found error
+ */
+export class PartyNotFoundError extends PartyLayerError {
+  constructor(partyId: string, sessionId?: string) {
+    super(
+      `Party "${partyId}" is not available${sessionId ? ` in session "${sessionId}"` : ''}`,
+      'PARTY_NOT_FOUND',
+      {
+        details: { partyId, sessionId },
+      }
+    );
+    this.name = 'PartyNotFoundError';
+  }
+}
+
+/**
+ * Network not supported error
+ */
+export class NetworkNotSupportedError extends PartyLayerError {
+  constructor(walletId: string, network: string) {
+    super(
+      `Wallet "${walletId}" does not support network "${network}"`,
+      'NETWORK_NOT_SUPPORTED',
+      {
+        details: { walletId, network },
+      }
+    );
+    this.name = 'NetworkNotSupportedError';
+  }
+}
+
 /**
  * Capability not supported error
  */
@@ -177,6 +213,22 @@ export class CapabilityNotSupportedError extends PartyLayerError {
   }
 }
 
+/**
+ * Transaction failed error
+ */
+export class TransactionFailedError extends PartyLayerError {
+  constructor(txId: string, status: string, reason?: string) {
+    super(
+      `Transaction "${txId}" ${status}${reason ? `: ${reason}` : ''}`,
+      'TRANSACTION_FAILED',
+      {
+        details: { txId, status, reason },
+      }
+    );
+    this.name = 'TransactionFailedError';
+  }
+}
+
 /**
  * Transport error
  */
@@ -190,6 +242,22 @@ export class TransportError extends PartyLayerError {
   }
 }
 
+/**
+ * Ledger API error
+ *
+ * The JSON Ledger API rejected a request proxied through the wallet.
+ * `details` carries the resource, the ledger error code (e.g.
+ * `CONTRACT_NOT_FOUND`) and the gRPC/HTTP status when reported.
+ */
+export class LedgerApiError extends PartyLayerError {
+  constructor(resource: string, reason: string, details?: Record<string, unknown>) {
+    super(`Ledger API request "${resource}" failed: ${reason}`, 'LEDGER_API_ERROR', {
+      details: { resource, reason, ...details },
+    });
+    this.name = 'LedgerApiError';
+  }
+}
+
 /**
  * Registry fetch failed error
  */
@@ -7,10 +7,13 @@ export * from './types';
 export * from './errors';
 export * from './adapters';
 export * from './session';
+export * from './commands';
 export * from './transport/types';
 export * from './metrics';
 export * from './metrics-payload';
 export * from './cip0103-types';
+export * from './signature';
+export * from './siwc';
 export { DeepLinkTransport } from './transport/deeplink';
 export { PopupTransport } from './transport/popup';
 export { PostMessageTransport } from './transport/postmessage';
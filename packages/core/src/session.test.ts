@@ -8,8 +8,10 @@ import {
   validateSession,
   isSessionExpired,
   createSession,
+  getSigningPartyId,
 } from './session';
 import type { Session } from './types';
+import { toPartyId } from './types';
 
 describe('session utilities', () => {
   describe('generateSessionId', () => {
@@ -98,4 +100,17 @@ describe('session utilities', () => {
       expect(session.expiresAt! - session.createdAt).toBe(expiresInMs);
     });
   });
+
+  describe('getSigningPartyId', () => {
+    it('should return the primary account, not the selected party', () => {
+      const session = createSession('console', 'party::b', 'devnet', 'https://example.com');
+      expect(getSigningPartyId(session)).toBe('party::b');
+
+      session.accounts = [
+        { partyId: toPartyId('party::a'), primary: true },
+        { partyId: toPartyId('party::b'), primary: false },
+      ];
+      expect(getSigningPartyId(session)).toBe('party::a');
+    });
+  });
 });
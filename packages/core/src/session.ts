@@ -2,7 +2,7 @@
  * Session management utilities
  */
 
-import type { Session, SessionId } from './types';
+import type { Session, SessionId, PartyId } from './types';
 import { toSessionId } from './types';
 
 /**
@@ -44,6 +44,17 @@ export function isSessionExpired(session: Session): boolean {
   return Date.now() >= session.expiresAt;
 }
 
+/**
+ * Party a session's wallet signs as
+ *
+ * Wallets sign with their primary party's key whichever party is
+ * selected, so this is the primary account (or the session party when
+ * the wallet lists no accounts).
+ */
+export function getSigningPartyId(session: Session): PartyId {
+  return session.accounts?.find((account) => account.primary)?.partyId ?? session.partyId;
+}
+
 /**
  * Create a session with default values
  */
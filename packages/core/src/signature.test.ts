@@ -0,0 +1,228 @@
+/**
+ * Signature Verification Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { generateKeyPairSync, sign, createHash } from 'node:crypto';
+import { matchesKeyFingerprint, verifyMessageSignature, verifyTransactionSignature } from './signature';
+import type { CIP0103TxSignedPayload } from './cip0103-types';
+import { toSignature } from './types';
+
+/** Canton fingerprint of a key encoding */
+function fingerprint(key: Buffer): string {
+  return `1220${createHash('sha256').update(Buffer.concat([Buffer.from([0, 0, 0, 12]), key])).digest('hex')}`;
+}
+
+function secp256k1Signer() {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+  const spki = publicKey.export({ type: 'spki', format: 'der' });
+  const raw = spki.subarray(-65);
+  return {
+    spki: spki.toString('base64'),
+    raw: raw.toString('hex'),
+    compressed: Buffer.concat([Buffer.from([2 + (raw[64] & 1)]), raw.subarray(1, 33)]).toString('hex'),
+    sign: (data: Buffer, encoding: 'der' | 'ieee-p1363' = 'der') =>
+      sign('sha256', data, { key: privateKey, dsaEncoding: encoding }),
+  };
+}
+
+describe('verifyMessageSignature', () => {
+  it('should verify Ed25519 signatures and report mismatches', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const raw = publicKey.export({ type: 'spki', format: 'der' }).subarray(-32);
+    const key = raw.toString('base64');
+    const signed = {
+      message: 'hello canton',
+      partyId: `alice::${fingerprint(raw)}`,
+      signature: toSignature(sign(null, Buffer.from('hello canton'), privateKey).toString('hex')),
+    };
+
+    expect(await verifyMessageSignature(signed, key)).toEqual({ valid: true, scheme: 'ed25519' });
+    expect(await verifyMessageSignature(signed, key, { partyId: signed.partyId })).toMatchObject({ valid: true });
+    expect(await verifyMessageSignature({ ...signed, message: 'hello' }, key)).toEqual({
+      valid: false,
+      reason: 'signature-mismatch',
+      scheme: 'ed25519',
+    });
+    expect(await verifyMessageSignature(signed, key, { partyId: 'bob::1220' })).toMatchObject({
+      reason: 'party-mismatch',
+    });
+    expect(await verifyMessageSignature(signed, key, { scheme: 'secp256k1' })).toMatchObject({
+      reason: 'invalid-public-key',
+    });
+    expect(await verifyMessageSignature({ ...signed, signature: toSignature('!!') }, key)).toMatchObject({
+      reason: 'invalid-signature-encoding',
+    });
+  });
+
+  it('should require the key to be the namespace key of the party unless trusted', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const spki = publicKey.export({ type: 'spki', format: 'der' });
+    const signed = {
+      message: 'hello canton',
+      partyId: 'alice::1220abcd',
+      signature: toSignature(sign(null, Buffer.from('hello canton'), privateKey).toString('hex')),
+    };
+    const key = spki.toString('hex');
+
+    expect(await verifyMessageSignature(signed, key, { partyId: signed.partyId })).toEqual({
+      valid: false,
+      reason: 'party-mismatch',
+      scheme: 'ed25519',
+    });
+    expect(
+      await verifyMessageSignature(signed, key, { partyId: signed.partyId, trustedPublicKey: true })
+    ).toMatchObject({ valid: true });
+
+    // Namespaces of SPKI-encoded keys match as well
+    const party = `alice::${fingerprint(spki)}`;
+    expect(await verifyMessageSignature({ ...signed, partyId: party }, key, { partyId: party })).toMatchObject({
+      valid: true,
+    });
+    expect(await matchesKeyFingerprint(key, fingerprint(spki.subarray(-32)).toUpperCase())).toBe(true);
+  });
+
+  it('should verify the RFC 8032 Ed25519 test vector', async () => {
+    const key = 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a';
+    const signature = toSignature(
+      'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b'
+    );
+
+    expect(await verifyMessageSignature({ message: '', signature }, key)).toEqual({ valid: true, scheme: 'ed25519' });
+  });
+
+  it('should reject Ed25519 keys that are not curve points or that the runtime refuses', async () => {
+    const signature = toSignature('00'.repeat(64));
+    const offCurve = `02${'00'.repeat(31)}`;
+
+    expect(await verifyMessageSignature({ message: 'm', signature }, offCurve)).toEqual({
+      valid: false,
+      reason: 'invalid-public-key',
+      scheme: undefined,
+    });
+
+    const importKey = vi.spyOn(crypto.subtle, 'importKey').mockRejectedValueOnce(new DOMException('bad key'));
+    const key = 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a';
+    expect(await verifyMessageSignature({ message: 'm', signature }, key)).toMatchObject({
+      reason: 'invalid-public-key',
+      scheme: 'ed25519',
+    });
+    importKey.mockRestore();
+  });
+
+  it('should verify secp256k1 signatures in DER and raw encodings', async () => {
+    const signer = secp256k1Signer();
+    const message = 'hello canton';
+    const der = signer.sign(Buffer.from(message)).toString('base64');
+    const raw = signer.sign(Buffer.from(message), 'ieee-p1363').toString('hex');
+
+    expect(await verifyMessageSignature({ message, signature: toSignature(der) }, signer.spki)).toEqual({
+      valid: true,
+      scheme: 'secp256k1',
+    });
+    expect(await verifyMessageSignature({ message, signature: toSignature(raw) }, signer.raw)).toMatchObject({
+      valid: true,
+    });
+    expect(await verifyMessageSignature({ message, signature: toSignature(der) }, signer.compressed)).toMatchObject({
+      valid: true,
+    });
+    expect(
+      await verifyMessageSignature({ message: 'other', signature: toSignature(der) }, signer.spki)
+    ).toMatchObject({ valid: false, reason: 'signature-mismatch' });
+  });
+
+  // Private key 1, so the public key is the generator point
+  const G = '0479be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8';
+  const r = '934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d8';
+  const s = '2442ce9d2b916064108014783e923ec36b49743e2ffa1c4496f01a512aafd9e5';
+  const highS = 'dbbd3162d46e9f9bef7feb87c16dc13b4f6568a87f4e83f728e2443ba586675c';
+  const message = 'Satoshi Nakamoto';
+
+  it('should verify a known secp256k1 vector, including its high-s form', async () => {
+    const der = `3045022100${r}0220${s}`;
+
+    for (const signature of [`${r}${s}`, der, `${r}${highS}`]) {
+      expect(await verifyMessageSignature({ message, signature: toSignature(signature) }, G)).toEqual({
+        valid: true,
+        scheme: 'secp256k1',
+      });
+    }
+    expect(await verifyMessageSignature({ message: 'Satoshi', signature: toSignature(`${r}${s}`) }, G)).toMatchObject({
+      reason: 'signature-mismatch',
+    });
+  });
+
+  it('should reject off-curve keys and malformed DER signatures', async () => {
+    const offCurve = `04${'00'.repeat(31)}01${'00'.repeat(31)}01`;
+    expect(await verifyMessageSignature({ message, signature: toSignature(`${r}${s}`) }, offCurve)).toMatchObject({
+      reason: 'invalid-public-key',
+    });
+
+    const n = 'fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141';
+    const malformed = [
+      `3046022100${r}0220${s}`, // sequence length too long
+      `3045022100${r}0220${s}00`, // trailing byte
+      `302402000220${s}`, // empty r
+      `30250201000220${s}`, // r = 0
+      `3045022100${n}0220${s}`, // r = n
+      `308145022100${r}0220${s}`, // long-form sequence length
+    ];
+    for (const signature of malformed) {
+      expect(await verifyMessageSignature({ message, signature: toSignature(signature) }, G)).toEqual({
+        valid: false,
+        reason: 'invalid-signature-encoding',
+        scheme: 'secp256k1',
+      });
+    }
+  });
+});
+
+describe('verifyTransactionSignature', () => {
+  it('should verify the signature over the prepared transaction hash', async () => {
+    const signer = secp256k1Signer();
+    const hash = createHash('sha256').update('prepared transaction').digest();
+    const keyFingerprint = fingerprint(Buffer.from(signer.compressed, 'hex'));
+    const party = `alice::${keyFingerprint}`;
+    const payload: CIP0103TxSignedPayload = {
+      status: 'signed',
+      commandId: 'cmd-1',
+      payload: { signature: signer.sign(hash).toString('hex'), signedBy: keyFingerprint, party },
+    };
+    const data = hash.toString('base64');
+
+    expect(await verifyTransactionSignature(payload, data, signer.spki)).toMatchObject({ valid: true });
+    expect(await verifyTransactionSignature(payload, data, signer.spki, { partyId: party })).toMatchObject({
+      valid: true,
+    });
+    expect(
+      await verifyTransactionSignature(payload, data, signer.spki, { partyId: 'bob::1220' })
+    ).toMatchObject({ reason: 'party-mismatch' });
+    expect(await verifyTransactionSignature(payload, '', signer.spki)).toMatchObject({ reason: 'invalid-data' });
+  });
+
+  it('should compare signedBy and the party namespace with the key fingerprint', async () => {
+    const signer = secp256k1Signer();
+    const hash = createHash('sha256').update('prepared transaction').digest();
+    const signed = (signedBy: string, party: string): CIP0103TxSignedPayload => ({
+      status: 'signed',
+      commandId: 'cmd-1',
+      payload: { signature: signer.sign(hash).toString('hex'), signedBy, party },
+    });
+    const data = hash.toString('hex');
+
+    expect(await verifyTransactionSignature(signed('1220abcd', 'alice::1220abcd'), data, signer.raw)).toEqual({
+      valid: false,
+      reason: 'signer-mismatch',
+      scheme: 'secp256k1',
+    });
+
+    // A participant-hosted party signs with a key outside its namespace
+    const hosted = signed(fingerprint(Buffer.from(signer.raw, 'hex')), 'alice::1220abcd');
+    expect(await verifyTransactionSignature(hosted, data, signer.raw, { partyId: 'alice::1220abcd' })).toMatchObject({
+      reason: 'party-mismatch',
+    });
+    expect(
+      await verifyTransactionSignature(hosted, data, signer.raw, { partyId: 'alice::1220abcd', trustedPublicKey: true })
+    ).toMatchObject({ valid: true });
+  });
+});
@@ -0,0 +1,538 @@
+/**
+ * Offline signature verification
+ *
+ * Verifies what wallets return from signMessage() and the CIP-0103
+ * `txChanged` signed payload, so a backend does not have to trust the
+ * wallet. Supports the key schemes Canton wallets use:
+ * - Ed25519 (WebCrypto)
+ * - ECDSA secp256k1 with SHA-256 (pure BigInt; WebCrypto has no secp256k1)
+ *
+ * Public keys are accepted raw (Ed25519: 32 bytes; secp256k1: 33-byte
+ * compressed or 65-byte uncompressed) or as DER SubjectPublicKeyInfo.
+ * Signatures are accepted raw (64 bytes `r || s`, or 65 with a recovery
+ * byte) or DER-encoded. Keys and signatures may be hex (with or without
+ * `0x`) or base64/base64url strings. ECDSA signatures with a high `s` are
+ * accepted, as by the Canton participant.
+ *
+ * A valid signature only proves that the given key signed. To tie the key
+ * to a party, pass `partyId`: the key's Canton fingerprint must then be the
+ * party's namespace (the part after `::`). Parties whose namespace key is
+ * not the signing key need the key from a trusted source (e.g. the party's
+ * topology through the Ledger API) and `trustedPublicKey: true`.
+ */
+
+import type { CIP0103TxSignedPayload } from './cip0103-types';
+
+/**
+ * Supported key schemes
+ */
+export type SignatureScheme = 'ed25519' | 'secp256k1';
+
+/**
+ * Why a signature was rejected
+ */
+export type SignatureFailureReason =
+  /** Signature is not valid hex/base64 or not a known signature layout */
+  | 'invalid-signature-encoding'
+  /** Public key is not valid hex/base64 or not a key of a supported scheme */
+  | 'invalid-public-key'
+  /** Signed data is not valid hex/base64 (transaction hash) */
+  | 'invalid-data'
+  /** The key is not the namespace key of the expected party */
+  | 'party-mismatch'
+  /** The key's fingerprint is not the reported signer (`signedBy`) */
+  | 'signer-mismatch'
+  /** The runtime has no WebCrypto Ed25519 support */
+  | 'unsupported-runtime'
+  /** Well-formed signature that does not verify */
+  | 'signature-mismatch';
+
+/**
+ * Signature verification result
+ */
+export type SignatureVerificationResult =
+  | { valid: true; scheme: SignatureScheme }
+  | { valid: false; reason: SignatureFailureReason; scheme?: SignatureScheme };
+
+/**
+ * Signature verification options
+ */
+export interface SignatureVerificationOptions {
+  /** Key scheme (default: inferred from the public key) */
+  scheme?: SignatureScheme;
+  /**
+   * Party the signature must come from. The party reported with the
+   * signature must be this party, and the key's fingerprint its namespace
+   * (unless `trustedPublicKey` is set).
+   */
+  partyId?: string;
+  /**
+   * The public key comes from a trusted source (e.g. the party's topology
+   * through the Ledger API), not from the client. Skips the namespace check
+   * of `partyId`; the reported party is still compared.
+   */
+  trustedPublicKey?: boolean;
+}
+
+/**
+ * Verify a signMessage() result (SignedMessage) against the signer's
+ * public key
+ *
+ * The signature covers the UTF-8 bytes of `message`. Without
+ * `options.partyId`, a valid result says nothing about the signing party.
+ */
+export async function verifyMessageSignature(
+  signed: { message: string; signature: string; partyId?: string },
+  publicKey: string,
+  options: SignatureVerificationOptions = {}
+): Promise<SignatureVerificationResult> {
+  if (options.partyId !== undefined && signed.partyId !== options.partyId) {
+    return { valid: false, reason: 'party-mismatch' };
+  }
+  const key = decodeKey(publicKey, options.scheme);
+  if (!key) {
+    return { valid: false, reason: 'invalid-public-key', scheme: options.scheme };
+  }
+  const result = await verifySignature(new TextEncoder().encode(signed.message), signed.signature, key);
+  if (!result.valid || options.partyId === undefined || options.trustedPublicKey) {
+    return result;
+  }
+  return (await keyMatchesFingerprint(key, namespaceOf(options.partyId)))
+    ? result
+    : { valid: false, reason: 'party-mismatch', scheme: key.scheme };
+}
+
+/**
+ * Verify a CIP-0103 signed transaction payload against the signer's
+ * public key
+ *
+ * The signature covers the prepared transaction hash (hex or base64), as
+ * returned by the ledger's prepare step. The key's fingerprint must match
+ * `signedBy` (a key fingerprint, or a party whose namespace is used).
+ */
+export async function verifyTransactionSignature(
+  signed: CIP0103TxSignedPayload,
+  transactionHash: string,
+  publicKey: string,
+  options: SignatureVerificationOptions = {}
+): Promise<SignatureVerificationResult> {
+  if (options.partyId !== undefined && signed.payload.party !== options.partyId) {
+    return { valid: false, reason: 'party-mismatch' };
+  }
+  const data = decodeBytes(transactionHash);
+  if (!data) {
+    return { valid: false, reason: 'invalid-data' };
+  }
+  const key = decodeKey(publicKey, options.scheme);
+  if (!key) {
+    return { valid: false, reason: 'invalid-public-key', scheme: options.scheme };
+  }
+  const result = await verifySignature(data, signed.payload.signature, key);
+  if (!result.valid) {
+    return result;
+  }
+
+  const { signedBy } = signed.payload;
+  // A party as signer is held to the same rule as options.partyId
+  const checkSigner = !signedBy.includes('::') || !options.trustedPublicKey;
+  if (checkSigner && !(await keyMatchesFingerprint(key, namespaceOf(signedBy)))) {
+    return { valid: false, reason: 'signer-mismatch', scheme: key.scheme };
+  }
+  if (
+    options.partyId !== undefined &&
+    !options.trustedPublicKey &&
+    !(await keyMatchesFingerprint(key, namespaceOf(options.partyId)))
+  ) {
+    return { valid: false, reason: 'party-mismatch', scheme: key.scheme };
+  }
+  return result;
+}
+
+/**
+ * Whether a public key has the given Canton fingerprint
+ *
+ * The fingerprint is the hex multihash (`1220…`) of SHA-256 over the hash
+ * purpose 12 (4 bytes, big-endian) followed by the key. Both the raw and
+ * the SubjectPublicKeyInfo encodings of the key are tried. Returns false
+ * for keys that cannot be decoded.
+ */
+export async function matchesKeyFingerprint(
+  publicKey: string,
+  fingerprint: string,
+  scheme?: SignatureScheme
+): Promise<boolean> {
+  const key = decodeKey(publicKey, scheme);
+  return key !== null && keyMatchesFingerprint(key, fingerprint);
+}
+
+/** Namespace of a party ID (the fingerprint after `::`); other values are returned as is */
+function namespaceOf(value: string): string {
+  const separator = value.indexOf('::');
+  return separator === -1 ? value : value.slice(separator + 2);
+}
+
+const FINGERPRINT_HASH_PURPOSE = new Uint8Array([0, 0, 0, 12]);
+
+async function keyMatchesFingerprint(key: DecodedKey, fingerprint: string): Promise<boolean> {
+  const expected = fingerprint.toLowerCase();
+  for (const encoding of keyEncodings(key)) {
+    const input = new Uint8Array(FINGERPRINT_HASH_PURPOSE.length + encoding.length);
+    input.set(FINGERPRINT_HASH_PURPOSE);
+    input.set(encoding, FINGERPRINT_HASH_PURPOSE.length);
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+    if (`1220${toHex(digest)}` === expected) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Raw and SubjectPublicKeyInfo encodings of a key (both point forms for secp256k1) */
+function keyEncodings(key: DecodedKey): Uint8Array[] {
+  if (key.scheme === 'ed25519') {
+    return [key.raw, concat(ED25519_SPKI_PREFIX, key.raw)];
+  }
+  const point = decodePoint(key.raw)!;
+  const x = toBytes32(point.x);
+  const uncompressed = concat(new Uint8Array([0x04]), x, toBytes32(point.y));
+  const compressed = concat(new Uint8Array([point.y & 1n ? 0x03 : 0x02]), x);
+  return [
+    uncompressed,
+    compressed,
+    concat(SECP256K1_SPKI_PREFIX, uncompressed),
+    concat(SECP256K1_COMPRESSED_SPKI_PREFIX, compressed),
+  ];
+}
+
+interface DecodedKey {
+  scheme: SignatureScheme;
+  raw: Uint8Array<ArrayBuffer>;
+}
+
+/** Decode a public key string, checking that it is a point of its curve */
+function decodeKey(publicKey: string, scheme?: SignatureScheme): DecodedKey | null {
+  const bytes = decodeBytes(publicKey);
+  const key = bytes && decodePublicKey(bytes, scheme);
+  if (!key) {
+    return null;
+  }
+  const onCurve = key.scheme === 'ed25519' ? isEd25519Point(key.raw) : decodePoint(key.raw) !== null;
+  return onCurve ? key : null;
+}
+
+async function verifySignature(
+  data: Uint8Array<ArrayBuffer>,
+  signature: string,
+  key: DecodedKey
+): Promise<SignatureVerificationResult> {
+  const sigBytes = decodeBytes(signature);
+  if (!sigBytes) {
+    return { valid: false, reason: 'invalid-signature-encoding', scheme: key.scheme };
+  }
+
+  if (key.scheme === 'ed25519') {
+    if (sigBytes.length !== 64) {
+      return { valid: false, reason: 'invalid-signature-encoding', scheme: 'ed25519' };
+    }
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      return { valid: false, reason: 'unsupported-runtime', scheme: 'ed25519' };
+    }
+    let cryptoKey: CryptoKey;
+    try {
+      cryptoKey = await crypto.subtle.importKey('raw', key.raw, { name: 'Ed25519' }, false, ['verify']);
+    } catch {
+      // Either no Ed25519 in this WebCrypto or a key this runtime refuses
+      const reason = (await ed25519Supported()) ? 'invalid-public-key' : 'unsupported-runtime';
+      return { valid: false, reason, scheme: 'ed25519' };
+    }
+    const valid = await crypto.subtle.verify('Ed25519', cryptoKey, sigBytes, data);
+    return valid ? { valid: true, scheme: 'ed25519' } : { valid: false, reason: 'signature-mismatch', scheme: 'ed25519' };
+  }
+
+  const point = decodePoint(key.raw)!;
+  const rs = decodeEcdsaSignature(sigBytes);
+  if (!rs) {
+    return { valid: false, reason: 'invalid-signature-encoding', scheme: 'secp256k1' };
+  }
+  const digest = await sha256(data);
+  return ecdsaVerify(digest, rs, point)
+    ? { valid: true, scheme: 'secp256k1' }
+    : { valid: false, reason: 'signature-mismatch', scheme: 'secp256k1' };
+}
+
+// ---------------------------------------------------------------------------
+// Encodings
+// ---------------------------------------------------------------------------
+
+// DER prefixes of SubjectPublicKeyInfo (RFC 8410, RFC 5480)
+const ED25519_SPKI_PREFIX = hex('302a300506032b6570032100');
+const SECP256K1_SPKI_PREFIX = hex('3056301006072a8648ce3d020106052b8104000a034200');
+const SECP256K1_COMPRESSED_SPKI_PREFIX = hex('3036301006072a8648ce3d020106052b8104000a032200');
+
+function decodePublicKey(bytes: Uint8Array<ArrayBuffer>, scheme?: SignatureScheme): DecodedKey | null {
+  let candidate: DecodedKey | null = null;
+  if (startsWith(bytes, ED25519_SPKI_PREFIX) && bytes.length === ED25519_SPKI_PREFIX.length + 32) {
+    candidate = { scheme: 'ed25519', raw: bytes.slice(ED25519_SPKI_PREFIX.length) };
+  } else if (startsWith(bytes, SECP256K1_SPKI_PREFIX) && bytes.length === SECP256K1_SPKI_PREFIX.length + 65) {
+    candidate = { scheme: 'secp256k1', raw: bytes.slice(SECP256K1_SPKI_PREFIX.length) };
+  } else if (
+    startsWith(bytes, SECP256K1_COMPRESSED_SPKI_PREFIX) &&
+    bytes.length === SECP256K1_COMPRESSED_SPKI_PREFIX.length + 33
+  ) {
+    candidate = { scheme: 'secp256k1', raw: bytes.slice(SECP256K1_COMPRESSED_SPKI_PREFIX.length) };
+  } else if (bytes.length === 32) {
+    candidate = { scheme: 'ed25519', raw: bytes };
+  } else if (bytes.length === 33 || bytes.length === 65) {
+    candidate = { scheme: 'secp256k1', raw: bytes };
+  }
+
+  if (!candidate || (scheme && candidate.scheme !== scheme)) {
+    return null;
+  }
+  return candidate;
+}
+
+/** Decode a raw (`r || s`, optional recovery byte) or DER ECDSA signature */
+function decodeEcdsaSignature(bytes: Uint8Array): { r: bigint; s: bigint } | null {
+  let rs: { r: bigint; s: bigint } | null = parseDerSignature(bytes);
+  if (!rs && (bytes.length === 64 || bytes.length === 65)) {
+    rs = { r: toBigInt(bytes.subarray(0, 32)), s: toBigInt(bytes.subarray(32, 64)) };
+  }
+  if (!rs || rs.r <= 0n || rs.r >= N || rs.s <= 0n || rs.s >= N) {
+    return null;
+  }
+  return rs;
+}
+
+/** SEQUENCE { INTEGER r, INTEGER s } with short-form lengths */
+function parseDerSignature(bytes: Uint8Array): { r: bigint; s: bigint } | null {
+  if (bytes.length < 8 || bytes[0] !== 0x30 || bytes[1] !== bytes.length - 2) {
+    return null;
+  }
+  const readInteger = (offset: number): { value: bigint; next: number } | null => {
+    if (bytes[offset] !== 0x02) {
+      return null;
+    }
+    const length = bytes[offset + 1];
+    const start = offset + 2;
+    if (length === undefined || length === 0 || length > 33 || start + length > bytes.length) {
+      return null;
+    }
+    return { value: toBigInt(bytes.subarray(start, start + length)), next: start + length };
+  };
+
+  const r = readInteger(2);
+  const s = r && readInteger(r.next);
+  if (!r || !s || s.next !== bytes.length) {
+    return null;
+  }
+  return { r: r.value, s: s.value };
+}
+
+/** Decode hex (optionally 0x-prefixed) or base64/base64url */
+function decodeBytes(value: string) {
+  const hexValue = value.startsWith('0x') ? value.slice(2) : value;
+  if (/^([0-9a-fA-F]{2})+$/.test(hexValue)) {
+    return hex(hexValue);
+  }
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.length > 0 ? bytes : null;
+  } catch {
+    return null;
+  }
+}
+
+function hex(value: string) {
+  const bytes = new Uint8Array(value.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toBytes32(value: bigint): Uint8Array {
+  return hex(value.toString(16).padStart(64, '0'));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function startsWith(bytes: Uint8Array, prefix: Uint8Array): boolean {
+  return bytes.length >= prefix.length && prefix.every((byte, i) => bytes[i] === byte);
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value;
+}
+
+async function sha256(data: Uint8Array<ArrayBuffer>): Promise<bigint> {
+  return toBigInt(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+}
+
+// ---------------------------------------------------------------------------
+// Ed25519
+// ---------------------------------------------------------------------------
+
+const ED25519_P = 2n ** 255n - 19n;
+
+/** Whether 32 bytes decode to a point of edwards25519 (RFC 8032, 5.1.3) */
+function isEd25519Point(bytes: Uint8Array): boolean {
+  const sign = bytes[31] >> 7;
+  const y = toBigInt(Uint8Array.from(bytes).reverse()) & ((1n << 255n) - 1n);
+  if (y >= ED25519_P) {
+    return false;
+  }
+  const p = ED25519_P;
+  const d = mod(-121665n * modInverse(121666n, p), p);
+  const x2 = mod((y * y - 1n) * modInverse(d * y * y + 1n, p), p);
+  if (x2 === 0n) {
+    return sign === 0;
+  }
+  // Euler's criterion: x² has a square root
+  return modPow(x2, (p - 1n) / 2n, p) === 1n;
+}
+
+// RFC 8032 test 1 public key, to tell an unsupported runtime from a refused key
+const ED25519_PROBE_KEY = hex('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a');
+let ed25519Support: Promise<boolean> | undefined;
+
+function ed25519Supported(): Promise<boolean> {
+  ed25519Support ??= crypto.subtle
+    .importKey('raw', ED25519_PROBE_KEY, { name: 'Ed25519' }, false, ['verify'])
+    .then(
+      () => true,
+      () => false
+    );
+  return ed25519Support;
+}
+
+// ---------------------------------------------------------------------------
+// secp256k1
+// ---------------------------------------------------------------------------
+
+const P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const G: Point = {
+  x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+};
+
+/** Affine point (null stands for the point at infinity) */
+interface Point {
+  x: bigint;
+  y: bigint;
+}
+
+function mod(a: bigint, m: bigint): bigint {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+}
+
+function modPow(base: bigint, exponent: bigint, m: bigint): bigint {
+  let result = 1n;
+  base = mod(base, m);
+  while (exponent > 0n) {
+    if (exponent & 1n) {
+      result = (result * base) % m;
+    }
+    base = (base * base) % m;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+function modInverse(a: bigint, m: bigint): bigint {
+  let [oldR, r] = [mod(a, m), m];
+  let [oldS, s] = [1n, 0n];
+  while (r !== 0n) {
+    const q = oldR / r;
+    [oldR, r] = [r, oldR - q * r];
+    [oldS, s] = [s, oldS - q * s];
+  }
+  return mod(oldS, m);
+}
+
+function isOnCurve({ x, y }: Point): boolean {
+  return mod(y * y - (x * x * x + 7n), P) === 0n;
+}
+
+/** Decode a compressed (0x02/0x03) or uncompressed (0x04) SEC1 point */
+function decodePoint(bytes: Uint8Array): Point | null {
+  let point: Point;
+  if (bytes.length === 65 && bytes[0] === 0x04) {
+    point = { x: toBigInt(bytes.subarray(1, 33)), y: toBigInt(bytes.subarray(33)) };
+  } else if (bytes.length === 33 && (bytes[0] === 0x02 || bytes[0] === 0x03)) {
+    const x = toBigInt(bytes.subarray(1));
+    // P ≡ 3 (mod 4), so the square root is a power
+    let y = modPow(x * x * x + 7n, (P + 1n) / 4n, P);
+    if ((y & 1n) !== BigInt(bytes[0] & 1)) {
+      y = P - y;
+    }
+    point = { x, y };
+  } else {
+    return null;
+  }
+  return point.x < P && point.y < P && isOnCurve(point) ? point : null;
+}
+
+function pointAdd(a: Point | null, b: Point | null): Point | null {
+  if (!a) return b;
+  if (!b) return a;
+  if (a.x === b.x) {
+    if (mod(a.y + b.y, P) === 0n) {
+      return null;
+    }
+    // Doubling
+    const lambda = mod(3n * a.x * a.x * modInverse(2n * a.y, P), P);
+    const x = mod(lambda * lambda - 2n * a.x, P);
+    return { x, y: mod(lambda * (a.x - x) - a.y, P) };
+  }
+  const lambda = mod((b.y - a.y) * modInverse(b.x - a.x, P), P);
+  const x = mod(lambda * lambda - a.x - b.x, P);
+  return { x, y: mod(lambda * (a.x - x) - a.y, P) };
+}
+
+/** u1·G + u2·Q in one double-and-add pass (Shamir's trick) */
+function doubleMultiply(u1: bigint, u2: bigint, q: Point): Point | null {
+  const both = pointAdd(G, q);
+  let result: Point | null = null;
+  for (let bit = 255n; bit >= 0n; bit--) {
+    result = pointAdd(result, result);
+    const b1 = (u1 >> bit) & 1n;
+    const b2 = (u2 >> bit) & 1n;
+    if (b1 && b2) {
+      result = pointAdd(result, both);
+    } else if (b1) {
+      result = pointAdd(result, G);
+    } else if (b2) {
+      result = pointAdd(result, q);
+    }
+  }
+  return result;
+}
+
+function ecdsaVerify(digest: bigint, { r, s }: { r: bigint; s: bigint }, q: Point): boolean {
+  const w = modInverse(s, N);
+  const point = doubleMultiply(mod(digest * w, N), mod(r * w, N), q);
+  return point !== null && mod(point.x, N) === r;
+}
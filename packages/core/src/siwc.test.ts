@@ -0,0 +1,139 @@
+/**
+ * Sign-In-With-Canton Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import {
+  createSignInMessage,
+  formatSignInMessage,
+  parseSignInMessage,
+  verifySignIn,
+} from './siwc';
+import { toPartyId } from './types';
+import { InternalError } from './errors';
+
+async function createSigner() {
+  const keys = (await crypto.subtle.generateKey('Ed25519', true, ['sign', 'verify'])) as CryptoKeyPair;
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey));
+  const fingerprint = createHash('sha256').update(Buffer.from([0, 0, 0, 12])).update(raw).digest('hex');
+  return {
+    publicKey: Buffer.from(raw).toString('hex'),
+    // Party whose namespace is the key
+    partyId: toPartyId(`alice::1220${fingerprint}`),
+    keys,
+    sign: async (text: string) =>
+      Buffer.from(await crypto.subtle.sign('Ed25519', keys.privateKey, new TextEncoder().encode(text))).toString(
+        'base64'
+      ),
+  };
+}
+
+const base = {
+  domain: 'app.example.com',
+  partyId: toPartyId('alice::1220abcd'),
+  network: 'devnet',
+  nonce: 'a1b2c3d4e5f6',
+};
+
+describe('Sign-in message', () => {
+  it('should round-trip through format and parse', () => {
+    const message = createSignInMessage({
+      ...base,
+      statement: 'Sign in to Example',
+      uri: 'https://app.example.com/login',
+      issuedAt: '2026-01-01T00:00:00.000Z',
+      expirationTime: '2026-01-01T00:10:00.000Z',
+      requestId: 'req-1',
+      resources: ['https://app.example.com/a', 'https://app.example.com/b'],
+    });
+
+    const text = formatSignInMessage(message);
+    expect(text.split('\n').slice(0, 2)).toEqual([
+      'app.example.com wants you to sign in with your Canton party:',
+      'alice::1220abcd',
+    ]);
+    expect(parseSignInMessage(text)).toEqual(message);
+
+    const minimal = createSignInMessage(base);
+    expect(parseSignInMessage(formatSignInMessage(minimal))).toEqual(minimal);
+  });
+
+  it('should reject invalid fields and malformed text', () => {
+    expect(() => createSignInMessage({ ...base, nonce: 'short' })).toThrow(InternalError);
+    expect(() => createSignInMessage({ ...base, statement: 'two\nlines' })).toThrow(InternalError);
+    expect(() => parseSignInMessage('hello')).toThrow(InternalError);
+
+    const text = formatSignInMessage(createSignInMessage(base));
+    expect(() => parseSignInMessage(text.replace('Version: 1', 'Version: 2'))).toThrow(InternalError);
+    expect(() => parseSignInMessage(`${text}\nextra`)).toThrow(InternalError);
+  });
+});
+
+describe('verifySignIn', () => {
+  it('should accept a valid signature and report why others fail', async () => {
+    const signer = await createSigner();
+    const text = formatSignInMessage(
+      createSignInMessage({
+        ...base,
+        partyId: signer.partyId,
+        issuedAt: '2026-01-01T00:00:00.000Z',
+        expirationTime: '2026-01-01T00:10:00.000Z',
+      })
+    );
+    const signature = await signer.sign(text);
+    const params = {
+      message: text,
+      signature,
+      publicKey: signer.publicKey,
+      domain: base.domain,
+      nonce: base.nonce,
+      partyId: signer.partyId,
+      now: Date.parse('2026-01-01T00:05:00.000Z'),
+    };
+
+    const result = await verifySignIn(params);
+    expect(result).toMatchObject({ valid: true, message: { partyId: signer.partyId, network: 'devnet' } });
+
+    expect(await verifySignIn({ ...params, domain: 'evil.example.com' })).toMatchObject({ reason: 'domain-mismatch' });
+    expect(await verifySignIn({ ...params, nonce: 'othernonce' })).toMatchObject({ reason: 'nonce-mismatch' });
+    expect(await verifySignIn({ ...params, partyId: toPartyId('bob::1') })).toMatchObject({ reason: 'party-mismatch' });
+    expect(await verifySignIn({ ...params, now: Date.parse('2026-01-01T00:10:00.000Z') })).toMatchObject({
+      valid: false,
+      reason: 'expired',
+    });
+    expect(await verifySignIn({ ...params, message: 'not a sign-in' })).toEqual({ valid: false, reason: 'malformed' });
+
+    const other = await createSigner();
+    expect(await verifySignIn({ ...params, publicKey: other.publicKey })).toMatchObject({ reason: 'invalid-signature' });
+    expect(
+      await verifySignIn({ ...params, message: text.replace('devnet', 'mainnet') })
+    ).toMatchObject({ reason: 'invalid-signature' });
+  });
+
+  it('should accept SubjectPublicKeyInfo keys', async () => {
+    const signer = await createSigner();
+    const spki = Buffer.from(await crypto.subtle.exportKey('spki', signer.keys.publicKey)).toString('base64');
+    const text = formatSignInMessage(createSignInMessage({ ...base, partyId: signer.partyId }));
+    const signature = await signer.sign(text);
+
+    const result = await verifySignIn({ message: text, signature, publicKey: spki, domain: base.domain, nonce: base.nonce });
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject a key outside the party namespace unless it is trusted', async () => {
+    const signer = await createSigner();
+    // A valid signature by a key that is not alice::1220abcd's
+    const text = formatSignInMessage(createSignInMessage(base));
+    const params = {
+      message: text,
+      signature: await signer.sign(text),
+      publicKey: signer.publicKey,
+      domain: base.domain,
+      nonce: base.nonce,
+    };
+
+    expect(await verifySignIn(params)).toMatchObject({ valid: false, reason: 'key-mismatch' });
+    expect(await verifySignIn({ ...params, trustedPublicKey: true })).toMatchObject({ valid: true });
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Sign-In-With-Canton (SIWC)
+ *
+ * A structured sign-in message in the spirit of EIP-4361: the dApp asks
+ * the wallet to sign a human-readable text that binds the party to the
+ * domain, network and a server-issued nonce. The server parses the text
+ * back and checks it with verifySignIn().
+ *
+ * Message format:
+ *
+ * ```text
+ * ${domain} wants you to sign in with your Canton party:
+ * ${partyId}
+ *
+ * ${statement}
+ *
+ * URI: ${uri}
+ * Version: 1
+ * Network: ${network}
+ * Nonce: ${nonce}
+ * Issued At: ${issuedAt}
+ * Expiration Time: ${expirationTime}
+ * Not Before: ${notBefore}
+ * Request ID: ${requestId}
+ * Resources:
+ * - ${resources[0]}
+ * - ${resources[1]}
+ * ```
+ *
+ * The statement and every field after `Issued At` are optional.
+ */
+
+import type { PartyId, NetworkId } from './types';
+import { toPartyId } from './types';
+import { InternalError } from './errors';
+import { verifyMessageSignature } from './signature';
+
+const HEADER_SUFFIX = ' wants you to sign in with your Canton party:';
+const SIWC_VERSION = '1';
+
+/**
+ * Structured sign-in message
+ */
+export interface SignInMessage {
+  /** Host of the dApp requesting the sign-in (e.g. `app.example.com`) */
+  domain: string;
+  /** Party signing in */
+  partyId: PartyId;
+  /** Human-readable statement shown to the user (single line) */
+  statement?: string;
+  /** URI the sign-in applies to */
+  uri?: string;
+  /** Message format version */
+  version: typeof SIWC_VERSION;
+  /** Network the party is on */
+  network: NetworkId;
+  /** Server-issued nonce (at least 8 alphanumeric characters) */
+  nonce: string;
+  /** Issue time (ISO 8601) */
+  issuedAt: string;
+  /** Time after which the message is no longer valid (ISO 8601) */
+  expirationTime?: string;
+  /** Time before which the message is not yet valid (ISO 8601) */
+  notBefore?: string;
+  /** Request identifier for the dApp's own bookkeeping */
+  requestId?: string;
+  /** URIs the party is granted access to */
+  resources?: string[];
+}
+
+/**
+ * Input to createSignInMessage()
+ */
+export type SignInMessageParams = Omit<SignInMessage, 'version' | 'nonce' | 'issuedAt'> & {
+  /** Nonce (default: generateSignInNonce()) */
+  nonce?: string;
+  /** Issue time (default: now) */
+  issuedAt?: string;
+};
+
+/**
+ * Generate a random nonce for a sign-in message
+ *
+ * Servers issue the nonce, remember it and pass it to verifySignIn().
+ */
+export function generateSignInNonce(): string {
+  const array = new Uint8Array(16);
+  crypto.getRandomValues(array);
+  return Array.from(array, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Create a sign-in message, filling in the version, nonce and issue time
+ *
+ * @throws InternalError if a field is invalid
+ */
+export function createSignInMessage(params: SignInMessageParams): SignInMessage {
+  const message: SignInMessage = {
+    ...params,
+    version: SIWC_VERSION,
+    nonce: params.nonce ?? generateSignInNonce(),
+    issuedAt: params.issuedAt ?? new Date().toISOString(),
+  };
+  validateSignInMessage(message);
+  return message;
+}
+
+/**
+ * Format a sign-in message as the text the wallet signs
+ *
+ * @throws InternalError if a field is invalid
+ */
+export function formatSignInMessage(message: SignInMessage): string {
+  validateSignInMessage(message);
+
+  const lines = [`${message.domain}${HEADER_SUFFIX}`, message.partyId, ''];
+  if (message.statement) {
+    lines.push(message.statement, '');
+  }
+  if (message.uri) {
+    lines.push(`URI: ${message.uri}`);
+  }
+  lines.push(
+    `Version: ${message.version}`,
+    `Network: ${message.network}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  );
+  if (message.expirationTime) {
+    lines.push(`Expiration Time: ${message.expirationTime}`);
+  }
+  if (message.notBefore) {
+    lines.push(`Not Before: ${message.notBefore}`);
+  }
+  if (message.requestId) {
+    lines.push(`Request ID: ${message.requestId}`);
+  }
+  if (message.resources && message.resources.length > 0) {
+    lines.push('Resources:', ...message.resources.map((resource) => `- ${resource}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parse the text of a sign-in message
+ *
+ * @throws InternalError if the text is not a valid sign-in message
+ */
+export function parseSignInMessage(text: string): SignInMessage {
+  const lines = text.split('\n');
+  let index = 0;
+  const fail = (reason: string): never => {
+    throw new InternalError(`Invalid sign-in message: ${reason}`, undefined, { line: index + 1 });
+  };
+
+  const header = lines[index++] ?? '';
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    fail('missing header');
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  const partyId = lines[index++];
+  if (!partyId) {
+    fail('missing party');
+  }
+  if (lines[index++] !== '') {
+    fail('expected an empty line after the party');
+  }
+
+  let statement: string | undefined;
+  if (lines[index] !== undefined && !/^(URI|Version): /.test(lines[index])) {
+    statement = lines[index++];
+    if (lines[index++] !== '') {
+      fail('expected an empty line after the statement');
+    }
+  }
+
+  // Fields in their fixed order; optional ones may be missing
+  const fields: Array<[label: string, required: boolean]> = [
+    ['URI', false],
+    ['Version', true],
+    ['Network', true],
+    ['Nonce', true],
+    ['Issued At', true],
+    ['Expiration Time', false],
+    ['Not Before', false],
+    ['Request ID', false],
+  ];
+  const values: Record<string, string> = {};
+  for (const [label, required] of fields) {
+    const line = lines[index];
+    if (line !== undefined && line.startsWith(`${label}: `)) {
+      values[label] = line.slice(label.length + 2);
+      index++;
+    } else if (required) {
+      fail(`missing "${label}"`);
+    }
+  }
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    index++;
+    resources = [];
+    while (lines[index] !== undefined && lines[index].startsWith('- ')) {
+      resources.push(lines[index++].slice(2));
+    }
+  }
+  if (index < lines.length) {
+    fail('unexpected content');
+  }
+
+  if (values['Version'] !== SIWC_VERSION) {
+    fail(`unsupported version "${values['Version']}"`);
+  }
+
+  const message: SignInMessage = {
+    domain,
+    partyId: toPartyId(partyId!),
+    version: SIWC_VERSION,
+    network: values['Network'],
+    nonce: values['Nonce'],
+    issuedAt: values['Issued At'],
+  };
+  if (statement !== undefined) message.statement = statement;
+  if (values['URI'] !== undefined) message.uri = values['URI'];
+  if (values['Expiration Time'] !== undefined) message.expirationTime = values['Expiration Time'];
+  if (values['Not Before'] !== undefined) message.notBefore = values['Not Before'];
+  if (values['Request ID'] !== undefined) message.requestId = values['Request ID'];
+  if (resources) message.resources = resources;
+
+  validateSignInMessage(message);
+  return message;
+}
+
+/**
+ * verifySignIn() parameters
+ */
+export interface VerifySignInParams {
+  /** Signed message text (SignedMessage.message) */
+  message: string;
+  /** Signature returned by the wallet (SignedMessage.signature), hex or base64 */
+  signature: string;
+  /**
+   * Public key of the party; any key accepted by verifyMessageSignature().
+   * Its fingerprint must be the namespace of the message's party, unless
+   * `trustedPublicKey` is set.
+   */
+  publicKey: string;
+  /**
+   * `publicKey` comes from a trusted source (e.g. the party's topology
+   * through the Ledger API), not from the client. Required for parties whose
+   * namespace is not the signing key, such as participant-hosted parties.
+   */
+  trustedPublicKey?: boolean;
+  /** Domain the server expects (its own host) */
+  domain: string;
+  /** Nonce the server issued for this sign-in */
+  nonce: string;
+  /** Party the wallet reported as signer (SignedMessage.partyId) */
+  partyId?: PartyId;
+  /** Network the server expects */
+  network?: NetworkId;
+  /** Current time in milliseconds (default: Date.now()) */
+  now?: number;
+  /**
+   * Tolerance for clock differences when checking expiration and not-before
+   * @default 0
+   */
+  clockSkewMs?: number;
+}
+
+/**
+ * Why a sign-in was rejected
+ */
+export type SignInFailureReason =
+  | 'malformed'
+  | 'domain-mismatch'
+  | 'nonce-mismatch'
+  | 'party-mismatch'
+  | 'network-mismatch'
+  | 'expired'
+  | 'not-yet-valid'
+  | 'invalid-signature'
+  /** The key is not the namespace key of the message's party */
+  | 'key-mismatch';
+
+/**
+ * verifySignIn() result
+ */
+export type SignInVerificationResult =
+  | { valid: true; message: SignInMessage }
+  | { valid: false; reason: SignInFailureReason; message?: SignInMessage };
+
+/**
+ * Verify a signed sign-in message on the server
+ *
+ * Parses the message and checks, in order: domain, nonce, party,
+ * network, validity window, the signature over the UTF-8 message
+ * text (see verifyMessageSignature()) and that the key belongs to the
+ * message's party. Never throws for a rejected sign-in; the reason is in
+ * the result.
+ */
+export async function verifySignIn(params: VerifySignInParams): Promise<SignInVerificationResult> {
+  let message: SignInMessage;
+  try {
+    message = parseSignInMessage(params.message);
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const reject = (reason: SignInFailureReason): SignInVerificationResult => ({ valid: false, reason, message });
+  const now = params.now ?? Date.now();
+  const skew = params.clockSkewMs ?? 0;
+
+  if (message.domain !== params.domain) {
+    return reject('domain-mismatch');
+  }
+  if (message.nonce !== params.nonce) {
+    return reject('nonce-mismatch');
+  }
+  if (params.partyId !== undefined && message.partyId !== params.partyId) {
+    return reject('party-mismatch');
+  }
+  if (params.network !== undefined && message.network !== params.network) {
+    return reject('network-mismatch');
+  }
+  if (message.expirationTime && now - skew >= Date.parse(message.expirationTime)) {
+    return reject('expired');
+  }
+  if (message.notBefore && now + skew < Date.parse(message.notBefore)) {
+    return reject('not-yet-valid');
+  }
+
+  const signature = await verifyMessageSignature(
+    { message: params.message, signature: params.signature, partyId: message.partyId },
+    params.publicKey,
+    { partyId: message.partyId, trustedPublicKey: params.trustedPublicKey }
+  );
+  if (!signature.valid) {
+    return reject(signature.reason === 'party-mismatch' ? 'key-mismatch' : 'invalid-signature');
+  }
+  return { valid: true, message };
+}
+
+function validateSignInMessage(message: SignInMessage): void {
+  const invalid = (reason: string): never => {
+    throw new InternalError(`Invalid sign-in message: ${reason}`);
+  };
+  const singleLine = (value: string | undefined, field: string) => {
+    if (value !== undefined && /[\r\n]/.test(value)) {
+      invalid(`${field} must be a single line`);
+    }
+  };
+
+  if (!message.domain || /[\s/]/.test(message.domain)) {
+    invalid('domain must be a host');
+  }
+  if (!message.partyId) {
+    invalid('party is required');
+  }
+  if (!message.network) {
+    invalid('network is required');
+  }
+  if (!/^[A-Za-z0-9]{8,}$/.test(message.nonce)) {
+    invalid('nonce must be at least 8 alphanumeric characters');
+  }
+  for (const [field, value] of [
+    ['issuedAt', message.issuedAt],
+    ['expirationTime', message.expirationTime],
+    ['notBefore', message.notBefore],
+  ] as const) {
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      invalid(`${field} must be an ISO 8601 timestamp`);
+    }
+  }
+  singleLine(message.partyId, 'party');
+  singleLine(message.network, 'network');
+  singleLine(message.statement, 'statement');
+  singleLine(message.uri, 'uri');
+  singleLine(message.requestId, 'requestId');
+  if (message.statement !== undefined && (message.statement === '' || /^(URI|Version): /.test(message.statement))) {
+    invalid('statement must not be empty or look like a field');
+  }
+  for (const resource of message.resources ?? []) {
+    singleLine(resource, 'resource');
+  }
+}
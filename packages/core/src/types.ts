@@ -7,6 +7,8 @@
  * - OpenRPC dApp API spec: https://github.com/hyperledger-labs/splice-wallet-kernel/blob/main/api-specs/openrpc-dapp-api.json
  */
 
+import type { SignedTransactionPayload } from './commands';
+
 /**
  * Branded string types for type safety
  */
@@ -39,7 +41,9 @@ export type CapabilityKey =
   | 'deeplink'
   | 'popup'
   | 'injected'
-  | 'remoteSigner';
+  | 'remoteSigner'
+  | 'multiParty'
+  | 'switchNetwork';
 
 /**
  * Wallet installation hints for detection
@@ -101,6 +105,23 @@ export interface WalletInfo {
   metadata?: Record<string, string>;
 }
 
+/**
+ * Party account available to a session
+ * Mirrors the CIP-0103 account shape with branded IDs
+ */
+export interface SessionAccount {
+  /** Party ID */
+  partyId: PartyId;
+  /** Whether the wallet marks this party as its primary party */
+  primary: boolean;
+  /** Party hint / display name */
+  hint?: string;
+  /** Party public key */
+  publicKey?: string;
+  /** Party namespace */
+  namespace?: string;
+}
+
 /**
  * Session information
  * Sessions are origin-bound and encrypted in storage
@@ -110,8 +131,10 @@ export interface Session {
   sessionId: SessionId;
   /** Wallet identifier */
   walletId: WalletId;
-  /** Connected party ID */
+  /** Selected party ID (one of `accounts`) */
   partyId: PartyId;
+  /** All parties the wallet exposes to this session */
+  accounts?: SessionAccount[];
   /** Current network */
   network: NetworkId;
   /** Session creation timestamp */
@@ -154,8 +177,8 @@ export interface SignedMessage {
  * Signed transaction result
  */
 export interface SignedTransaction {
-  /** Signed transaction data */
-  signedTx: unknown;
+  /** Signed transaction data: a wallet-specific object or encoded string */
+  signedTx: SignedTransactionPayload;
   /** Transaction hash */
   transactionHash: TransactionHash;
   /** Party ID that signed */
@@ -172,8 +195,10 @@ export interface TxReceipt {
   submittedAt: number;
   /** Command ID (if available) */
   commandId?: string;
-  /** Update ID (if available) */
+  /** Update ID, set once the transaction is committed (if available) */
   updateId?: string;
+  /** Ledger end read before submitting; the command completes after it (if available) */
+  beginExclusive?: number;
 }
 
 /**
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AggregatingProvider } from '../aggregator';
+import { ProviderRpcError, RPC_ERRORS, JSON_RPC_ERRORS } from '../errors';
+import { CIP0103_EVENTS } from '@partylayer/core';
+import type { CIP0103Provider, CIP0103Account } from '@partylayer/core';
+import type { DiscoveredProvider } from '../discovery';
+
+function account(partyId: string, primary = false): CIP0103Account {
+  return {
+    primary,
+    partyId,
+    status: 'allocated',
+    hint: partyId.split('::')[0],
+    publicKey: 'key',
+    namespace: 'ns',
+    networkId: 'canton:da-devnet',
+    signingProviderId: 'participant',
+  };
+}
+
+function createMockWallet(accounts: CIP0103Account[]): CIP0103Provider {
+  const listeners = new Map<string, Set<(...args: unknown[]) => void>>();
+  let connected = false;
+
+  const responses: Record<string, () => unknown> = {
+    connect: () => {
+      connected = true;
+      return { isConnected: true };
+    },
+    disconnect: () => {
+      connected = false;
+    },
+    isConnected: () => ({ isConnected: connected }),
+    status: () => ({ connection: { isConnected: connected }, provider: { id: 'mock', version: '1', providerType: 'browser' } }),
+    listAccounts: () => accounts,
+    getPrimaryAccount: () => accounts.find((a) => a.primary) ?? accounts[0],
+    signMessage: () => ({ signature: 'sig' }),
+  };
+
+  const provider: CIP0103Provider = {
+    request: vi.fn(async ({ method }) => {
+      if (method in responses) return responses[method]();
+      throw new ProviderRpcError(`Not supported: ${method}`, RPC_ERRORS.UNSUPPORTED_METHOD);
+    }),
+    on: vi.fn((event: string, listener: (...args: unknown[]) => void) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+      return provider;
+    }),
+    emit: vi.fn((event: string, ...args: unknown[]) => {
+      const set = listeners.get(event);
+      if (!set) return false;
+      for (const fn of set) fn(...args);
+      return true;
+    }),
+    removeListener: vi.fn((event: string, listener: (...args: unknown[]) => void) => {
+      listeners.get(event)?.delete(listener);
+      return provider;
+    }),
+  };
+
+  return provider;
+}
+
+function discovered(id: string, provider: CIP0103Provider): DiscoveredProvider {
+  return { id, provider, source: 'injected' };
+}
+
+function setup() {
+  const walletA = createMockWallet([account('alice::1', true), account('alice::2')]);
+  const walletB = createMockWallet([account('bob::1', true)]);
+  const aggregator = new AggregatingProvider({
+    providers: [discovered('canton.a', walletA), discovered('canton.b', walletB)],
+  });
+  return { walletA, walletB, aggregator };
+}
+
+describe('AggregatingProvider', () => {
+  it('should route by explicit provider id and by the selected account', async () => {
+    const { walletA, walletB, aggregator } = setup();
+    expect(aggregator.getProviderIds()).toEqual(['canton.a', 'canton.b']);
+
+    await expect(aggregator.request({ method: 'status' })).rejects.toMatchObject({ code: RPC_ERRORS.DISCONNECTED });
+    await expect(aggregator.request({ method: 'status', providerId: 'canton.x' })).rejects.toMatchObject({
+      code: JSON_RPC_ERRORS.RESOURCE_NOT_FOUND,
+    });
+
+    await aggregator.request({ method: 'connect', providerId: 'canton.a' });
+    await aggregator.request({ method: 'connect', providerId: 'canton.b' });
+    // The last connected wallet's primary account is selected
+    expect(aggregator.getSelectedAccount()).toEqual({ providerId: 'canton.b', partyId: 'bob::1' });
+
+    await aggregator.selectAccount('alice::2');
+    expect(aggregator.getSelectedAccount()).toEqual({ providerId: 'canton.a', partyId: 'alice::2' });
+
+    // The wallet would sign as alice::1, its primary account
+    await expect(aggregator.request({ method: 'signMessage', params: { message: 'hi' } })).rejects.toMatchObject({
+      code: RPC_ERRORS.UNAUTHORIZED,
+    });
+    expect(walletA.request).not.toHaveBeenCalledWith(expect.objectContaining({ method: 'signMessage' }));
+
+    await aggregator.selectAccount('alice::1');
+    vi.mocked(walletA.request).mockClear();
+    vi.mocked(walletB.request).mockClear();
+    await aggregator.request({ method: 'signMessage', params: { message: 'hi' } });
+    await aggregator.request({ method: 'listAccounts', providerId: 'canton.b' });
+
+    expect(walletA.request).toHaveBeenCalledWith({ method: 'signMessage', params: { message: 'hi' } });
+    expect(walletB.request).toHaveBeenCalledWith({ method: 'listAccounts' });
+
+    const all = await aggregator.listAllAccounts();
+    expect(all.map((entry) => [entry.providerId, entry.account.partyId])).toEqual([
+      ['canton.a', 'alice::1'],
+      ['canton.a', 'alice::2'],
+      ['canton.b', 'bob::1'],
+    ]);
+    await expect(aggregator.selectAccount('carol::1')).rejects.toMatchObject({
+      code: JSON_RPC_ERRORS.RESOURCE_NOT_FOUND,
+    });
+  });
+
+  it('should merge wallet events tagged with the source id', () => {
+    const { walletA, walletB, aggregator } = setup();
+    const accountsHandler = vi.fn();
+    const statusHandler = vi.fn();
+    aggregator.on(CIP0103_EVENTS.ACCOUNTS_CHANGED, accountsHandler);
+    aggregator.on(CIP0103_EVENTS.STATUS_CHANGED, statusHandler);
+
+    walletA.emit(CIP0103_EVENTS.ACCOUNTS_CHANGED, [account('alice::1', true)]);
+    walletB.emit(CIP0103_EVENTS.STATUS_CHANGED, { connection: { isConnected: false } });
+
+    expect(accountsHandler).toHaveBeenCalledWith([account('alice::1', true)], 'canton.a');
+    expect(statusHandler).toHaveBeenCalledWith({ connection: { isConnected: false } }, 'canton.b');
+  });
+
+  it('should keep the selection valid as wallets change', async () => {
+    const { walletA, aggregator } = setup();
+    await aggregator.request({ method: 'connect', providerId: 'canton.a' });
+    await aggregator.selectAccount('alice::2');
+
+    // Selected account removed: fall back to the wallet's primary account
+    walletA.emit(CIP0103_EVENTS.ACCOUNTS_CHANGED, [account('alice::1', true)]);
+    expect(aggregator.getSelectedAccount()).toEqual({ providerId: 'canton.a', partyId: 'alice::1' });
+
+    await aggregator.request({ method: 'disconnect' });
+    expect(aggregator.getSelectedAccount()).toBeNull();
+
+    const handler = vi.fn();
+    aggregator.on(CIP0103_EVENTS.ACCOUNTS_CHANGED, handler);
+    aggregator.removeProvider('canton.a');
+    walletA.emit(CIP0103_EVENTS.ACCOUNTS_CHANGED, []);
+    expect(handler).not.toHaveBeenCalled();
+    expect(aggregator.getProviderIds()).toEqual(['canton.b']);
+
+    aggregator.destroy();
+    expect(aggregator.getProviderIds()).toEqual([]);
+  });
+});
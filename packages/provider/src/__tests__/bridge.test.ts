@@ -1,7 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { createProviderBridge, type BridgeableClient } from '../bridge';
 import { ProviderRpcError, RPC_ERRORS } from '../errors';
-import { CIP0103_EVENTS } from '@partylayer/core';
+import { CIP0103_EVENTS, UserRejectedError } from '@partylayer/core';
 
 function createMockClient(overrides: Partial<BridgeableClient> = {}): BridgeableClient {
   return {
@@ -156,6 +156,29 @@ describe('createProviderBridge', () => {
       });
       expect(result).toEqual([]);
     });
+
+    it('should return every session account and flag the wallet primary party, not the selected one', async () => {
+      const client = createMockClient({
+        getActiveSession: vi.fn(async () => ({
+          sessionId: 'sess-1' as unknown,
+          walletId: 'console' as unknown,
+          partyId: 'party-b' as unknown,
+          accounts: [
+            { partyId: 'party-a', primary: true, hint: 'treasury' },
+            { partyId: 'party-b', primary: false, publicKey: 'pk-b' },
+          ],
+          network: 'devnet',
+        })),
+      });
+      const provider = createProviderBridge(client);
+      const result = await provider.request<Array<{ primary: boolean; partyId: string; hint: string; publicKey: string }>>({
+        method: 'listAccounts',
+      });
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({ partyId: 'party-a', primary: true, hint: 'treasury' });
+      expect(result[1]).toMatchObject({ partyId: 'party-b', primary: false, publicKey: 'pk-b' });
+    });
   });
 
   describe('getPrimaryAccount', () => {
@@ -304,6 +327,98 @@ describe('createProviderBridge', () => {
     });
   });
 
+  describe('prepareExecuteBatch', () => {
+    function createBatchClient(overrides: Partial<BridgeableClient> = {}) {
+      return createMockClient({
+        signTransactions: vi.fn(async (params: Array<{ tx: unknown }>) => ({
+          items: params.map((_, i) => ({
+            status: 'fulfilled' as const,
+            value: { transactionHash: `tx-hash-${i}`, signedTx: `signed-${i}`, partyId: 'party-123' },
+          })),
+        })),
+        submitBatch: vi.fn(async (params: Array<{ signedTx: unknown }>) => ({
+          items: params.map((p) => ({
+            status: 'fulfilled' as const,
+            value: { transactionHash: String(p.signedTx), updateId: `update-${String(p.signedTx)}` },
+          })),
+        })),
+        ...overrides,
+      });
+    }
+
+    it('should emit a txChanged lifecycle per transaction', async () => {
+      const client = createBatchClient();
+      const provider = createProviderBridge(client);
+      const handler = vi.fn();
+      provider.on(CIP0103_EVENTS.TX_CHANGED, handler);
+
+      const outcomes = await provider.request<Array<{ commandId: string; status: string }>>({
+        method: 'prepareExecuteBatch',
+        params: { transactions: [{ a: 1 }, { b: 2 }] },
+      });
+
+      expect(outcomes.map((o) => o.status)).toEqual(['executed', 'executed']);
+      expect(client.submitBatch).toHaveBeenCalledWith([{ signedTx: 'signed-0' }, { signedTx: 'signed-1' }]);
+      for (const [index, { commandId }] of outcomes.entries()) {
+        const events = handler.mock.calls.map((c) => c[0]).filter((e) => e.commandId === commandId);
+        expect(events.map((e) => e.status)).toEqual(['pending', 'signed', 'executed']);
+        expect(events[2].payload.updateId).toBe(`update-signed-${index}`);
+      }
+    });
+
+    it('should not submit when a transaction was not signed', async () => {
+      const client = createBatchClient({
+        signTransactions: vi.fn(async () => ({
+          items: [
+            { status: 'fulfilled' as const, value: { transactionHash: 'tx-hash-0' } },
+            { status: 'rejected' as const, error: new UserRejectedError('signTransaction') },
+            { status: 'skipped' as const },
+          ],
+        })),
+      });
+      const provider = createProviderBridge(client);
+      const handler = vi.fn();
+      provider.on(CIP0103_EVENTS.TX_CHANGED, handler);
+
+      const outcomes = await provider.request<Array<{ status: string; error?: { code: number } }>>({
+        method: 'prepareExecuteBatch',
+        params: { transactions: [{}, {}, {}] },
+      });
+
+      expect(client.submitBatch).not.toHaveBeenCalled();
+      expect(outcomes.map((o) => o.status)).toEqual(['failed', 'failed', 'failed']);
+      expect(outcomes[1].error?.code).toBe(RPC_ERRORS.USER_REJECTED);
+      expect(handler.mock.calls.filter((c) => c[0].status === 'failed')).toHaveLength(3);
+    });
+
+    it('should report per-item submission failures', async () => {
+      const client = createBatchClient({
+        submitBatch: vi.fn(async () => ({
+          items: [
+            { status: 'fulfilled' as const, value: { transactionHash: 'tx-hash-0' } },
+            { status: 'rejected' as const, error: new Error('submission error') },
+          ],
+        })),
+      });
+      const provider = createProviderBridge(client);
+
+      const outcomes = await provider.request<Array<{ status: string }>>({
+        method: 'prepareExecuteBatch',
+        params: { transactions: [{}, {}] },
+      });
+      expect(outcomes.map((o) => o.status)).toEqual(['executed', 'failed']);
+    });
+
+    it('should reject when the client has no batch support or no transactions are given', async () => {
+      await expect(
+        createProviderBridge(createMockClient()).request({ method: 'prepareExecuteBatch', params: { transactions: [{}] } }),
+      ).rejects.toMatchObject({ code: RPC_ERRORS.UNSUPPORTED_METHOD });
+      await expect(
+        createProviderBridge(createBatchClient()).request({ method: 'prepareExecuteBatch', params: { transactions: [] } }),
+      ).rejects.toBeInstanceOf(ProviderRpcError);
+    });
+  });
+
   describe('ledgerApi', () => {
     it('should proxy ledgerApi request when client supports it', async () => {
       const provider = createProviderBridge(createMockClient());
@@ -391,6 +506,103 @@ describe('createProviderBridge', () => {
     });
   });
 
+  describe('accounts:changed event', () => {
+    it('should emit accountsChanged when the active session switches party', async () => {
+      const handlers: Record<string, (event: unknown) => void> = {};
+      const client = createMockClient({
+        on: vi.fn((event: string, handler: (event: unknown) => void) => {
+          handlers[event] = handler;
+          return () => {};
+        }),
+        getActiveSession: vi.fn(async () => ({
+          sessionId: 'sess-1' as unknown,
+          walletId: 'console' as unknown,
+          partyId: 'party-b' as unknown,
+          accounts: [
+            { partyId: 'party-a', primary: true },
+            { partyId: 'party-b', primary: false },
+          ],
+          network: 'devnet',
+        })),
+      });
+      const provider = createProviderBridge(client);
+      const accountsHandler = vi.fn();
+      provider.on(CIP0103_EVENTS.ACCOUNTS_CHANGED, accountsHandler);
+
+      handlers['accounts:changed']?.({
+        type: 'accounts:changed',
+        sessionId: 'sess-1',
+        partyId: 'party-b',
+      });
+      await vi.waitFor(() => expect(accountsHandler).toHaveBeenCalledTimes(1));
+
+      // The wallet still signs as its own primary party, whichever one is selected
+      const accounts = accountsHandler.mock.calls[0][0] as Array<{ partyId: string; primary: boolean }>;
+      expect(accounts.map((a) => a.partyId)).toEqual(['party-a', 'party-b']);
+      expect(accounts.find((a) => a.primary)?.partyId).toBe('party-a');
+    });
+
+    it('should ignore party switches on non-active sessions', async () => {
+      const handlers: Record<string, (event: unknown) => void> = {};
+      const getActiveSession = vi.fn(async () => ({
+        sessionId: 'sess-1' as unknown,
+        walletId: 'console' as unknown,
+        partyId: 'party-123' as unknown,
+        network: 'devnet',
+      }));
+      const client = createMockClient({
+        on: vi.fn((event: string, handler: (event: unknown) => void) => {
+          handlers[event] = handler;
+          return () => {};
+        }),
+        getActiveSession,
+      });
+      const provider = createProviderBridge(client);
+      const accountsHandler = vi.fn();
+      provider.on(CIP0103_EVENTS.ACCOUNTS_CHANGED, accountsHandler);
+
+      handlers['accounts:changed']?.({ type: 'accounts:changed', sessionId: 'sess-2' });
+      await vi.waitFor(() => expect(getActiveSession).toHaveBeenCalled());
+      await Promise.resolve();
+
+      expect(accountsHandler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('network:changed event', () => {
+    it('should emit statusChanged with the new network', async () => {
+      const handlers: Record<string, (event: unknown) => void> = {};
+      const client = createMockClient({
+        on: vi.fn((event: string, handler: (event: unknown) => void) => {
+          handlers[event] = handler;
+          return () => {};
+        }),
+        getActiveSession: vi.fn(async () => ({
+          sessionId: 'sess-2' as unknown,
+          walletId: 'console' as unknown,
+          partyId: 'party-123' as unknown,
+          network: 'testnet',
+        })),
+      });
+      const provider = createProviderBridge(client);
+      const statusHandler = vi.fn();
+      provider.on(CIP0103_EVENTS.STATUS_CHANGED, statusHandler);
+
+      handlers['network:changed']?.({
+        type: 'network:changed',
+        sessionId: 'sess-2',
+        previousSessionId: 'sess-1',
+        network: 'testnet',
+        previousNetwork: 'devnet',
+      });
+      await vi.waitFor(() => expect(statusHandler).toHaveBeenCalledTimes(1));
+
+      const status = statusHandler.mock.calls[0][0] as { connection: { isConnected: boolean }; network: { networkId: string } };
+      expect(status.connection.isConnected).toBe(true);
+      expect(status.network.networkId).toBe('canton:da-testnet');
+    });
+  });
+
   describe('unsupported method', () => {
     it('should throw UNSUPPORTED_METHOD for unknown methods', async () => {
       const provider = createProviderBridge(createMockClient());
@@ -5,8 +5,16 @@
  * where wallets inject CIP-0103 Providers.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { discoverInjectedProviders, isCIP0103Provider } from '../discovery';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  discoverInjectedProviders,
+  isCIP0103Provider,
+  announceProvider,
+  waitForProvider,
+  ProviderRegistry,
+  CANTON_ANNOUNCE_PROVIDER_EVENT,
+  CANTON_REQUEST_PROVIDER_EVENT,
+} from '../discovery';
 
 // ─── Mock Provider Factory ───────────────────────────────────────────────────
 
@@ -206,3 +214,80 @@ describe('discoverInjectedProviders', () => {
     expect(result[0].provider).toBe(directProvider);
   });
 });
+
+describe('announce/request protocol', () => {
+  const info = (id: string) => ({
+    id,
+    name: `${id} wallet`,
+    icon: 'data:image/svg+xml;base64,PHN2Zy8+',
+    rdns: `io.example.${id}`,
+    version: '1.0.0',
+  });
+
+  beforeEach(() => {
+    // A window that supports events
+    (globalThis as Record<string, unknown>).window = new EventTarget() as Window & typeof globalThis;
+  });
+
+  it('collects wallets announced before and after the registry starts', () => {
+    const early = createMockProvider('early');
+    const stopEarly = announceProvider(info('early'), early);
+
+    const registry = new ProviderRegistry();
+    const listener = vi.fn();
+    registry.subscribe(listener);
+    registry.start();
+
+    // The request event made the early wallet announce again
+    expect(registry.getProviders().map((p) => p.id)).toEqual(['early']);
+
+    const late = createMockProvider('late');
+    const stopLate = announceProvider(info('late'), late);
+
+    const providers = registry.getProviders();
+    expect(providers.map((p) => [p.id, p.source, p.name])).toEqual([
+      ['early', 'announced', 'early wallet'],
+      ['late', 'announced', 'late wallet'],
+    ]);
+    expect(providers[1].info?.rdns).toBe('io.example.late');
+    expect(providers[1].provider).toBe(late);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    // Re-announcing the same wallet does not notify again
+    window.dispatchEvent(new Event(CANTON_REQUEST_PROVIDER_EVENT));
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(registry.getProviders()).toBe(providers);
+
+    stopEarly();
+    stopLate();
+    registry.stop();
+  });
+
+  it('ignores malformed announcements and prefers announced over scanned entries', () => {
+    const provider = createMockProvider('console');
+    (window as unknown as Record<string, unknown>).consoleWallet = provider;
+
+    const registry = new ProviderRegistry();
+    registry.start();
+    expect(registry.getProviders().map((p) => [p.id, p.source])).toEqual([['consoleWallet', 'injected']]);
+
+    window.dispatchEvent(new CustomEvent(CANTON_ANNOUNCE_PROVIDER_EVENT, { detail: { info: info('bad'), provider: {} } }));
+    window.dispatchEvent(new CustomEvent(CANTON_ANNOUNCE_PROVIDER_EVENT, { detail: null }));
+    const stop = announceProvider(info('console'), provider);
+
+    expect(registry.getProviders().map((p) => [p.id, p.source])).toEqual([['console', 'announced']]);
+    stop();
+    registry.stop();
+  });
+
+  it('discovers and waits for announced wallets', async () => {
+    const pending = waitForProvider('late', 1000);
+    const late = createMockProvider('late');
+    const stop = announceProvider(info('late'), late);
+
+    const found = await pending;
+    expect(found?.provider).toBe(late);
+    expect(discoverInjectedProviders().map((p) => p.id)).toEqual(['late']);
+    stop();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { MethodRouter } from '../method-router';
-import { ProviderRpcError, RPC_ERRORS } from '../errors';
+import { ProviderRpcError, RPC_ERRORS, JSON_RPC_ERRORS } from '../errors';
 import type { CIP0103Provider } from '@partylayer/core';
 
 function createMockWalletProvider(
@@ -131,4 +131,66 @@ describe('MethodRouter', () => {
       expect(router.hasHandler(m)).toBe(true);
     }
   });
+
+  describe('validation', () => {
+    const account = {
+      primary: true,
+      partyId: 'alice::1220',
+      status: 'allocated',
+      hint: 'alice',
+      publicKey: 'pk',
+      namespace: '1220',
+      networkId: 'canton:da-devnet',
+      signingProviderId: 'wallet',
+    };
+
+    it('should reject malformed params before calling the wallet', async () => {
+      const router = new MethodRouter({ validate: true });
+      const wp = createMockWalletProvider({ signMessage: 'sig', ledgerApi: { response: '{}' } });
+      router.setWalletProvider(wp);
+
+      await expect(router.route({ method: 'signMessage', params: { msg: 'hello' } })).rejects.toMatchObject({
+        code: JSON_RPC_ERRORS.INVALID_PARAMS,
+        data: { method: 'signMessage' },
+      });
+      await expect(
+        router.route({ method: 'ledgerApi', params: { requestMethod: 'PATCH', resource: '/v2/state/ledger-end' } }),
+      ).rejects.toMatchObject({ code: JSON_RPC_ERRORS.INVALID_PARAMS });
+      expect(wp.request).not.toHaveBeenCalled();
+
+      await expect(router.route({ method: 'signMessage', params: { message: 'hello' } })).resolves.toBe('sig');
+
+      // Without validation, malformed params reach the wallet
+      const unchecked = new MethodRouter();
+      unchecked.setWalletProvider(wp);
+      await expect(unchecked.route({ method: 'signMessage', params: { msg: 'hello' } })).resolves.toBe('sig');
+    });
+
+    it('should reject non-conformant results unless onInvalidResult is set', async () => {
+      const wp = createMockWalletProvider({
+        getPrimaryAccount: { ...account, status: 'ready' },
+        listAccounts: [account],
+        futureMethod: 42,
+      });
+      const strict = new MethodRouter({ validate: true });
+      strict.setWalletProvider(wp);
+
+      await expect(strict.route({ method: 'getPrimaryAccount' })).rejects.toMatchObject({
+        code: JSON_RPC_ERRORS.INTERNAL_ERROR,
+        message: 'Non-conformant result for "getPrimaryAccount": invalid field "status"',
+      });
+      await expect(strict.route({ method: 'listAccounts' })).resolves.toEqual([account]);
+      await expect(strict.route({ method: 'futureMethod' })).resolves.toBe(42);
+
+      const onInvalidResult = vi.fn();
+      const lenient = new MethodRouter({ validate: true, onInvalidResult });
+      lenient.setWalletProvider(wp);
+      await expect(lenient.route({ method: 'getPrimaryAccount' })).resolves.toMatchObject({ status: 'ready' });
+      expect(onInvalidResult).toHaveBeenCalledWith(
+        'getPrimaryAccount',
+        'invalid field "status"',
+        expect.objectContaining({ status: 'ready' }),
+      );
+    });
+  });
 });
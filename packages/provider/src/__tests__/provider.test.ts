@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PartyLayerProvider } from '../provider';
-import { ProviderRpcError, RPC_ERRORS } from '../errors';
+import { ProviderRpcError, RPC_ERRORS, JSON_RPC_ERRORS } from '../errors';
 import { CIP0103_EVENTS } from '@partylayer/core';
 import type { CIP0103Provider } from '@partylayer/core';
 import type { DiscoveredProvider } from '../discovery';
@@ -117,7 +117,7 @@ describe('PartyLayerProvider', () => {
 
       // isConnected uses an orchestrated handler that handles null wp
       // The default passthrough will fail, but our orchestration overrides it
-      const result = await provider.request<{ isConnected: boolean }>({
+      const result = await provider.request({
         method: 'isConnected',
       });
       expect(result.isConnected).toBe(false);
@@ -148,6 +148,90 @@ describe('PartyLayerProvider', () => {
     });
   });
 
+  describe('prepareExecute orchestration', () => {
+    const approval = { userUrl: 'https://wallet.example/approve/1', commandId: 'cmd-1' };
+
+    it('should pass sync results through', async () => {
+      const native = createMockNativeProvider({ prepareExecute: null });
+      const provider = new PartyLayerProvider({ walletProvider: createDiscovered(native) });
+
+      await expect(provider.request({ method: 'prepareExecute', params: { commands: [] } })).resolves.toBeNull();
+    });
+
+    it('should surface the userUrl and resolve on the terminal txChanged', async () => {
+      const native = createMockNativeProvider({ prepareExecute: approval });
+      const onUserUrl = vi.fn();
+      const provider = new PartyLayerProvider({ walletProvider: createDiscovered(native), onUserUrl });
+
+      const pending = provider.request({ method: 'prepareExecute', params: { commands: [] } });
+      await vi.waitFor(() => expect(onUserUrl).toHaveBeenCalledWith(approval.userUrl));
+
+      native.emit(CIP0103_EVENTS.TX_CHANGED, { status: 'executed', commandId: 'other', payload: {} });
+      native.emit(CIP0103_EVENTS.TX_CHANGED, { status: 'signed', commandId: 'cmd-1', payload: {} });
+      const executed = {
+        status: 'executed',
+        commandId: 'cmd-1',
+        payload: { updateId: 'u1', completionOffset: 7 },
+      };
+      native.emit(CIP0103_EVENTS.TX_CHANGED, executed);
+
+      await expect(pending).resolves.toEqual(executed);
+    });
+
+    it('should reject on abort and on timeout', async () => {
+      const native = createMockNativeProvider({ prepareExecute: approval });
+      const provider = new PartyLayerProvider({ walletProvider: createDiscovered(native) });
+
+      const controller = new AbortController();
+      const aborted = provider.request({ method: 'prepareExecute', params: {}, signal: controller.signal });
+      await vi.waitFor(() => expect(native.on).toHaveBeenCalledTimes(6));
+      controller.abort();
+      // The wallet may still execute it, so this is not a rejection
+      await expect(aborted).rejects.toMatchObject({
+        code: JSON_RPC_ERRORS.INVALID_INPUT,
+        data: { commandId: 'cmd-1', aborted: true },
+      });
+      expect(native.request).not.toHaveBeenCalledWith(expect.objectContaining({ signal: expect.anything() }));
+
+      // Aborted before the wallet saw it
+      await expect(
+        provider.request({ method: 'prepareExecute', params: {}, signal: controller.signal }),
+      ).rejects.toMatchObject({ code: RPC_ERRORS.USER_REJECTED });
+      expect(native.request).toHaveBeenCalledTimes(1);
+
+      const impatient = new PartyLayerProvider({ walletProvider: createDiscovered(native), asyncTimeoutMs: 20 });
+      await expect(impatient.request({ method: 'prepareExecute', params: {} })).rejects.toMatchObject({
+        code: JSON_RPC_ERRORS.INVALID_INPUT,
+        data: { commandId: 'cmd-1', timeoutMs: 20 },
+      });
+    });
+
+    it('should name the command and keep events emitted while the request is pending', async () => {
+      const native = createMockNativeProvider();
+      const executed = { status: 'executed', payload: { updateId: 'u1', completionOffset: 7 } };
+      vi.mocked(native.request).mockImplementation(async ({ params }) => {
+        const { commandId } = params as { commandId: string };
+        // Another transaction finishes first; this one before the request resolves
+        native.emit(CIP0103_EVENTS.TX_CHANGED, { ...executed, commandId: 'other' });
+        native.emit(CIP0103_EVENTS.TX_CHANGED, { ...executed, commandId });
+        return { userUrl: 'https://wallet.example/approve/2' };
+      });
+      const provider = new PartyLayerProvider({ walletProvider: createDiscovered(native) });
+
+      const result = await provider.request({ method: 'prepareExecute', params: { commands: [] } });
+      const sent = vi.mocked(native.request).mock.calls[0][0].params as { commandId: string; commands: unknown[] };
+      expect(sent.commands).toEqual([]);
+      expect(sent.commandId).toMatch(/^cmd_/);
+      expect(result).toEqual({ ...executed, commandId: sent.commandId });
+
+      // A commandId given by the dApp is kept
+      await provider
+        .request({ method: 'prepareExecute', params: { commands: [], commandId: 'mine' } })
+        .catch(() => {});
+      expect(vi.mocked(native.request).mock.calls[1][0].params).toMatchObject({ commandId: 'mine' });
+    });
+  });
+
   describe('event forwarding', () => {
     it('should forward native wallet events', () => {
       const native = createMockNativeProvider();
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RequestScheduler } from '../request-scheduler';
+import { PartyLayerProvider } from '../provider';
+import { JSON_RPC_ERRORS, RPC_ERRORS } from '../errors';
+import type { CIP0103Provider } from '@partylayer/core';
+
+function deferred<T = unknown>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+describe('RequestScheduler', () => {
+  it('should run interactive requests one at a time, in call order', async () => {
+    const scheduler = new RequestScheduler();
+    const started: string[] = [];
+    const gates = { connect: deferred(), signMessage: deferred() };
+
+    const connect = scheduler.schedule({ method: 'connect' }, async () => {
+      started.push('connect');
+      return gates.connect.promise;
+    });
+    const sign = scheduler.schedule({ method: 'signMessage' }, async () => {
+      started.push('signMessage');
+      return gates.signMessage.promise;
+    });
+    const status = scheduler.schedule({ method: 'status' }, async () => {
+      started.push('status');
+      return 'ok';
+    });
+
+    await expect(status).resolves.toBe('ok');
+    expect(started).toEqual(['connect', 'status']);
+    expect(scheduler.queueLength).toBe(1);
+
+    gates.connect.resolve({ isConnected: true });
+    await connect;
+    await tick();
+    expect(started).toEqual(['connect', 'status', 'signMessage']);
+
+    gates.signMessage.resolve('sig');
+    await expect(sign).resolves.toBe('sig');
+    expect(scheduler.queueLength).toBe(0);
+  });
+
+  it('should share identical in-flight reads, including ledgerApi GETs', async () => {
+    const scheduler = new RequestScheduler();
+    const run = vi.fn(async () => ({ response: '{}' }));
+    const get = { method: 'ledgerApi', params: { requestMethod: 'GET', resource: '/v2/state/ledger-end' } };
+    const post = { method: 'ledgerApi', params: { requestMethod: 'POST', resource: '/v2/updates/flats' } };
+
+    const [a, b] = await Promise.all([scheduler.schedule(get, run), scheduler.schedule(get, run)]);
+    expect(a).toBe(b);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    // Settled reads are not cached
+    await scheduler.schedule(get, run);
+    expect(run).toHaveBeenCalledTimes(2);
+
+    await Promise.all([scheduler.schedule(post, run), scheduler.schedule(post, run)]);
+    expect(run).toHaveBeenCalledTimes(4);
+  });
+
+  it('should reject beyond the queue limit and drop aborted requests', async () => {
+    const scheduler = new RequestScheduler({ maxQueueLength: 1 });
+    const gate = deferred();
+    const run = vi.fn(async () => gate.promise);
+
+    const first = scheduler.schedule({ method: 'prepareExecute' }, run);
+    const controller = new AbortController();
+    const queued = scheduler.schedule({ method: 'prepareExecute' }, run, controller.signal);
+
+    await expect(scheduler.schedule({ method: 'connect' }, run)).rejects.toMatchObject({
+      code: JSON_RPC_ERRORS.RATE_LIMIT_EXCEEDED,
+      data: { method: 'connect', maxQueueLength: 1 },
+    });
+
+    controller.abort();
+    await expect(queued).rejects.toMatchObject({ code: RPC_ERRORS.USER_REJECTED });
+    expect(scheduler.queueLength).toBe(0);
+
+    gate.resolve('done');
+    await expect(first).resolves.toBe('done');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should be applied by PartyLayerProvider unless disabled', async () => {
+    let approvals = 0;
+    const native = {
+      request: vi.fn(async ({ method }: { method: string }) => {
+        if (method === 'signMessage') {
+          approvals++;
+          await tick();
+          return `sig-${approvals}`;
+        }
+        return { isConnected: true };
+      }),
+      on: vi.fn().mockReturnThis(),
+      emit: vi.fn().mockReturnValue(false),
+      removeListener: vi.fn().mockReturnThis(),
+    } as unknown as CIP0103Provider;
+    const walletProvider = { id: 'test-wallet', provider: native, source: 'injected' as const };
+
+    const provider = new PartyLayerProvider({ walletProvider, scheduler: { maxQueueLength: 0 } });
+    const sign = { method: 'signMessage' as const, params: { message: 'hi' } };
+    const results = await Promise.allSettled([provider.request(sign), provider.request(sign)]);
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+
+    const unscheduled = new PartyLayerProvider({ walletProvider, scheduler: false });
+    await expect(Promise.all([unscheduled.request(sign), unscheduled.request(sign)])).resolves.toHaveLength(2);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Type-level tests for PartyLayerProvider.request()
+ *
+ * Checked by `tsc --noEmit` and `vitest --typecheck`; nothing runs.
+ */
+
+import { describe, it, expectTypeOf } from 'vitest';
+import type { CIP0103Account, CIP0103ConnectResult } from '@partylayer/core';
+import { PartyLayerProvider, extensionMethod } from '../provider';
+
+declare const provider: PartyLayerProvider;
+
+describe('PartyLayerProvider.request types', () => {
+  it('should type mandatory methods without a type argument', () => {
+    expectTypeOf(provider.request({ method: 'getPrimaryAccount' })).resolves.toEqualTypeOf<CIP0103Account>();
+    expectTypeOf(provider.request({ method: 'isConnected' })).resolves.toEqualTypeOf<CIP0103ConnectResult>();
+    expectTypeOf(provider.request({ method: 'signMessage', params: { message: 'hi' } })).resolves.toEqualTypeOf<string>();
+  });
+
+  it('should reject misspelled methods', () => {
+    // @ts-expect-error -- not a mandatory method and not an extensionMethod()
+    void provider.request({ method: 'getPrimaryAcount' });
+    // @ts-expect-error -- a result type does not opt in to an unknown method
+    void provider.request<CIP0103Account>({ method: 'getPrimaryAcount' });
+  });
+
+  it('should reject wrong params for mandatory methods', () => {
+    // @ts-expect-error -- signMessage takes { message }
+    void provider.request({ method: 'signMessage', params: { msg: 'hi' } });
+    // @ts-expect-error -- signMessage params are required
+    void provider.request({ method: 'signMessage' });
+  });
+
+  it('should forward extension methods with an explicit result type', () => {
+    expectTypeOf(provider.request({ method: extensionMethod('wallet_getBalance') })).resolves.toBeUnknown();
+    expectTypeOf(
+      provider.request<{ amount: string }>({ method: extensionMethod('wallet_getBalance'), params: { asset: 'CC' } }),
+    ).resolves.toEqualTypeOf<{ amount: string }>();
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * AggregatingProvider — one CIP-0103 Provider over many wallets
+ *
+ * PartyLayerProvider wraps a single native wallet. The aggregator holds a
+ * PartyLayerProvider for every discovered wallet at once, for dApps that
+ * show several wallets side by side (e.g. a portfolio view):
+ *
+ * - request() goes to an explicit `providerId`, or else to the wallet
+ *   that owns the selected account. CIP-0103 has no way to sign as a
+ *   given party, so signing requests routed by selection are refused
+ *   unless the selected account is the wallet's primary account
+ * - events from every wallet are merged into one stream; each listener
+ *   receives the original payload followed by the source provider id
+ *
+ * Like PartyLayerProvider, it contains no wallet-specific logic.
+ */
+
+import type {
+  CIP0103Provider,
+  CIP0103EventListener,
+  CIP0103Account,
+  CIP0103ConnectResult,
+} from '@partylayer/core';
+import { CIP0103_EVENTS, CIP0103_METHODS } from '@partylayer/core';
+import { CIP0103EventBus } from './event-bus';
+import { PartyLayerProvider, type PartyLayerRequestPayload } from './provider';
+import { discoverInjectedProviders, type DiscoveredProvider } from './discovery';
+import type { RequestSchedulerOptions } from './request-scheduler';
+import { disconnected, resourceNotFound, unauthorized } from './errors';
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+
+export interface AggregatingProviderOptions {
+  /** Wallet providers to hold. Default: discoverInjectedProviders() */
+  providers?: DiscoveredProvider[];
+  /** Timeout for async operations (ms). Default 300_000 (5 min). */
+  asyncTimeoutMs?: number;
+  /** Callback when a userUrl is available (for async wallets) */
+  onUserUrl?: (url: string, providerId: string) => void;
+  /** Request scheduling, applied to each wallet separately */
+  scheduler?: RequestSchedulerOptions | false;
+}
+
+/** request() payload with an optional target provider */
+export interface AggregatedRequestPayload extends PartyLayerRequestPayload {
+  /** Provider to send the request to (default: owner of the selected account) */
+  providerId?: string;
+}
+
+/** An account together with the wallet that holds it */
+export interface AggregatedAccount {
+  providerId: string;
+  account: CIP0103Account;
+}
+
+/** Events merged from every wallet */
+const MERGED_EVENTS = [
+  CIP0103_EVENTS.STATUS_CHANGED,
+  CIP0103_EVENTS.ACCOUNTS_CHANGED,
+  CIP0103_EVENTS.TX_CHANGED,
+  CIP0103_EVENTS.CONNECTED,
+];
+
+/** Methods that act as the wallet's primary account */
+const SIGNING_METHODS: string[] = [CIP0103_METHODS.SIGN_MESSAGE, CIP0103_METHODS.PREPARE_EXECUTE];
+
+interface Member {
+  provider: PartyLayerProvider;
+  forwarders: Map<string, CIP0103EventListener>;
+}
+
+// ─── Aggregator ─────────────────────────────────────────────────────────────
+
+export class AggregatingProvider implements CIP0103Provider {
+  private readonly eventBus: CIP0103EventBus;
+  private readonly options: AggregatingProviderOptions;
+  private readonly members = new Map<string, Member>();
+  private selected: { providerId: string; partyId: string } | null = null;
+
+  constructor(options: AggregatingProviderOptions = {}) {
+    this.options = options;
+    this.eventBus = new CIP0103EventBus();
+    this.eventBus.setOwner(this);
+
+    for (const discovered of options.providers ?? discoverInjectedProviders()) {
+      this.addProvider(discovered);
+    }
+  }
+
+  // ─── CIP-0103 Provider Interface ─────────────────────────────────────────
+
+  async request<T = unknown>(args: AggregatedRequestPayload): Promise<T> {
+    const { providerId: explicitId, ...payload } = args;
+    const providerId = explicitId ?? this.selected?.providerId;
+    if (providerId === undefined) {
+      throw disconnected('No provider selected: pass a providerId or select an account');
+    }
+    const member = this.getMember(providerId);
+    if (explicitId === undefined && SIGNING_METHODS.includes(payload.method)) {
+      await this.assertSelectedIsPrimary(member, this.selected!.partyId);
+    }
+
+    // Forwarded as given, so use the untyped CIP-0103 signature
+    const provider: CIP0103Provider = member.provider;
+    const result = await provider.request<T>(payload);
+
+    if (payload.method === 'connect' && (result as CIP0103ConnectResult | undefined)?.isConnected) {
+      await this.selectPrimaryAccount(providerId);
+    } else if (payload.method === 'disconnect' && this.selected?.providerId === providerId) {
+      this.selected = null;
+    }
+    return result;
+  }
+
+  on<T = unknown>(
+    event: string,
+    listener: CIP0103EventListener<T>,
+  ): this {
+    this.eventBus.on(event, listener);
+    return this;
+  }
+
+  emit<T = unknown>(event: string, ...args: T[]): boolean {
+    return this.eventBus.emit(event, ...args);
+  }
+
+  removeListener<T = unknown>(
+    event: string,
+    listenerToRemove: CIP0103EventListener<T>,
+  ): this {
+    this.eventBus.removeListener(event, listenerToRemove);
+    return this;
+  }
+
+  // ─── Public Management ────────────────────────────────────────────────────
+
+  /** Ids of the wallet providers held */
+  getProviderIds(): string[] {
+    return Array.from(this.members.keys());
+  }
+
+  /** The PartyLayerProvider wrapping a wallet (if held) */
+  getProvider(providerId: string): PartyLayerProvider | null {
+    return this.members.get(providerId)?.provider ?? null;
+  }
+
+  /** Add a wallet provider (replaces one with the same id) */
+  addProvider(discovered: DiscoveredProvider): void {
+    this.removeProvider(discovered.id);
+
+    const provider = new PartyLayerProvider({
+      walletProvider: discovered,
+      asyncTimeoutMs: this.options.asyncTimeoutMs,
+      scheduler: this.options.scheduler,
+      onUserUrl: this.options.onUserUrl
+        ? (url) => this.options.onUserUrl!(url, discovered.id)
+        : undefined,
+    });
+
+    const forwarders = new Map<string, CIP0103EventListener>();
+    for (const event of MERGED_EVENTS) {
+      const forwarder: CIP0103EventListener = (...args: unknown[]) => {
+        if (event === CIP0103_EVENTS.ACCOUNTS_CHANGED) {
+          this.onAccountsChanged(discovered.id, args[0]);
+        }
+        this.eventBus.emit(event, ...args, discovered.id);
+      };
+      forwarders.set(event, forwarder);
+      provider.on(event, forwarder);
+    }
+
+    this.members.set(discovered.id, { provider, forwarders });
+  }
+
+  /** Remove a wallet provider and release it */
+  removeProvider(providerId: string): void {
+    const member = this.members.get(providerId);
+    if (!member) return;
+
+    for (const [event, forwarder] of member.forwarders) {
+      member.provider.removeListener(event, forwarder);
+    }
+    member.provider.destroy();
+    this.members.delete(providerId);
+    if (this.selected?.providerId === providerId) {
+      this.selected = null;
+    }
+  }
+
+  /** The account requests are routed to by default */
+  getSelectedAccount(): { providerId: string; partyId: string } | null {
+    return this.selected ? { ...this.selected } : null;
+  }
+
+  /**
+   * Select the account requests are routed to by default.
+   *
+   * Without a providerId, the first connected wallet that lists the
+   * party is used.
+   */
+  async selectAccount(partyId: string, providerId?: string): Promise<void> {
+    const accounts = await this.listAllAccounts();
+    const match = accounts.find(
+      (entry) =>
+        entry.account.partyId === partyId &&
+        (providerId === undefined || entry.providerId === providerId),
+    );
+    if (!match) {
+      throw resourceNotFound(`Account "${partyId}" not found`, { partyId, providerId });
+    }
+    this.selected = { providerId: match.providerId, partyId };
+  }
+
+  /**
+   * Accounts of every connected wallet, tagged with their provider id.
+   *
+   * Wallets that are not connected or fail to answer are skipped.
+   */
+  async listAllAccounts(): Promise<AggregatedAccount[]> {
+    const results = await Promise.all(
+      Array.from(this.members.entries()).map(async ([providerId, member]) => {
+        try {
+          const status = await member.provider.request({ method: 'isConnected' });
+          if (!status.isConnected) return [];
+          const accounts = await member.provider.request({ method: 'listAccounts' });
+          return accounts.map((account) => ({ providerId, account }));
+        } catch {
+          return [];
+        }
+      }),
+    );
+    return results.flat();
+  }
+
+  /** Tear down: release every wallet provider and remove all listeners */
+  destroy(): void {
+    for (const providerId of this.getProviderIds()) {
+      this.removeProvider(providerId);
+    }
+    this.eventBus.removeAllListeners();
+  }
+
+  // ─── Helpers ──────────────────────────────────────────────────────────────
+
+  private getMember(providerId: string): Member {
+    const member = this.members.get(providerId);
+    if (!member) {
+      throw resourceNotFound(`Provider "${providerId}" not found`, { providerId });
+    }
+    return member;
+  }
+
+  /**
+   * The wallet signs as its primary account; refuse to sign for another
+   * selected account rather than sign as the wrong party
+   */
+  private async assertSelectedIsPrimary(member: Member, partyId: string): Promise<void> {
+    const primary = await member.provider.request({
+      method: CIP0103_METHODS.GET_PRIMARY_ACCOUNT,
+    });
+    if (primary?.partyId !== partyId) {
+      throw unauthorized(
+        `Selected account "${partyId}" is not the wallet's primary account; switch accounts in the wallet`,
+        { partyId, primaryPartyId: primary?.partyId },
+      );
+    }
+  }
+
+  /** After a connect, route to the wallet's primary account */
+  private async selectPrimaryAccount(providerId: string): Promise<void> {
+    try {
+      const primary = await this.getMember(providerId).provider.request({
+        method: 'getPrimaryAccount',
+      });
+      this.selected = { providerId, partyId: primary.partyId };
+    } catch {
+      // Best-effort: the connect itself succeeded; routing falls back to explicit ids
+    }
+  }
+
+  /** Keep the selection valid when the selected wallet's accounts change */
+  private onAccountsChanged(providerId: string, payload: unknown): void {
+    if (this.selected?.providerId !== providerId || !Array.isArray(payload)) return;
+
+    const accounts = payload as CIP0103Account[];
+    if (accounts.some((account) => account.partyId === this.selected!.partyId)) return;
+
+    const fallback = accounts.find((account) => account.primary) ?? accounts[0];
+    this.selected = fallback ? { providerId, partyId: fallback.partyId } : null;
+  }
+}
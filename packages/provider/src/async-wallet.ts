@@ -30,8 +30,17 @@ export interface AsyncConnectOptions {
 }
 
 export interface AsyncPrepareExecuteOptions {
+  /** Timeout for waiting for the terminal txChanged event (ms) */
   timeoutMs?: number;
+  /** Callback when userUrl is available (for UI to redirect / show QR) */
   onUserUrl?: (url: string) => void;
+  /**
+   * Stops waiting; the returned Promise rejects with INVALID_INPUT (-32000)
+   * and `data.aborted`. The wallet may still execute the transaction.
+   */
+  signal?: AbortSignal;
+  /** txChanged events received before waiting started, e.g. while the request was pending */
+  pastEvents?: CIP0103TxChangedEvent[];
 }
 
 // ─── Async Connect ──────────────────────────────────────────────────────────
@@ -93,14 +102,22 @@ export async function handleAsyncConnect(
 
 // ─── Async PrepareExecute ───────────────────────────────────────────────────
 
+/** New commandId for a command the dApp did not name */
+export function createCommandId(): string {
+  return `cmd_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
 const TERMINAL_TX_STATUSES: CIP0103TxStatus[] = ['executed', 'failed'];
 
 /**
  * Handle an async prepareExecute flow:
  *
  * 1. If result has userUrl, invoke onUserUrl callback for UI.
- * 2. Wait for 'txChanged' event with matching commandId.
- * 3. Return when txChanged reaches a terminal state (executed / failed).
+ * 2. Wait for 'txChanged' event with matching commandId (options.pastEvents
+ *    are checked first).
+ * 3. Return when txChanged reaches a terminal state (executed / failed),
+ *    or reject on timeout or when options.signal aborts. Either way the
+ *    wallet may still execute the transaction later.
  */
 export async function handleAsyncPrepareExecute(
   walletProvider: CIP0103Provider,
@@ -108,6 +125,11 @@ export async function handleAsyncPrepareExecute(
   userUrl: string | undefined,
   options: AsyncPrepareExecuteOptions = {},
 ): Promise<CIP0103TxChangedEvent> {
+  const { signal } = options;
+  if (signal?.aborted) {
+    throw waitAborted(commandId);
+  }
+
   if (userUrl) {
     options.onUserUrl?.(userUrl);
   }
@@ -117,10 +139,17 @@ export async function handleAsyncPrepareExecute(
   return new Promise<CIP0103TxChangedEvent>((resolve, reject) => {
     let settled = false;
 
+    const settle = (): boolean => {
+      if (settled) return false;
+      settled = true;
+      clearTimeout(timer);
+      walletProvider.removeListener(CIP0103_EVENTS.TX_CHANGED, onTxChanged);
+      signal?.removeEventListener('abort', onAbort);
+      return true;
+    };
+
     const timer = setTimeout(() => {
-      if (!settled) {
-        settled = true;
-        walletProvider.removeListener(CIP0103_EVENTS.TX_CHANGED, onTxChanged);
+      if (settle()) {
         reject(
           new ProviderRpcError(
             'Async prepareExecute timed out',
@@ -131,19 +160,18 @@ export async function handleAsyncPrepareExecute(
       }
     }, timeoutMs);
 
+    const onAbort = () => {
+      if (settle()) {
+        reject(waitAborted(commandId));
+      }
+    };
+
     const onTxChanged = (event: CIP0103TxChangedEvent) => {
       // Ignore events for other commands
       if (event.commandId !== commandId) return;
 
       if (TERMINAL_TX_STATUSES.includes(event.status)) {
-        if (!settled) {
-          settled = true;
-          clearTimeout(timer);
-          walletProvider.removeListener(
-            CIP0103_EVENTS.TX_CHANGED,
-            onTxChanged,
-          );
-
+        if (settle()) {
           if (event.status === 'failed') {
             reject(
               new ProviderRpcError(
@@ -160,5 +188,18 @@ export async function handleAsyncPrepareExecute(
     };
 
     walletProvider.on(CIP0103_EVENTS.TX_CHANGED, onTxChanged);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    for (const event of options.pastEvents ?? []) {
+      onTxChanged(event);
+    }
   });
 }
+
+/** The dApp stopped waiting; unlike USER_REJECTED, the transaction may still execute */
+function waitAborted(commandId: string): ProviderRpcError {
+  return new ProviderRpcError(
+    'Stopped waiting for async prepareExecute',
+    JSON_RPC_ERRORS.INVALID_INPUT,
+    { commandId, aborted: true },
+  );
+}
@@ -27,9 +27,10 @@ import type {
 } from '@partylayer/core';
 import { CIP0103_EVENTS } from '@partylayer/core';
 import { CIP0103EventBus } from './event-bus';
-import { unsupportedMethod, disconnected } from './errors';
+import { unsupportedMethod, disconnected, invalidParams } from './errors';
 import { toProviderRpcError } from './error-map';
 import { toCAIP2Network } from './network';
+import { createCommandId } from './async-wallet';
 
 /** Injected at build time by tsup from package.json version */
 declare const __PROVIDER_VERSION__: string;
@@ -39,6 +40,38 @@ const PROVIDER_VERSION = typeof __PROVIDER_VERSION__ !== 'undefined'
 
 // ─── Bridge Client Interface ────────────────────────────────────────────────
 
+/**
+ * Party account as carried on a PartyLayer session.
+ */
+export interface BridgeSessionAccount {
+  partyId: unknown;
+  primary: boolean;
+  hint?: string;
+  publicKey?: string;
+  namespace?: string;
+}
+
+/**
+ * Per-item batch result as returned by PartyLayerClient batch methods.
+ */
+export interface BridgeBatchResult<T> {
+  items: Array<
+    | { status: 'fulfilled'; value: T }
+    | { status: 'rejected'; error: unknown }
+    | { status: 'skipped' }
+  >;
+}
+
+/**
+ * Outcome of one `prepareExecuteBatch` item.
+ */
+export interface BridgeBatchItemOutcome {
+  commandId: string;
+  status: 'executed' | 'failed';
+  /** Normalized error (failed items only) */
+  error?: { code: number; message: string };
+}
+
 /**
  * Minimal interface for the PartyLayerClient consumed by the bridge.
  * Using an interface avoids importing the full SDK (prevents circular deps).
@@ -48,6 +81,7 @@ export interface BridgeableClient {
     sessionId: unknown;
     walletId: unknown;
     partyId: unknown;
+    accounts?: BridgeSessionAccount[];
     network: string;
     expiresAt?: number;
     capabilitiesSnapshot?: string[];
@@ -57,6 +91,7 @@ export interface BridgeableClient {
     sessionId: unknown;
     walletId: unknown;
     partyId: unknown;
+    accounts?: BridgeSessionAccount[];
     network: string;
     expiresAt?: number;
     capabilitiesSnapshot?: string[];
@@ -79,6 +114,16 @@ export interface BridgeableClient {
     commandId?: string;
     updateId?: string;
   }>;
+  signTransactions?(params: Array<{ tx: unknown }>): Promise<BridgeBatchResult<{
+    transactionHash: unknown;
+    signedTx?: unknown;
+    partyId?: unknown;
+  }>>;
+  submitBatch?(params: Array<{ signedTx: unknown }>): Promise<BridgeBatchResult<{
+    transactionHash: unknown;
+    commandId?: string;
+    updateId?: string;
+  }>>;
   ledgerApi?(params: {
     requestMethod: string;
     resource: string;
@@ -192,9 +237,7 @@ async function handleRequest(
       case 'listAccounts': {
         const session = await client.getActiveSession();
         if (!session) return [] as CIP0103Account[];
-        return [
-          sessionToAccount(session),
-        ] satisfies CIP0103Account[];
+        return sessionToAccounts(session) satisfies CIP0103Account[];
       }
 
       case 'getPrimaryAccount': {
@@ -215,7 +258,7 @@ async function handleRequest(
 
       case 'prepareExecute': {
         const p = normalizeParams(params);
-        const cmdId = `cmd_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+        const cmdId = createCommandId();
 
         // 1. Emit 'pending'
         pendingEmitted.add(cmdId);
@@ -280,6 +323,20 @@ async function handleRequest(
         return undefined;
       }
 
+      // PartyLayer extension (not in CIP-0103): sign all transactions, then
+      // submit them, with a txChanged lifecycle per transaction. Nothing is
+      // submitted unless every transaction was signed.
+      case 'prepareExecuteBatch': {
+        if (!client.signTransactions || !client.submitBatch) {
+          throw unsupportedMethod(method);
+        }
+        const p = normalizeParams(params);
+        if (!Array.isArray(p.transactions) || p.transactions.length === 0) {
+          throw invalidParams('prepareExecuteBatch expects a non-empty "transactions" array');
+        }
+        return executeBatch(client, p.transactions, eventBus, pendingEmitted);
+      }
+
       case 'ledgerApi': {
         if (!client.ledgerApi) {
           throw unsupportedMethod('ledgerApi');
@@ -301,6 +358,98 @@ async function handleRequest(
   }
 }
 
+/**
+ * Run a prepareExecuteBatch request.
+ */
+async function executeBatch(
+  client: BridgeableClient,
+  transactions: unknown[],
+  eventBus: CIP0103EventBus,
+  pendingEmitted: Set<string>,
+): Promise<BridgeBatchItemOutcome[]> {
+  const commandIds = transactions.map(() => createCommandId());
+  const outcomes: BridgeBatchItemOutcome[] = commandIds.map((commandId) => ({
+    commandId,
+    status: 'failed',
+  }));
+
+  const fail = (index: number, error?: unknown): void => {
+    pendingEmitted.delete(commandIds[index]);
+    eventBus.emit<CIP0103TxChangedEvent>(CIP0103_EVENTS.TX_CHANGED, {
+      status: 'failed',
+      commandId: commandIds[index],
+    } as CIP0103TxChangedEvent);
+    if (error !== undefined) {
+      const rpcError = toProviderRpcError(error);
+      outcomes[index].error = { code: rpcError.code, message: rpcError.message };
+    }
+  };
+  const failAll = (err: unknown): never => {
+    commandIds.forEach((_, index) => fail(index));
+    throw err;
+  };
+
+  // 1. Emit 'pending' for every transaction
+  for (const commandId of commandIds) {
+    pendingEmitted.add(commandId);
+    eventBus.emit<CIP0103TxChangedEvent>(CIP0103_EVENTS.TX_CHANGED, {
+      status: 'pending',
+      commandId,
+    } as CIP0103TxChangedEvent);
+  }
+
+  // 2. Sign all transactions (a single wallet prompt when the wallet batches)
+  const signed = await client.signTransactions!(transactions.map((tx) => ({ tx }))).catch(failAll);
+  const session = await client.getActiveSession();
+  const signedTxs: Array<{ signedTx: unknown }> = [];
+  signed.items.forEach((item, index) => {
+    if (item.status !== 'fulfilled') {
+      fail(index, item.status === 'rejected' ? item.error : undefined);
+      return;
+    }
+    const partyId = String(item.value.partyId ?? session?.partyId ?? 'unknown');
+    eventBus.emit<CIP0103TxChangedEvent>(CIP0103_EVENTS.TX_CHANGED, {
+      status: 'signed',
+      commandId: commandIds[index],
+      payload: {
+        signature: String(item.value.transactionHash),
+        signedBy: partyId,
+        party: partyId,
+      },
+    } as CIP0103TxChangedEvent);
+    signedTxs.push({ signedTx: item.value.signedTx ?? item.value.transactionHash });
+  });
+
+  if (signedTxs.length < commandIds.length) {
+    // Not every transaction was signed: fail the signed ones instead of submitting
+    signed.items.forEach((item, index) => {
+      if (item.status === 'fulfilled') fail(index);
+    });
+    return outcomes;
+  }
+
+  // 3. Submit in order, then emit 'executed' or 'failed' per transaction
+  const receipts = await client.submitBatch!(signedTxs).catch(failAll);
+  receipts.items.forEach((item, index) => {
+    if (item.status !== 'fulfilled') {
+      fail(index, item.status === 'rejected' ? item.error : undefined);
+      return;
+    }
+    pendingEmitted.delete(commandIds[index]);
+    eventBus.emit<CIP0103TxChangedEvent>(CIP0103_EVENTS.TX_CHANGED, {
+      status: 'executed',
+      commandId: commandIds[index],
+      payload: {
+        updateId: item.value.updateId ?? item.value.commandId ?? String(item.value.transactionHash),
+        completionOffset: 0,
+      },
+    } as CIP0103TxChangedEvent);
+    outcomes[index].status = 'executed';
+  });
+
+  return outcomes;
+}
+
 // ─── Event Wiring ───────────────────────────────────────────────────────────
 
 /**
@@ -319,7 +468,9 @@ function wireEvents(
   client.on('session:connected', (event: unknown) => {
     const e = event as { type: string; session: BridgeableClient extends { getActiveSession(): Promise<infer S> } ? NonNullable<S> : never };
     if (!e || typeof e !== 'object' || !('session' in e)) return;
-    const session = (e as { session: { partyId: unknown; network: string; expiresAt?: number } }).session;
+    const session = (e as {
+      session: { partyId: unknown; accounts?: BridgeSessionAccount[]; network: string; expiresAt?: number };
+    }).session;
 
     eventBus.emit(CIP0103_EVENTS.STATUS_CHANGED, {
       connection: { isConnected: true },
@@ -335,18 +486,10 @@ function wireEvents(
       },
     } satisfies CIP0103StatusEvent);
 
-    eventBus.emit(CIP0103_EVENTS.ACCOUNTS_CHANGED, [
-      {
-        primary: true,
-        partyId: String(session.partyId),
-        status: 'allocated' as const,
-        hint: '',
-        publicKey: '',
-        namespace: '',
-        networkId: toCAIP2Network(session.network).networkId,
-        signingProviderId: '',
-      },
-    ] satisfies CIP0103Account[]);
+    eventBus.emit(
+      CIP0103_EVENTS.ACCOUNTS_CHANGED,
+      sessionToAccounts(session) satisfies CIP0103Account[],
+    );
 
     // Emit CIP-0103 'connected' event (async wallet completion signal)
     eventBus.emit(CIP0103_EVENTS.CONNECTED, {
@@ -366,6 +509,47 @@ function wireEvents(
     } satisfies CIP0103StatusEvent);
   });
 
+  // accounts:changed → accountsChanged (selected party switched)
+  client.on('accounts:changed', (event: unknown) => {
+    const e = event as { sessionId: unknown };
+    if (!e || typeof e !== 'object' || !('sessionId' in e)) return;
+
+    client.getActiveSession().then((session) => {
+      if (!session || session.sessionId !== e.sessionId) return;
+      eventBus.emit(
+        CIP0103_EVENTS.ACCOUNTS_CHANGED,
+        sessionToAccounts(session) satisfies CIP0103Account[],
+      );
+    }).catch(() => {
+      /* session lookup failed — nothing to announce */
+    });
+  });
+
+  // network:changed → statusChanged (active session moved to another network)
+  client.on('network:changed', (event: unknown) => {
+    const e = event as { sessionId: unknown };
+    if (!e || typeof e !== 'object' || !('sessionId' in e)) return;
+
+    client.getActiveSession().then((session) => {
+      if (!session || session.sessionId !== e.sessionId) return;
+      eventBus.emit(CIP0103_EVENTS.STATUS_CHANGED, {
+        connection: { isConnected: true },
+        provider: {
+          id: 'partylayer',
+          version: PROVIDER_VERSION,
+          providerType: 'browser',
+        },
+        network: toCAIP2Network(session.network),
+        session: {
+          accessToken: '',
+          userId: String(session.partyId),
+        },
+      } satisfies CIP0103StatusEvent);
+    }).catch(() => {
+      /* session lookup failed — nothing to announce */
+    });
+  });
+
   // tx:status → txChanged
   client.on('tx:status', (event: unknown) => {
     const e = event as {
@@ -446,18 +630,39 @@ function normalizeParams(
   return params;
 }
 
-function sessionToAccount(session: {
+/**
+ * Map a session's parties to CIP-0103 accounts.
+ *
+ * `primary` is the wallet's primary party, the one it signs as, even
+ * when another party is selected in the session.
+ */
+function sessionToAccounts(session: {
   partyId: unknown;
+  accounts?: BridgeSessionAccount[];
   network: string;
-}): CIP0103Account {
-  return {
-    primary: true,
-    partyId: String(session.partyId),
+}): CIP0103Account[] {
+  const accounts = session.accounts?.length
+    ? session.accounts
+    : [{ partyId: session.partyId, primary: true }];
+  const networkId = toCAIP2Network(session.network).networkId;
+  const primary = accounts.find((account) => account.primary)?.partyId ?? session.partyId;
+
+  return accounts.map((account) => ({
+    primary: String(account.partyId) === String(primary),
+    partyId: String(account.partyId),
     status: 'allocated',
-    hint: '',
-    publicKey: '',
-    namespace: '',
-    networkId: toCAIP2Network(session.network).networkId,
+    hint: account.hint ?? '',
+    publicKey: account.publicKey ?? '',
+    namespace: account.namespace ?? '',
+    networkId,
     signingProviderId: '',
-  };
+  }));
+}
+
+function sessionToAccount(session: {
+  partyId: unknown;
+  accounts?: BridgeSessionAccount[];
+  network: string;
+}): CIP0103Account {
+  return sessionToAccounts(session).find((account) => account.primary)!;
 }
@@ -1,7 +1,16 @@
 /**
  * CIP-0103 Wallet Discovery
  *
- * Discovers CIP-0103-compliant wallet Providers from the global scope.
+ * Discovers CIP-0103-compliant wallet Providers in two ways:
+ *
+ * - Announce/request handshake (EIP-6963 style): wallets dispatch
+ *   `canton:announceProvider` window events carrying their info and
+ *   Provider, and re-announce whenever a dApp dispatches
+ *   `canton:requestProvider`. Late-injecting wallets and wallets under
+ *   any name are picked up as soon as they announce.
+ * - Scanning well-known window paths, as a fallback for wallets that
+ *   only inject themselves.
+ *
  * Wallet-agnostic: no hardcoded wallet logic, only duck-type checking
  * for the Provider interface shape.
  */
@@ -17,13 +26,46 @@ export interface DiscoveredProvider {
   /** The native CIP-0103 Provider instance */
   provider: CIP0103Provider;
   /** How it was discovered */
-  source: 'injected' | 'registry';
+  source: 'injected' | 'registry' | 'announced';
   /** Whether the provider supports async flows (userUrl) */
   isAsync?: boolean;
   /** Display name (if discoverable from status) */
   name?: string;
+  /** Info the wallet announced (announced providers only) */
+  info?: CantonProviderInfo;
+}
+
+/** Wallet info carried by `canton:announceProvider` */
+export interface CantonProviderInfo {
+  /** Stable wallet identifier (becomes DiscoveredProvider.id) */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Icon as a data URI */
+  icon: string;
+  /** Reverse-DNS identifier (e.g. "io.example.wallet") */
+  rdns: string;
+  /** Wallet version */
+  version: string;
 }
 
+/** `detail` of a `canton:announceProvider` event */
+export interface CantonAnnounceProviderDetail {
+  info: CantonProviderInfo;
+  provider: CIP0103Provider;
+}
+
+/** Listener for provider registry changes */
+export type ProviderRegistryListener = (providers: DiscoveredProvider[]) => void;
+
+// ─── Announce / request events ──────────────────────────────────────────────
+
+/** Dispatched on window by wallets, with a CantonAnnounceProviderDetail */
+export const CANTON_ANNOUNCE_PROVIDER_EVENT = 'canton:announceProvider';
+
+/** Dispatched on window by dApps to ask every wallet to announce itself */
+export const CANTON_REQUEST_PROVIDER_EVENT = 'canton:requestProvider';
+
 // ─── Well-known injection paths ─────────────────────────────────────────────
 
 /**
@@ -60,17 +102,237 @@ export function isCIP0103Provider(obj: unknown): obj is CIP0103Provider {
   );
 }
 
+// ─── Announcing (wallet side) ───────────────────────────────────────────────
+
+/**
+ * Announce a wallet Provider to dApps.
+ *
+ * Dispatches `canton:announceProvider` now and again on every
+ * `canton:requestProvider`. Wallets call this once after injecting.
+ *
+ * @returns A function that stops answering requests
+ */
+export function announceProvider(
+  info: CantonProviderInfo,
+  provider: CIP0103Provider,
+): () => void {
+  if (!hasWindowEvents()) return () => {};
+
+  const detail: CantonAnnounceProviderDetail = Object.freeze({
+    info: Object.freeze({ ...info }),
+    provider,
+  });
+  const announce = () => {
+    window.dispatchEvent(
+      new CustomEvent(CANTON_ANNOUNCE_PROVIDER_EVENT, { detail }),
+    );
+  };
+
+  window.addEventListener(CANTON_REQUEST_PROVIDER_EVENT, announce);
+  announce();
+  return () => {
+    window.removeEventListener(CANTON_REQUEST_PROVIDER_EVENT, announce);
+  };
+}
+
+// ─── Provider Registry (dApp side) ──────────────────────────────────────────
+
+/**
+ * Observable set of discovered wallet Providers.
+ *
+ * Collects announced Providers and the results of the injection path
+ * scan. An announced Provider wins over a scanned entry for the same
+ * Provider or id. Subscribers are called whenever the set changes;
+ * getProviders() returns the same array until then.
+ */
+export class ProviderRegistry {
+  private announced = new Map<string, DiscoveredProvider>();
+  private scanned: DiscoveredProvider[] = [];
+  private providers: DiscoveredProvider[] = [];
+  private listeners = new Set<ProviderRegistryListener>();
+  private target: Window | null = null;
+
+  /**
+   * Listen for announcements on the current window, ask wallets to
+   * announce and scan the injection paths. Safe to call repeatedly.
+   */
+  start(): void {
+    if (!hasWindowEvents()) {
+      this.rescan();
+      return;
+    }
+    if (this.target === window) return;
+    this.stop();
+
+    this.target = window;
+    window.addEventListener(CANTON_ANNOUNCE_PROVIDER_EVENT, this.onAnnounce);
+    this.rescan();
+    window.dispatchEvent(new Event(CANTON_REQUEST_PROVIDER_EVENT));
+  }
+
+  /** Stop listening for announcements and forget announced Providers */
+  stop(): void {
+    if (!this.target) return;
+    this.target.removeEventListener(CANTON_ANNOUNCE_PROVIDER_EVENT, this.onAnnounce);
+    this.target = null;
+    this.announced.clear();
+    this.update();
+  }
+
+  /** Scan the injection paths again (for wallets that never announce) */
+  rescan(): void {
+    this.scanned = scanInjectionPaths();
+    this.update();
+  }
+
+  /** Current Providers: announced first, then scanned */
+  getProviders(): DiscoveredProvider[] {
+    return this.providers;
+  }
+
+  /** Subscribe to changes. Returns an unsubscribe function. */
+  subscribe(listener: ProviderRegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private onAnnounce = (event: Event): void => {
+    const detail = (event as CustomEvent<unknown>).detail as
+      | Partial<CantonAnnounceProviderDetail>
+      | undefined;
+    const info = detail?.info;
+    if (!info || typeof info.id !== 'string' || !info.id) return;
+    if (!isCIP0103Provider(detail.provider)) return;
+
+    this.announced.set(info.id, {
+      id: info.id,
+      provider: detail.provider,
+      source: 'announced',
+      name: info.name,
+      info,
+    });
+    this.update();
+  };
+
+  private update(): void {
+    const next = Array.from(this.announced.values());
+    const ids = new Set(next.map((p) => p.id));
+    const providers = new Set(next.map((p) => p.provider));
+    for (const entry of this.scanned) {
+      if (!ids.has(entry.id) && !providers.has(entry.provider)) {
+        next.push(entry);
+      }
+    }
+
+    const unchanged =
+      next.length === this.providers.length &&
+      next.every(
+        (p, i) =>
+          p.id === this.providers[i].id &&
+          p.provider === this.providers[i].provider,
+      );
+    if (unchanged) return;
+
+    this.providers = next;
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(next);
+      } catch {
+        // Swallow listener errors so one subscriber cannot break others
+      }
+    }
+  }
+}
+
+let sharedRegistry: ProviderRegistry | null = null;
+
+/**
+ * The shared, started ProviderRegistry used by discoverInjectedProviders()
+ * and waitForProvider().
+ */
+export function getProviderRegistry(): ProviderRegistry {
+  if (!sharedRegistry) {
+    sharedRegistry = new ProviderRegistry();
+  }
+  sharedRegistry.start();
+  return sharedRegistry;
+}
+
 // ─── Discovery ──────────────────────────────────────────────────────────────
 
 /**
- * Discover all injected CIP-0103 providers from the global scope.
+ * Discover all CIP-0103 providers available to the page.
  *
- * Scans well-known window paths and their sub-properties for objects
- * that implement the Provider interface.
+ * Returns the Providers wallets have announced, plus those found by
+ * scanning well-known window paths and their sub-properties.
  */
 export function discoverInjectedProviders(): DiscoveredProvider[] {
   if (typeof window === 'undefined') return [];
 
+  const registry = getProviderRegistry();
+  registry.rescan();
+  return [...registry.getProviders()];
+}
+
+/**
+ * Wait for a specific provider to be announced or injected (with timeout).
+ *
+ * Extensions may inject their provider after page load. This function
+ * resolves as soon as the wallet announces itself, and polls the
+ * injection paths at 100ms intervals as a fallback until the timeout
+ * expires.
+ *
+ * @param id - Provider id to match (exact or suffix match)
+ * @param timeoutMs - Maximum wait time (default 3000ms)
+ */
+export function waitForProvider(
+  id: string,
+  timeoutMs = 3000,
+): Promise<DiscoveredProvider | null> {
+  return new Promise((resolve) => {
+    // Check immediately
+    const match = findById(id);
+    if (match) {
+      resolve(match);
+      return;
+    }
+
+    let unsubscribe = () => {};
+    const finish = (result: DiscoveredProvider | null) => {
+      clearInterval(interval);
+      unsubscribe();
+      resolve(result);
+    };
+
+    const start = Date.now();
+    const interval = setInterval(() => {
+      const match = findById(id);
+      if (match) {
+        finish(match);
+        return;
+      }
+      if (Date.now() - start >= timeoutMs) {
+        finish(null);
+      }
+    }, 100);
+
+    unsubscribe = getProviderRegistry().subscribe((providers) => {
+      const match = providers.find(matchesId(id));
+      if (match) finish(match);
+    });
+  });
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * Scan well-known window paths for injected Providers
+ */
+function scanInjectionPaths(): DiscoveredProvider[] {
+  if (typeof window === 'undefined') return [];
+
   const discovered: DiscoveredProvider[] = [];
   const seen = new Set<CIP0103Provider>();
   const win = window as unknown as Record<string, unknown>;
@@ -111,48 +373,19 @@ export function discoverInjectedProviders(): DiscoveredProvider[] {
   return discovered;
 }
 
-/**
- * Wait for a specific provider to be injected (with timeout).
- *
- * Extensions may inject their provider after page load. This function
- * polls at 100ms intervals until the provider appears or the timeout
- * expires.
- *
- * @param id - Provider id to match (exact or suffix match)
- * @param timeoutMs - Maximum wait time (default 3000ms)
- */
-export function waitForProvider(
-  id: string,
-  timeoutMs = 3000,
-): Promise<DiscoveredProvider | null> {
-  return new Promise((resolve) => {
-    // Check immediately
-    const match = findById(id);
-    if (match) {
-      resolve(match);
-      return;
-    }
-
-    const start = Date.now();
-    const interval = setInterval(() => {
-      const match = findById(id);
-      if (match) {
-        clearInterval(interval);
-        resolve(match);
-        return;
-      }
-      if (Date.now() - start >= timeoutMs) {
-        clearInterval(interval);
-        resolve(null);
-      }
-    }, 100);
-  });
+function matchesId(id: string): (p: DiscoveredProvider) => boolean {
+  return (p) => p.id === id || p.id.endsWith(`.${id}`);
 }
 
-// ─── Helpers ────────────────────────────────────────────────────────────────
-
 function findById(id: string): DiscoveredProvider | undefined {
-  return discoverInjectedProviders().find(
-    (p) => p.id === id || p.id.endsWith(`.${id}`),
+  return discoverInjectedProviders().find(matchesId(id));
+}
+
+/** Whether window supports events (not the case for bare window mocks) */
+function hasWindowEvents(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.addEventListener === 'function' &&
+    typeof window.dispatchEvent === 'function'
   );
 }
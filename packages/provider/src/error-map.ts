@@ -16,8 +16,12 @@ const ERROR_CODE_TO_RPC: Record<ErrorCode, number> = {
   WALLET_NOT_INSTALLED: JSON_RPC_ERRORS.RESOURCE_UNAVAILABLE,
   ORIGIN_NOT_ALLOWED: RPC_ERRORS.UNAUTHORIZED,
   SESSION_EXPIRED: RPC_ERRORS.DISCONNECTED,
+  PARTY_NOT_FOUND: RPC_ERRORS.UNAUTHORIZED,
+  NETWORK_NOT_SUPPORTED: RPC_ERRORS.CHAIN_DISCONNECTED,
   CAPABILITY_NOT_SUPPORTED: RPC_ERRORS.UNSUPPORTED_METHOD,
+  TRANSACTION_FAILED: JSON_RPC_ERRORS.TRANSACTION_REJECTED,
   TRANSPORT_ERROR: JSON_RPC_ERRORS.INTERNAL_ERROR,
+  LEDGER_API_ERROR: JSON_RPC_ERRORS.INTERNAL_ERROR,
   REGISTRY_FETCH_FAILED: JSON_RPC_ERRORS.RESOURCE_UNAVAILABLE,
   REGISTRY_VERIFICATION_FAILED: JSON_RPC_ERRORS.INTERNAL_ERROR,
   REGISTRY_SCHEMA_INVALID: JSON_RPC_ERRORS.INTERNAL_ERROR,
@@ -155,3 +155,10 @@ export function transactionRejected(
 ): ProviderRpcError {
   return new ProviderRpcError(message, JSON_RPC_ERRORS.TRANSACTION_REJECTED, data);
 }
+
+export function rateLimitExceeded(
+  message = 'Rate limit exceeded',
+  data?: unknown,
+): ProviderRpcError {
+  return new ProviderRpcError(message, JSON_RPC_ERRORS.RATE_LIMIT_EXCEEDED, data);
+}
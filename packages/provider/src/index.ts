@@ -6,7 +6,9 @@
  * This package provides:
  * - PartyLayerProvider: a CIP-0103-compliant Provider that routes
  *   requests to any native CIP-0103 wallet provider.
- * - Wallet discovery: scans for injected CIP-0103 providers.
+ * - AggregatingProvider: one Provider over every discovered wallet.
+ * - Wallet discovery: announce/request events plus a scan for injected
+ *   CIP-0103 providers, behind an observable ProviderRegistry.
  * - Error model: ProviderRpcError with EIP-1193 / EIP-1474 numeric codes.
  * - CAIP-2 network utilities.
  * - Backward-compatibility bridge from PartyLayerClient to Provider.
@@ -14,12 +16,22 @@
 
 // ─── Provider ───────────────────────────────────────────────────────────────
 
-export { PartyLayerProvider } from './provider';
-export type { PartyLayerProviderOptions } from './provider';
+export { PartyLayerProvider, extensionMethod } from './provider';
+export type { PartyLayerProviderOptions, PartyLayerRequestPayload, ExtensionMethod } from './provider';
+
+// ─── Aggregator ─────────────────────────────────────────────────────────────
+
+export { AggregatingProvider } from './aggregator';
+export type {
+  AggregatingProviderOptions,
+  AggregatedRequestPayload,
+  AggregatedAccount,
+} from './aggregator';
 
 // ─── Bridge ─────────────────────────────────────────────────────────────────
 
 export { createProviderBridge } from './bridge';
+export type { BridgeBatchItemOutcome } from './bridge';
 
 // ─── Errors ─────────────────────────────────────────────────────────────────
 
@@ -38,6 +50,7 @@ export {
   resourceNotFound,
   resourceUnavailable,
   transactionRejected,
+  rateLimitExceeded,
 } from './errors';
 
 // ─── Error Mapping ──────────────────────────────────────────────────────────
@@ -50,8 +63,18 @@ export {
   discoverInjectedProviders,
   waitForProvider,
   isCIP0103Provider,
+  announceProvider,
+  getProviderRegistry,
+  ProviderRegistry,
+  CANTON_ANNOUNCE_PROVIDER_EVENT,
+  CANTON_REQUEST_PROVIDER_EVENT,
+} from './discovery';
+export type {
+  DiscoveredProvider,
+  CantonProviderInfo,
+  CantonAnnounceProviderDetail,
+  ProviderRegistryListener,
 } from './discovery';
-export type { DiscoveredProvider } from './discovery';
 
 // ─── Async Wallet ───────────────────────────────────────────────────────────
 
@@ -77,7 +100,14 @@ export { CIP0103EventBus } from './event-bus';
 // ─── Method Router ──────────────────────────────────────────────────────────
 
 export { MethodRouter } from './method-router';
-export type { MethodHandler } from './method-router';
+export type { MethodHandler, MethodRouterOptions } from './method-router';
+export { CIP0103_METHOD_SCHEMAS, getMethodSchema } from './method-schema';
+export type { MethodSchema, SchemaCheck } from './method-schema';
+
+// ─── Request Scheduler ──────────────────────────────────────────────────────
+
+export { RequestScheduler, DEFAULT_INTERACTIVE_METHODS } from './request-scheduler';
+export type { RequestSchedulerOptions } from './request-scheduler';
 
 // ─── Re-export CIP-0103 types from core ─────────────────────────────────────
 
@@ -95,6 +125,7 @@ export type {
   CIP0103StatusEvent,
   CIP0103TxStatus,
   CIP0103TxChangedEvent,
+  CIP0103PrepareExecuteResult,
   CIP0103TxPendingPayload,
   CIP0103TxSignedPayload,
   CIP0103TxExecutedPayload,
@@ -105,6 +136,10 @@ export type {
   CIP0103ProviderRpcError,
   CIP0103Method,
   CIP0103Event,
+  CIP0103MethodMap,
+  CIP0103MethodParams,
+  CIP0103MethodResult,
+  CIP0103TypedRequestPayload,
 } from '@partylayer/core';
 
 export {
@@ -7,6 +7,9 @@
  *
  * Forward-compatible: unknown methods are passed through to the wallet provider
  * rather than rejected, allowing support for future CIP extensions.
+ *
+ * Opt-in validation checks the params and results of the mandatory methods
+ * against CIP0103_METHOD_SCHEMAS.
  */
 
 import type {
@@ -14,19 +17,33 @@ import type {
   CIP0103RequestPayload,
   CIP0103RequestParams,
 } from '@partylayer/core';
-import { unsupportedMethod, disconnected } from './errors';
+import { unsupportedMethod, disconnected, invalidParams, internalError } from './errors';
 import { toProviderRpcError } from './error-map';
+import { getMethodSchema } from './method-schema';
 
 export type MethodHandler<T = unknown> = (
   walletProvider: CIP0103Provider,
   params?: CIP0103RequestParams,
+  signal?: AbortSignal,
 ) => Promise<T>;
 
+export interface MethodRouterOptions {
+  /** Check params and results of the mandatory methods (default false) */
+  validate?: boolean;
+  /**
+   * Called with a non-conformant result, which is then returned as is.
+   * Without it, such results reject with INTERNAL_ERROR.
+   */
+  onInvalidResult?: (method: string, problem: string, result: unknown) => void;
+}
+
 export class MethodRouter {
   private handlers = new Map<string, MethodHandler>();
   private walletProvider: CIP0103Provider | null = null;
+  private readonly options: MethodRouterOptions;
 
-  constructor() {
+  constructor(options: MethodRouterOptions = {}) {
+    this.options = options;
     this.registerDefaults();
   }
 
@@ -45,8 +62,12 @@ export class MethodRouter {
     this.handlers.set(method, handler as MethodHandler);
   }
 
-  /** Route a request to the appropriate handler */
-  async route<T>(payload: CIP0103RequestPayload): Promise<T> {
+  /**
+   * Route a request to the appropriate handler
+   *
+   * The signal is handed to the handler; it is never sent to the wallet.
+   */
+  async route<T>(payload: CIP0103RequestPayload, signal?: AbortSignal): Promise<T> {
     const { method, params } = payload;
 
     const handler = this.handlers.get(method);
@@ -63,16 +84,32 @@ export class MethodRouter {
       throw unsupportedMethod(method);
     }
 
+    const schema = this.options.validate ? getMethodSchema(method) : undefined;
+    const paramsProblem = schema?.params?.(params);
+    if (paramsProblem) {
+      throw invalidParams(`Invalid params for "${method}": ${paramsProblem}`, { method });
+    }
+
     // connect and isConnected can operate without a wallet provider
     if (!this.walletProvider && method !== 'connect' && method !== 'isConnected') {
       throw disconnected('No wallet provider connected');
     }
 
+    let result: T;
     try {
-      return (await handler(this.walletProvider!, params)) as T;
+      result = (await handler(this.walletProvider!, params, signal)) as T;
     } catch (err) {
       throw toProviderRpcError(err);
     }
+
+    const resultProblem = schema?.result?.(result);
+    if (resultProblem) {
+      if (!this.options.onInvalidResult) {
+        throw internalError(`Non-conformant result for "${method}": ${resultProblem}`, { method });
+      }
+      this.options.onInvalidResult(method, resultProblem, result);
+    }
+    return result;
   }
 
   /** Check whether a handler is registered for a given method */
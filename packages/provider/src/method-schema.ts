@@ -0,0 +1,132 @@
+/**
+ * CIP-0103 Method Schemas
+ *
+ * Runtime checks for the params and results of the mandatory methods,
+ * mirroring CIP0103MethodMap. The MethodRouter applies them when
+ * validation is enabled.
+ *
+ * The checks are deliberately shallow: they verify the shapes the spec
+ * defines and ignore extra fields, so wallets may add to a result
+ * without failing validation. Transaction payloads and Ledger API
+ * bodies are never inspected.
+ */
+
+import type { CIP0103Method } from '@partylayer/core';
+import { CIP0103_METHODS } from '@partylayer/core';
+
+/** Returns a description of the problem, or null when the value conforms */
+export type SchemaCheck = (value: unknown) => string | null;
+
+export interface MethodSchema {
+  params?: SchemaCheck;
+  result?: SchemaCheck;
+}
+
+// ─── Checks ─────────────────────────────────────────────────────────────────
+
+type Shape = Record<string, (value: unknown) => boolean>;
+
+const isString = (value: unknown): boolean => typeof value === 'string';
+const isBoolean = (value: unknown): boolean => typeof value === 'boolean';
+const optional =
+  (check: (value: unknown) => boolean) =>
+  (value: unknown): boolean =>
+    value === undefined || check(value);
+const oneOf =
+  (...allowed: string[]) =>
+  (value: unknown): boolean =>
+    typeof value === 'string' && allowed.includes(value);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Check that a value is an object whose fields pass the shape's checks */
+function object(shape: Shape): SchemaCheck {
+  return (value) => {
+    if (!isObject(value)) return 'expected an object';
+    for (const [field, check] of Object.entries(shape)) {
+      if (!check(value[field])) return `invalid field "${field}"`;
+    }
+    return null;
+  };
+}
+
+const conforms = (check: SchemaCheck) => (value: unknown): boolean => check(value) === null;
+
+const connectResult = object({
+  isConnected: isBoolean,
+  reason: optional(isString),
+  userUrl: optional(isString),
+});
+
+const account = object({
+  primary: isBoolean,
+  partyId: isString,
+  status: oneOf('initializing', 'allocated'),
+  hint: isString,
+  publicKey: isString,
+  namespace: isString,
+  networkId: isString,
+  signingProviderId: isString,
+});
+
+const accountList: SchemaCheck = (value) => {
+  if (!Array.isArray(value)) return 'expected an array of accounts';
+  for (const [index, entry] of value.entries()) {
+    const problem = account(entry);
+    if (problem) return `account ${index}: ${problem}`;
+  }
+  return null;
+};
+
+// ─── Schemas ────────────────────────────────────────────────────────────────
+
+export const CIP0103_METHOD_SCHEMAS: Record<CIP0103Method, MethodSchema> = {
+  [CIP0103_METHODS.CONNECT]: { result: connectResult },
+  [CIP0103_METHODS.DISCONNECT]: {},
+  [CIP0103_METHODS.IS_CONNECTED]: { result: connectResult },
+  [CIP0103_METHODS.STATUS]: {
+    result: object({
+      connection: conforms(connectResult),
+      provider: conforms(
+        object({
+          id: isString,
+          version: isString,
+          providerType: oneOf('browser', 'desktop', 'mobile', 'remote'),
+        }),
+      ),
+    }),
+  },
+  [CIP0103_METHODS.GET_ACTIVE_NETWORK]: {
+    result: object({ networkId: isString, ledgerApi: optional(isString) }),
+  },
+  [CIP0103_METHODS.LIST_ACCOUNTS]: { result: accountList },
+  [CIP0103_METHODS.GET_PRIMARY_ACCOUNT]: { result: account },
+  [CIP0103_METHODS.SIGN_MESSAGE]: {
+    params: object({ message: isString }),
+    result: (value) => (typeof value === 'string' ? null : 'expected a signature string'),
+  },
+  [CIP0103_METHODS.PREPARE_EXECUTE]: {
+    params: (value) => (isObject(value) ? null : 'expected a transaction object'),
+    result: (value) =>
+      value === null || value === undefined
+        ? null
+        : object({ userUrl: optional(isString), commandId: optional(isString) })(value),
+  },
+  [CIP0103_METHODS.LEDGER_API]: {
+    params: object({
+      requestMethod: oneOf('GET', 'POST', 'PUT', 'DELETE'),
+      resource: isString,
+      body: optional(isString),
+    }),
+    result: object({ response: isString }),
+  },
+};
+
+/** Schema of a mandatory method (undefined for other methods) */
+export function getMethodSchema(method: string): MethodSchema | undefined {
+  return Object.prototype.hasOwnProperty.call(CIP0103_METHOD_SCHEMAS, method)
+    ? CIP0103_METHOD_SCHEMAS[method as CIP0103Method]
+    : undefined;
+}
@@ -7,6 +7,7 @@
  * - Method routing with orchestrated overrides (connect, disconnect, etc.)
  * - Event forwarding from the native wallet to the dApp
  * - Async wallet support (userUrl flows)
+ * - Request scheduling (one interactive request at a time)
  * - Error normalization to ProviderRpcError
  * - Forward compatibility for unknown methods and events
  *
@@ -19,12 +20,20 @@ import type {
   CIP0103RequestPayload,
   CIP0103EventListener,
   CIP0103ConnectResult,
+  CIP0103PrepareExecuteResult,
   CIP0103StatusEvent,
+  CIP0103Method,
+  CIP0103MethodResult,
+  CIP0103TypedRequestPayload,
+  CIP0103TxExecutedPayload,
+  CIP0103TxChangedEvent,
 } from '@partylayer/core';
 import { CIP0103_EVENTS } from '@partylayer/core';
 import { CIP0103EventBus } from './event-bus';
 import { MethodRouter } from './method-router';
-import { handleAsyncConnect } from './async-wallet';
+import { RequestScheduler, type RequestSchedulerOptions } from './request-scheduler';
+import { handleAsyncConnect, handleAsyncPrepareExecute, createCommandId } from './async-wallet';
+import { userRejected } from './errors';
 import type { DiscoveredProvider } from './discovery';
 
 // ─── Configuration ──────────────────────────────────────────────────────────
@@ -36,6 +45,35 @@ export interface PartyLayerProviderOptions {
   asyncTimeoutMs?: number;
   /** Callback when a userUrl is available (for async wallets) */
   onUserUrl?: (url: string) => void;
+  /** Check params and results of the mandatory methods at runtime (default false) */
+  validate?: boolean;
+  /**
+   * Called with a non-conformant wallet result (when validating), which is
+   * then returned as is. Without it, such results reject with INTERNAL_ERROR.
+   */
+  onInvalidResult?: (method: string, problem: string, result: unknown) => void;
+  /**
+   * Request scheduling: interactive methods run one at a time, identical
+   * reads share one wallet call. Pass false to forward every request at once.
+   */
+  scheduler?: RequestSchedulerOptions | false;
+}
+
+/** request() payload with PartyLayer options */
+export interface PartyLayerRequestPayload extends CIP0103RequestPayload {
+  /** Cancels waiting on an async wallet (prepareExecute returning a userUrl) */
+  signal?: AbortSignal;
+}
+
+/** A method name outside CIP0103MethodMap, created with extensionMethod() */
+export type ExtensionMethod = string & { readonly __extensionMethod: true };
+
+/**
+ * Mark a wallet-specific method name for PartyLayerProvider.request().
+ * Plain strings only type-check for mandatory methods, so typos fail to compile.
+ */
+export function extensionMethod(name: string): ExtensionMethod {
+  return name as ExtensionMethod;
 }
 
 // ─── Provider ───────────────────────────────────────────────────────────────
@@ -43,6 +81,7 @@ export interface PartyLayerProviderOptions {
 export class PartyLayerProvider implements CIP0103Provider {
   private readonly eventBus: CIP0103EventBus;
   private readonly router: MethodRouter;
+  private readonly scheduler: RequestScheduler | null;
   private readonly options: PartyLayerProviderOptions;
   private nativeProvider: CIP0103Provider | null;
   private connected = false;
@@ -54,7 +93,12 @@ export class PartyLayerProvider implements CIP0103Provider {
     this.options = options;
     this.eventBus = new CIP0103EventBus();
     this.eventBus.setOwner(this);
-    this.router = new MethodRouter();
+    this.router = new MethodRouter({
+      validate: options.validate,
+      onInvalidResult: options.onInvalidResult,
+    });
+    this.scheduler =
+      options.scheduler === false ? null : new RequestScheduler(options.scheduler);
 
     this.nativeProvider = options.walletProvider?.provider ?? null;
 
@@ -69,8 +113,25 @@ export class PartyLayerProvider implements CIP0103Provider {
 
   // ─── CIP-0103 Provider Interface ─────────────────────────────────────────
 
-  async request<T = unknown>(args: CIP0103RequestPayload): Promise<T> {
-    return this.router.route<T>(args);
+  /**
+   * Mandatory methods are typed by CIP0103MethodMap. Other methods must be
+   * named with extensionMethod() and are forwarded to the wallet untyped;
+   * pass T to type their result.
+   */
+  request<M extends CIP0103Method>(
+    args: CIP0103TypedRequestPayload<M> & { signal?: AbortSignal },
+  ): Promise<
+    M extends 'prepareExecute'
+      ? CIP0103MethodResult<M> | CIP0103TxExecutedPayload
+      : CIP0103MethodResult<M>
+  >;
+  request<T = unknown>(
+    args: PartyLayerRequestPayload & { method: ExtensionMethod },
+  ): Promise<T>;
+  async request(args: PartyLayerRequestPayload): Promise<unknown> {
+    const { signal, ...payload } = args;
+    const route = () => this.router.route(payload, signal);
+    return this.scheduler ? this.scheduler.schedule(payload, route, signal) : route();
   }
 
   on<T = unknown>(
@@ -178,9 +239,41 @@ export class PartyLayerProvider implements CIP0103Provider {
 
     // prepareExecute: the wallet provider MUST emit txChanged per spec.
     // We forward those events through our event bus (via forwardNativeEvents).
-    // This handler just passes through to the wallet.
-    this.router.register('prepareExecute', async (wp, params) => {
-      return wp.request({ method: 'prepareExecute', params });
+    // Async wallets return a userUrl for approval instead of executing;
+    // then resolve with the terminal txChanged event. The command gets a
+    // commandId up front so that only its own events are followed, and
+    // events emitted while the request is pending are kept.
+    this.router.register('prepareExecute', async (wp, params, signal) => {
+      if (signal?.aborted) {
+        throw userRejected('Async prepareExecute aborted');
+      }
+      const fields = (Array.isArray(params) ? params[0] : params) as Record<string, unknown> | undefined;
+      const commandId = typeof fields?.commandId === 'string' ? fields.commandId : createCommandId();
+
+      const pastEvents: CIP0103TxChangedEvent[] = [];
+      const record = (event: CIP0103TxChangedEvent) => {
+        pastEvents.push(event);
+      };
+      wp.on(CIP0103_EVENTS.TX_CHANGED, record);
+      let result: CIP0103PrepareExecuteResult | undefined;
+      try {
+        result = await wp.request<CIP0103PrepareExecuteResult | undefined>({
+          method: 'prepareExecute',
+          params: { ...fields, commandId },
+        });
+      } finally {
+        wp.removeListener(CIP0103_EVENTS.TX_CHANGED, record);
+      }
+      if (!result?.userUrl) {
+        return result;
+      }
+
+      return handleAsyncPrepareExecute(wp, result.commandId ?? commandId, result.userUrl, {
+        timeoutMs: this.options.asyncTimeoutMs,
+        onUserUrl: this.options.onUserUrl,
+        signal,
+        pastEvents,
+      });
     });
   }
 
@@ -0,0 +1,168 @@
+/**
+ * Request Scheduler
+ *
+ * Wallets handle overlapping interactive requests badly: some open one
+ * approval popup per request, others reject the second one. The
+ * scheduler sits in front of the MethodRouter of one Provider and:
+ *
+ * - runs interactive methods (connect, signMessage, prepareExecute) one
+ *   at a time, in call order, with a bounded queue
+ * - runs everything else concurrently, sharing one wallet call between
+ *   identical in-flight reads
+ */
+
+import type { CIP0103RequestPayload } from '@partylayer/core';
+import { rateLimitExceeded, userRejected } from './errors';
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+
+export interface RequestSchedulerOptions {
+  /**
+   * Interactive requests allowed to wait behind the running one (default 10).
+   * Further requests reject with RATE_LIMIT_EXCEEDED (-32005).
+   */
+  maxQueueLength?: number;
+  /** Methods run one at a time (default: DEFAULT_INTERACTIVE_METHODS) */
+  interactiveMethods?: readonly string[];
+}
+
+/** Methods that may prompt the user */
+export const DEFAULT_INTERACTIVE_METHODS: readonly string[] = [
+  'connect',
+  'signMessage',
+  'prepareExecute',
+];
+
+/** Methods without side effects; identical in-flight calls are shared */
+const READ_METHODS = new Set([
+  'isConnected',
+  'status',
+  'getActiveNetwork',
+  'listAccounts',
+  'getPrimaryAccount',
+]);
+
+interface QueuedRequest {
+  start: () => void;
+}
+
+// ─── Scheduler ──────────────────────────────────────────────────────────────
+
+export class RequestScheduler {
+  private readonly maxQueueLength: number;
+  private readonly interactiveMethods: Set<string>;
+  private readonly queue: QueuedRequest[] = [];
+  private readonly reads = new Map<string, Promise<unknown>>();
+  private running = false;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxQueueLength = options.maxQueueLength ?? 10;
+    this.interactiveMethods = new Set(options.interactiveMethods ?? DEFAULT_INTERACTIVE_METHODS);
+  }
+
+  /** Interactive requests waiting behind the running one */
+  get queueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Run a request according to its method.
+   *
+   * An aborted signal removes a queued interactive request, which then
+   * rejects with USER_REJECTED (4001).
+   */
+  schedule<T>(
+    payload: CIP0103RequestPayload,
+    run: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (this.interactiveMethods.has(payload.method)) {
+      return this.enqueue(payload.method, run, signal);
+    }
+
+    const key = readKey(payload);
+    if (key === undefined) {
+      return run();
+    }
+    const inflight = this.reads.get(key);
+    if (inflight) {
+      return inflight as Promise<T>;
+    }
+    const promise = run().finally(() => this.reads.delete(key));
+    this.reads.set(key, promise);
+    return promise;
+  }
+
+  private enqueue<T>(
+    method: string,
+    run: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (this.running && this.queue.length >= this.maxQueueLength) {
+      return Promise.reject(
+        rateLimitExceeded(`Too many pending requests: "${method}" not queued`, {
+          method,
+          maxQueueLength: this.maxQueueLength,
+        }),
+      );
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const request: QueuedRequest = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          run()
+            .then(resolve, reject)
+            .finally(() => this.next());
+        },
+      };
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(request);
+        if (index !== -1) this.queue.splice(index, 1);
+        reject(userRejected('Request aborted while queued', { method }));
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      if (!this.running) {
+        this.running = true;
+        request.start();
+        return;
+      }
+      this.queue.push(request);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private next(): void {
+    const request = this.queue.shift();
+    if (request) {
+      request.start();
+    } else {
+      this.running = false;
+    }
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/** Dedup key of a read request, or undefined if the request is not a read */
+function readKey(payload: CIP0103RequestPayload): string | undefined {
+  const { method, params } = payload;
+  const isRead =
+    READ_METHODS.has(method) ||
+    (method === 'ledgerApi' &&
+      !!params &&
+      !Array.isArray(params) &&
+      params.requestMethod === 'GET');
+  if (!isRead) return undefined;
+
+  try {
+    return `${method}:${JSON.stringify(params ?? null)}`;
+  } catch {
+    return undefined;
+  }
+}
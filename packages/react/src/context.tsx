@@ -2,7 +2,8 @@
  * React context for PartyLayer
  *
  * Manages wallet listing (registry + native CIP-0103 discovery),
- * session state, and event subscriptions.
+ * session state, and event subscriptions. Native wallets that announce
+ * themselves later are added as they appear.
  */
 
 import { createContext, useContext, useEffect, useState } from 'react';
@@ -10,8 +11,9 @@ import type {
   PartyLayerClient,
   Session,
   WalletInfo,
+  DiscoveredProvider,
 } from '@partylayer/sdk';
-import { discoverInjectedProviders } from '@partylayer/sdk';
+import { discoverInjectedProviders, getProviderRegistry } from '@partylayer/sdk';
 import {
   createNativeAdapter,
   createSyntheticWalletInfo,
@@ -95,11 +97,16 @@ export function PartyLayerProvider({
           nativeWallets.push(walletInfo);
         }
 
-        // Merge: native (detected) wallets first, then registry wallets
+        // Merge: native (detected) wallets first, then registry wallets.
+        // Keep native wallets announced while loading.
         const mergedWallets = [...nativeWallets, ...registryWallets];
+        const mergedIds = new Set(mergedWallets.map((w) => String(w.walletId)));
 
         setSession(sessionData);
-        setWallets(mergedWallets);
+        setWallets((prev) => [
+          ...prev.filter((w) => !mergedIds.has(String(w.walletId))),
+          ...mergedWallets,
+        ]);
         setIsLoading(false);
       } catch (err) {
         if (mounted) {
@@ -112,13 +119,10 @@ export function PartyLayerProvider({
 
     load();
 
-    // Delayed re-discovery for late-injecting extensions (e.g. Console Wallet
-    // can take up to 3s to inject into window). Re-scan at 2.5s and merge any
-    // newly found native CIP-0103 providers into the wallet list.
-    const rediscoverTimeout = setTimeout(async () => {
+    // Merge newly discovered native CIP-0103 providers into the wallet list
+    const addDiscovered = async (newDiscovered: DiscoveredProvider[]) => {
       if (!mounted) return;
       try {
-        const newDiscovered = await Promise.resolve(discoverInjectedProviders());
         const enriched = await Promise.all(
           newDiscovered.map((d) => enrichProviderInfo(d)),
         );
@@ -145,24 +149,59 @@ export function PartyLayerProvider({
       } catch {
         /* ignore re-discovery failures */
       }
+    };
+
+    // Wallets announcing themselves (canton:announceProvider) show up
+    // through the registry right away
+    const registry = getProviderRegistry();
+    const unsubscribeRegistry = registry.subscribe((providers) => {
+      addDiscovered(providers);
+    });
+
+    // Delayed re-scan for late-injecting extensions that do not announce
+    // (e.g. Console Wallet can take up to 3s to inject into window)
+    const rediscoverTimeout = setTimeout(() => {
+      if (mounted) registry.rescan();
     }, 2500);
 
-    // Subscribe to events
-    const unsubscribeConnect = client.on('session:connected', (event) => {
+    // Subscribe to events. The client may hold several sessions, so
+    // always re-read the active one instead of trusting the event payload.
+    const syncActiveSession = () => {
+      client.getActiveSession().then((active) => {
+        if (mounted) setSession(active);
+      }).catch(() => {
+        /* ignore */
+      });
+    };
+
+    const unsubscribeConnect = client.on('session:connected', () => {
       if (!mounted) return;
-      if (event.type === 'session:connected') {
-        setSession(event.session);
-      }
+      syncActiveSession();
     });
 
     const unsubscribeDisconnect = client.on('session:disconnected', () => {
       if (!mounted) return;
-      setSession(null);
+      syncActiveSession();
     });
 
     const unsubscribeExpired = client.on('session:expired', () => {
       if (!mounted) return;
-      setSession(null);
+      syncActiveSession();
+    });
+
+    const unsubscribeRefreshed = client.on('session:refreshed', () => {
+      if (!mounted) return;
+      syncActiveSession();
+    });
+
+    const unsubscribeAccounts = client.on('accounts:changed', () => {
+      if (!mounted) return;
+      syncActiveSession();
+    });
+
+    const unsubscribeNetwork = client.on('network:changed', () => {
+      if (!mounted) return;
+      syncActiveSession();
     });
 
     const unsubscribeError = client.on('error', (event) => {
@@ -175,9 +214,13 @@ export function PartyLayerProvider({
     return () => {
       mounted = false;
       clearTimeout(rediscoverTimeout);
+      unsubscribeRegistry();
       unsubscribeConnect();
       unsubscribeDisconnect();
       unsubscribeExpired();
+      unsubscribeRefreshed();
+      unsubscribeAccounts();
+      unsubscribeNetwork();
       unsubscribeError();
     };
   }, [client]);
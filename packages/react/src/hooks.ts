@@ -2,7 +2,7 @@
  * React hooks for PartyLayer
  */
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
 import type {
   Session,
   SignedMessage,
@@ -13,9 +13,13 @@ import type {
   SubmitTransactionParams,
   ConnectOptions,
   RegistryStatus,
+  DiscoveredProvider,
 } from '@partylayer/sdk';
+import { getProviderRegistry } from '@partylayer/sdk';
 import { usePartyLayerContext } from './context';
 
+const NO_PROVIDERS: DiscoveredProvider[] = [];
+
 /**
  * Hook to access PartyLayer client
  */
@@ -35,6 +39,21 @@ export function useWallets() {
   return { wallets, isLoading, error };
 }
 
+/**
+ * Hook to get the native CIP-0103 wallet Providers on the page
+ *
+ * Re-renders when a wallet announces itself (canton:announceProvider)
+ * or a rescan finds a new one.
+ */
+export function useDiscoveredProviders(): DiscoveredProvider[] {
+  const registry = getProviderRegistry();
+  return useSyncExternalStore(
+    (onChange) => registry.subscribe(onChange),
+    () => registry.getProviders(),
+    () => NO_PROVIDERS,
+  );
+}
+
 /**
  * Hook to get active session
  */
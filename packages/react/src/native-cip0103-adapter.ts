@@ -11,6 +11,7 @@ import type {
   PartyId,
   CapabilityKey,
   Session,
+  SessionAccount,
   WalletInfo,
   WalletAdapter,
   AdapterContext,
@@ -22,6 +23,7 @@ import type {
   SignMessageParams,
   SignTransactionParams,
   SubmitTransactionParams,
+  SignedTransactionPayload,
 } from '@partylayer/sdk';
 import type {
   CIP0103Provider,
@@ -30,6 +32,7 @@ import type {
   CIP0103Account,
   DiscoveredProvider,
 } from '@partylayer/sdk';
+import { isDamlTransaction, toJsonApiCommands, getSigningPartyId } from '@partylayer/sdk';
 
 // ─── Adapter ────────────────────────────────────────────────────────────────
 
@@ -101,8 +104,28 @@ export class NativeCIP0103Adapter implements WalletAdapter {
       }
     }
 
+    // 3. List all accounts exposed to this dApp
+    let accounts: SessionAccount[] | undefined;
+    try {
+      const listed = await this.provider.request<CIP0103Account[]>({
+        method: 'listAccounts',
+      });
+      if (Array.isArray(listed) && listed.length > 0) {
+        accounts = listed.map((account) => ({
+          partyId: account.partyId as PartyId,
+          primary: account.primary,
+          hint: account.hint,
+          publicKey: account.publicKey,
+          namespace: account.namespace,
+        }));
+      }
+    } catch {
+      // listAccounts optional — session falls back to the primary party
+    }
+
     return {
       partyId: partyId as PartyId,
+      accounts,
       session: {
         expiresAt: Date.now() + 24 * 60 * 60 * 1000, // 24h default
       },
@@ -126,7 +149,7 @@ export class NativeCIP0103Adapter implements WalletAdapter {
 
     return {
       signature: signature as unknown as SignedMessage['signature'],
-      partyId: _session.partyId,
+      partyId: getSigningPartyId(_session),
       message: params.message,
       nonce: params.nonce,
       domain: params.domain,
@@ -142,17 +165,17 @@ export class NativeCIP0103Adapter implements WalletAdapter {
     // but only capture the signed stage
     const result = await this.provider.request<{
       transactionHash?: string;
-      signedTx?: unknown;
+      signedTx?: SignedTransactionPayload;
       commandId?: string;
     }>({
       method: 'prepareExecute',
-      params: { tx: params.tx },
+      params: toPrepareExecuteParams(params.tx, getSigningPartyId(_session)),
     });
 
     return {
       signedTx: result.signedTx ?? result,
       transactionHash: (result.transactionHash ?? result.commandId ?? '') as unknown as SignedTransaction['transactionHash'],
-      partyId: _session.partyId,
+      partyId: getSigningPartyId(_session),
     };
   }
 
@@ -167,7 +190,7 @@ export class NativeCIP0103Adapter implements WalletAdapter {
       updateId?: string;
     }>({
       method: 'prepareExecute',
-      params: { tx: params.signedTx },
+      params: toPrepareExecuteParams(params.signedTx, getSigningPartyId(_session)),
     });
 
     return {
@@ -179,6 +202,19 @@ export class NativeCIP0103Adapter implements WalletAdapter {
   }
 }
 
+/**
+ * Build prepareExecute params: DamlTransactions are sent as JSON Ledger
+ * API commands, other payloads are passed through as `{ tx }`.
+ */
+function toPrepareExecuteParams(
+  tx: unknown,
+  partyId: PartyId,
+): Record<string, unknown> {
+  return isDamlTransaction(tx)
+    ? { ...toJsonApiCommands(tx, { actAs: [partyId] }) }
+    : { tx };
+}
+
 // ─── Factory ────────────────────────────────────────────────────────────────
 
 /**
@@ -204,12 +240,13 @@ export function createSyntheticWalletInfo(
 ): WalletInfo {
   const walletId = `cip0103:${discovered.id}` as WalletId;
   const name = discovered.name || formatProviderId(discovered.id);
+  const icon = discovered.info?.icon;
 
   return {
     walletId,
     name,
     website: '',
-    icons: {},
+    icons: icon ? { sm: icon, md: icon, lg: icon } : {},
     capabilities: [
       'connect',
       'disconnect',
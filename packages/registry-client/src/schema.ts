@@ -219,6 +219,12 @@ export function registryEntryToWalletInfo(
   if (entry.capabilities.transactionStatus) {
     capabilities.push('events');
   }
+  if (entry.capabilities.multiParty) {
+    capabilities.push('multiParty');
+  }
+  if (entry.capabilities.switchNetwork) {
+    capabilities.push('switchNetwork');
+  }
 
   return {
     walletId: toWalletId(entry.id),
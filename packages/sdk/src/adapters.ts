@@ -8,6 +8,7 @@ import type {
   LoggerAdapter,
   TelemetryAdapter,
 } from '@partylayer/core';
+import { SessionKeyManager } from './key-manager';
 
 /**
  * Default logger (console-based)
@@ -40,76 +41,32 @@ export class DefaultLogger implements LoggerAdapter {
 
 /**
  * Default crypto adapter (Web Crypto API)
+ *
+ * Encrypts with a per-install key from SessionKeyManager; the `key`
+ * argument (the origin) is bound as additional data. Throws when Web Crypto
+ * is unavailable rather than storing sessions in the clear.
  */
 export class DefaultCrypto implements CryptoAdapter {
-  private async getKey(origin: string): Promise<CryptoKey> {
-    if (typeof crypto === 'undefined' || !crypto.subtle) {
-      throw new Error('Web Crypto API not available');
-    }
+  private keys: SessionKeyManager;
 
-    const encoder = new TextEncoder();
-    const data = encoder.encode(origin);
-    const hash = await crypto.subtle.digest('SHA-256', data);
-    return crypto.subtle.importKey(
-      'raw',
-      hash.slice(0, 32),
-      { name: 'AES-GCM' },
-      false,
-      ['encrypt', 'decrypt']
-    );
+  constructor(keys: SessionKeyManager = new SessionKeyManager()) {
+    this.keys = keys;
   }
 
   async encrypt(data: string, key: string): Promise<string> {
-    if (typeof crypto === 'undefined' || !crypto.subtle) {
-      // Fallback to base64
-      return btoa(data);
-    }
-
-    try {
-      const cryptoKey = await this.getKey(key);
-      const iv = crypto.getRandomValues(new Uint8Array(12));
-      const encoder = new TextEncoder();
-      const encoded = encoder.encode(data);
-
-      const encrypted = await crypto.subtle.encrypt(
-        { name: 'AES-GCM', iv },
-        cryptoKey,
-        encoded
-      );
-
-      const combined = new Uint8Array(iv.length + encrypted.byteLength);
-      combined.set(iv);
-      combined.set(new Uint8Array(encrypted), iv.length);
-
-      return btoa(String.fromCharCode(...combined));
-    } catch {
-      return btoa(data);
-    }
+    return this.keys.encrypt(data, key);
   }
 
   async decrypt(encrypted: string, key: string): Promise<string> {
-    if (typeof crypto === 'undefined' || !crypto.subtle) {
-      return atob(encrypted);
-    }
-
-    try {
-      const cryptoKey = await this.getKey(key);
-      const combined = Uint8Array.from(atob(encrypted), (c) => c.charCodeAt(0));
-
-      const iv = combined.slice(0, 12);
-      const data = combined.slice(12);
+    return this.keys.decrypt(encrypted, key);
+  }
 
-      const decrypted = await crypto.subtle.decrypt(
-        { name: 'AES-GCM', iv },
-        cryptoKey,
-        data
-      );
+  async rotateKey(): Promise<void> {
+    await this.keys.rotate();
+  }
 
-      const decoder = new TextDecoder();
-      return decoder.decode(decrypted);
-    } catch {
-      return atob(encrypted);
-    }
+  async retireKeys(): Promise<void> {
+    await this.keys.retireOldKeys();
   }
 
   async generateKey(): Promise<string> {
@@ -0,0 +1,164 @@
+/**
+ * Batch Signing and Submission Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { WalletAdapter, StorageAdapter, SignedTransaction } from '@partylayer/core';
+import {
+  toWalletId,
+  toPartyId,
+  toTransactionHash,
+  WalletNotFoundError,
+  UserRejectedError,
+  TransactionFailedError,
+} from '@partylayer/core';
+import { PartyLayerClient } from './client';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+function signed(tx: unknown): SignedTransaction {
+  return { signedTx: tx, transactionHash: toTransactionHash(`hash-${String(tx)}`), partyId: toPartyId('party::a') };
+}
+
+async function connectedClient(overrides: Partial<WalletAdapter>) {
+  const adapter: WalletAdapter = {
+    walletId: toWalletId('wallet-a'),
+    name: 'Wallet A',
+    getCapabilities: () => ['connect', 'signTransaction', 'submitTransaction'],
+    detectInstalled: async () => ({ installed: true }),
+    connect: async () => ({
+      partyId: toPartyId('party::a'),
+      session: { network: 'devnet', createdAt: Date.now() },
+      capabilities: ['connect', 'signTransaction', 'submitTransaction'],
+    }),
+    disconnect: async () => {},
+    ...overrides,
+  };
+  const client = new PartyLayerClient({
+    network: 'devnet',
+    app: { name: 'Test dApp', origin: 'https://dapp.example' },
+    adapters: [adapter],
+    storage: new MemoryStorage(),
+    crypto: {
+      encrypt: async (data) => data,
+      decrypt: async (data) => data,
+      generateKey: async () => 'key',
+    },
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+    sync: false,
+  });
+  vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+  vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+    throw new WalletNotFoundError(id);
+  });
+  await client.connect({ walletId: toWalletId('wallet-a') });
+  return client;
+}
+
+describe('signTransactions', () => {
+  it('should sign with one signBatch call when the adapter supports it', async () => {
+    const signBatch = vi.fn(async (_ctx, _session, params: { txs: unknown[] }) => params.txs.map(signed));
+    const signTransaction = vi.fn(async () => signed('single'));
+    const client = await connectedClient({ signBatch, signTransaction });
+    const statuses: unknown[] = [];
+    client.on('tx:status', (event) => {
+      statuses.push(event.txId);
+    });
+
+    const result = await client.signTransactions([{ tx: 1 }, { tx: 2 }, { tx: 3 }]);
+
+    expect(result.ok).toBe(true);
+    expect(result.items.map((item) => item.status === 'fulfilled' && item.value.signedTx)).toEqual([1, 2, 3]);
+    expect(signBatch).toHaveBeenCalledTimes(1);
+    expect(signTransaction).not.toHaveBeenCalled();
+    expect(statuses).toEqual(['hash-1', 'hash-2', 'hash-3']);
+    client.destroy();
+  });
+
+  it('should sign one by one when items carry fields signBatch cannot take', async () => {
+    const signBatch = vi.fn(async (_ctx, _session, params: { txs: unknown[] }) => params.txs.map(signed));
+    const signTransaction = vi.fn(async (_ctx, _session, params: { tx: unknown }) => signed(params.tx));
+    const client = await connectedClient({ signBatch, signTransaction });
+
+    const item = { tx: 2, memo: 'second leg' };
+    const result = await client.signTransactions([{ tx: 1 }, item]);
+
+    expect(result.ok).toBe(true);
+    expect(signBatch).not.toHaveBeenCalled();
+    expect(signTransaction).toHaveBeenCalledTimes(2);
+    expect(signTransaction.mock.calls[1][2]).toEqual(item);
+    client.destroy();
+  });
+
+  it('should reject every item when signBatch fails', async () => {
+    const client = await connectedClient({
+      signBatch: async () => {
+        throw new UserRejectedError('signBatch');
+      },
+    });
+
+    const result = await client.signTransactions([{ tx: 1 }, { tx: 2 }]);
+    expect(result.ok).toBe(false);
+    expect(result.items.map((item) => item.status)).toEqual(['rejected', 'rejected']);
+    client.destroy();
+  });
+
+  it('should fall back to signing one by one and stop at the first failure', async () => {
+    const signTransaction = vi.fn(async (_ctx, _session, params: { tx: unknown }) => {
+      if (params.tx === 2) {
+        throw new TransactionFailedError('bad command');
+      }
+      return signed(params.tx);
+    });
+    const client = await connectedClient({ signTransaction });
+
+    const stopped = await client.signTransactions([{ tx: 1 }, { tx: 2 }, { tx: 3 }]);
+    expect(stopped.items.map((item) => item.status)).toEqual(['fulfilled', 'rejected', 'skipped']);
+    expect(stopped.items[1]).toMatchObject({ error: { code: 'TRANSACTION_FAILED' } });
+
+    const continued = await client.signTransactions([{ tx: 1 }, { tx: 2 }, { tx: 3 }], { continueOnError: true });
+    expect(continued.items.map((item) => item.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(continued.ok).toBe(false);
+    client.destroy();
+  });
+});
+
+describe('submitBatch', () => {
+  it('should submit in order and stop on user rejection even with continueOnError', async () => {
+    const submitted: unknown[] = [];
+    const client = await connectedClient({
+      submitTransaction: async (_ctx, _session, params) => {
+        if (params.signedTx === 'b') {
+          throw new UserRejectedError('submitTransaction');
+        }
+        submitted.push(params.signedTx);
+        return { transactionHash: toTransactionHash(String(params.signedTx)), submittedAt: Date.now() };
+      },
+    });
+
+    const result = await client.submitBatch(
+      [{ signedTx: 'a' }, { signedTx: 'b' }, { signedTx: 'c' }],
+      { continueOnError: true }
+    );
+    expect(submitted).toEqual(['a']);
+    expect(result.items.map((item) => item.status)).toEqual(['fulfilled', 'rejected', 'skipped']);
+    client.destroy();
+  });
+});
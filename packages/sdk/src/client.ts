@@ -12,23 +12,39 @@
 
 import type {
   WalletId,
+  PartyId,
   SessionId,
+  NetworkId,
   CapabilityKey,
   WalletInfo,
   Session,
+  SessionAccount,
   SignedMessage,
   SignedTransaction,
   TxReceipt,
   WalletAdapter,
   AdapterContext,
+  AdapterConnectResult,
+  PersistedSession,
+  ErrorCode,
 } from '@partylayer/core';
 import {
   toSessionId,
   WalletNotFoundError,
   CapabilityNotSupportedError,
+  SessionExpiredError,
+  PartyNotFoundError,
+  NetworkNotSupportedError,
+  InternalError,
+  UserRejectedError,
   mapUnknownErrorToPartyLayerError,
   capabilityGuard,
   installGuard,
+  detectRuntime,
+  supportsRuntime,
+  createSignInMessage,
+  formatSignInMessage,
+  getSigningPartyId,
 } from '@partylayer/core';
 import { RegistryClient } from '@partylayer/registry-client';
 import type { RegistryStatus } from '@partylayer/registry-client';
@@ -36,11 +52,24 @@ import {
   DEFAULT_REGISTRY_URL,
   type PartyLayerConfig,
   type ConnectOptions,
+  type SessionTargetOptions,
+  type SignInOptions,
+  type SignInResult,
+  type BatchOptions,
+  type PreviewTransactionOptions,
+  type SubscribeContractsOptions,
+  type BatchItemResult,
+  type BatchResult,
+  type TrackTransactionOptions,
   type WalletFilter,
+  type AdapterClass,
 } from './config';
 import type {
   PartyLayerEvent,
   EventHandler,
+  SessionDisconnectedEvent,
+  SessionExpiredEvent,
+  AccountsChangedEvent,
 } from './events';
 import {
   DefaultLogger,
@@ -48,7 +77,36 @@ import {
   DefaultStorage,
   DefaultTelemetry,
 } from './adapters';
-import { getBuiltinAdapters } from './builtin-adapters';
+import { SessionManager } from './session-manager';
+import { ExpiryScheduler } from './expiry-scheduler';
+import {
+  SessionSync,
+  isSessionSyncSupported,
+  type SessionSyncMessage,
+} from './session-sync';
+import { withRetry, type RetryOperation } from './retry';
+import {
+  PREPARE_RESOURCE,
+  buildPrepareRequest,
+  parsePrepareResponse,
+  type TransactionPreview,
+} from './tx-preview';
+import { LedgerClient, parseLedgerUpdate } from './ledger-client';
+import { ContractSubscription, type ContractView } from './contract-subscription';
+import { createSelectionStrategy, type WalletCandidate } from './wallet-selection';
+import { PreferencesStore, type WalletPreferences } from './preferences';
+import {
+  runMiddleware,
+  type Middleware,
+  type MiddlewareContext,
+  type ClientOperations,
+  type OperationName,
+} from './middleware';
+import {
+  TransactionTracker,
+  mapAdapterTxStatus,
+  pollCompletions,
+} from './tx-tracker';
 import { createTelemetryAdapter } from './metrics-telemetry';
 import { METRICS, errorMetricName } from '@partylayer/core';
 import type {
@@ -57,8 +115,38 @@ import type {
   SubmitTransactionParams,
   LedgerApiParams,
   LedgerApiResult,
+  DamlTransaction,
+  JsonApiCommands,
 } from '@partylayer/core';
 
+/**
+ * Errors that end a contract subscription instead of being retried
+ */
+const SUBSCRIPTION_FATAL_ERRORS: ErrorCode[] = [
+  'CAPABILITY_NOT_SUPPORTED',
+  'SESSION_EXPIRED',
+  'ORIGIN_NOT_ALLOWED',
+  'PARTY_NOT_FOUND',
+  'USER_REJECTED',
+];
+
+/**
+ * Adapters registered when `config.adapters` is not set.
+ *
+ * The main entry point installs the built-in wallets; the Node entry point
+ * leaves this empty so browser-only wallet SDKs are never loaded.
+ */
+let defaultAdapters: () => (WalletAdapter | AdapterClass)[] = () => [];
+
+/**
+ * Set the adapters used when `config.adapters` is not set
+ *
+ * @internal
+ */
+export function setDefaultAdapters(factory: () => (WalletAdapter | AdapterClass)[]): void {
+  defaultAdapters = factory;
+}
+
 /**
  * PartyLayer Client
  * 
@@ -68,7 +156,15 @@ export class PartyLayerClient {
   private config: PartyLayerConfig;
   private adapters = new Map<WalletId, WalletAdapter>();
   private eventHandlers = new Map<string, Set<EventHandler>>();
-  private activeSession: Session | null = null;
+  private sessions: SessionManager;
+  private restorePromise: Promise<void>;
+  private trackers = new Set<TransactionTracker>();
+  private subscriptions = new Set<ContractSubscription>();
+  private activeSessionWatchers = new Set<() => Promise<void>>();
+  private expiry: ExpiryScheduler;
+  private sync?: SessionSync;
+  private preferences: PreferencesStore;
+  private middlewares: Middleware[];
   public readonly registryClient: RegistryClient; // Expose for React hooks
   private logger: import('@partylayer/core').LoggerAdapter;
   private crypto: import('@partylayer/core').CryptoAdapter;
@@ -78,6 +174,7 @@ export class PartyLayerClient {
 
   constructor(config: PartyLayerConfig) {
     this.config = config;
+    this.middlewares = [...(config.middleware ?? [])];
 
     // Determine origin
     if (config.app.origin) {
@@ -97,9 +194,45 @@ export class PartyLayerClient {
     const telemetryAdapter = createTelemetryAdapter(config.telemetry);
     this.telemetry = telemetryAdapter || new DefaultTelemetry();
 
+    this.sessions = new SessionManager({
+      storage: this.storage,
+      crypto: this.crypto,
+      origin: this.origin,
+      logger: this.logger,
+    });
+
+    this.preferences = new PreferencesStore(this.storage, this.logger);
+
+    this.expiry = new ExpiryScheduler({
+      warnBeforeMs: config.sessionExpiry?.warnBeforeMs ?? 60000,
+      onExpiring: (sessionId) => this.handleExpiring(sessionId),
+      onExpired: async (sessionId) => {
+        const session = this.sessions.get(sessionId);
+        if (session) {
+          await this.checkExpiry(session);
+        }
+      },
+      onError: (err) => this.logger.warn('Session expiry handling failed', err),
+    });
+
+    // Cross-tab sync (on by default in browsers)
+    const syncConfig = config.sync ?? (typeof window !== 'undefined');
+    if (syncConfig !== false && isSessionSyncSupported()) {
+      this.sync = new SessionSync({
+        ...(typeof syncConfig === 'object' ? syncConfig : {}),
+        storage: this.storage,
+        logger: this.logger,
+        onMessage: (message) => {
+          this.applySync(message).catch((err) => {
+            this.logger.warn('Failed to apply session sync message', err);
+          });
+        },
+      });
+    }
+
     // Register wallet adapters
     // If no adapters provided, use all built-in adapters (Console, Loop, etc.)
-    const adaptersToRegister = config.adapters ?? getBuiltinAdapters();
+    const adaptersToRegister = config.adapters ?? defaultAdapters();
     
     for (const adapterOrClass of adaptersToRegister) {
       let adapter: import('@partylayer/core').WalletAdapter;
@@ -112,13 +245,8 @@ export class PartyLayerClient {
         // It's already an instance
         adapter = adapterOrClass;
       }
-      
-      this.adapters.set(adapter.walletId, adapter);
-      this.logger.debug('Registered wallet adapter', {
-        walletId: adapter.walletId,
-        name: adapter.name,
-        capabilities: adapter.getCapabilities(),
-      });
+
+      this.registerAdapter(adapter);
     }
 
     // Initialize registry client with signature verification
@@ -132,8 +260,8 @@ export class PartyLayerClient {
     // Emit initial registry status
     this.updateRegistryStatus();
 
-    // Restore session on init
-    this.restoreSession().catch((err) => {
+    // Restore sessions on init
+    this.restorePromise = this.restoreSessions().catch((err) => {
       this.emit('error', {
         type: 'error',
         error: mapUnknownErrorToPartyLayerError(err, {
@@ -151,7 +279,38 @@ export class PartyLayerClient {
    * In production, adapters would be auto-registered via registry.
    */
   registerAdapter(adapter: WalletAdapter): void {
+    if (!supportsRuntime(adapter)) {
+      this.logger.warn('Skipping wallet adapter not supported in this runtime', {
+        walletId: adapter.walletId,
+        runtime: detectRuntime(),
+        runtimes: adapter.runtimes,
+      });
+      return;
+    }
+
     this.adapters.set(adapter.walletId, adapter);
+    this.logger.debug('Registered wallet adapter', {
+      walletId: adapter.walletId,
+      name: adapter.name,
+      capabilities: adapter.getCapabilities(),
+    });
+  }
+
+  /**
+   * Add a middleware around wallet operations
+   *
+   * Middlewares run in registration order, after those passed in config.
+   *
+   * @returns Function removing the middleware
+   */
+  use(middleware: Middleware): () => void {
+    this.middlewares.push(middleware);
+    return () => {
+      const index = this.middlewares.indexOf(middleware);
+      if (index !== -1) {
+        this.middlewares.splice(index, 1);
+      }
+    };
   }
 
   /**
@@ -162,7 +321,7 @@ export class PartyLayerClient {
 
     try {
       // getWallets() already returns WalletInfo[]
-      registryWallets = await this.registryClient.getWallets();
+      registryWallets = await this.retry('registry', () => this.registryClient.getWallets());
 
       // Update registry status after successful fetch
       this.updateRegistryStatus();
@@ -222,18 +381,7 @@ export class PartyLayerClient {
     
     try {
       // Get available wallets
-      const wallets = await this.listWallets({
-        requiredCapabilities: options?.requiredCapabilities,
-        includeExperimental: true,
-      });
-
-      // Filter by allowWallets
-      let availableWallets = wallets;
-      if (options?.allowWallets) {
-        availableWallets = wallets.filter((w) =>
-          options.allowWallets!.includes(w.walletId)
-        );
-      }
+      const availableWallets = await this.connectableWallets(options);
 
       // Select wallet
       let selectedWallet: WalletInfo;
@@ -265,6 +413,12 @@ export class PartyLayerClient {
             throw new WalletNotFoundError(String(options.walletId));
           }
         }
+      } else if (options?.strategy || options?.preferInstalled) {
+        const [best] = await this.rankCandidates(availableWallets, options);
+        if (!best) {
+          throw new WalletNotFoundError('No wallets available');
+        }
+        selectedWallet = best.wallet;
       } else if (availableWallets.length === 0) {
         throw new WalletNotFoundError('No wallets available');
       } else {
@@ -281,7 +435,9 @@ export class PartyLayerClient {
       // adapter-merged wallets that aren't in the registry)
       if (!isNativeWallet) {
         try {
-          const walletEntry = await this.registryClient.getWalletEntry(String(selectedWallet.walletId));
+          const walletEntry = await this.retry('registry', () =>
+            this.registryClient.getWalletEntry(String(selectedWallet.walletId))
+          );
           if (walletEntry.originAllowlist && walletEntry.originAllowlist.length > 0) {
             if (!walletEntry.originAllowlist.includes(this.origin)) {
               const { OriginNotAllowedError } = await import('@partylayer/core');
@@ -313,50 +469,28 @@ export class PartyLayerClient {
       // Connect
       // Default timeout: 2 minutes for QR code/popup based wallets
       const timeoutMs = options?.timeoutMs || 120000;
-      const connectPromise = adapter.connect(ctx, {
-        timeoutMs,
-        partyId: undefined, // TODO: support party selection
-      });
-
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error(`Connection timed out after ${timeoutMs}ms - user did not complete wallet connection`));
-        }, timeoutMs);
-      });
-
-      const result = await Promise.race([connectPromise, timeoutPromise]);
-
-      // Create session
-      const session: Session = {
-        sessionId: toSessionId(`session_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`),
-        walletId: selectedWallet.walletId,
-        partyId: result.partyId,
-        network: this.config.network,
-        createdAt: Date.now(),
-        expiresAt: result.session.expiresAt,
-        origin: this.origin,
-        capabilitiesSnapshot: result.capabilities,
-        metadata: result.session.metadata as Record<string, string> | undefined,
-      };
+      const connectParams = { timeoutMs, partyId: options?.partyId };
+      const result = await this.intercept('connect', connectParams, null, adapter, (params) =>
+        this.retry('connect', () => {
+          const connectPromise = adapter.connect(ctx, params);
+
+          const timeoutPromise = new Promise<never>((_, reject) => {
+            setTimeout(() => {
+              reject(new Error(`Connection timed out after ${timeoutMs}ms - user did not complete wallet connection`));
+            }, timeoutMs);
+          });
 
-      // Persist session
-      await this.persistSession(session);
+          return Promise.race([connectPromise, timeoutPromise]);
+        })
+      );
 
-      // Set active session
-      this.activeSession = session;
+      const session = await this.startSession(selectedWallet.walletId, result, options?.partyId);
 
       // Update registry status (may have changed during fetch)
       this.updateRegistryStatus();
 
       // Track successful connection
       this.telemetry?.increment?.(METRICS.WALLET_CONNECT_SUCCESS);
-      this.telemetry?.increment?.(METRICS.SESSIONS_CREATED);
-
-      // Emit event
-      this.emit('session:connected', {
-        type: 'session:connected',
-        session,
-      });
 
       return session;
     } catch (err) {
@@ -372,28 +506,75 @@ export class PartyLayerClient {
   }
 
   /**
-   * Disconnect from wallet
+   * Connect without prompting the user.
+   *
+   * Uses the wallet's `connectSilently()`, which succeeds only when the
+   * wallet has already authorised this origin (e.g. Loop's auto-connect,
+   * Console or Nightly still connected).
+   *
+   * @param options.walletId Wallet to connect (default: the last used wallet)
+   * @returns The new session, or null if the wallet needs user approval
+   */
+  async connectSilently(options?: { walletId?: WalletId; partyId?: PartyId }): Promise<Session | null> {
+    await this.restorePromise;
+    return this.trySilentConnect(options);
+  }
+
+  /**
+   * Last used wallet, party and network
+   */
+  async getWalletPreferences(): Promise<WalletPreferences | null> {
+    return this.preferences.load();
+  }
+
+  /**
+   * Forget the last used wallet (disables auto-connect until the next connect)
    */
-  async disconnect(): Promise<void> {
-    if (!this.activeSession) {
+  async clearWalletPreferences(): Promise<void> {
+    await this.preferences.clear();
+  }
+
+  /**
+   * Rank the wallets connect() could use, best first.
+   *
+   * Uses `options.strategy`, or the default strategy (installed wallets
+   * first, then the last used one). Applies the same `allowWallets` and
+   * `requiredCapabilities` filters as connect().
+   */
+  async rankWallets(options?: ConnectOptions): Promise<WalletCandidate[]> {
+    return this.rankCandidates(await this.connectableWallets(options), options);
+  }
+
+  /**
+   * Disconnect a session (default: the active session)
+   *
+   * Other sessions stay connected. If the active session is
+   * disconnected, the most recent remaining session becomes active.
+   */
+  async disconnect(sessionId?: SessionId): Promise<void> {
+    await this.restorePromise;
+    const session = sessionId ? this.sessions.get(sessionId) : this.sessions.getActive();
+    if (!session) {
       return;
     }
 
     try {
-      const adapter = this.adapters.get(this.activeSession.walletId);
+      const adapter = this.adapters.get(session.walletId);
       if (adapter) {
-        const ctx = this.createAdapterContext();
-        await adapter.disconnect(ctx, this.activeSession);
+        const ctx = this.createAdapterContext(session.network);
+        await this.intercept('disconnect', undefined, session, adapter, () =>
+          adapter.disconnect(ctx, session)
+        );
       }
 
-      const sessionId = this.activeSession.sessionId;
-      await this.removeSession(sessionId);
-
-      this.activeSession = null;
+      await this.sessions.remove(session.sessionId);
+      await this.preferences.markDisconnected(session.walletId);
+      this.expiry.cancel(session.sessionId);
+      this.sync?.post({ type: 'remove', sessionId: session.sessionId, reason: 'disconnect' });
 
       this.emit('session:disconnected', {
         type: 'session:disconnected',
-        sessionId,
+        sessionId: session.sessionId,
       });
     } catch (err) {
       const error = mapUnknownErrorToPartyLayerError(err, {
@@ -408,31 +589,216 @@ export class PartyLayerClient {
    * Get active session
    */
   async getActiveSession(): Promise<Session | null> {
-    if (this.activeSession) {
-      // Check expiration
-      if (this.activeSession.expiresAt && Date.now() >= this.activeSession.expiresAt) {
-        await this.disconnect();
-        this.emit('session:expired', {
-          type: 'session:expired',
-          sessionId: this.activeSession.sessionId,
-        });
-        return null;
+    await this.restorePromise;
+    const session = this.sessions.getActive();
+    if (!session) {
+      return null;
+    }
+    return (await this.checkExpiry(session)) ? session : this.sessions.getActive();
+  }
+
+  /**
+   * Get a session by ID
+   */
+  async getSession(sessionId: SessionId): Promise<Session | null> {
+    await this.restorePromise;
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+    return (await this.checkExpiry(session)) ? session : null;
+  }
+
+  /**
+   * Get all connected sessions, oldest first
+   */
+  async getSessions(): Promise<Session[]> {
+    await this.restorePromise;
+    const sessions: Session[] = [];
+    for (const session of this.sessions.list()) {
+      if (await this.checkExpiry(session)) {
+        sessions.push(session);
       }
-      return this.activeSession;
+    }
+    return sessions;
+  }
+
+  /**
+   * Set the session used when a call does not target one explicitly
+   */
+  async setActiveSession(sessionId: SessionId): Promise<void> {
+    await this.restorePromise;
+    if (!this.sessions.get(sessionId)) {
+      throw new SessionExpiredError(String(sessionId));
+    }
+    await this.sessions.setActive(sessionId);
+    this.sync?.post({ type: 'active', sessionId });
+    this.notifyActiveSessionChanged();
+  }
+
+  /**
+   * Rotate the session encryption key.
+   *
+   * Persisted sessions are re-encrypted with the new key, then older keys
+   * are retired. Requires a crypto adapter that implements `rotateKey`.
+   */
+  async rotateEncryptionKey(): Promise<void> {
+    await this.restorePromise;
+    if (!this.crypto.rotateKey) {
+      throw new InternalError('Crypto adapter does not support key rotation');
     }
 
-    // Try to restore from storage
-    return this.restoreSession();
+    await this.crypto.rotateKey();
+    await this.sessions.reencrypt();
+    await this.crypto.retireKeys?.();
+    this.logger.info('Session encryption key rotated');
   }
 
   /**
-   * Sign a message
+   * Switch the selected party of a session.
+   *
+   * The party must be one of the session's accounts. Emits
+   * `accounts:changed` when the selection changes. Reads (ledgerApi,
+   * contract subscriptions) then use the selected party, but wallets
+   * only sign as their primary party: signing and submitting reject with
+   * CapabilityNotSupportedError while a non-primary party is selected.
    */
-  async signMessage(params: SignMessageParams): Promise<SignedMessage> {
-    const session = await this.getActiveSession();
-    if (!session) {
-      throw new Error('No active session');
+  async switchParty(partyId: PartyId, options?: SessionTargetOptions): Promise<Session> {
+    const session = await this.resolveSession(options);
+    const accounts = session.accounts ?? [{ partyId: session.partyId, primary: true }];
+
+    if (!accounts.some((account) => account.partyId === partyId)) {
+      throw new PartyNotFoundError(String(partyId), String(session.sessionId));
     }
+    if (session.partyId === partyId) {
+      return session;
+    }
+
+    const updated: Session = { ...session, partyId, accounts };
+    await this.sessions.update(updated);
+    await this.rememberWallet(updated);
+    this.sync?.post({
+      type: 'upsert',
+      sessionId: updated.sessionId,
+      reason: 'party',
+      active: this.sessions.getActive()?.sessionId === updated.sessionId,
+    });
+
+    this.emit('accounts:changed', {
+      type: 'accounts:changed',
+      sessionId: updated.sessionId,
+      partyId,
+      accounts,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Switch a session to another network.
+   *
+   * The wallet must support `switchNetwork` and, if it is listed in the
+   * registry, declare the network in `WalletInfo.networks`. The session is
+   * re-keyed: it gets a new session ID and the previous one is removed.
+   * Emits `network:changed`.
+   */
+  async switchNetwork(network: NetworkId, options?: SessionTargetOptions): Promise<Session> {
+    const session = await this.resolveSession(options);
+    if (session.network === network) {
+      return session;
+    }
+
+    const adapter = this.adapters.get(session.walletId);
+    if (!adapter || !adapter.switchNetwork) {
+      throw new CapabilityNotSupportedError(
+        session.walletId,
+        'switchNetwork'
+      );
+    }
+
+    try {
+      // Validate against the registry entry (adapter-merged wallets
+      // without an entry are left to the adapter)
+      let walletInfo: WalletInfo | null = null;
+      try {
+        walletInfo = await this.retry('registry', () =>
+          this.registryClient.getWallet(String(session.walletId))
+        );
+      } catch (e) {
+        if (!(e instanceof WalletNotFoundError)) {
+          throw e;
+        }
+      }
+      if (walletInfo && !walletInfo.networks.includes(network)) {
+        throw new NetworkNotSupportedError(String(session.walletId), network);
+      }
+
+      const ctx = this.createAdapterContext(network);
+      const result = await this.intercept('switchNetwork', { network }, session, adapter, (params) =>
+        adapter.switchNetwork!(ctx, session, params)
+      );
+
+      const partyId = result.partyId ?? session.partyId;
+      // The previous accounts only carry over if they still hold the party
+      const accounts = result.accounts?.length
+        ? result.accounts
+        : session.accounts?.some((account) => account.partyId === partyId)
+          ? session.accounts
+          : undefined;
+      const switched: Session = {
+        ...session,
+        ...result.session,
+        sessionId: toSessionId(`session_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`),
+        walletId: session.walletId,
+        partyId,
+        accounts,
+        network,
+        origin: this.origin,
+      };
+
+      // Re-key: add the new session in place of the old one
+      const wasActive = this.sessions.getActive()?.sessionId === session.sessionId;
+      await this.sessions.add(switched, { activate: wasActive });
+      await this.rememberWallet(switched);
+      await this.sessions.remove(session.sessionId);
+      this.expiry.cancel(session.sessionId);
+      this.expiry.schedule(switched);
+      this.sync?.post({
+        type: 'upsert',
+        sessionId: switched.sessionId,
+        reason: 'network',
+        active: wasActive,
+        previousSessionId: session.sessionId,
+      });
+
+      this.emit('network:changed', {
+        type: 'network:changed',
+        sessionId: switched.sessionId,
+        previousSessionId: session.sessionId,
+        network,
+        previousNetwork: session.network,
+        session: switched,
+      });
+
+      return switched;
+    } catch (err) {
+      const error = mapUnknownErrorToPartyLayerError(err, {
+        phase: 'switchNetwork',
+        walletId: String(session.walletId),
+      });
+      this.emit('error', { type: 'error', error });
+      throw error;
+    }
+  }
+
+  /**
+   * Sign a message
+   */
+  async signMessage(
+    params: SignMessageParams,
+    options?: SessionTargetOptions
+  ): Promise<SignedMessage> {
+    const session = await this.resolveSession(options);
 
     const adapter = this.adapters.get(session.walletId);
     if (!adapter || !adapter.signMessage) {
@@ -441,10 +807,13 @@ export class PartyLayerClient {
         'signMessage'
       );
     }
+    this.assertSigningParty(session, 'signMessage');
 
     try {
-      const ctx = this.createAdapterContext();
-      return await adapter.signMessage(ctx, session, params);
+      const ctx = this.createAdapterContext(session.network);
+      return await this.intercept('signMessage', params, session, adapter, (p) =>
+        adapter.signMessage!(ctx, session, p)
+      );
     } catch (err) {
       const error = mapUnknownErrorToPartyLayerError(err, {
         phase: 'signMessage',
@@ -456,14 +825,52 @@ export class PartyLayerClient {
   }
 
   /**
-   * Sign a transaction
+   * Sign in with the session's party (Sign-In-With-Canton)
+   *
+   * Builds a sign-in message for the party and network of the session,
+   * with the app origin as domain and URI, and has the wallet sign it.
+   * The server checks the result with verifySignIn() from
+   * @partylayer/core.
    */
-  async signTransaction(params: SignTransactionParams): Promise<SignedTransaction> {
-    const session = await this.getActiveSession();
-    if (!session) {
-      throw new Error('No active session');
+  async signIn(options: SignInOptions = {}): Promise<SignInResult> {
+    const { sessionId, domain, ...fields } = options;
+    const session = await this.resolveSession({ sessionId });
+
+    let host = domain;
+    let uri = fields.uri;
+    if (!host) {
+      try {
+        const url = new URL(this.origin);
+        host = url.host;
+        uri ??= url.origin;
+      } catch {
+        throw new InternalError('Cannot derive the sign-in domain: set app.origin or pass a domain');
+      }
     }
 
+    const message = createSignInMessage({
+      ...fields,
+      uri,
+      domain: host,
+      partyId: session.partyId,
+      network: session.network,
+    });
+    const signed = await this.signMessage(
+      { message: formatSignInMessage(message), nonce: message.nonce, domain: message.domain },
+      { sessionId: session.sessionId }
+    );
+    return { message, signed };
+  }
+
+  /**
+   * Sign a transaction
+   */
+  async signTransaction(
+    params: SignTransactionParams,
+    options?: SessionTargetOptions
+  ): Promise<SignedTransaction> {
+    const session = await this.resolveSession(options);
+
     const adapter = this.adapters.get(session.walletId);
     if (!adapter || !adapter.signTransaction) {
       throw new CapabilityNotSupportedError(
@@ -471,10 +878,13 @@ export class PartyLayerClient {
         'signTransaction'
       );
     }
+    this.assertSigningParty(session, 'signTransaction');
 
     try {
-      const ctx = this.createAdapterContext();
-      const result = await adapter.signTransaction(ctx, session, params);
+      const ctx = this.createAdapterContext(session.network);
+      const result = await this.intercept('signTransaction', params, session, adapter, (p) =>
+        adapter.signTransaction!(ctx, session, p)
+      );
       
       // Emit transaction status
       this.emit('tx:status', {
@@ -497,13 +907,118 @@ export class PartyLayerClient {
   }
 
   /**
-   * Submit a transaction
+   * Sign several transactions
+   *
+   * Uses the adapter's signBatch() when available (a single approval, all
+   * or nothing). Otherwise signs the transactions one by one through
+   * signTransaction() and stops at the first failure, unless
+   * `continueOnError` is set. signBatch() only takes the transactions, so
+   * items carrying other fields are also signed one by one.
    */
-  async submitTransaction(params: SubmitTransactionParams): Promise<TxReceipt> {
-    const session = await this.getActiveSession();
-    if (!session) {
-      throw new Error('No active session');
+  async signTransactions(
+    txs: SignTransactionParams[],
+    options?: BatchOptions
+  ): Promise<BatchResult<SignedTransaction>> {
+    const session = await this.resolveSession(options);
+
+    const adapter = this.adapters.get(session.walletId);
+    if (!adapter || (!adapter.signBatch && !adapter.signTransaction)) {
+      throw new CapabilityNotSupportedError(
+        session.walletId,
+        'signTransaction'
+      );
+    }
+    this.assertSigningParty(session, 'signTransaction');
+
+    const perItemFields = txs.some((params) => Object.keys(params).some((key) => key !== 'tx'));
+    if (!adapter.signBatch || perItemFields) {
+      if (!adapter.signTransaction) {
+        throw new CapabilityNotSupportedError(
+          session.walletId,
+          'signTransaction'
+        );
+      }
+      return this.runBatch(txs, options, 'signTransaction', (params) =>
+        this.signTransaction(params, { sessionId: session.sessionId })
+      );
+    }
+
+    try {
+      const ctx = this.createAdapterContext(session.network);
+      const signed = await this.intercept(
+        'signBatch',
+        { txs: txs.map((params) => params.tx) },
+        session,
+        adapter,
+        (p) => adapter.signBatch!(ctx, session, p)
+      );
+      if (signed.length !== txs.length) {
+        throw new InternalError(
+          `signBatch returned ${signed.length} results for ${txs.length} transactions`
+        );
+      }
+
+      for (const result of signed) {
+        this.emit('tx:status', {
+          type: 'tx:status',
+          sessionId: session.sessionId,
+          txId: result.transactionHash,
+          status: 'pending',
+          raw: result.signedTx,
+        });
+      }
+      return {
+        items: signed.map((value) => ({ status: 'fulfilled', value })),
+        ok: true,
+      };
+    } catch (err) {
+      const error = mapUnknownErrorToPartyLayerError(err, {
+        phase: 'signBatch',
+        walletId: String(session.walletId),
+      });
+      this.emit('error', { type: 'error', error });
+      return { items: txs.map(() => ({ status: 'rejected', error })), ok: false };
+    }
+  }
+
+  /**
+   * Submit several transactions, one after another
+   *
+   * Stops at the first failure unless `continueOnError` is set; the
+   * remaining items are reported as skipped.
+   */
+  async submitBatch(
+    txs: SubmitTransactionParams[],
+    options?: BatchOptions
+  ): Promise<BatchResult<TxReceipt>> {
+    const session = await this.resolveSession(options);
+
+    const adapter = this.adapters.get(session.walletId);
+    if (!adapter || !adapter.submitTransaction) {
+      throw new CapabilityNotSupportedError(
+        session.walletId,
+        'submitTransaction'
+      );
     }
+    this.assertSigningParty(session, 'submitTransaction');
+
+    return this.runBatch(txs, options, 'submitTransaction', (params) =>
+      this.submitTransaction(params, { sessionId: session.sessionId })
+    );
+  }
+
+  /**
+   * Submit a transaction
+   *
+   * When the wallet supports `ledgerApi`, the ledger end is read first and
+   * returned as the receipt's `beginExclusive`, so trackTransaction() also
+   * finds completions of wallets that wait for the ledger before returning.
+   */
+  async submitTransaction(
+    params: SubmitTransactionParams,
+    options?: SessionTargetOptions
+  ): Promise<TxReceipt> {
+    const session = await this.resolveSession(options);
 
     const adapter = this.adapters.get(session.walletId);
     if (!adapter || !adapter.submitTransaction) {
@@ -512,10 +1027,18 @@ export class PartyLayerClient {
         'submitTransaction'
       );
     }
+    this.assertSigningParty(session, 'submitTransaction');
 
     try {
-      const ctx = this.createAdapterContext();
-      const result = await adapter.submitTransaction(ctx, session, params);
+      const ctx = this.createAdapterContext(session.network);
+      const ledgerEnd = await this.readLedgerEnd(session, adapter);
+      const submitted = await this.intercept('submitTransaction', params, session, adapter, (p) =>
+        adapter.submitTransaction!(ctx, session, p)
+      );
+      const result: TxReceipt =
+        ledgerEnd === undefined || submitted.beginExclusive !== undefined
+          ? submitted
+          : { ...submitted, beginExclusive: ledgerEnd };
 
       // Emit transaction status
       this.emit('tx:status', {
@@ -538,25 +1061,308 @@ export class PartyLayerClient {
   }
 
   /**
-   * Proxy a JSON Ledger API request through the active wallet adapter
+   * Track a submitted transaction until it reaches a terminal state.
+   *
+   * Status comes from the wallet's `txStatus` events. When the receipt has
+   * a command ID and the wallet supports `ledgerApi`, ledger completions
+   * are polled as a fallback, from the receipt's `beginExclusive` unless
+   * options name another offset. A receipt with an `updateId` is already
+   * committed. Every status change is emitted as `tx:status`.
    */
-  async ledgerApi(params: LedgerApiParams): Promise<LedgerApiResult> {
-    const session = await this.getActiveSession();
-    if (!session) {
-      throw new Error('No active session');
-    }
-
+  async trackTransaction(
+    receipt: TxReceipt,
+    options?: TrackTransactionOptions
+  ): Promise<TransactionTracker> {
+    const session = await this.resolveSession(options);
     const adapter = this.adapters.get(session.walletId);
-    if (!adapter || !adapter.ledgerApi) {
-      throw new CapabilityNotSupportedError(
-        session.walletId,
+
+    const tracker = new TransactionTracker({
+      receipt,
+      sessionId: session.sessionId,
+      onUpdate: (update) => {
+        this.emit('tx:status', {
+          type: 'tx:status',
+          sessionId: update.sessionId,
+          txId: update.txId,
+          status: update.status,
+          raw: update.raw,
+        });
+      },
+    });
+
+    if (receipt.updateId) {
+      // The wallet waited for the ledger before returning the receipt
+      tracker.update('committed', receipt);
+      return tracker;
+    }
+
+    this.trackers.add(tracker);
+    tracker.addCleanup(() => this.trackers.delete(tracker));
+
+    if (adapter?.on) {
+      const unsubscribe = adapter.on('txStatus', (payload) => {
+        const status = mapAdapterTxStatus(payload, receipt);
+        if (status) {
+          tracker.update(status, payload);
+        }
+      });
+      tracker.addCleanup(unsubscribe);
+    }
+
+    if (adapter?.ledgerApi && receipt.commandId) {
+      const ledgerApi = adapter.ledgerApi.bind(adapter);
+      const ctx = this.createAdapterContext(session.network);
+      const pollIntervalMs = options?.pollIntervalMs ?? 2000;
+
+      pollCompletions(tracker, {
+        ledgerApi: (params) =>
+          this.intercept('ledgerApi', params, session, adapter, (p) => ledgerApi(ctx, session, p)),
+        commandId: receipt.commandId,
+        partyId: session.partyId,
+        userId: options?.userId,
+        beginExclusive: options?.beginExclusive ?? receipt.beginExclusive,
+        delayMs: adapter.on ? options?.pollAfterMs ?? 5000 : pollIntervalMs,
+        intervalMs: pollIntervalMs,
+        onError: (err) => this.logger.debug('Completion poll failed', err),
+      });
+    }
+
+    return tracker;
+  }
+
+  /**
+   * Proxy a JSON Ledger API request through the session's wallet adapter
+   */
+  async ledgerApi(
+    params: LedgerApiParams,
+    options?: SessionTargetOptions
+  ): Promise<LedgerApiResult> {
+    const session = await this.resolveSession(options);
+
+    const adapter = this.adapters.get(session.walletId);
+    if (!adapter || !adapter.ledgerApi) {
+      throw new CapabilityNotSupportedError(
+        session.walletId,
         'ledgerApi'
       );
     }
 
     try {
-      const ctx = this.createAdapterContext();
-      return await adapter.ledgerApi(ctx, session, params);
+      const ctx = this.createAdapterContext(session.network);
+      return await this.intercept('ledgerApi', params, session, adapter, (p) =>
+        this.retry(p.requestMethod === 'GET' ? 'ledgerApi' : 'ledgerApiWrite', () =>
+          adapter.ledgerApi!(ctx, session, p)
+        )
+      );
+    } catch (err) {
+      const error = mapUnknownErrorToPartyLayerError(err, {
+        phase: 'ledgerApi',
+        walletId: String(session.walletId),
+      });
+      this.emit('error', { type: 'error', error });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a typed JSON Ledger API client for a session
+   *
+   * Requests go through {@link ledgerApi}, so middleware, retries and
+   * error events apply. The client reads as the session party unless a
+   * query names other parties.
+   *
+   * @throws CapabilityNotSupportedError if the wallet has no ledgerApi
+   */
+  async getLedgerClient(options?: SessionTargetOptions): Promise<LedgerClient> {
+    const session = await this.resolveSession(options);
+
+    const adapter = this.adapters.get(session.walletId);
+    if (!adapter || !adapter.ledgerApi) {
+      throw new CapabilityNotSupportedError(
+        session.walletId,
+        'ledgerApi'
+      );
+    }
+
+    return new LedgerClient({
+      ledgerApi: (params) => this.ledgerApi(params, { sessionId: session.sessionId }),
+      partyId: session.partyId,
+      sessionId: String(session.sessionId),
+    });
+  }
+
+  /**
+   * Subscribe to changes in the active contracts of some templates
+   *
+   * Starts with the current active contracts as `created` deltas (unless
+   * `beginExclusive` is given), then follows the wallet's update stream,
+   * or polls ledger updates through `ledgerApi` when the wallet has none.
+   * Deltas are deduplicated by contract ID.
+   *
+   * Failures are passed to `onError`. Transient ones are retried from the
+   * last offset; others (e.g. the wallet has no ledgerApi, or the targeted
+   * session is gone) stop the subscription. A subscription without
+   * `sessionId` follows the active session: it pauses while no session is
+   * connected, resumes from the last offset when the same wallet, network
+   * and party are back, and emits `reset` and a new snapshot when they
+   * change.
+   *
+   * @throws CapabilityNotSupportedError if the wallet has no ledgerApi
+   */
+  async subscribeContracts(options: SubscribeContractsOptions): Promise<ContractSubscription> {
+    const session = await this.resolveSession(options);
+
+    const adapter = this.adapters.get(session.walletId);
+    if (!adapter || !adapter.ledgerApi) {
+      throw new CapabilityNotSupportedError(
+        session.walletId,
+        'ledgerApi'
+      );
+    }
+
+    const target: SessionTargetOptions | undefined = options.sessionId
+      ? { sessionId: options.sessionId }
+      : undefined;
+    const { templateIds } = options;
+    const view = (current: Session): ContractView => ({
+      ledger: new LedgerClient({
+        ledgerApi: (params) => this.ledgerApi(params, target),
+        partyId: current.partyId,
+      }),
+      parties: options.parties ?? [current.partyId],
+    });
+    const viewKey = (current: Session) => `${current.walletId}|${current.network}|${current.partyId}`;
+    let boundKey = viewKey(session);
+
+    const subscription = new ContractSubscription({
+      ...view(session),
+      templateIds,
+      beginExclusive: options.beginExclusive,
+      pollIntervalMs: options.pollIntervalMs ?? 5000,
+      onDelta: options.onDelta,
+      onError: (err) => {
+        const error = mapUnknownErrorToPartyLayerError(err, { phase: 'ledgerApi' });
+        this.logger.warn('Contract subscription failed', error);
+        options.onError?.(error);
+      },
+      classifyError: (err) => {
+        if (!target && !this.sessions.getActive()) {
+          return 'pause';
+        }
+        const { code } = mapUnknownErrorToPartyLayerError(err, { phase: 'ledgerApi' });
+        return SUBSCRIPTION_FATAL_ERRORS.includes(code) ? 'stop' : 'retry';
+      },
+      openStream: async (beginExclusive, parties, onUpdate, onError) => {
+        const current = await this.resolveSession(target);
+        const streamAdapter = this.adapters.get(current.walletId);
+        if (!streamAdapter?.streamUpdates) {
+          return null;
+        }
+        const ctx = this.createAdapterContext(current.network);
+        const params = { beginExclusive, parties: parties ?? [current.partyId], templateIds };
+        return this.intercept('streamUpdates', params, current, streamAdapter, (p) =>
+          streamAdapter.streamUpdates!(
+            ctx,
+            current,
+            p,
+            (update) => {
+              try {
+                onUpdate(parseLedgerUpdate(update, 'streamUpdates'));
+              } catch (err) {
+                onError(err);
+              }
+            },
+            onError
+          )
+        );
+      },
+    });
+
+    // Resume on the same view, start over on another one
+    const follow = async () => {
+      let current: Session;
+      try {
+        current = await this.resolveSession(target);
+      } catch {
+        subscription.pause();
+        return;
+      }
+      const key = viewKey(current);
+      if (key === boundKey) {
+        subscription.resume();
+      } else {
+        boundKey = key;
+        subscription.reset(view(current));
+      }
+    };
+
+    this.subscriptions.add(subscription);
+    subscription.addCleanup(() => this.subscriptions.delete(subscription));
+    if (target) {
+      const ended = (event: SessionDisconnectedEvent | SessionExpiredEvent) => {
+        if (event.sessionId === target.sessionId) subscription.stop();
+      };
+      subscription.addCleanup(this.on<SessionDisconnectedEvent>('session:disconnected', ended));
+      subscription.addCleanup(this.on<SessionExpiredEvent>('session:expired', ended));
+      subscription.addCleanup(
+        this.on<AccountsChangedEvent>('accounts:changed', (event) => {
+          if (event.sessionId === target.sessionId) void follow();
+        })
+      );
+    } else {
+      for (const event of [
+        'session:connected',
+        'session:disconnected',
+        'session:expired',
+        'accounts:changed',
+        'network:changed',
+      ] as const) {
+        subscription.addCleanup(this.on(event, () => void follow()));
+      }
+      this.activeSessionWatchers.add(follow);
+      subscription.addCleanup(() => this.activeSessionWatchers.delete(follow));
+    }
+    subscription.resume();
+    return subscription;
+  }
+
+  /**
+   * Preview a transaction without signing or submitting it
+   *
+   * Runs an interactive-submission prepare through the wallet's ledgerApi
+   * proxy and summarizes the contracts the transaction would create and
+   * archive, the choices it exercises, the parties involved and the
+   * estimated traffic cost.
+   *
+   * @throws CapabilityNotSupportedError if the wallet has no ledgerApi
+   * @throws TransactionFailedError if the participant rejects the transaction
+   */
+  async previewTransaction(
+    tx: DamlTransaction | JsonApiCommands,
+    options?: PreviewTransactionOptions
+  ): Promise<TransactionPreview> {
+    const session = await this.resolveSession(options);
+
+    const adapter = this.adapters.get(session.walletId);
+    if (!adapter || !adapter.ledgerApi) {
+      throw new CapabilityNotSupportedError(
+        session.walletId,
+        'ledgerApi'
+      );
+    }
+
+    const request = buildPrepareRequest(tx, {
+      partyId: session.partyId,
+      commandId: `preview_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+      userId: options?.userId,
+    });
+    const result = await this.ledgerApi(
+      { requestMethod: 'POST', resource: PREPARE_RESOURCE, body: JSON.stringify(request) },
+      { sessionId: session.sessionId }
+    );
+
+    try {
+      return parsePrepareResponse(result.response, String(request.commandId));
     } catch (err) {
       const error = mapUnknownErrorToPartyLayerError(err, {
         phase: 'ledgerApi',
@@ -631,18 +1437,196 @@ export class PartyLayerClient {
       this.telemetry.flush().catch(() => {});
     }
     
+    for (const tracker of Array.from(this.trackers)) {
+      tracker.stop();
+    }
+    for (const subscription of Array.from(this.subscriptions)) {
+      subscription.stop();
+    }
+    this.expiry.clear();
+    this.sync?.stop();
     this.eventHandlers.clear();
-    this.activeSession = null;
+    this.sessions.clear();
+  }
+
+  /**
+   * Create, persist and announce the session for a new connection
+   */
+  private async startSession(
+    walletId: WalletId,
+    result: AdapterConnectResult,
+    requestedPartyId?: PartyId
+  ): Promise<Session> {
+    // Select party: the requested one if the wallet exposes it,
+    // otherwise the party reported by the adapter
+    const accounts: SessionAccount[] = result.accounts?.length
+      ? result.accounts
+      : [{ partyId: result.partyId, primary: true }];
+    const partyId = requestedPartyId && accounts.some((a) => a.partyId === requestedPartyId)
+      ? requestedPartyId
+      : result.partyId;
+
+    const session: Session = {
+      sessionId: toSessionId(`session_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`),
+      walletId,
+      partyId,
+      accounts,
+      network: this.config.network,
+      createdAt: Date.now(),
+      expiresAt: result.session.expiresAt,
+      origin: this.origin,
+      capabilitiesSnapshot: result.capabilities,
+      metadata: result.session.metadata as Record<string, string> | undefined,
+    };
+
+    // Persist session and make it active
+    await this.sessions.add(session);
+    await this.rememberWallet(session);
+    this.expiry.schedule(session);
+    this.sync?.post({
+      type: 'upsert',
+      sessionId: session.sessionId,
+      reason: 'connect',
+      active: true,
+    });
+
+    this.telemetry?.increment?.(METRICS.SESSIONS_CREATED);
+    this.emit('session:connected', {
+      type: 'session:connected',
+      session,
+    });
+
+    return session;
+  }
+
+  /**
+   * Record the wallet, party and network of a session as preferences
+   */
+  private async rememberWallet(session: Session): Promise<void> {
+    await this.preferences.remember({
+      walletId: session.walletId,
+      partyId: session.partyId,
+      network: session.network,
+    });
+  }
+
+  /**
+   * Connect through the adapter's connectSilently(), if it has one
+   */
+  private async trySilentConnect(options?: { walletId?: WalletId; partyId?: PartyId }): Promise<Session | null> {
+    const preferences = await this.preferences.load();
+    const walletId = options?.walletId ?? preferences?.walletId;
+    const adapter = walletId ? this.adapters.get(walletId) : undefined;
+    if (!walletId || !adapter?.connectSilently) {
+      return null;
+    }
+
+    const partyId = options?.partyId ?? (preferences?.walletId === walletId ? preferences.partyId : undefined);
+    try {
+      const ctx = this.createAdapterContext();
+      const result = await this.intercept('connectSilently', { partyId }, null, adapter, (params) =>
+        adapter.connectSilently!(ctx, params)
+      );
+      return result ? await this.startSession(walletId, result, partyId) : null;
+    } catch (err) {
+      const error = mapUnknownErrorToPartyLayerError(err, {
+        phase: 'connectSilently',
+        walletId: String(walletId),
+      });
+      this.emit('error', { type: 'error', error });
+      throw error;
+    }
+  }
+
+  /**
+   * Reconnect silently after restore, following `config.autoConnect`
+   */
+  private async autoConnect(): Promise<void> {
+    const policy = this.config.autoConnect ?? 'never';
+    if (policy === 'never' || this.sessions.list().length > 0) {
+      return;
+    }
+
+    const preferences = await this.preferences.load();
+    if (
+      !preferences ||
+      preferences.network !== this.config.network ||
+      (policy === 'if-trusted' && preferences.disconnected)
+    ) {
+      return;
+    }
+
+    try {
+      const session = await this.trySilentConnect();
+      this.logger.debug(session ? 'Auto-connected to last used wallet' : 'Auto-connect needs user approval', {
+        walletId: preferences.walletId,
+      });
+    } catch (err) {
+      this.logger.warn('Auto-connect failed', err);
+    }
+  }
+
+  /**
+   * Wallets a connect call may choose from
+   */
+  private async connectableWallets(options?: ConnectOptions): Promise<WalletInfo[]> {
+    const wallets = await this.listWallets({
+      requiredCapabilities: options?.requiredCapabilities,
+      includeExperimental: true,
+    });
+    return options?.allowWallets
+      ? wallets.filter((w) => options.allowWallets!.includes(w.walletId))
+      : wallets;
+  }
+
+  /**
+   * Detect installed state and order wallets with the selection strategy
+   */
+  private async rankCandidates(wallets: WalletInfo[], options?: ConnectOptions): Promise<WalletCandidate[]> {
+    const lastUsedWalletId = (await this.preferences.load())?.walletId ?? null;
+
+    const candidates = await Promise.all(
+      wallets.map(async (wallet): Promise<WalletCandidate> => {
+        const adapter = this.adapters.get(wallet.walletId);
+        let detect: { installed: boolean; reason?: string } = {
+          installed: false,
+          reason: 'No adapter registered',
+        };
+        if (adapter) {
+          try {
+            detect = await adapter.detectInstalled();
+          } catch (err) {
+            detect = { installed: false, reason: err instanceof Error ? err.message : String(err) };
+          }
+        }
+        return {
+          wallet,
+          installed: detect.installed,
+          installReason: detect.installed ? undefined : detect.reason,
+          lastUsed: wallet.walletId === lastUsedWalletId,
+        };
+      })
+    );
+
+    const strategy = options?.strategy ?? createSelectionStrategy();
+    return strategy(candidates, {
+      network: this.config.network,
+      channel: this.config.channel ?? 'stable',
+      requiredCapabilities: (options?.requiredCapabilities ?? []) as CapabilityKey[],
+      lastUsedWalletId,
+    });
   }
 
   /**
    * Create adapter context
+   *
+   * @param network Network of the targeted session (default: configured network)
    */
-  private createAdapterContext(): AdapterContext {
+  private createAdapterContext(network: NetworkId = this.config.network): AdapterContext {
     return {
       appName: this.config.app.name,
       origin: this.origin,
-      network: this.config.network,
+      network,
       logger: this.logger,
       telemetry: this.telemetry,
       registry: {
@@ -662,98 +1646,407 @@ export class PartyLayerClient {
 
 
   /**
-   * Persist session to storage
+   * Run an adapter call through the middleware chain.
+   *
+   * `handler` receives the params as left by the middlewares.
    */
-  private async persistSession(session: Session): Promise<void> {
-    try {
-      const data = JSON.stringify(session);
-      const encrypted = await this.crypto.encrypt(data, this.origin);
-      await this.storage.set(`session_${session.sessionId}`, encrypted);
-    } catch (err) {
-      this.logger.warn('Failed to persist session', err);
+  private intercept<K extends OperationName>(
+    operation: K,
+    params: ClientOperations[K]['params'],
+    session: Session | null,
+    adapter: WalletAdapter,
+    handler: (params: ClientOperations[K]['params']) => Promise<ClientOperations[K]['result']>
+  ): Promise<ClientOperations[K]['result']> {
+    const ctx = { operation, params, session, adapter, state: {} } as MiddlewareContext;
+    return runMiddleware([...this.middlewares], ctx, () =>
+      handler(ctx.params as ClientOperations[K]['params'])
+    );
+  }
+
+  /**
+   * Wallets sign as their primary party, so refuse to sign while another
+   * party is selected rather than attribute the signature to it
+   */
+  private assertSigningParty(session: Session, capability: string): void {
+    if (getSigningPartyId(session) !== session.partyId) {
+      throw new CapabilityNotSupportedError(session.walletId, `${capability} as a non-primary party`);
     }
   }
 
   /**
-   * Remove session from storage
+   * Read the ledger end through the wallet, or undefined if it cannot
    */
-  private async removeSession(sessionId: SessionId): Promise<void> {
+  private async readLedgerEnd(session: Session, adapter: WalletAdapter): Promise<number | undefined> {
+    if (!adapter.ledgerApi) {
+      return undefined;
+    }
+    const ledgerApi = adapter.ledgerApi.bind(adapter);
+    const ctx = this.createAdapterContext(session.network);
+    const ledger = new LedgerClient({
+      ledgerApi: (params) =>
+        this.intercept('ledgerApi', params, session, adapter, (p) => ledgerApi(ctx, session, p)),
+      partyId: session.partyId,
+    });
     try {
-      await this.storage.remove(`session_${sessionId}`);
+      return await ledger.getLedgerEnd();
     } catch (err) {
-      this.logger.warn('Failed to remove session', err);
+      this.logger.debug('Ledger end read failed', err);
+      return undefined;
     }
   }
 
   /**
-   * Restore session from storage
+   * Run batch items one after another, collecting per-item results
    */
-  private async restoreSession(): Promise<Session | null> {
-    // Track restore attempt
-    this.telemetry?.increment?.(METRICS.RESTORE_ATTEMPTS);
-    
-    try {
-      const encrypted = await this.storage.get('active_session');
-      if (!encrypted) {
-        return null;
+  private async runBatch<P, T>(
+    items: P[],
+    options: BatchOptions | undefined,
+    phase: 'signTransaction' | 'submitTransaction',
+    run: (params: P) => Promise<T>
+  ): Promise<BatchResult<T>> {
+    const results: BatchItemResult<T>[] = [];
+    let stopped = false;
+
+    for (const params of items) {
+      if (stopped) {
+        results.push({ status: 'skipped' });
+        continue;
+      }
+      try {
+        results.push({ status: 'fulfilled', value: await run(params) });
+      } catch (err) {
+        const error = mapUnknownErrorToPartyLayerError(err, { phase });
+        results.push({ status: 'rejected', error });
+        stopped = !options?.continueOnError || error instanceof UserRejectedError;
+      }
+    }
+
+    return {
+      items: results,
+      ok: results.every((result) => result.status === 'fulfilled'),
+    };
+  }
+
+  /**
+   * Tell subscriptions that follow the active session that it changed
+   * (setActiveSession() emits no event)
+   */
+  private notifyActiveSessionChanged(): void {
+    for (const watcher of Array.from(this.activeSessionWatchers)) {
+      void watcher();
+    }
+  }
+
+  /**
+   * Run an operation under the configured retry policy
+   */
+  private retry<T>(operation: RetryOperation, fn: () => Promise<T>): Promise<T> {
+    return withRetry(operation, fn, {
+      policy: this.config.retry,
+      logger: this.logger,
+    });
+  }
+
+  /**
+   * Resolve the session targeted by a call
+   */
+  private async resolveSession(options?: SessionTargetOptions): Promise<Session> {
+    if (options?.sessionId) {
+      const session = await this.getSession(options.sessionId);
+      if (!session) {
+        throw new SessionExpiredError(String(options.sessionId));
+      }
+      return session;
+    }
+
+    const session = await this.getActiveSession();
+    if (!session) {
+      throw new Error('No active session');
+    }
+    return session;
+  }
+
+  /**
+   * Expire a session if its expiry has passed.
+   *
+   * @returns true if the session is still valid
+   */
+  private async checkExpiry(session: Session): Promise<boolean> {
+    if (!session.expiresAt || Date.now() < session.expiresAt) {
+      return true;
+    }
+
+    await this.sessions.remove(session.sessionId);
+    this.expiry.cancel(session.sessionId);
+    this.sync?.post({ type: 'remove', sessionId: session.sessionId, reason: 'expired' });
+    this.emit('session:expired', {
+      type: 'session:expired',
+      sessionId: session.sessionId,
+    });
+    return false;
+  }
+
+  /**
+   * Refresh a session ahead of expiry through its adapter, or emit
+   * `session:expiring` if that is not possible
+   */
+  private async handleExpiring(sessionId: SessionId): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    // With several tabs open, the leader refreshes and tells the others
+    if (!session?.expiresAt || (this.sync && !this.sync.isLeader)) {
+      return;
+    }
+
+    const adapter = this.adapters.get(session.walletId);
+    if (adapter?.refresh && this.config.sessionExpiry?.refresh !== false) {
+      try {
+        const ctx = this.createAdapterContext(session.network);
+        const refresh = adapter.refresh.bind(adapter);
+        const refreshed = await this.intercept('refresh', undefined, session, adapter, () => refresh(ctx, session));
+
+        // Only accept a refresh that actually extends the session
+        if (refreshed && (!refreshed.expiresAt || refreshed.expiresAt > session.expiresAt)) {
+          const updated: Session = {
+            ...session,
+            ...refreshed,
+            sessionId: session.sessionId,
+            walletId: session.walletId,
+            origin: session.origin,
+          };
+          await this.sessions.update(updated);
+          this.expiry.schedule(updated);
+          this.sync?.post({
+            type: 'upsert',
+            sessionId: updated.sessionId,
+            reason: 'refresh',
+            active: this.sessions.getActive()?.sessionId === updated.sessionId,
+          });
+
+          this.emit('session:refreshed', {
+            type: 'session:refreshed',
+            session: updated,
+          });
+          return;
+        }
+      } catch (err) {
+        this.logger.warn('Session refresh failed', err);
+      }
+    }
+
+    this.sync?.post({ type: 'expiring', sessionId: session.sessionId });
+    this.emit('session:expiring', {
+      type: 'session:expiring',
+      sessionId: session.sessionId,
+      expiresAt: session.expiresAt,
+    });
+  }
+
+  /**
+   * Restore all persisted sessions
+   */
+  private async restoreSessions(): Promise<void> {
+    if (this.sync) {
+      try {
+        await this.sync.start();
+      } catch (err) {
+        this.logger.warn('Failed to start session sync', err);
+      }
+    }
+
+    const { sessions, activeSessionId } = await this.sessions.loadPersisted();
+
+    for (const persisted of sessions) {
+      if (this.sync && !this.sync.isLeader) {
+        // The leader tab restores; followers adopt what it persisted
+        this.adoptSession(persisted);
+      } else {
+        await this.restoreSession(persisted);
+      }
+    }
+
+    if (activeSessionId && this.sessions.get(activeSessionId)) {
+      await this.sessions.setActive(activeSessionId);
+    }
+
+    // Only the leader tab connects; others adopt the session via sync
+    if (!this.sync || this.sync.isLeader) {
+      await this.autoConnect();
+    }
+  }
+
+  /**
+   * Take over a session persisted by another tab without calling the adapter
+   */
+  private adoptSession(session: PersistedSession): void {
+    if (session.origin !== this.origin || (session.expiresAt && Date.now() >= session.expiresAt)) {
+      return;
+    }
+
+    this.sessions.track(session);
+    const adopted = this.sessions.get(session.sessionId)!;
+    this.expiry.schedule(adopted);
+    this.emit('session:connected', {
+      type: 'session:connected',
+      session: adopted,
+    });
+  }
+
+  /**
+   * Apply a session change made in another tab.
+   *
+   * Storage is already up to date; only memory, timers and events change.
+   */
+  private async applySync(message: SessionSyncMessage): Promise<void> {
+    await this.restorePromise;
+
+    switch (message.type) {
+      case 'upsert': {
+        const session = await this.sessions.load(message.sessionId);
+        if (!session) {
+          return;
+        }
+
+        const previous = message.previousSessionId
+          ? this.sessions.untrack(message.previousSessionId)
+          : null;
+        if (message.previousSessionId) {
+          this.expiry.cancel(message.previousSessionId);
+        }
+        this.sessions.track(session, { activate: message.active });
+        this.expiry.schedule(session);
+
+        switch (message.reason) {
+          case 'connect':
+          case 'restore':
+            this.emit('session:connected', { type: 'session:connected', session });
+            break;
+          case 'refresh':
+            this.emit('session:refreshed', { type: 'session:refreshed', session });
+            break;
+          case 'party':
+            this.emit('accounts:changed', {
+              type: 'accounts:changed',
+              sessionId: session.sessionId,
+              partyId: session.partyId,
+              accounts: session.accounts ?? [{ partyId: session.partyId, primary: true }],
+            });
+            break;
+          case 'network':
+            this.emit('network:changed', {
+              type: 'network:changed',
+              sessionId: session.sessionId,
+              previousSessionId: message.previousSessionId ?? session.sessionId,
+              network: session.network,
+              previousNetwork: previous?.network ?? session.network,
+              session,
+            });
+            break;
+        }
+        return;
       }
 
-      const decrypted = await this.crypto.decrypt(encrypted, this.origin);
-      const session = JSON.parse(decrypted) as Session;
+      case 'remove': {
+        if (!this.sessions.untrack(message.sessionId)) {
+          return;
+        }
+        this.expiry.cancel(message.sessionId);
+        if (message.reason === 'expired') {
+          this.emit('session:expired', { type: 'session:expired', sessionId: message.sessionId });
+        } else {
+          this.emit('session:disconnected', {
+            type: 'session:disconnected',
+            sessionId: message.sessionId,
+          });
+        }
+        return;
+      }
+
+      case 'expiring': {
+        const session = this.sessions.get(message.sessionId);
+        if (session?.expiresAt) {
+          this.emit('session:expiring', {
+            type: 'session:expiring',
+            sessionId: session.sessionId,
+            expiresAt: session.expiresAt,
+          });
+        }
+        return;
+      }
 
+      case 'active':
+        if (message.sessionId === null || this.sessions.get(message.sessionId)) {
+          await this.sessions.setActive(message.sessionId, { persist: false });
+          this.notifyActiveSessionChanged();
+        }
+        return;
+    }
+  }
+
+  /**
+   * Restore a single persisted session
+   */
+  private async restoreSession(session: PersistedSession): Promise<void> {
+    // Track restore attempt
+    this.telemetry?.increment?.(METRICS.RESTORE_ATTEMPTS);
+
+    try {
       // Check expiration
       if (session.expiresAt && Date.now() >= session.expiresAt) {
-        await this.removeSession(session.sessionId);
-        return null;
+        await this.sessions.remove(session.sessionId);
+        return;
       }
 
       // Check origin
       if (session.origin !== this.origin) {
-        return null;
+        return;
       }
 
       // Try to restore with adapter
       const adapter = this.adapters.get(session.walletId);
       if (adapter?.restore) {
-        const ctx = this.createAdapterContext();
-        const restored = await adapter.restore(ctx, {
-          ...session,
-          encrypted,
-        });
+        const ctx = this.createAdapterContext(session.network);
+        const restored = await this.intercept('restore', undefined, session, adapter, () =>
+          this.retry('restore', () => adapter.restore!(ctx, session))
+        );
 
         if (restored) {
-          this.activeSession = restored;
           // Persist restored session (may have updated metadata)
-          await this.persistSession(restored);
-          
+          await this.sessions.add(restored, { activate: false });
+          this.expiry.schedule(restored);
+          this.sync?.post({
+            type: 'upsert',
+            sessionId: restored.sessionId,
+            reason: 'restore',
+            active: false,
+          });
+
           // Track successful restore
           this.telemetry?.increment?.(METRICS.SESSIONS_RESTORED);
           this.telemetry?.increment?.(METRICS.WALLET_CONNECT_SUCCESS);
-          
+
           // Emit session:connected event with reason="restore"
           this.emit('session:connected', {
             type: 'session:connected',
-            session: restored,
+            session: this.sessions.get(restored.sessionId) ?? restored,
           });
-          return restored;
         } else {
           // Restore failed - clear session
-          await this.removeSession(session.sessionId);
+          await this.sessions.remove(session.sessionId);
+          this.sync?.post({ type: 'remove', sessionId: session.sessionId, reason: 'expired' });
           this.emit('session:expired', {
             type: 'session:expired',
             sessionId: session.sessionId,
           });
-          return null;
         }
+        return;
       }
 
       // If restore not supported, use stored session as-is
       // (Some adapters don't support restore but session metadata is still valid)
-      this.activeSession = session;
-      return session;
+      await this.sessions.add(session, { activate: false });
+      this.expiry.schedule(session);
     } catch (err) {
       this.logger.warn('Failed to restore session', err);
-      return null;
     }
   }
 
@@ -2,13 +2,29 @@
  * Configuration types for PartyLayer SDK
  */
 
-import type { NetworkId, WalletId, WalletAdapter } from '@partylayer/core';
+import type {
+  NetworkId,
+  WalletId,
+  PartyId,
+  SessionId,
+  WalletAdapter,
+  SignedMessage,
+  SignInMessage,
+  SignInMessageParams,
+  PartyLayerError,
+} from '@partylayer/core';
 import type {
   StorageAdapter,
   CryptoAdapter,
   TelemetryAdapter,
   LoggerAdapter,
 } from '@partylayer/core';
+import type { RetryPolicy } from './retry';
+import type { Middleware } from './middleware';
+import type { SessionSyncConfig } from './session-sync';
+import type { WalletSelectionStrategy } from './wallet-selection';
+import type { AutoConnectPolicy } from './preferences';
+import type { ContractDelta } from './contract-subscription';
 
 /**
  * Default registry URL for PartyLayer
@@ -71,6 +87,24 @@ export interface TelemetryConfig {
   network?: NetworkId;
 }
 
+/**
+ * Session expiry configuration
+ */
+export interface SessionExpiryConfig {
+  /**
+   * How long before `expiresAt` to refresh the session or emit
+   * `session:expiring`. Sessions that live shorter than this are
+   * refreshed halfway to each expiry instead.
+   * @default 60000
+   */
+  warnBeforeMs?: number;
+  /**
+   * Call the adapter's `refresh()` before warning, when it has one
+   * @default true
+   */
+  refresh?: boolean;
+}
+
 /**
  * Adapter class type (for instantiation)
  */
@@ -148,6 +182,30 @@ export interface PartyLayerConfig {
   telemetry?: TelemetryAdapter | TelemetryConfig;
   /** Logger adapter (optional) */
   logger?: LoggerAdapter;
+  /**
+   * Retry policy for connect, restore, ledgerApi and registry fetches
+   * @default undefined (no retries)
+   */
+  retry?: RetryPolicy;
+  /** Session expiry handling */
+  sessionExpiry?: SessionExpiryConfig;
+  /**
+   * Reconnect silently to the last used wallet when no session could be
+   * restored
+   * @default 'never'
+   */
+  autoConnect?: AutoConnectPolicy;
+  /**
+   * Cross-tab session sync: session changes propagate to every client of
+   * the same origin, and a single leader tab runs restore and refresh.
+   * Requires a storage adapter shared between tabs (the default is).
+   * @default true in browsers, false elsewhere
+   */
+  sync?: boolean | SessionSyncConfig;
+  /**
+   * Middlewares run around every wallet operation (see `client.use()`)
+   */
+  middleware?: Middleware[];
   /** Application metadata */
   app: {
     /** Application name */
@@ -163,8 +221,15 @@ export interface PartyLayerConfig {
 export interface ConnectOptions {
   /** Specific wallet ID to connect to */
   walletId?: WalletId;
-  /** Prefer installed wallets */
+  /** Party to select if the wallet exposes several */
+  partyId?: PartyId;
+  /**
+   * Pick the wallet with the default selection strategy (installed, then
+   * last used) when `walletId` and `strategy` are not set
+   */
   preferInstalled?: boolean;
+  /** Ranks wallets when `walletId` is not set; connect() uses the first */
+  strategy?: WalletSelectionStrategy;
   /** Allow only specific wallets */
   allowWallets?: WalletId[];
   /** Required capabilities */
@@ -173,6 +238,121 @@ export interface ConnectOptions {
   timeoutMs?: number;
 }
 
+/**
+ * Session targeting options for signing and ledger calls
+ */
+export interface SessionTargetOptions {
+  /** Session to use (default: the active session) */
+  sessionId?: SessionId;
+}
+
+/**
+ * Sign-in options (Sign-In-With-Canton)
+ *
+ * The party and network come from the session.
+ */
+export interface SignInOptions
+  extends SessionTargetOptions,
+    Omit<SignInMessageParams, 'domain' | 'partyId' | 'network'> {
+  /** Domain (default: host of the app origin) */
+  domain?: string;
+}
+
+/**
+ * Sign-in result
+ */
+export interface SignInResult {
+  /** Structured message that was signed */
+  message: SignInMessage;
+  /** Wallet signature over the formatted message (`signed.message`) */
+  signed: SignedMessage;
+}
+
+/**
+ * Transaction preview options
+ */
+export interface PreviewTransactionOptions extends SessionTargetOptions {
+  /** Ledger API user ID for the prepare request (default: left to the wallet) */
+  userId?: string;
+}
+
+/**
+ * Batch signing and submission options
+ */
+export interface BatchOptions extends SessionTargetOptions {
+  /**
+   * Keep going after an item fails when items are processed one by one.
+   * A user rejection always stops the batch.
+   * @default false
+   */
+  continueOnError?: boolean;
+}
+
+/**
+ * Outcome of one batch item
+ */
+export type BatchItemResult<T> =
+  | { status: 'fulfilled'; value: T }
+  | { status: 'rejected'; error: PartyLayerError }
+  /** Not attempted because an earlier item failed */
+  | { status: 'skipped' };
+
+/**
+ * Batch result
+ */
+export interface BatchResult<T> {
+  /** One result per input, in input order */
+  items: BatchItemResult<T>[];
+  /** Whether every item was fulfilled */
+  ok: boolean;
+}
+
+/**
+ * Transaction tracking options
+ */
+export interface TrackTransactionOptions extends SessionTargetOptions {
+  /**
+   * Delay before ledger completion polling starts when the wallet emits
+   * txStatus events (default: 5000ms). Wallets without events are polled
+   * right away.
+   */
+  pollAfterMs?: number;
+  /** Completion polling interval (default: 2000ms) */
+  pollIntervalMs?: number;
+  /**
+   * Ledger offset to read completions after (default: the ledger end when
+   * tracking starts). Pass the ledger end read before submitting when the
+   * command may complete before trackTransaction() is called.
+   */
+  beginExclusive?: number;
+  /** Ledger API user ID the command was submitted as, for the completion stream */
+  userId?: string;
+}
+
+/**
+ * Contract subscription options
+ *
+ * Without a `sessionId` the subscription follows the active session, so
+ * it picks up again after a reconnect.
+ */
+export interface SubscribeContractsOptions extends SessionTargetOptions {
+  /** Template IDs to follow */
+  templateIds: string[];
+  /** Parties to read as (default: the session party) */
+  parties?: PartyId[];
+  /**
+   * Resume after this offset (a previous subscription's `offset`)
+   * instead of starting with a snapshot of the active contracts
+   */
+  beginExclusive?: number;
+  /** Polling interval when the wallet has no update stream (default: 5000ms) */
+  pollIntervalMs?: number;
+  /** Called for every delta (in addition to async iteration) */
+  onDelta?: (delta: ContractDelta) => void;
+  /** Called when reading the ledger fails, whether the subscription retries or stops */
+  onError?: (error: PartyLayerError) => void;
+}
+
 /**
  * Wallet filter options
  */
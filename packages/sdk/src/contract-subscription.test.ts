@@ -0,0 +1,289 @@
+/**
+ * Contract Subscription Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { WalletAdapter, StorageAdapter, LedgerApiParams, StreamUpdatesParams } from '@partylayer/core';
+import { toWalletId, toPartyId, WalletNotFoundError, CapabilityNotSupportedError } from '@partylayer/core';
+import { PartyLayerClient } from './client';
+import type { ContractDelta, ContractSubscription } from './contract-subscription';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+const PARTY = toPartyId('alice::1220');
+const TEMPLATE = 'pkg:Token:Holding';
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+function created(contractId: string, offset: number) {
+  return {
+    offset,
+    nodeId: 0,
+    contractId,
+    templateId: TEMPLATE,
+    createArgument: { owner: PARTY },
+    signatories: [PARTY],
+    observers: [],
+    witnessParties: [PARTY],
+  };
+}
+
+function transaction(offset: number, events: unknown[]) {
+  return {
+    update: {
+      Transaction: {
+        value: { updateId: `u${offset}`, effectiveAt: '2026-01-01T00:00:00Z', offset, synchronizerId: 's', events },
+      },
+    },
+  };
+}
+
+/** In-memory ledger: an ACS snapshot at offset 1 and the updates after it */
+function createLedger() {
+  const ledger = {
+    end: 1,
+    acs: [created('#1', 1)],
+    updates: [] as Array<ReturnType<typeof transaction>>,
+    add(offset: number, events: unknown[]) {
+      ledger.updates.push(transaction(offset, events));
+      ledger.end = offset;
+    },
+    ledgerApi: vi.fn(async (_ctx: unknown, _session: unknown, params: LedgerApiParams) => {
+      const path = params.resource.split('?')[0];
+      const body = params.body ? JSON.parse(params.body) : {};
+      let response: unknown;
+      if (path === '/v2/state/ledger-end') {
+        response = { offset: ledger.end };
+      } else if (path === '/v2/state/active-contracts') {
+        response = ledger.acs.map((event) => ({
+          contractEntry: { JsActiveContract: { createdEvent: event, synchronizerId: 's' } },
+        }));
+      } else if (path === '/v2/updates/flats') {
+        response = ledger.updates.filter((u) => {
+          const offset = u.update.Transaction.value.offset;
+          return offset > body.beginExclusive && offset <= body.endInclusive;
+        });
+      } else {
+        throw new Error(`unexpected resource ${params.resource}`);
+      }
+      return { response: JSON.stringify(response) };
+    }),
+  };
+  return ledger;
+}
+
+function createClient(adapter: Partial<WalletAdapter>): PartyLayerClient {
+  const client = new PartyLayerClient({
+    network: 'devnet',
+    app: { name: 'Test dApp', origin: 'https://dapp.example' },
+    adapters: [
+      {
+        walletId: toWalletId('wallet-a'),
+        name: 'Wallet A',
+        getCapabilities: () => ['connect', 'ledgerApi'],
+        detectInstalled: async () => ({ installed: true }),
+        connect: async () => ({ partyId: PARTY, session: { network: 'devnet', createdAt: Date.now() }, capabilities: [] }),
+        disconnect: async () => {},
+        ...adapter,
+      },
+    ],
+    storage: new MemoryStorage(),
+    crypto: {
+      encrypt: async (data) => data,
+      decrypt: async (data) => data,
+      generateKey: async () => 'key',
+    },
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+    sync: false,
+  });
+  vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+  vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+    throw new WalletNotFoundError(id);
+  });
+  return client;
+}
+
+async function take(subscription: ContractSubscription, count: number): Promise<ContractDelta[]> {
+  const deltas: ContractDelta[] = [];
+  if (count === 0) return deltas;
+  for await (const delta of subscription) {
+    deltas.push(delta);
+    if (deltas.length === count) break;
+  }
+  return deltas;
+}
+
+const summary = (deltas: ContractDelta[]) =>
+  deltas.map((d) =>
+    d.type === 'reset' ? [d.type] : [d.type, d.type === 'created' ? d.contract.contractId : d.contractId, d.offset]
+  );
+
+describe('subscribeContracts', () => {
+  it('should emit the ACS snapshot, then poll for deltas without duplicates', async () => {
+    const ledger = createLedger();
+    const client = createClient({ ledgerApi: ledger.ledgerApi });
+    await client.connect({ walletId: toWalletId('wallet-a') });
+
+    const subscription = await client.subscribeContracts({ templateIds: [TEMPLATE], pollIntervalMs: 5 });
+    expect(summary(await take(subscription, 1))).toEqual([['created', '#1', 1]]);
+
+    // #1 shows up again in a later update; only #2 and the archive are new
+    ledger.add(2, [{ CreatedEvent: created('#1', 1) }, { CreatedEvent: created('#2', 2) }]);
+    ledger.add(3, [{ ArchivedEvent: { offset: 3, nodeId: 0, contractId: '#1', templateId: TEMPLATE } }]);
+
+    expect(summary(await take(subscription, 2))).toEqual([
+      ['created', '#2', 2],
+      ['archived', '#1', 3],
+    ]);
+    expect(subscription.offset).toBe(3);
+
+    const body = JSON.parse(ledger.ledgerApi.mock.calls.find(([, , p]) => p.resource.startsWith('/v2/updates'))![2].body!);
+    expect(Object.keys(body.updateFormat.includeTransactions.eventFormat.filtersByParty)).toEqual([PARTY]);
+
+    subscription.stop();
+    client.destroy();
+  });
+
+  it('should prefer the wallet update stream and resume from the last offset', async () => {
+    const ledger = createLedger();
+    const streams: Array<{ params: StreamUpdatesParams; push: (u: unknown) => void; fail: (e: unknown) => void }> = [];
+    const streamUpdates = vi.fn(async (_ctx, _session, params: StreamUpdatesParams, onUpdate, onError) => {
+      streams.push({ params, push: onUpdate, fail: onError });
+      return () => {};
+    });
+    const client = createClient({ ledgerApi: ledger.ledgerApi, streamUpdates });
+    await client.connect({ walletId: toWalletId('wallet-a') });
+
+    const subscription = await client.subscribeContracts({ templateIds: [TEMPLATE], pollIntervalMs: 5 });
+    await take(subscription, 1);
+    await vi.waitFor(() => expect(streams).toHaveLength(1));
+    expect(streams[0].params).toEqual({ beginExclusive: 1, parties: [PARTY], templateIds: [TEMPLATE] });
+
+    streams[0].push(transaction(2, [{ CreatedEvent: created('#2', 2) }]));
+    expect(summary(await take(subscription, 1))).toEqual([['created', '#2', 2]]);
+
+    // A dropped stream is reopened from the last offset
+    streams[0].fail(new Error('socket closed'));
+    await vi.waitFor(() => expect(streams).toHaveLength(2));
+    expect(streams[1].params.beginExclusive).toBe(2);
+
+    // So is a reconnect; replayed updates are ignored
+    await client.disconnect();
+    await client.connect({ walletId: toWalletId('wallet-a') });
+    await vi.waitFor(() => expect(streams).toHaveLength(3));
+    expect(streams[2].params.beginExclusive).toBe(2);
+    streams[2].push(transaction(2, [{ CreatedEvent: created('#2', 2) }]));
+    streams[2].push(transaction(3, [{ CreatedEvent: created('#3', 3) }]));
+    expect(summary(await take(subscription, 1))).toEqual([['created', '#3', 3]]);
+
+    expect(ledger.ledgerApi.mock.calls.some(([, , p]) => p.resource.startsWith('/v2/updates'))).toBe(false);
+    client.destroy();
+    expect(subscription.done).toBe(true);
+  });
+
+  it('should pause while disconnected and start over when the party changes', async () => {
+    const ledger = createLedger();
+    const BOB = toPartyId('bob::1220');
+    let party = PARTY;
+    const client = createClient({
+      ledgerApi: ledger.ledgerApi,
+      connect: async () => ({ partyId: party, session: { network: 'devnet', createdAt: Date.now() }, capabilities: [] }),
+    });
+    await client.connect({ walletId: toWalletId('wallet-a') });
+
+    const subscription = await client.subscribeContracts({ templateIds: [TEMPLATE], pollIntervalMs: 5 });
+    await take(subscription, 1);
+
+    await client.disconnect();
+    const calls = ledger.ledgerApi.mock.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(ledger.ledgerApi.mock.calls.length).toBe(calls);
+
+    // Bob's view is read from scratch, as Bob
+    ledger.acs = [created('#9', 5)];
+    ledger.end = 5;
+    party = BOB;
+    await client.connect({ walletId: toWalletId('wallet-a') });
+    expect(summary(await take(subscription, 2))).toEqual([['reset'], ['created', '#9', 5]]);
+
+    const body = JSON.parse(ledger.ledgerApi.mock.calls.filter(([, , p]) => p.resource === '/v2/state/active-contracts').pop()![2].body!);
+    expect(Object.keys(body.eventFormat.filtersByParty)).toEqual([BOB]);
+    expect(subscription.offset).toBe(5);
+
+    subscription.stop();
+    client.destroy();
+  });
+
+  it('should report failures and stop on errors that cannot be retried', async () => {
+    const ledger = createLedger();
+    const ledgerApi = vi.fn(async (ctx: unknown, session: unknown, params: LedgerApiParams) => {
+      if (params.resource.startsWith('/v2/updates')) {
+        throw new CapabilityNotSupportedError(toWalletId('wallet-a'), 'ledgerApi');
+      }
+      return ledger.ledgerApi(ctx, session, params);
+    });
+    const client = createClient({ ledgerApi });
+    await client.connect({ walletId: toWalletId('wallet-a') });
+
+    const onError = vi.fn();
+    const subscription = await client.subscribeContracts({ templateIds: [TEMPLATE], pollIntervalMs: 5, onError });
+    expect(summary(await take(subscription, 1))).toEqual([['created', '#1', 1]]);
+
+    ledger.add(2, [{ CreatedEvent: created('#2', 2) }]);
+    await vi.waitFor(() => expect(subscription.done).toBe(true));
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].code).toBe('CAPABILITY_NOT_SUPPORTED');
+    client.destroy();
+  });
+
+  it('should stop a targeted subscription when its session ends', async () => {
+    const ledger = createLedger();
+    const client = createClient({ ledgerApi: ledger.ledgerApi });
+    const session = await client.connect({ walletId: toWalletId('wallet-a') });
+
+    const subscription = await client.subscribeContracts({
+      sessionId: session.sessionId,
+      templateIds: [TEMPLATE],
+      pollIntervalMs: 5,
+    });
+    await client.disconnect();
+    expect(subscription.done).toBe(true);
+    client.destroy();
+  });
+
+  it('should drop buffered deltas of contracts archived before they were read', async () => {
+    const ledger = createLedger();
+    const client = createClient({ ledgerApi: ledger.ledgerApi });
+    await client.connect({ walletId: toWalletId('wallet-a') });
+
+    const subscription = await client.subscribeContracts({ templateIds: [TEMPLATE], pollIntervalMs: 5 });
+    await vi.waitFor(() => expect(subscription.offset).toBe(1));
+    ledger.add(2, [{ CreatedEvent: created('#2', 2) }]);
+    ledger.add(3, [{ ArchivedEvent: { offset: 3, nodeId: 0, contractId: '#2', templateId: TEMPLATE } }]);
+    await vi.waitFor(() => expect(subscription.offset).toBe(3));
+
+    ledger.add(4, [{ CreatedEvent: created('#4', 4) }]);
+    expect(summary(await take(subscription, 2))).toEqual([
+      ['created', '#1', 1],
+      ['created', '#4', 4],
+    ]);
+
+    subscription.stop();
+    client.destroy();
+  });
+});
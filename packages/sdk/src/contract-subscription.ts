@@ -0,0 +1,395 @@
+/**
+ * Contract Subscription
+ *
+ * Keeps a dApp's view of the active contracts of some templates up to
+ * date. It starts with a snapshot of the ACS (unless resuming from an
+ * offset), then follows ledger updates:
+ * - from the wallet's update stream (`streamUpdates`) when it has one
+ * - otherwise by polling `/v2/updates/flats` through the ledgerApi proxy
+ *
+ * Deltas are deduplicated by contract ID, and every (re)start continues
+ * from the last offset seen, so a dropped stream or a reconnect neither
+ * loses nor repeats deltas. When the view changes (other wallet, network
+ * or party), a `reset` delta is emitted and a new snapshot follows.
+ */
+
+import type { PartyId } from '@partylayer/core';
+import type { LedgerClient, LedgerCreatedEvent, LedgerUpdate } from './ledger-client';
+
+/**
+ * A change to the set of active contracts
+ */
+export type ContractDelta =
+  | {
+      type: 'created';
+      /** The new contract */
+      contract: LedgerCreatedEvent;
+      /** Offset the delta was observed at */
+      offset: number;
+    }
+  | {
+      type: 'archived';
+      /** Archived contract ID */
+      contractId: string;
+      /** Template ID of the archived contract */
+      templateId: string;
+      /** Offset the delta was observed at */
+      offset: number;
+    }
+  | {
+      /** The view changed: drop every contract seen so far; a new snapshot follows */
+      type: 'reset';
+    };
+
+/**
+ * What to do after a failure: retry after the poll interval, wait for
+ * resume(), or stop the subscription
+ *
+ * @internal
+ */
+export type FailureAction = 'retry' | 'pause' | 'stop';
+
+/**
+ * Opens a ledger update stream from an offset
+ *
+ * @returns an unsubscribe function, or null if no stream is available
+ * @internal
+ */
+export type OpenUpdateStream = (
+  beginExclusive: number,
+  parties: PartyId[] | undefined,
+  onUpdate: (update: LedgerUpdate) => void,
+  onError: (err: unknown) => void
+) => Promise<(() => void) | null>;
+
+/**
+ * Contract subscription options
+ */
+export interface ContractSubscriptionOptions {
+  /** Ledger client used for the snapshot and for polling */
+  ledger: LedgerClient;
+  /** Template IDs to follow */
+  templateIds: string[];
+  /** Parties to read as (default: the ledger client's party) */
+  parties?: PartyId[];
+  /** Resume after this offset instead of starting with an ACS snapshot */
+  beginExclusive?: number;
+  /** Update stream, tried before every polling round */
+  openStream?: OpenUpdateStream;
+  /** Polling interval, and delay before retrying after an error (ms) */
+  pollIntervalMs: number;
+  /** Called for every delta */
+  onDelta?: (delta: ContractDelta) => void;
+  /** Called when the snapshot, the stream or a poll fails */
+  onError: (err: unknown) => void;
+  /** How to handle a failure (default: retry) */
+  classifyError?: (err: unknown) => FailureAction;
+}
+
+/**
+ * Ledger view of a subscription
+ *
+ * @internal
+ */
+export interface ContractView {
+  ledger: LedgerClient;
+  parties?: PartyId[];
+}
+
+/**
+ * Contract subscription
+ *
+ * Iterate over it to receive deltas, or pass `onDelta`. Without
+ * `onDelta`, deltas produced while no iterator is running are buffered
+ * for the next one; a contract created and archived while buffered is
+ * dropped from the buffer. Iteration ends when the subscription is stopped.
+ */
+export class ContractSubscription implements AsyncIterable<ContractDelta> {
+  private readonly options: ContractSubscriptionOptions;
+  private view: ContractView;
+  private lastOffset: number | undefined;
+  /** Active contract IDs; archived ones are dropped, replays are caught by offset */
+  private contracts = new Set<string>();
+  private backlog: ContractDelta[] | null;
+  private queues = new Set<ContractDelta[]>();
+  private listeners = new Set<() => void>();
+  private cleanups: Array<() => void> = [];
+  private closeStream?: () => void;
+  private timer?: ReturnType<typeof setTimeout>;
+  private generation = 0;
+  private stopped = false;
+
+  constructor(options: ContractSubscriptionOptions) {
+    this.options = options;
+    this.view = { ledger: options.ledger, parties: options.parties };
+    this.lastOffset = options.beginExclusive;
+    this.backlog = options.onDelta ? null : [];
+  }
+
+  /**
+   * Last ledger offset processed (undefined until the snapshot is read)
+   *
+   * Pass it as `beginExclusive` to resume in a later subscription.
+   */
+  get offset(): number | undefined {
+    return this.lastOffset;
+  }
+
+  /**
+   * Whether the subscription has been stopped
+   */
+  get done(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Start (or restart) following the ledger from the last offset
+   *
+   * The client calls this when the subscription is created and after
+   * a reconnect.
+   *
+   * @internal
+   */
+  resume(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.halt();
+    void this.run(++this.generation);
+  }
+
+  /**
+   * Stop following the ledger until resume(), keeping the last offset
+   *
+   * @internal
+   */
+  pause(): void {
+    this.halt();
+    this.generation++;
+  }
+
+  /**
+   * Follow another view: emit a `reset` delta and start over with a
+   * snapshot
+   *
+   * @internal
+   */
+  reset(view: ContractView): void {
+    if (this.stopped) {
+      return;
+    }
+    this.view = view;
+    this.contracts.clear();
+    this.lastOffset = undefined;
+    for (const queue of this.queues) {
+      queue.length = 0;
+    }
+    if (this.backlog) {
+      this.backlog.length = 0;
+    }
+    this.push({ type: 'reset' });
+    this.resume();
+  }
+
+  /**
+   * Register a cleanup run when the subscription stops
+   *
+   * @internal
+   */
+  addCleanup(cleanup: () => void): void {
+    if (this.stopped) {
+      cleanup();
+      return;
+    }
+    this.cleanups.push(cleanup);
+  }
+
+  /**
+   * Stop the subscription (closes the stream and stops polling)
+   */
+  stop(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+    this.halt();
+    for (const cleanup of this.cleanups.splice(0)) {
+      try {
+        cleanup();
+      } catch {
+        /* ignore cleanup failures */
+      }
+    }
+    this.notify();
+  }
+
+  /**
+   * Iterate over deltas until the subscription is stopped
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<ContractDelta> {
+    const queue = this.backlog ?? [];
+    this.backlog = null;
+    this.queues.add(queue);
+    try {
+      for (;;) {
+        while (queue.length > 0) {
+          yield queue.shift()!;
+        }
+        if (this.stopped) {
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          const listener = () => {
+            this.listeners.delete(listener);
+            resolve();
+          };
+          this.listeners.add(listener);
+        });
+      }
+    } finally {
+      this.queues.delete(queue);
+      if (this.queues.size === 0 && !this.options.onDelta) {
+        this.backlog = queue;
+      }
+    }
+  }
+
+  private async run(generation: number): Promise<void> {
+    const { templateIds } = this.options;
+    const { ledger, parties } = this.view;
+    const current = () => generation === this.generation && !this.stopped;
+
+    try {
+      if (this.lastOffset === undefined) {
+        const offset = await ledger.getLedgerEnd();
+        const contracts = await ledger.getActiveContracts(templateIds, { parties, activeAtOffset: offset });
+        if (!current()) return;
+        for (const { createdEvent } of contracts) {
+          this.created(createdEvent, offset);
+        }
+        this.lastOffset = offset;
+      }
+
+      let streamFailed = false;
+      const close = await this.options.openStream?.(
+        this.lastOffset,
+        parties,
+        (update) => {
+          if (current() && !streamFailed) this.apply(update);
+        },
+        (err) => {
+          if (current() && !streamFailed) {
+            streamFailed = true;
+            this.fail(err, generation);
+          }
+        }
+      );
+      if (!current() || streamFailed) {
+        close?.();
+        return;
+      }
+      if (close) {
+        this.closeStream = close;
+        return;
+      }
+
+      for await (const update of ledger.updates({ beginExclusive: this.lastOffset, templateIds, parties })) {
+        if (!current()) return;
+        this.apply(update);
+      }
+      if (current()) {
+        this.timer = setTimeout(() => this.run(generation), this.options.pollIntervalMs);
+      }
+    } catch (err) {
+      if (current()) this.fail(err, generation);
+    }
+  }
+
+  /**
+   * Report an error, then retry from the last offset after the poll
+   * interval, pause or stop
+   */
+  private fail(err: unknown, generation: number): void {
+    this.options.onError(err);
+    const action = this.options.classifyError?.(err) ?? 'retry';
+    if (action === 'stop') {
+      this.stop();
+    } else if (action === 'pause') {
+      this.pause();
+    } else {
+      this.halt();
+      this.timer = setTimeout(() => this.run(generation), this.options.pollIntervalMs);
+    }
+  }
+
+  private halt(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const close = this.closeStream;
+    this.closeStream = undefined;
+    try {
+      close?.();
+    } catch {
+      /* ignore close failures */
+    }
+  }
+
+  private apply(update: LedgerUpdate): void {
+    if (this.lastOffset !== undefined && update.offset <= this.lastOffset) {
+      return;
+    }
+    if (update.type === 'transaction') {
+      for (const event of update.events) {
+        if (event.type === 'created') {
+          this.created(event, update.offset);
+        } else {
+          this.contracts.delete(event.contractId);
+          this.push({ type: 'archived', contractId: event.contractId, templateId: event.templateId, offset: update.offset });
+        }
+      }
+    }
+    this.lastOffset = update.offset;
+  }
+
+  private created(event: LedgerCreatedEvent, offset: number): void {
+    if (this.contracts.has(event.contractId)) {
+      return;
+    }
+    this.contracts.add(event.contractId);
+    // Update events carry a `type` tag; deltas expose the plain event
+    const contract: LedgerCreatedEvent & { type?: string } = { ...event };
+    delete contract.type;
+    this.push({ type: 'created', contract, offset });
+  }
+
+  private push(delta: ContractDelta): void {
+    if (this.backlog) {
+      enqueue(this.backlog, delta);
+    }
+    for (const queue of this.queues) {
+      enqueue(queue, delta);
+    }
+    this.options.onDelta?.(delta);
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of Array.from(this.listeners)) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Queue a delta; an archive cancels a queued creation of the same contract
+ */
+function enqueue(queue: ContractDelta[], delta: ContractDelta): void {
+  if (delta.type === 'archived') {
+    const index = queue.findIndex((d) => d.type === 'created' && d.contract.contractId === delta.contractId);
+    if (index !== -1) {
+      queue.splice(index, 1);
+      return;
+    }
+  }
+  queue.push(delta);
+}
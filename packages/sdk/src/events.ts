@@ -3,7 +3,10 @@
  */
 
 import type {
+  NetworkId,
+  PartyId,
   Session,
+  SessionAccount,
   SessionId,
   TransactionHash,
   TransactionStatus,
@@ -60,6 +63,50 @@ export interface SessionExpiredEvent {
   sessionId: SessionId;
 }
 
+/**
+ * Session expiring event (emitted ahead of expiresAt when no refresh succeeded)
+ */
+export interface SessionExpiringEvent {
+  type: 'session:expiring';
+  sessionId: SessionId;
+  expiresAt: number;
+}
+
+/**
+ * Session refreshed event (adapter extended the session before expiry)
+ */
+export interface SessionRefreshedEvent {
+  type: 'session:refreshed';
+  session: Session;
+}
+
+/**
+ * Accounts changed event (selected party switched)
+ */
+export interface AccountsChangedEvent {
+  type: 'accounts:changed';
+  sessionId: SessionId;
+  /** Newly selected party */
+  partyId: PartyId;
+  /** All parties in the session */
+  accounts: SessionAccount[];
+}
+
+/**
+ * Network changed event
+ *
+ * The session is re-keyed on a network switch: `sessionId` is the new
+ * session and `previousSessionId` no longer exists.
+ */
+export interface NetworkChangedEvent {
+  type: 'network:changed';
+  sessionId: SessionId;
+  previousSessionId: SessionId;
+  network: NetworkId;
+  previousNetwork: NetworkId;
+  session: Session;
+}
+
 /**
  * Transaction status event
  */
@@ -88,6 +135,10 @@ export type PartyLayerEvent =
   | SessionConnectedEvent
   | SessionDisconnectedEvent
   | SessionExpiredEvent
+  | SessionExpiringEvent
+  | SessionRefreshedEvent
+  | AccountsChangedEvent
+  | NetworkChangedEvent
   | TxStatusEvent
   | ErrorEvent;
 
@@ -0,0 +1,288 @@
+/**
+ * Session Expiry Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { WalletAdapter, StorageAdapter, Session } from '@partylayer/core';
+import {
+  toWalletId,
+  toPartyId,
+  toSessionId,
+  WalletNotFoundError,
+} from '@partylayer/core';
+import { ExpiryScheduler } from './expiry-scheduler';
+import { PartyLayerClient } from './client';
+import type { PartyLayerConfig } from './config';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+function session(expiresAt?: number): Session {
+  return {
+    sessionId: toSessionId('s1'),
+    walletId: toWalletId('wallet-a'),
+    partyId: toPartyId('party::a'),
+    network: 'devnet',
+    createdAt: Date.now(),
+    expiresAt,
+    origin: 'https://dapp.example',
+    capabilitiesSnapshot: ['connect'],
+  };
+}
+
+function createAdapter(overrides: Partial<WalletAdapter> = {}): WalletAdapter {
+  return {
+    walletId: toWalletId('wallet-a'),
+    name: 'Wallet A',
+    getCapabilities: () => ['connect'],
+    detectInstalled: async () => ({ installed: true }),
+    connect: async () => ({
+      partyId: toPartyId('party::a'),
+      session: { network: 'devnet', createdAt: Date.now(), expiresAt: Date.now() + 120_000 },
+      capabilities: ['connect'],
+    }),
+    disconnect: async () => {},
+    ...overrides,
+  };
+}
+
+async function connectClient(
+  adapter: WalletAdapter,
+  sessionExpiry?: PartyLayerConfig['sessionExpiry']
+): Promise<PartyLayerClient> {
+  const client = new PartyLayerClient({
+    network: 'devnet',
+    app: { name: 'Test dApp', origin: 'https://dapp.example' },
+    adapters: [adapter],
+    storage: new MemoryStorage(),
+    crypto: {
+      encrypt: async (data) => data,
+      decrypt: async (data) => data,
+      generateKey: async () => 'key',
+    },
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+    sessionExpiry,
+  });
+  vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+  vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+    throw new WalletNotFoundError(id);
+  });
+  await client.connect({ walletId: adapter.walletId });
+  return client;
+}
+
+describe('ExpiryScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should warn ahead of expiry and expire on time', async () => {
+    const onExpiring = vi.fn();
+    const onExpired = vi.fn();
+    const scheduler = new ExpiryScheduler({ warnBeforeMs: 1000, onExpiring, onExpired });
+
+    scheduler.schedule(session(Date.now() + 5000));
+
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(onExpiring).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onExpiring).toHaveBeenCalledWith('s1');
+    expect(onExpired).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onExpired).toHaveBeenCalledWith('s1');
+  });
+
+  it('should warn right away inside the warning window and skip sessions without expiry', async () => {
+    const onExpiring = vi.fn();
+    const onExpired = vi.fn();
+    const scheduler = new ExpiryScheduler({ warnBeforeMs: 1000, onExpiring, onExpired });
+
+    scheduler.schedule(session());
+    scheduler.schedule({ ...session(Date.now() + 500), sessionId: toSessionId('s2') });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onExpiring).toHaveBeenCalledTimes(1);
+    expect(onExpiring).toHaveBeenCalledWith('s2');
+    await vi.advanceTimersByTimeAsync(500);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replace timers when rescheduled and stop on cancel', async () => {
+    const onExpired = vi.fn();
+    const scheduler = new ExpiryScheduler({ warnBeforeMs: 0, onExpiring: () => {}, onExpired });
+
+    scheduler.schedule(session(Date.now() + 1000));
+    scheduler.schedule(session(Date.now() + 3000));
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(onExpired).not.toHaveBeenCalled();
+
+    scheduler.cancel(toSessionId('s1'));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+
+  it('should not warn again right away after a refresh inside the warning window', async () => {
+    const onExpired = vi.fn();
+    const scheduler = new ExpiryScheduler({
+      warnBeforeMs: 1000,
+      // Each refresh yields a token shorter-lived than the warning window
+      onExpiring: vi.fn(() => scheduler.schedule(session(Date.now() + 400))),
+      onExpired,
+    });
+    const { onExpiring } = (scheduler as unknown as { options: { onExpiring: ReturnType<typeof vi.fn> } }).options;
+
+    scheduler.schedule(session(Date.now() + 2000));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onExpiring).toHaveBeenCalledTimes(1);
+
+    // Next warning halfway to the refreshed expiry
+    await vi.advanceTimersByTimeAsync(199);
+    expect(onExpiring).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onExpiring).toHaveBeenCalledTimes(2);
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+
+  it('should not warn again when the expiry did not change', async () => {
+    const onExpiring = vi.fn();
+    const onExpired = vi.fn();
+    const scheduler = new ExpiryScheduler({ warnBeforeMs: 1000, onExpiring, onExpired });
+    const expiresAt = Date.now() + 500;
+
+    scheduler.schedule(session(expiresAt));
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.schedule(session(expiresAt));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onExpiring).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('should handle expiry beyond the setTimeout limit', async () => {
+    const onExpiring = vi.fn();
+    const onExpired = vi.fn();
+    const scheduler = new ExpiryScheduler({ warnBeforeMs: 1000, onExpiring, onExpired });
+    const days30 = 30 * 24 * 60 * 60 * 1000;
+
+    scheduler.schedule(session(Date.now() + days30));
+    await vi.advanceTimersByTimeAsync(days30 - 1001);
+    expect(onExpiring).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onExpiring).toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onExpired).toHaveBeenCalled();
+  });
+});
+
+describe('PartyLayerClient session expiry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should emit session:expiring and then session:expired', async () => {
+    const client = await connectClient(createAdapter());
+    const expiring = vi.fn();
+    const expired = vi.fn();
+    client.on('session:expiring', expiring);
+    client.on('session:expired', expired);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(expiring).toHaveBeenCalledWith(expect.objectContaining({ type: 'session:expiring' }));
+    expect(expired).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(await client.getSessions()).toEqual([]);
+    client.destroy();
+  });
+
+  it('should refresh through the adapter before warning', async () => {
+    const refresh = vi.fn(async (_ctx: unknown, s: Session) => ({
+      ...s,
+      expiresAt: Date.now() + 600_000,
+    }));
+    const client = await connectClient(createAdapter({ refresh }));
+    const expiring = vi.fn();
+    const refreshed = vi.fn();
+    client.on('session:expiring', expiring);
+    client.on('session:refreshed', refreshed);
+
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(refreshed).toHaveBeenCalledTimes(1);
+    expect(expiring).not.toHaveBeenCalled();
+    expect(await client.getSessions()).toHaveLength(1);
+    client.destroy();
+  });
+
+  it('should pace refreshes of tokens that live shorter than the warning window', async () => {
+    // 30s tokens with the default 60s warning: every session starts inside the window
+    const refresh = vi.fn(async (_ctx: unknown, s: Session) => ({
+      ...s,
+      expiresAt: Date.now() + 30_000,
+    }));
+    const client = await connectClient(
+      createAdapter({
+        refresh,
+        connect: async () => ({
+          partyId: toPartyId('party::a'),
+          session: { network: 'devnet', createdAt: Date.now(), expiresAt: Date.now() + 29_000 },
+          capabilities: ['connect'],
+        }),
+      })
+    );
+    const expired = vi.fn();
+    client.on('session:expired', expired);
+
+    // Refreshed on connect, then halfway to each new expiry: 15s, 30s, 45s, 60s
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(refresh).toHaveBeenCalledTimes(5);
+    expect(expired).not.toHaveBeenCalled();
+    expect(await client.getSessions()).toHaveLength(1);
+    client.destroy();
+  });
+
+  it('should warn when refresh fails or is disabled', async () => {
+    const refresh = vi.fn().mockRejectedValue(new Error('invalid_grant'));
+    const client = await connectClient(createAdapter({ refresh }));
+    const expiring = vi.fn();
+    client.on('session:expiring', expiring);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(expiring).toHaveBeenCalledTimes(1);
+    client.destroy();
+
+    const disabled = vi.fn();
+    const other = await connectClient(createAdapter({ refresh: disabled }), { refresh: false });
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(disabled).not.toHaveBeenCalled();
+    other.destroy();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Session Expiry Scheduler
+ *
+ * Keeps one timer per session with an `expiresAt`: `onExpiring` fires
+ * `warnBeforeMs` ahead of expiry (right away if that point has passed),
+ * `onExpired` fires at `expiresAt`. Rescheduling a session replaces its
+ * timers, so a refreshed session simply gets scheduled again. A refresh
+ * that leaves the session inside the warning window (a token shorter-lived
+ * than `warnBeforeMs`) warns again halfway to the new expiry rather than
+ * right away, and not at all if the expiry did not change.
+ */
+
+import type { Session, SessionId } from '@partylayer/core';
+
+/** Longest delay setTimeout accepts (~24.8 days) */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Expiry scheduler options
+ */
+export interface ExpirySchedulerOptions {
+  /** How long before `expiresAt` to call `onExpiring` */
+  warnBeforeMs: number;
+  /** Called ahead of expiry */
+  onExpiring: (sessionId: SessionId) => void | Promise<void>;
+  /** Called once `expiresAt` is reached */
+  onExpired: (sessionId: SessionId) => void | Promise<void>;
+  /** Called when a callback throws */
+  onError?: (err: unknown) => void;
+}
+
+/**
+ * Session expiry scheduler
+ *
+ * @internal
+ */
+export class ExpiryScheduler {
+  private timers = new Map<SessionId, ReturnType<typeof setTimeout>>();
+  /** expiresAt each session was last warned for */
+  private warned = new Map<SessionId, number>();
+  private options: ExpirySchedulerOptions;
+
+  constructor(options: ExpirySchedulerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * (Re)schedule expiry callbacks for a session.
+   *
+   * Sessions without `expiresAt` are not scheduled.
+   */
+  schedule(session: Session): void {
+    this.clearTimer(session.sessionId);
+
+    const { sessionId, expiresAt } = session;
+    if (!expiresAt) {
+      this.warned.delete(sessionId);
+      return;
+    }
+
+    const now = Date.now();
+    if (now >= expiresAt) {
+      this.run(this.options.onExpired, sessionId);
+      return;
+    }
+
+    const expire = () => this.arm(sessionId, expiresAt, () => this.run(this.options.onExpired, sessionId));
+    const warn = () => {
+      this.warned.set(sessionId, expiresAt);
+      this.run(this.options.onExpiring, sessionId);
+    };
+    let warnAt = expiresAt - this.options.warnBeforeMs;
+
+    // Already warned and still inside the window: don't warn again right away
+    const warnedFor = this.warned.get(sessionId);
+    if (warnedFor !== undefined && now >= warnAt) {
+      if (expiresAt === warnedFor) {
+        expire();
+        return;
+      }
+      warnAt = now + Math.floor((expiresAt - now) / 2);
+    }
+
+    if (now < warnAt) {
+      this.arm(sessionId, warnAt, () => {
+        // Arm expiry first so a reschedule from onExpiring replaces it
+        expire();
+        warn();
+      });
+    } else {
+      expire();
+      warn();
+    }
+  }
+
+  /**
+   * Cancel the timers of a session
+   */
+  cancel(sessionId: SessionId): void {
+    this.clearTimer(sessionId);
+    this.warned.delete(sessionId);
+  }
+
+  /**
+   * Cancel all timers
+   */
+  clear(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.warned.clear();
+  }
+
+  private clearTimer(sessionId: SessionId): void {
+    const timer = this.timers.get(sessionId);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.timers.delete(sessionId);
+    }
+  }
+
+  /**
+   * Set a timer for an absolute time, chaining timers past MAX_TIMEOUT_MS
+   */
+  private arm(sessionId: SessionId, at: number, fn: () => void): void {
+    const delay = at - Date.now();
+    const timer = setTimeout(() => {
+      this.timers.delete(sessionId);
+      if (delay > MAX_TIMEOUT_MS) {
+        this.arm(sessionId, at, fn);
+      } else {
+        fn();
+      }
+    }, Math.max(0, Math.min(delay, MAX_TIMEOUT_MS)));
+
+    // Don't keep Node processes alive for session timers
+    (timer as { unref?: () => void }).unref?.();
+    this.timers.set(sessionId, timer);
+  }
+
+  private run(callback: (sessionId: SessionId) => void | Promise<void>, sessionId: SessionId): void {
+    Promise.resolve()
+      .then(() => callback(sessionId))
+      .catch((err) => this.options.onError?.(err));
+  }
+}
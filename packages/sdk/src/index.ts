@@ -11,6 +11,12 @@
  * - OpenRPC dApp API spec: https://github.com/hyperledger-labs/splice-wallet-kernel/blob/main/api-specs/openrpc-dapp-api.json
  */
 
+import { setDefaultAdapters } from './client';
+import { getBuiltinAdapters } from './builtin-adapters';
+
+// Clients created from this entry point register the built-in wallets by default
+setDefaultAdapters(getBuiltinAdapters);
+
 // Public API
 export { createPartyLayer, PartyLayerClient } from './client';
 // Backward compatibility aliases
@@ -18,7 +24,60 @@ export { createPartyLayer as createCantonConnect, PartyLayerClient as CantonConn
 // Internal API (for adapter registration - will be hidden in future)
 export type { PartyLayerClient as _PartyLayerClientInternal } from './client';
 export { DEFAULT_REGISTRY_URL } from './config';
-export type { PartyLayerConfig, PartyLayerConfig as CantonConnectConfig, ConnectOptions, WalletFilter, AdapterClass } from './config';
+export type { PartyLayerConfig, PartyLayerConfig as CantonConnectConfig, ConnectOptions, SessionTargetOptions, SignInOptions, SignInResult, BatchOptions, BatchItemResult, BatchResult, PreviewTransactionOptions, SubscribeContractsOptions, TrackTransactionOptions, WalletFilter, AdapterClass, SessionExpiryConfig } from './config';
+export { TransactionTracker } from './tx-tracker';
+export type {
+  TransactionPreview,
+  PreviewContract,
+  PreviewExercise,
+  PreviewFees,
+} from './tx-preview';
+export { LedgerClient, mapLedgerApiError } from './ledger-client';
+export type {
+  LedgerClientOptions,
+  LedgerQueryOptions,
+  ActiveContractsOptions,
+  CompletionsOptions,
+  UpdatesOptions,
+  UpdatesPage,
+  ActiveContract,
+  ContractEvents,
+  PartyDetails,
+  CommandCompletion,
+  LedgerCreatedEvent,
+  LedgerArchivedEvent,
+  LedgerEvent,
+  LedgerUpdate,
+} from './ledger-client';
+export { ContractSubscription } from './contract-subscription';
+export type { ContractDelta } from './contract-subscription';
+export type { RetryPolicy, RetryRule, RetryOperation } from './retry';
+export type { SessionSyncConfig } from './session-sync';
+export type { WalletPreferences, AutoConnectPolicy } from './preferences';
+export { createSelectionStrategy } from './wallet-selection';
+export type {
+  WalletCandidate,
+  WalletSelectionContext,
+  WalletSelectionStrategy,
+  SelectionStrategyOptions,
+} from './wallet-selection';
+export { DefaultCrypto } from './adapters';
+export { SessionKeyManager, MemoryKeyStore, IndexedDBKeyStore } from './key-manager';
+export type { KeyStore, StoredKey } from './key-manager';
+export { LocalSessionStorage, IndexedDBSessionStorage, MemorySessionStorage } from './storage';
+export type { SessionStorage } from './storage';
+export {
+  loggingMiddleware,
+  timingMiddleware,
+  confirmationMiddleware,
+} from './middleware';
+export type {
+  Middleware,
+  MiddlewareContext,
+  ClientOperations,
+  OperationName,
+} from './middleware';
+export type { WaitForOptions } from './tx-tracker';
 export type {
   PartyLayerEvent,
   PartyLayerEvent as CantonConnectEvent,
@@ -27,6 +86,10 @@ export type {
   SessionConnectedEvent,
   SessionDisconnectedEvent,
   SessionExpiredEvent,
+  SessionExpiringEvent,
+  SessionRefreshedEvent,
+  AccountsChangedEvent,
+  NetworkChangedEvent,
   TxStatusEvent,
   ErrorEvent,
 } from './events';
@@ -40,10 +103,12 @@ export type {
   CapabilityKey,
   WalletInfo,
   Session,
+  SessionAccount,
   SignedMessage,
   SignedTransaction,
   TxReceipt,
   TransactionStatus,
+  TxStatusUpdate,
 } from '@partylayer/core';
 
 // Re-export error types
@@ -55,8 +120,12 @@ export {
   UserRejectedError,
   OriginNotAllowedError,
   SessionExpiredError,
+  PartyNotFoundError,
+  NetworkNotSupportedError,
   CapabilityNotSupportedError,
+  TransactionFailedError,
   TransportError,
+  LedgerApiError,
   RegistryFetchFailedError,
   RegistryVerificationFailedError,
   RegistrySchemaInvalidError,
@@ -73,7 +142,54 @@ export type {
   AdapterConnectResult,
   SignMessageParams,
   SignTransactionParams,
+  SignBatchParams,
+  StreamUpdatesParams,
   SubmitTransactionParams,
+  SwitchNetworkParams,
+  AdapterSwitchNetworkResult,
+} from '@partylayer/core';
+
+// Re-export Daml command model
+export type {
+  DamlTransaction,
+  DamlCommand,
+  CreateCommand,
+  ExerciseCommand,
+  CreateAndExerciseCommand,
+  DisclosedContract,
+  JsonApiCommand,
+  JsonApiCommands,
+  TransactionPayload,
+  SignedTransactionPayload,
+} from '@partylayer/core';
+export {
+  DamlTransactionBuilder,
+  isDamlTransaction,
+  toJsonApiCommands,
+} from '@partylayer/core';
+export { getSigningPartyId } from '@partylayer/core';
+
+// Re-export Sign-In-With-Canton and signature verification helpers
+export {
+  createSignInMessage,
+  formatSignInMessage,
+  parseSignInMessage,
+  verifySignIn,
+  generateSignInNonce,
+  verifyMessageSignature,
+  verifyTransactionSignature,
+  matchesKeyFingerprint,
+} from '@partylayer/core';
+export type {
+  SignInMessage,
+  SignInMessageParams,
+  VerifySignInParams,
+  SignInFailureReason,
+  SignInVerificationResult,
+  SignatureScheme,
+  SignatureFailureReason,
+  SignatureVerificationResult,
+  SignatureVerificationOptions,
 } from '@partylayer/core';
 
 // Re-export registry status type
@@ -119,12 +235,18 @@ export type { MetricName, MetricsPayload } from '@partylayer/core';
 export {
   createProviderBridge,
   PartyLayerProvider,
+  extensionMethod,
   ProviderRpcError,
   RPC_ERRORS,
   JSON_RPC_ERRORS,
   discoverInjectedProviders,
   waitForProvider,
   isCIP0103Provider,
+  announceProvider,
+  getProviderRegistry,
+  ProviderRegistry,
+  CANTON_ANNOUNCE_PROVIDER_EVENT,
+  CANTON_REQUEST_PROVIDER_EVENT,
   CIP0103EventBus,
   toCAIP2Network,
   fromCAIP2Network,
@@ -145,6 +267,14 @@ export type {
   CIP0103TxStatus,
   CIP0103Method,
   CIP0103Event,
+  CIP0103MethodMap,
+  CIP0103MethodParams,
+  CIP0103MethodResult,
   DiscoveredProvider,
+  CantonProviderInfo,
+  CantonAnnounceProviderDetail,
+  ProviderRegistryListener,
   PartyLayerProviderOptions,
+  PartyLayerRequestPayload,
+  ExtensionMethod,
 } from '@partylayer/provider';
@@ -0,0 +1,134 @@
+/**
+ * Session Key Management Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { StorageAdapter } from '@partylayer/core';
+import { toWalletId, toPartyId, InternalError, WalletNotFoundError } from '@partylayer/core';
+import { SessionKeyManager, MemoryKeyStore } from './key-manager';
+import { DefaultCrypto } from './adapters';
+import { PartyLayerClient } from './client';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+const ORIGIN = 'https://dapp.example';
+
+describe('SessionKeyManager', () => {
+  it('should round-trip through a versioned envelope', async () => {
+    const keys = new SessionKeyManager(new MemoryKeyStore());
+
+    const envelope = await keys.encrypt('{"partyId":"party::a"}', ORIGIN);
+
+    expect(envelope).toMatch(/^v1\.[0-9a-f]{16}\./);
+    expect(envelope).not.toContain('party::a');
+    expect(await keys.decrypt(envelope, ORIGIN)).toBe('{"partyId":"party::a"}');
+  });
+
+  it('should generate a non-extractable key once per store', async () => {
+    const store = new MemoryKeyStore();
+    const keys = new SessionKeyManager(store);
+
+    await Promise.all([keys.encrypt('a', ORIGIN), keys.encrypt('b', ORIGIN)]);
+
+    const records = await store.list();
+    expect(records).toHaveLength(1);
+    expect(records[0].key.extractable).toBe(false);
+  });
+
+  it('should reject other contexts, unknown keys and unversioned data', async () => {
+    const keys = new SessionKeyManager(new MemoryKeyStore());
+    const envelope = await keys.encrypt('secret', ORIGIN);
+
+    await expect(keys.decrypt(envelope, 'https://evil.example')).rejects.toBeInstanceOf(InternalError);
+    await expect(new SessionKeyManager(new MemoryKeyStore()).decrypt(envelope, ORIGIN)).rejects.toThrow(
+      /Unknown session encryption key/
+    );
+    await expect(keys.decrypt(btoa('secret'), ORIGIN)).rejects.toThrow(/Unsupported session envelope/);
+  });
+
+  it('should keep old keys readable until retired', async () => {
+    const keys = new SessionKeyManager(new MemoryKeyStore());
+    const before = await keys.encrypt('old', ORIGIN);
+
+    const newKeyId = await keys.rotate();
+    const after = await keys.encrypt('new', ORIGIN);
+    expect(after.split('.')[1]).toBe(newKeyId);
+    expect(await keys.decrypt(before, ORIGIN)).toBe('old');
+
+    await keys.retireOldKeys();
+    await expect(keys.decrypt(before, ORIGIN)).rejects.toBeInstanceOf(InternalError);
+    expect(await keys.decrypt(after, ORIGIN)).toBe('new');
+  });
+});
+
+describe('DefaultCrypto', () => {
+  it('should fail instead of falling back to plaintext', async () => {
+    const crypto = new DefaultCrypto(new SessionKeyManager(new MemoryKeyStore()));
+
+    await expect(crypto.decrypt(btoa('{"sessionId":"s1"}'), ORIGIN)).rejects.toBeInstanceOf(InternalError);
+  });
+});
+
+describe('PartyLayerClient.rotateEncryptionKey', () => {
+  it('should re-encrypt persisted sessions with the new key', async () => {
+    const storage = new MemoryStorage();
+    const store = new MemoryKeyStore();
+    const client = new PartyLayerClient({
+      network: 'devnet',
+      app: { name: 'Test dApp', origin: ORIGIN },
+      adapters: [
+        {
+          walletId: toWalletId('wallet-a'),
+          name: 'Wallet A',
+          getCapabilities: () => ['connect', 'restore'],
+          detectInstalled: async () => ({ installed: true }),
+          connect: async () => ({
+            partyId: toPartyId('party::a'),
+            session: { network: 'devnet', createdAt: Date.now() },
+            capabilities: ['connect', 'restore'],
+          }),
+          disconnect: async () => {},
+        },
+      ],
+      storage,
+      crypto: new DefaultCrypto(new SessionKeyManager(store)),
+      logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+      sync: false,
+    });
+    vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+    vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+      throw new WalletNotFoundError(id);
+    });
+
+    const session = await client.connect({ walletId: toWalletId('wallet-a') });
+    const [oldKey] = await store.list();
+
+    await client.rotateEncryptionKey();
+
+    const [newKey, ...rest] = await store.list();
+    expect(rest).toHaveLength(0);
+    expect(newKey.id).not.toBe(oldKey.id);
+
+    const record = storage.data.get(`session_${session.sessionId}`);
+    expect(record?.split('.')[1]).toBe(newKey.id);
+    expect(await client.getSession(session.sessionId)).toMatchObject({ partyId: 'party::a' });
+    client.destroy();
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Session key management
+ *
+ * Session records are encrypted with a random, non-extractable AES-GCM key
+ * generated per install and kept in IndexedDB (in memory where IndexedDB
+ * is unavailable, e.g. on the server). The raw key never leaves WebCrypto,
+ * so knowing the origin is not enough to read stored sessions.
+ *
+ * Ciphertexts are versioned envelopes:
+ *
+ *   v1.<keyId>.<base64 iv>.<base64 ciphertext>
+ *
+ * The key ID lets records written before a rotation be read and
+ * re-encrypted. The caller's context string (the origin) is bound as
+ * AES-GCM additional data. There is no plaintext fallback: encryption and
+ * decryption failures throw.
+ */
+
+import { InternalError } from '@partylayer/core';
+
+const ENVELOPE_VERSION = 'v1';
+const IV_LENGTH = 12;
+
+/**
+ * Stored key record
+ */
+export interface StoredKey {
+  /** Key identifier (part of every envelope) */
+  id: string;
+  /** Non-extractable AES-GCM key */
+  key: CryptoKey;
+  /** Creation time; the newest key encrypts */
+  createdAt: number;
+}
+
+/**
+ * Persistence for encryption keys
+ */
+export interface KeyStore {
+  get(id: string): Promise<StoredKey | null>;
+  put(record: StoredKey): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<StoredKey[]>;
+}
+
+/**
+ * In-memory key store (keys are lost on reload)
+ */
+export class MemoryKeyStore implements KeyStore {
+  private keys = new Map<string, StoredKey>();
+
+  async get(id: string): Promise<StoredKey | null> {
+    return this.keys.get(id) ?? null;
+  }
+
+  async put(record: StoredKey): Promise<void> {
+    this.keys.set(record.id, record);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.keys.delete(id);
+  }
+
+  async list(): Promise<StoredKey[]> {
+    return Array.from(this.keys.values());
+  }
+}
+
+/**
+ * IndexedDB key store
+ *
+ * CryptoKey objects are stored as-is (structured clone), so
+ * non-extractable keys stay non-extractable.
+ */
+export class IndexedDBKeyStore implements KeyStore {
+  private static readonly STORE = 'keys';
+  private dbName: string;
+  private db?: Promise<IDBDatabase>;
+
+  constructor(dbName = 'partylayer_keys') {
+    this.dbName = dbName;
+  }
+
+  async get(id: string): Promise<StoredKey | null> {
+    const record = await this.request<StoredKey | undefined>('readonly', (store) => store.get(id));
+    return record ?? null;
+  }
+
+  async put(record: StoredKey): Promise<void> {
+    await this.request('readwrite', (store) => store.put(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(id));
+  }
+
+  async list(): Promise<StoredKey[]> {
+    return this.request<StoredKey[]>('readonly', (store) => store.getAll());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IndexedDBKeyStore.STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a retry after a failed open
+      this.db.catch(() => {
+        this.db = undefined;
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = fn(db.transaction(IndexedDBKeyStore.STORE, mode).objectStore(IndexedDBKeyStore.STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Default key store for the environment
+ */
+export function createDefaultKeyStore(): KeyStore {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBKeyStore() : new MemoryKeyStore();
+}
+
+/**
+ * Session key manager
+ */
+export class SessionKeyManager {
+  private store: KeyStore;
+  private cache = new Map<string, CryptoKey>();
+  private firstKey?: Promise<StoredKey>;
+
+  constructor(store: KeyStore = createDefaultKeyStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Encrypt with the current key, binding `context` as additional data
+   */
+  async encrypt(plaintext: string, context: string): Promise<string> {
+    const subtle = requireSubtle();
+    const { id, key } = await this.currentKey();
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+    try {
+      const ciphertext = await subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+        key,
+        new TextEncoder().encode(plaintext)
+      );
+      return [ENVELOPE_VERSION, id, toBase64(iv), toBase64(new Uint8Array(ciphertext))].join('.');
+    } catch (err) {
+      throw new InternalError('Failed to encrypt session data', err);
+    }
+  }
+
+  /**
+   * Decrypt an envelope written by encrypt() with the same context
+   */
+  async decrypt(envelope: string, context: string): Promise<string> {
+    const subtle = requireSubtle();
+    const [version, id, iv, ciphertext] = envelope.split('.');
+    if (version !== ENVELOPE_VERSION || !id || !iv || !ciphertext) {
+      throw new InternalError('Unsupported session envelope');
+    }
+
+    const key = await this.getKey(id);
+    if (!key) {
+      throw new InternalError(`Unknown session encryption key "${id}"`);
+    }
+
+    try {
+      const plaintext = await subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(context) },
+        key,
+        fromBase64(ciphertext)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch (err) {
+      throw new InternalError('Failed to decrypt session data', err);
+    }
+  }
+
+  /**
+   * Generate a new current key. Older keys remain readable until
+   * retireOldKeys().
+   *
+   * @returns ID of the new key
+   */
+  async rotate(): Promise<string> {
+    const record = await this.generate();
+    return record.id;
+  }
+
+  /**
+   * Delete every key except the current one
+   */
+  async retireOldKeys(): Promise<void> {
+    const { id } = await this.currentKey();
+    for (const record of await this.store.list()) {
+      if (record.id !== id) {
+        await this.store.delete(record.id);
+        this.cache.delete(record.id);
+      }
+    }
+  }
+
+  /**
+   * The newest key, generated on first use.
+   *
+   * Read from the store each time so a rotation in another tab is picked up.
+   */
+  private async currentKey(): Promise<StoredKey> {
+    const records = await this.store.list();
+    if (records.length === 0) {
+      // Concurrent first writes share one key
+      this.firstKey ??= this.generate().finally(() => {
+        this.firstKey = undefined;
+      });
+      return this.firstKey;
+    }
+    return records.reduce((newest, record) => (record.createdAt > newest.createdAt ? record : newest));
+  }
+
+  private async getKey(id: string): Promise<CryptoKey | null> {
+    const cached = this.cache.get(id);
+    if (cached) {
+      return cached;
+    }
+    const record = await this.store.get(id);
+    if (record) {
+      this.cache.set(id, record.key);
+    }
+    return record?.key ?? null;
+  }
+
+  private async generate(): Promise<StoredKey> {
+    const key = await requireSubtle().generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false, // non-extractable
+      ['encrypt', 'decrypt']
+    );
+    const id = toHex(crypto.getRandomValues(new Uint8Array(8)));
+
+    // Keep creation times strictly increasing so the newest key is unambiguous
+    const records = await this.store.list();
+    const latest = records.reduce((max, r) => Math.max(max, r.createdAt), 0);
+    const record: StoredKey = { id, key, createdAt: Math.max(Date.now(), latest + 1) };
+
+    await this.store.put(record);
+    this.cache.set(id, key);
+    return record;
+  }
+}
+
+function requireSubtle(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new InternalError('Web Crypto API not available; sessions cannot be stored securely');
+  }
+  return crypto.subtle;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
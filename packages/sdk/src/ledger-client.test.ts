@@ -0,0 +1,165 @@
+/**
+ * Ledger Client Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { LedgerApiParams } from '@partylayer/core';
+import {
+  toPartyId,
+  InternalError,
+  LedgerApiError,
+  PartyNotFoundError,
+  SessionExpiredError,
+  TransportError,
+} from '@partylayer/core';
+import { LedgerClient } from './ledger-client';
+
+const PARTY = toPartyId('alice::1220');
+
+function createdEvent(contractId: string, offset: number) {
+  return {
+    offset,
+    nodeId: 0,
+    contractId,
+    templateId: 'pkg:Token:Holding',
+    packageName: 'token',
+    createArgument: { owner: PARTY, amount: '10.0' },
+    signatories: [PARTY],
+    observers: [],
+    witnessParties: [PARTY],
+    createdAt: '2026-01-01T00:00:00Z',
+  };
+}
+
+function transaction(offset: number) {
+  return {
+    update: {
+      Transaction: {
+        value: {
+          updateId: `update-${offset}`,
+          commandId: `cmd-${offset}`,
+          effectiveAt: '2026-01-01T00:00:00Z',
+          offset,
+          synchronizerId: 'sync::1',
+          events: [{ CreatedEvent: createdEvent(`#${offset}`, offset) }],
+        },
+      },
+    },
+  };
+}
+
+/** Ledger API fake answering by resource path */
+function createLedger(routes: Record<string, (params: LedgerApiParams) => unknown>) {
+  const ledgerApi = vi.fn(async (params: LedgerApiParams) => {
+    const path = params.resource.split('?')[0];
+    const route = routes[path];
+    if (!route) throw new Error(`unexpected resource ${params.resource}`);
+    return { response: JSON.stringify(route(params)) };
+  });
+  return { ledgerApi, client: new LedgerClient({ ledgerApi, partyId: PARTY, sessionId: 'session-1' }) };
+}
+
+describe('LedgerClient', () => {
+  it('should query active contracts by template at the ledger end', async () => {
+    const { ledgerApi, client } = createLedger({
+      '/v2/state/ledger-end': () => ({ offset: 42 }),
+      '/v2/state/active-contracts': () => [
+        { contractEntry: { JsActiveContract: { createdEvent: createdEvent('#1', 7), synchronizerId: 'sync::1' } } },
+        { contractEntry: { JsIncompleteAssigned: {} } },
+      ],
+    });
+
+    const contracts = await client.getActiveContracts(['pkg:Token:Holding']);
+
+    expect(contracts).toEqual([{ createdEvent: createdEvent('#1', 7), synchronizerId: 'sync::1' }]);
+    const body = JSON.parse(ledgerApi.mock.calls[1][0].body!);
+    expect(body.activeAtOffset).toBe(42);
+    expect(body.eventFormat.filtersByParty[PARTY].cumulative[0].identifierFilter.TemplateFilter.value.templateId).toBe(
+      'pkg:Token:Holding'
+    );
+  });
+
+  it('should parse contract events, parties and completions', async () => {
+    const { client } = createLedger({
+      '/v2/events/events-by-contract-id': () => ({
+        created: { createdEvent: createdEvent('#1', 7), synchronizerId: 'sync::1' },
+        archived: {
+          archivedEvent: { offset: 9, nodeId: 1, contractId: '#1', templateId: 'pkg:Token:Holding', witnessParties: [PARTY] },
+          synchronizerId: 'sync::1',
+        },
+      }),
+      [`/v2/parties/${encodeURIComponent(PARTY)}`]: () => ({
+        partyDetails: [{ party: PARTY, isLocal: true, localMetadata: { annotations: { name: 'Alice' } } }],
+      }),
+      '/v2/commands/completions': () => [
+        { completionResponse: { Completion: { value: { commandId: 'cmd-1', updateId: 'u1', actAs: [PARTY], offset: 8 } } } },
+        {
+          completionResponse: {
+            Completion: { value: { commandId: 'cmd-2', status: { code: 9, message: 'LOCKED' }, actAs: [PARTY], offset: 9 } },
+          },
+        },
+        { completionResponse: { OffsetCheckpoint: { value: { offset: 10 } } } },
+      ],
+    });
+
+    const events = await client.getEventsByContractId('#1');
+    expect(events.created?.contractId).toBe('#1');
+    expect(events.archived?.offset).toBe(9);
+
+    expect(await client.getParty(PARTY)).toEqual({ party: PARTY, isLocal: true, annotations: { name: 'Alice' } });
+
+    const completions = await client.getCompletions();
+    expect(completions.map((c) => [c.commandId, c.status, c.statusMessage])).toEqual([
+      ['cmd-1', 'committed', undefined],
+      ['cmd-2', 'failed', 'LOCKED'],
+    ]);
+  });
+
+  it('should page through updates up to the ledger end', async () => {
+    const { ledgerApi, client } = createLedger({
+      '/v2/state/ledger-end': () => ({ offset: 5 }),
+      '/v2/updates/flats': (params) => {
+        const { beginExclusive } = JSON.parse(params.body!);
+        const limit = Number(new URL(`http://x${params.resource}`).searchParams.get('limit'));
+        const offsets = [1, 2, 3, 4, 5].filter((offset) => offset > beginExclusive).slice(0, limit);
+        return offsets.map((offset) =>
+          offset === 3 ? { update: { OffsetCheckpoint: { value: { offset } } } } : transaction(offset)
+        );
+      },
+    });
+
+    const updates = [];
+    for await (const update of client.updates({ pageSize: 2 })) {
+      updates.push(update);
+    }
+
+    expect(updates.map((u) => [u.type, u.offset])).toEqual([
+      ['transaction', 1],
+      ['transaction', 2],
+      ['checkpoint', 3],
+      ['transaction', 4],
+      ['transaction', 5],
+    ]);
+    expect(ledgerApi.mock.calls.filter(([p]) => p.resource.startsWith('/v2/updates/flats'))).toHaveLength(3);
+  });
+
+  it('should map ledger error bodies and reject malformed responses', async () => {
+    const error = (code: string, grpcCodeValue: number) => () => ({ code, cause: code.toLowerCase(), grpcCodeValue });
+    const { client } = createLedger({
+      '/v2/state/ledger-end': error('CONTRACT_NOT_FOUND', 5),
+      [`/v2/parties/${encodeURIComponent(PARTY)}`]: error('PARTY_NOT_KNOWN_ON_LEDGER', 5),
+      '/v2/events/events-by-contract-id': error('UNAUTHENTICATED', 16),
+      '/v2/commands/completions': error('PARTICIPANT_BACKPRESSURE', 8),
+      '/v2/parties': () => ({ partyDetails: [{ party: 42 }] }),
+    });
+
+    const notFound = await client.getLedgerEnd().catch((err) => err);
+    expect(notFound).toBeInstanceOf(LedgerApiError);
+    expect(notFound.details).toMatchObject({ resource: '/v2/state/ledger-end', ledgerCode: 'CONTRACT_NOT_FOUND', grpcCode: 5 });
+
+    await expect(client.getParty(PARTY)).rejects.toBeInstanceOf(PartyNotFoundError);
+    await expect(client.getEventsByContractId('#1')).rejects.toBeInstanceOf(SessionExpiredError);
+    await expect(client.getCompletions()).rejects.toBeInstanceOf(TransportError);
+    await expect(client.getParties()).rejects.toBeInstanceOf(InternalError);
+  });
+});
@@ -0,0 +1,667 @@
+/**
+ * Typed JSON Ledger API client
+ *
+ * Wraps the wallet's `ledgerApi` proxy (raw resource in, raw JSON string
+ * out) with typed methods for the common JSON Ledger API v2 queries:
+ * active contracts, contract events, party details, command completions
+ * and paginated update streams.
+ *
+ * Responses are parsed and validated; error bodies returned by the
+ * participant are mapped to PartyLayer errors (see mapLedgerApiError()).
+ */
+
+import type { LedgerApiParams, LedgerApiResult, PartyId } from '@partylayer/core';
+import {
+  toPartyId,
+  InternalError,
+  LedgerApiError,
+  PartyNotFoundError,
+  PartyLayerError,
+  SessionExpiredError,
+  TransportError,
+} from '@partylayer/core';
+
+/**
+ * A contract creation as reported by the ledger
+ */
+export interface LedgerCreatedEvent {
+  /** Offset of the transaction that created the contract */
+  offset: number;
+  /** Node ID within the transaction */
+  nodeId: number;
+  /** Contract ID */
+  contractId: string;
+  /** Template ID ("<package-id>:<module>:<entity>") */
+  templateId: string;
+  /** Package name (if reported) */
+  packageName?: string;
+  /** Create arguments (JSON encoded Daml record) */
+  createArgument: unknown;
+  /** Signatories */
+  signatories: string[];
+  /** Observers */
+  observers: string[];
+  /** Requesting parties that can see the event */
+  witnessParties: string[];
+  /** Ledger effective time of the creation */
+  createdAt?: string;
+}
+
+/**
+ * A contract archival as reported by the ledger
+ */
+export interface LedgerArchivedEvent {
+  /** Offset of the archiving transaction */
+  offset: number;
+  /** Node ID within the transaction */
+  nodeId: number;
+  /** Contract ID */
+  contractId: string;
+  /** Template ID */
+  templateId: string;
+  /** Requesting parties that can see the event */
+  witnessParties: string[];
+}
+
+/**
+ * An active contract
+ */
+export interface ActiveContract {
+  /** The event that created the contract */
+  createdEvent: LedgerCreatedEvent;
+  /** Synchronizer the contract is assigned to */
+  synchronizerId: string;
+}
+
+/**
+ * Creation and archival of a single contract
+ */
+export interface ContractEvents {
+  /** Creation (missing if not visible to the requesting parties) */
+  created?: LedgerCreatedEvent;
+  /** Archival (missing while the contract is active) */
+  archived?: LedgerArchivedEvent;
+}
+
+/**
+ * Party details
+ */
+export interface PartyDetails {
+  /** Party ID */
+  party: PartyId;
+  /** Whether the party is hosted on the participant */
+  isLocal: boolean;
+  /** Participant-local annotations */
+  annotations: Record<string, string>;
+  /** Identity provider the party belongs to (if any) */
+  identityProviderId?: string;
+}
+
+/**
+ * Command completion
+ */
+export interface CommandCompletion {
+  /** Command ID */
+  commandId: string;
+  /** 'committed' if the command succeeded, 'failed' otherwise */
+  status: 'committed' | 'failed';
+  /** gRPC status code (0 for success) */
+  statusCode: number;
+  /** Error message for failed commands */
+  statusMessage?: string;
+  /** Update ID of the resulting transaction (committed commands only) */
+  updateId?: string;
+  /** Submission ID */
+  submissionId?: string;
+  /** Parties the command was submitted as */
+  actAs: string[];
+  /** Completion offset */
+  offset: number;
+}
+
+/**
+ * Event within a transaction update
+ */
+export type LedgerEvent =
+  | ({ type: 'created' } & LedgerCreatedEvent)
+  | ({ type: 'archived' } & LedgerArchivedEvent);
+
+/**
+ * Ledger update
+ *
+ * Transactions carry their create and archive events (flat view).
+ * Checkpoints only advance the offset. Reassignments are passed through
+ * unparsed.
+ */
+export type LedgerUpdate =
+  | {
+      type: 'transaction';
+      updateId: string;
+      commandId?: string;
+      workflowId?: string;
+      effectiveAt: string;
+      offset: number;
+      synchronizerId: string;
+      events: LedgerEvent[];
+    }
+  | { type: 'checkpoint'; offset: number }
+  | { type: 'reassignment'; offset: number; raw: unknown };
+
+/**
+ * A page of updates
+ */
+export interface UpdatesPage {
+  /** Updates in offset order */
+  updates: LedgerUpdate[];
+  /** Offset to pass as `beginExclusive` for the next page */
+  nextBeginExclusive: number;
+  /** Whether the requested range has been read completely */
+  done: boolean;
+}
+
+/**
+ * Common query options
+ */
+export interface LedgerQueryOptions {
+  /** Parties to read as (default: the session party) */
+  parties?: PartyId[];
+}
+
+/**
+ * getActiveContracts() options
+ */
+export interface ActiveContractsOptions extends LedgerQueryOptions {
+  /** Offset to read the contracts at (default: the ledger end) */
+  activeAtOffset?: number;
+}
+
+/**
+ * getCompletions() options
+ */
+export interface CompletionsOptions extends LedgerQueryOptions {
+  /** Only return completions after this offset (default: 0) */
+  beginExclusive?: number;
+  /** Ledger API user ID the commands were submitted as */
+  userId?: string;
+}
+
+/**
+ * getUpdates() / updates() options
+ */
+export interface UpdatesOptions extends LedgerQueryOptions {
+  /** Start after this offset (default: 0) */
+  beginExclusive?: number;
+  /** Stop at this offset (default: the ledger end when the read starts) */
+  endInclusive?: number;
+  /** Template IDs to filter on (default: all templates) */
+  templateIds?: string[];
+  /**
+   * Maximum updates per page
+   * @default 100
+   */
+  pageSize?: number;
+}
+
+/**
+ * LedgerClient options
+ */
+export interface LedgerClientOptions {
+  /** Ledger API proxy (usually the session's wallet adapter) */
+  ledgerApi: (params: LedgerApiParams) => Promise<LedgerApiResult>;
+  /** Party to read as by default */
+  partyId: PartyId;
+  /** Session the client belongs to (reported in SessionExpiredError) */
+  sessionId?: string;
+}
+
+/**
+ * gRPC status codes the JSON Ledger API reports in `grpcCodeValue`
+ */
+const GRPC_DEADLINE_EXCEEDED = 4;
+const GRPC_NOT_FOUND = 5;
+const GRPC_RESOURCE_EXHAUSTED = 8;
+const GRPC_UNAVAILABLE = 14;
+const GRPC_UNAUTHENTICATED = 16;
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Typed client for the JSON Ledger API v2
+ *
+ * Create one per session with `client.getLedgerClient()`, or directly
+ * from any ledgerApi function.
+ */
+export class LedgerClient {
+  private readonly ledgerApi: LedgerClientOptions['ledgerApi'];
+  private readonly partyId: PartyId;
+  private readonly sessionId?: string;
+
+  constructor(options: LedgerClientOptions) {
+    this.ledgerApi = options.ledgerApi;
+    this.partyId = options.partyId;
+    this.sessionId = options.sessionId;
+  }
+
+  /**
+   * Current ledger end offset
+   */
+  async getLedgerEnd(): Promise<number> {
+    const resource = '/v2/state/ledger-end';
+    const response = asRecord(await this.request('GET', resource), resource);
+    return num(response.offset, resource, 'offset');
+  }
+
+  /**
+   * Active contracts of the given templates, as of the ledger end or
+   * `activeAtOffset`
+   *
+   * @param templateIds - Template IDs, either "<package-id>:<module>:<entity>"
+   *   or "#<package-name>:<module>:<entity>"
+   */
+  async getActiveContracts(templateIds: string[], options?: ActiveContractsOptions): Promise<ActiveContract[]> {
+    const resource = '/v2/state/active-contracts';
+    const activeAtOffset = options?.activeAtOffset ?? (await this.getLedgerEnd());
+    const response = await this.request('POST', resource, {
+      eventFormat: this.eventFormat(options?.parties, templateIds),
+      activeAtOffset,
+    });
+
+    return asArray(response, resource).flatMap((item) => {
+      const entry = asRecord(asRecord(item, resource).contractEntry, resource);
+      if (entry.JsActiveContract === undefined) {
+        // Incomplete (in-flight reassignment) entries are skipped
+        return [];
+      }
+      const active = asRecord(entry.JsActiveContract, resource);
+      return [
+        {
+          createdEvent: parseCreatedEvent(active.createdEvent, resource),
+          synchronizerId: str(active.synchronizerId, resource, 'synchronizerId'),
+        },
+      ];
+    });
+  }
+
+  /**
+   * Creation and archival events of a contract
+   *
+   * @throws LedgerApiError with ledgerCode CONTRACT_EVENTS_NOT_FOUND if
+   *   the contract is unknown or not visible to the parties
+   */
+  async getEventsByContractId(contractId: string, options?: LedgerQueryOptions): Promise<ContractEvents> {
+    const resource = '/v2/events/events-by-contract-id';
+    const response = asRecord(
+      await this.request('POST', resource, {
+        contractId,
+        eventFormat: this.eventFormat(options?.parties),
+      }),
+      resource
+    );
+
+    const events: ContractEvents = {};
+    if (response.created != null) {
+      events.created = parseCreatedEvent(asRecord(response.created, resource).createdEvent, resource);
+    }
+    if (response.archived != null) {
+      events.archived = parseArchivedEvent(asRecord(response.archived, resource).archivedEvent, resource);
+    }
+    return events;
+  }
+
+  /**
+   * Details of a party
+   *
+   * @throws PartyNotFoundError if the participant does not know the party
+   */
+  async getParty(party: PartyId): Promise<PartyDetails> {
+    const resource = `/v2/parties/${encodeURIComponent(party)}`;
+    const details = parsePartyDetailsList(await this.request('GET', resource), resource);
+    const match = details.find((entry) => entry.party === party);
+    if (!match) {
+      throw new PartyNotFoundError(party);
+    }
+    return match;
+  }
+
+  /**
+   * Parties known to the participant (all pages)
+   */
+  async getParties(): Promise<PartyDetails[]> {
+    const parties: PartyDetails[] = [];
+    let pageToken = '';
+    do {
+      const resource = pageToken ? `/v2/parties?pageToken=${encodeURIComponent(pageToken)}` : '/v2/parties';
+      const response = await this.request('GET', resource);
+      parties.push(...parsePartyDetailsList(response, resource));
+      const next = asRecord(response, resource).nextPageToken;
+      pageToken = typeof next === 'string' ? next : '';
+    } while (pageToken);
+    return parties;
+  }
+
+  /**
+   * Command completions after an offset
+   */
+  async getCompletions(options?: CompletionsOptions): Promise<CommandCompletion[]> {
+    const resource = '/v2/commands/completions';
+    const body: Record<string, unknown> = {
+      parties: options?.parties ?? [this.partyId],
+      beginExclusive: options?.beginExclusive ?? 0,
+    };
+    if (options?.userId) {
+      body.userId = options.userId;
+    }
+
+    return asArray(await this.request('POST', resource, body), resource).flatMap((item) => {
+      const response = asRecord(asRecord(item, resource).completionResponse, resource);
+      if (response.Completion === undefined) {
+        // Offset checkpoints carry no completion
+        return [];
+      }
+      return [parseCompletion(asRecord(response.Completion, resource).value, resource)];
+    });
+  }
+
+  /**
+   * Read one page of updates (flat transactions and checkpoints)
+   *
+   * Pass `nextBeginExclusive` back as `beginExclusive` to read the next
+   * page until `done` is true.
+   */
+  async getUpdates(options?: UpdatesOptions): Promise<UpdatesPage> {
+    const beginExclusive = options?.beginExclusive ?? 0;
+    const endInclusive = options?.endInclusive ?? (await this.getLedgerEnd());
+    const pageSize = options?.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (beginExclusive >= endInclusive) {
+      return { updates: [], nextBeginExclusive: beginExclusive, done: true };
+    }
+
+    const resource = `/v2/updates/flats?limit=${pageSize}`;
+    const response = await this.request('POST', resource, {
+      beginExclusive,
+      endInclusive,
+      updateFormat: {
+        includeTransactions: {
+          eventFormat: this.eventFormat(options?.parties, options?.templateIds),
+          transactionShape: 'TRANSACTION_SHAPE_ACS_DELTA',
+        },
+      },
+    });
+
+    const updates = asArray(response, resource).map((item) => parseLedgerUpdate(item, resource));
+    const nextBeginExclusive = updates.length > 0 ? updates[updates.length - 1].offset : beginExclusive;
+    return {
+      updates,
+      nextBeginExclusive,
+      done: updates.length < pageSize || nextBeginExclusive >= endInclusive,
+    };
+  }
+
+  /**
+   * Iterate over all updates in a range, page by page
+   *
+   * The end defaults to the ledger end when iteration starts, so the
+   * iterator always terminates.
+   */
+  async *updates(options?: UpdatesOptions): AsyncGenerator<LedgerUpdate, void, undefined> {
+    const endInclusive = options?.endInclusive ?? (await this.getLedgerEnd());
+    let beginExclusive = options?.beginExclusive ?? 0;
+    for (;;) {
+      const page = await this.getUpdates({ ...options, beginExclusive, endInclusive });
+      yield* page.updates;
+      if (page.done) return;
+      beginExclusive = page.nextBeginExclusive;
+    }
+  }
+
+  private eventFormat(parties: PartyId[] | undefined, templateIds?: string[]): Record<string, unknown> {
+    const cumulative = templateIds?.length
+      ? templateIds.map((templateId) => ({
+          identifierFilter: {
+            TemplateFilter: { value: { templateId, includeCreatedEventBlob: false } },
+          },
+        }))
+      : [{ identifierFilter: { WildcardFilter: { value: { includeCreatedEventBlob: false } } } }];
+
+    const filtersByParty: Record<string, unknown> = {};
+    for (const party of parties ?? [this.partyId]) {
+      filtersByParty[party] = { cumulative };
+    }
+    return { filtersByParty, verbose: true };
+  }
+
+  private async request(
+    requestMethod: LedgerApiParams['requestMethod'],
+    resource: string,
+    body?: unknown
+  ): Promise<unknown> {
+    const result = await this.ledgerApi({
+      requestMethod,
+      resource,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(result.response);
+    } catch (err) {
+      throw new InternalError(`Invalid Ledger API response from "${resource}"`, err, { resource });
+    }
+
+    const error = mapLedgerApiError(parsed, resource, this.sessionId);
+    if (error) {
+      throw error;
+    }
+    return parsed;
+  }
+}
+
+/**
+ * Map a JSON Ledger API error body to a PartyLayerError
+ *
+ * Error bodies look like `{ code, cause, grpcCodeValue, ... }`; some
+ * proxies add the HTTP `status`. Authentication failures become
+ * SessionExpiredError, overload and unavailability become TransportError
+ * (retryable), unknown parties become PartyNotFoundError and everything
+ * else becomes LedgerApiError.
+ *
+ * @returns the mapped error, or null if the body is not an error
+ */
+export function mapLedgerApiError(
+  body: unknown,
+  resource: string,
+  sessionId?: string
+): PartyLayerError | null {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return null;
+  }
+  const record = body as Record<string, unknown>;
+  if (typeof record.code !== 'string' || typeof record.cause !== 'string') {
+    return null;
+  }
+
+  const grpcCode = typeof record.grpcCodeValue === 'number' ? record.grpcCodeValue : undefined;
+  const status = typeof record.status === 'number' ? record.status : undefined;
+  const details = { ledgerCode: record.code, grpcCode, status };
+
+  if (grpcCode === GRPC_UNAUTHENTICATED || status === 401) {
+    return new SessionExpiredError(sessionId ?? 'unknown');
+  }
+  if (
+    grpcCode === GRPC_UNAVAILABLE ||
+    grpcCode === GRPC_RESOURCE_EXHAUSTED ||
+    grpcCode === GRPC_DEADLINE_EXCEEDED ||
+    status === 429 ||
+    status === 503 ||
+    status === 504
+  ) {
+    return new TransportError(`Ledger API unavailable: ${record.cause}`, undefined, { resource, ...details });
+  }
+  if ((grpcCode === GRPC_NOT_FOUND || status === 404) && resource.startsWith('/v2/parties/')) {
+    return new PartyNotFoundError(decodeURIComponent(resource.slice('/v2/parties/'.length)));
+  }
+  return new LedgerApiError(resource, record.cause, details);
+}
+
+// ─── Response parsing ──────────────────────────────────────────────────────
+
+function invalid(resource: string, reason: string): never {
+  throw new InternalError(`Invalid Ledger API response from "${resource}": ${reason}`, undefined, { resource });
+}
+
+function asRecord(value: unknown, resource: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    invalid(resource, 'expected an object');
+  }
+  return value as Record<string, unknown>;
+}
+
+function asArray(value: unknown, resource: string): unknown[] {
+  if (!Array.isArray(value)) {
+    invalid(resource, 'expected an array');
+  }
+  return value;
+}
+
+function str(value: unknown, resource: string, field: string): string {
+  if (typeof value !== 'string') {
+    invalid(resource, `"${field}" must be a string`);
+  }
+  return value;
+}
+
+function num(value: unknown, resource: string, field: string): number {
+  if (typeof value !== 'number') {
+    invalid(resource, `"${field}" must be a number`);
+  }
+  return value;
+}
+
+function strArray(value: unknown, resource: string, field: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    invalid(resource, `"${field}" must be a list of strings`);
+  }
+  return value;
+}
+
+function optionalStr(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function parseCreatedEvent(value: unknown, resource: string): LedgerCreatedEvent {
+  const event = asRecord(value, resource);
+  const created: LedgerCreatedEvent = {
+    offset: num(event.offset, resource, 'offset'),
+    nodeId: num(event.nodeId, resource, 'nodeId'),
+    contractId: str(event.contractId, resource, 'contractId'),
+    templateId: str(event.templateId, resource, 'templateId'),
+    createArgument: event.createArgument,
+    signatories: strArray(event.signatories, resource, 'signatories'),
+    observers: strArray(event.observers, resource, 'observers'),
+    witnessParties: strArray(event.witnessParties, resource, 'witnessParties'),
+  };
+  const packageName = optionalStr(event.packageName);
+  if (packageName) created.packageName = packageName;
+  const createdAt = optionalStr(event.createdAt);
+  if (createdAt) created.createdAt = createdAt;
+  return created;
+}
+
+function parseArchivedEvent(value: unknown, resource: string): LedgerArchivedEvent {
+  const event = asRecord(value, resource);
+  return {
+    offset: num(event.offset, resource, 'offset'),
+    nodeId: num(event.nodeId, resource, 'nodeId'),
+    contractId: str(event.contractId, resource, 'contractId'),
+    templateId: str(event.templateId, resource, 'templateId'),
+    witnessParties: strArray(event.witnessParties, resource, 'witnessParties'),
+  };
+}
+
+function parsePartyDetailsList(value: unknown, resource: string): PartyDetails[] {
+  const list = asRecord(value, resource).partyDetails;
+  return asArray(list ?? [], resource).map((item) => {
+    const entry = asRecord(item, resource);
+    const metadata = entry.localMetadata as { annotations?: unknown } | undefined;
+    const annotations: Record<string, string> = {};
+    if (metadata && typeof metadata.annotations === 'object' && metadata.annotations !== null) {
+      for (const [key, annotation] of Object.entries(metadata.annotations)) {
+        if (typeof annotation === 'string') annotations[key] = annotation;
+      }
+    }
+    const details: PartyDetails = {
+      party: toPartyId(str(entry.party, resource, 'party')),
+      isLocal: entry.isLocal === true,
+      annotations,
+    };
+    const identityProviderId = optionalStr(entry.identityProviderId);
+    if (identityProviderId) details.identityProviderId = identityProviderId;
+    return details;
+  });
+}
+
+function parseCompletion(value: unknown, resource: string): CommandCompletion {
+  const completion = asRecord(value, resource);
+  const status = completion.status as { code?: unknown; message?: unknown } | undefined;
+  const statusCode = typeof status?.code === 'number' ? status.code : 0;
+
+  const parsed: CommandCompletion = {
+    commandId: str(completion.commandId, resource, 'commandId'),
+    status: statusCode === 0 ? 'committed' : 'failed',
+    statusCode,
+    actAs: strArray(completion.actAs, resource, 'actAs'),
+    offset: num(completion.offset, resource, 'offset'),
+  };
+  const statusMessage = optionalStr(status?.message);
+  if (statusMessage) parsed.statusMessage = statusMessage;
+  const updateId = optionalStr(completion.updateId);
+  if (updateId) parsed.updateId = updateId;
+  const submissionId = optionalStr(completion.submissionId);
+  if (submissionId) parsed.submissionId = submissionId;
+  return parsed;
+}
+
+/**
+ * Parse a JSON Ledger API update (an `/v2/updates/flats` item)
+ *
+ * @internal
+ */
+export function parseLedgerUpdate(value: unknown, resource = '/v2/updates/flats'): LedgerUpdate {
+  const update = asRecord(asRecord(value, resource).update, resource);
+
+  if (update.Transaction !== undefined) {
+    const tx = asRecord(asRecord(update.Transaction, resource).value, resource);
+    const events = asArray(tx.events ?? [], resource).flatMap((item): LedgerEvent[] => {
+      const event = asRecord(item, resource);
+      if (event.CreatedEvent !== undefined) {
+        return [{ type: 'created', ...parseCreatedEvent(event.CreatedEvent, resource) }];
+      }
+      if (event.ArchivedEvent !== undefined) {
+        return [{ type: 'archived', ...parseArchivedEvent(event.ArchivedEvent, resource) }];
+      }
+      return [];
+    });
+    return {
+      type: 'transaction',
+      updateId: str(tx.updateId, resource, 'updateId'),
+      commandId: optionalStr(tx.commandId),
+      workflowId: optionalStr(tx.workflowId),
+      effectiveAt: str(tx.effectiveAt, resource, 'effectiveAt'),
+      offset: num(tx.offset, resource, 'offset'),
+      synchronizerId: str(tx.synchronizerId, resource, 'synchronizerId'),
+      events,
+    };
+  }
+  if (update.OffsetCheckpoint !== undefined) {
+    const checkpoint = asRecord(asRecord(update.OffsetCheckpoint, resource).value, resource);
+    return { type: 'checkpoint', offset: num(checkpoint.offset, resource, 'offset') };
+  }
+  if (update.Reassignment !== undefined) {
+    const reassignment = asRecord(asRecord(update.Reassignment, resource).value, resource);
+    return { type: 'reassignment', offset: num(reassignment.offset, resource, 'offset'), raw: reassignment };
+  }
+  return invalid(resource, 'unknown update type');
+}
@@ -0,0 +1,247 @@
+/**
+ * Middleware Pipeline Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { WalletAdapter, StorageAdapter, SignMessageParams } from '@partylayer/core';
+import {
+  toWalletId,
+  toPartyId,
+  toSignature,
+  WalletNotFoundError,
+  UserRejectedError,
+  TransportError,
+} from '@partylayer/core';
+import {
+  runMiddleware,
+  loggingMiddleware,
+  timingMiddleware,
+  confirmationMiddleware,
+  type Middleware,
+  type MiddlewareContext,
+} from './middleware';
+import { PartyLayerClient } from './client';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+const signMessage = vi.fn(async (_ctx: unknown, _session: unknown, params: SignMessageParams) => ({
+  signature: toSignature(`sig:${params.message}`),
+  partyId: toPartyId('party::a'),
+  message: params.message,
+}));
+
+const adapter: WalletAdapter = {
+  walletId: toWalletId('wallet-a'),
+  name: 'Wallet A',
+  getCapabilities: () => ['connect', 'signMessage'],
+  detectInstalled: async () => ({ installed: true }),
+  connect: async () => ({
+    partyId: toPartyId('party::a'),
+    session: { network: 'devnet', createdAt: Date.now() },
+    capabilities: ['connect', 'signMessage'],
+  }),
+  disconnect: async () => {},
+  signMessage,
+};
+
+function context(operation: 'signMessage' | 'connect' = 'signMessage'): MiddlewareContext {
+  return operation === 'connect'
+    ? { operation, params: {}, session: null, adapter, state: {} }
+    : { operation, params: { message: 'hi' }, session: null, adapter, state: {} };
+}
+
+async function connectClient(
+  middleware?: Middleware[],
+  options: { adapter?: WalletAdapter; storage?: StorageAdapter } = {}
+): Promise<PartyLayerClient> {
+  const walletAdapter = options.adapter ?? adapter;
+  const client = new PartyLayerClient({
+    network: 'devnet',
+    app: { name: 'Test dApp', origin: 'https://dapp.example' },
+    adapters: [walletAdapter],
+    storage: options.storage ?? new MemoryStorage(),
+    crypto: {
+      encrypt: async (data) => data,
+      decrypt: async (data) => data,
+      generateKey: async () => 'key',
+    },
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+    middleware,
+  });
+  vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+  vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+    throw new WalletNotFoundError(id);
+  });
+  await client.connect({ walletId: walletAdapter.walletId });
+  return client;
+}
+
+describe('runMiddleware', () => {
+  it('should run middlewares outermost first around the handler', async () => {
+    const order: string[] = [];
+    const tag = (name: string): Middleware => async (_ctx, next) => {
+      order.push(`${name}:in`);
+      const result = await next();
+      order.push(`${name}:out`);
+      return result;
+    };
+
+    const result = await runMiddleware([tag('a'), tag('b')], context(), async () => {
+      order.push('handler');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(order).toEqual(['a:in', 'b:in', 'handler', 'b:out', 'a:out']);
+  });
+
+  it('should reject when next() is called twice', async () => {
+    const twice: Middleware = async (_ctx, next) => {
+      await next();
+      return next();
+    };
+
+    await expect(runMiddleware([twice], context(), async () => 'x')).rejects.toThrow(
+      'next() called multiple times'
+    );
+  });
+});
+
+describe('built-in middlewares', () => {
+  it('should log start and completion without params', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+    await runMiddleware([loggingMiddleware(logger, { level: 'info' })], context(), async () => 'ok');
+
+    expect(logger.info).toHaveBeenCalledWith('Operation started', expect.objectContaining({ operation: 'signMessage' }));
+    expect(logger.info).toHaveBeenCalledWith('Operation completed', expect.objectContaining({ durationMs: expect.any(Number) }));
+    expect(JSON.stringify(logger.info.mock.calls)).not.toContain('hi');
+  });
+
+  it('should report durations and failures to telemetry', async () => {
+    const telemetry = { track: vi.fn(), error: vi.fn(), increment: vi.fn(), gauge: vi.fn() };
+    const failing = async () => {
+      throw new TransportError('offline');
+    };
+
+    await expect(runMiddleware([timingMiddleware(telemetry)], context(), failing)).rejects.toBeInstanceOf(TransportError);
+
+    expect(telemetry.increment).toHaveBeenCalledWith('sign_message_failed');
+    expect(telemetry.gauge).toHaveBeenCalledWith('sign_message_duration_ms', expect.any(Number));
+  });
+
+  it('should reject declined operations and skip unlisted ones', async () => {
+    const confirm = vi.fn(() => false);
+    const handler = vi.fn(async () => 'ok');
+    const middleware = confirmationMiddleware(confirm);
+
+    await expect(runMiddleware([middleware], context(), handler)).rejects.toBeInstanceOf(UserRejectedError);
+    await expect(runMiddleware([middleware], context('connect'), handler)).resolves.toBe('ok');
+    expect(confirm).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('PartyLayerClient middleware', () => {
+  it('should pass operation, params, session and adapter to middlewares', async () => {
+    const seen: MiddlewareContext[] = [];
+    const client = await connectClient([
+      async (ctx, next) => {
+        seen.push(ctx);
+        return next();
+      },
+    ]);
+
+    await client.signMessage({ message: 'hello' });
+
+    expect(seen.map((ctx) => ctx.operation)).toEqual(['connect', 'signMessage']);
+    expect(seen[0].session).toBeNull();
+    expect(seen[1]).toMatchObject({
+      params: { message: 'hello' },
+      session: { partyId: 'party::a' },
+      adapter,
+    });
+    client.destroy();
+  });
+
+  it('should let middlewares rewrite params and results', async () => {
+    const client = await connectClient();
+    client.use(async (ctx, next) => {
+      if (ctx.operation === 'signMessage') {
+        ctx.params = { ...ctx.params, message: ctx.params.message.toUpperCase() };
+      }
+      const result = await next();
+      return { ...(result as object), rewritten: true };
+    });
+
+    const signed = await client.signMessage({ message: 'hello' });
+
+    expect(signMessage).toHaveBeenLastCalledWith(expect.anything(), expect.anything(), { message: 'HELLO' });
+    expect(signed).toMatchObject({ message: 'HELLO', rewritten: true });
+    client.destroy();
+  });
+
+  it('should short-circuit and surface middleware errors as client errors', async () => {
+    const client = await connectClient();
+    const errors = vi.fn();
+    client.on('error', errors);
+    const remove = client.use(async () => {
+      throw new UserRejectedError('signMessage');
+    });
+    signMessage.mockClear();
+
+    await expect(client.signMessage({ message: 'hello' })).rejects.toBeInstanceOf(UserRejectedError);
+    expect(signMessage).not.toHaveBeenCalled();
+    expect(errors).toHaveBeenCalledWith(expect.objectContaining({ type: 'error' }));
+
+    remove();
+    await expect(client.signMessage({ message: 'hello' })).resolves.toMatchObject({ message: 'hello' });
+    client.destroy();
+  });
+
+  it('should run session refresh and restore through middlewares', async () => {
+    const operations: string[] = [];
+    const record: Middleware = async (ctx, next) => {
+      operations.push(ctx.operation);
+      return next();
+    };
+    const storage = new MemoryStorage();
+    const sessionAdapter: WalletAdapter = {
+      ...adapter,
+      // Inside the default 60s warning window, so refresh runs right away
+      connect: async () => ({
+        partyId: toPartyId('party::a'),
+        session: { network: 'devnet', createdAt: Date.now(), expiresAt: Date.now() + 30_000 },
+        capabilities: ['connect', 'signMessage'],
+      }),
+      refresh: async (_ctx, session) => ({ ...session, expiresAt: Date.now() + 600_000 }),
+      restore: async (_ctx, persisted) => persisted,
+    };
+
+    const first = await connectClient([record], { adapter: sessionAdapter, storage });
+    await vi.waitFor(() => expect(operations).toEqual(['connect', 'refresh']));
+    first.destroy();
+
+    operations.length = 0;
+    const second = await connectClient([record], { adapter: sessionAdapter, storage });
+    expect(operations[0]).toBe('restore');
+    second.destroy();
+  });
+});
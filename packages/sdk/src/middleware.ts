@@ -0,0 +1,227 @@
+/**
+ * Middleware pipeline around wallet operations
+ *
+ * Every adapter call made by PartyLayerClient runs through the registered
+ * middlewares, outermost first (Koa-style). A middleware can:
+ * - inspect or replace `ctx.params` before calling `next()`
+ * - short-circuit by returning without calling `next()`
+ * - transform the value returned by `next()`
+ * - catch and rethrow a different error
+ *
+ * Errors thrown by middlewares go through the client's usual error mapping
+ * and `error` event, like adapter errors.
+ */
+
+import type {
+  PartyId,
+  Session,
+  WalletAdapter,
+  AdapterConnectResult,
+  SwitchNetworkParams,
+  AdapterSwitchNetworkResult,
+  SignMessageParams,
+  SignTransactionParams,
+  SignBatchParams,
+  SubmitTransactionParams,
+  LedgerApiParams,
+  LedgerApiResult,
+  StreamUpdatesParams,
+  SignedMessage,
+  SignedTransaction,
+  TxReceipt,
+  LoggerAdapter,
+  TelemetryAdapter,
+} from '@partylayer/core';
+import {
+  InternalError,
+  UserRejectedError,
+  mapUnknownErrorToPartyLayerError,
+} from '@partylayer/core';
+
+/**
+ * Params and result of each operation that runs through middlewares
+ */
+export interface ClientOperations {
+  connect: {
+    params: { timeoutMs?: number; partyId?: PartyId };
+    result: AdapterConnectResult;
+  };
+  /** Resolves null when the wallet needs user approval */
+  connectSilently: {
+    params: { partyId?: PartyId };
+    result: AdapterConnectResult | null;
+  };
+  disconnect: { params: undefined; result: void };
+  /** Restoring a persisted session on startup; resolves null when the wallet cannot */
+  restore: { params: undefined; result: Session | null };
+  /** Refreshing a session ahead of expiry; resolves null when it cannot be extended */
+  refresh: { params: undefined; result: Session | null };
+  switchNetwork: { params: SwitchNetworkParams; result: AdapterSwitchNetworkResult };
+  signMessage: { params: SignMessageParams; result: SignedMessage };
+  signTransaction: { params: SignTransactionParams; result: SignedTransaction };
+  /** Only when the adapter implements signBatch; otherwise each item runs as signTransaction */
+  signBatch: { params: SignBatchParams; result: SignedTransaction[] };
+  submitTransaction: { params: SubmitTransactionParams; result: TxReceipt };
+  ledgerApi: { params: LedgerApiParams; result: LedgerApiResult };
+  /**
+   * Opening a ledger update stream; resolves the function that closes it.
+   * The updates delivered afterwards do not pass through middlewares.
+   */
+  streamUpdates: { params: StreamUpdatesParams; result: () => void };
+}
+
+/**
+ * Operation name
+ */
+export type OperationName = keyof ClientOperations;
+
+/**
+ * Middleware context
+ *
+ * Narrow on `operation` to get typed params:
+ *
+ * ```typescript
+ * if (ctx.operation === 'signMessage') {
+ *   ctx.params = { ...ctx.params, nonce: createNonce() };
+ * }
+ * ```
+ */
+export type MiddlewareContext = {
+  [K in OperationName]: {
+    /** Operation being performed */
+    readonly operation: K;
+    /** Operation params (may be replaced before calling next) */
+    params: ClientOperations[K]['params'];
+    /** Targeted session (null for connect) */
+    readonly session: Session | null;
+    /** Adapter handling the operation */
+    readonly adapter: WalletAdapter;
+    /** Scratch space shared by middlewares for this call */
+    readonly state: Record<string, unknown>;
+  };
+}[OperationName];
+
+/**
+ * Middleware
+ *
+ * Must return the operation result: usually `await next()`, possibly
+ * transformed.
+ */
+export type Middleware = (
+  ctx: MiddlewareContext,
+  next: () => Promise<unknown>
+) => Promise<unknown>;
+
+/**
+ * Run `handler` through a middleware chain
+ *
+ * @internal
+ */
+export function runMiddleware<T>(
+  middlewares: readonly Middleware[],
+  ctx: MiddlewareContext,
+  handler: () => Promise<T>
+): Promise<T> {
+  const dispatch = async (index: number): Promise<unknown> => {
+    const middleware = middlewares[index];
+    if (!middleware) {
+      return handler();
+    }
+
+    let called = false;
+    return middleware(ctx, () => {
+      if (called) {
+        return Promise.reject(new InternalError('next() called multiple times'));
+      }
+      called = true;
+      return dispatch(index + 1);
+    });
+  };
+
+  return dispatch(0) as Promise<T>;
+}
+
+/**
+ * Log operation start, completion and failure.
+ *
+ * Params are not logged, as they may carry transaction payloads.
+ */
+export function loggingMiddleware(
+  logger: LoggerAdapter,
+  options?: { level?: 'debug' | 'info' }
+): Middleware {
+  const level = options?.level ?? 'debug';
+
+  return async (ctx, next) => {
+    const fields = {
+      operation: ctx.operation,
+      walletId: ctx.adapter.walletId,
+      sessionId: ctx.session?.sessionId,
+    };
+    const startedAt = Date.now();
+    logger[level]('Operation started', fields);
+
+    try {
+      const result = await next();
+      logger[level]('Operation completed', { ...fields, durationMs: Date.now() - startedAt });
+      return result;
+    } catch (err) {
+      const error = mapUnknownErrorToPartyLayerError(err, { phase: ctx.operation });
+      logger.warn('Operation failed', {
+        ...fields,
+        durationMs: Date.now() - startedAt,
+        code: error.code,
+      });
+      throw err;
+    }
+  };
+}
+
+/**
+ * Report operation durations to telemetry.
+ *
+ * Records `<operation>_duration_ms` as a gauge and increments
+ * `<operation>_failed` on errors (operation names in snake_case,
+ * e.g. `sign_message_duration_ms`).
+ */
+export function timingMiddleware(telemetry: TelemetryAdapter): Middleware {
+  return async (ctx, next) => {
+    const metric = toSnakeCase(ctx.operation);
+    const startedAt = Date.now();
+
+    try {
+      return await next();
+    } catch (err) {
+      telemetry.increment?.(`${metric}_failed`);
+      throw err;
+    } finally {
+      telemetry.gauge?.(`${metric}_duration_ms`, Date.now() - startedAt);
+    }
+  };
+}
+
+/**
+ * Ask for confirmation before an operation reaches the wallet.
+ *
+ * A falsy answer rejects the call with UserRejectedError.
+ *
+ * @param confirm Confirmation callback (e.g. an in-app dialog)
+ * @param options.operations Operations to confirm (default: signMessage, signTransaction, signBatch, submitTransaction)
+ */
+export function confirmationMiddleware(
+  confirm: (ctx: MiddlewareContext) => boolean | Promise<boolean>,
+  options?: { operations?: OperationName[] }
+): Middleware {
+  const operations = options?.operations ?? ['signMessage', 'signTransaction', 'signBatch', 'submitTransaction'];
+
+  return async (ctx, next) => {
+    if (operations.includes(ctx.operation) && !(await confirm(ctx))) {
+      throw new UserRejectedError(ctx.operation, { source: 'confirmation' });
+    }
+    return next();
+  };
+}
+
+function toSnakeCase(value: string): string {
+  return value.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
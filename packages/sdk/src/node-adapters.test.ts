@@ -0,0 +1,73 @@
+/**
+ * Node Adapter Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { InternalError } from '@partylayer/core';
+import { FileStorage, NodeCrypto } from './node-adapters';
+import { createPartyLayer } from './node';
+
+const ORIGIN = 'https://app.example';
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'partylayer-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('FileStorage', () => {
+  it('should persist entries across instances with owner-only permissions', async () => {
+    const path = join(dir, 'nested', 'state.json');
+    const storage = new FileStorage(path);
+
+    await Promise.all([storage.set('a', '1'), storage.set('b', '2')]);
+    await storage.remove('a');
+
+    const reopened = new FileStorage(path);
+    expect(await reopened.get('a')).toBeNull();
+    expect(await reopened.get('b')).toBe('2');
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+
+    await reopened.clear();
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({});
+  });
+});
+
+describe('NodeCrypto', () => {
+  it('should round-trip with the origin bound as additional data', async () => {
+    const crypto = new NodeCrypto({ key: randomBytes(32) });
+
+    const envelope = await crypto.encrypt('{"partyId":"party::a"}', ORIGIN);
+
+    expect(envelope).toMatch(/^v1\.[0-9a-f]{16}\./);
+    expect(await crypto.decrypt(envelope, ORIGIN)).toBe('{"partyId":"party::a"}');
+    await expect(crypto.decrypt(envelope, 'https://evil.example')).rejects.toBeInstanceOf(InternalError);
+  });
+
+  it('should create a key file once and reuse it', async () => {
+    const keyFile = join(dir, 'session.key');
+    const envelope = await new NodeCrypto({ keyFile }).encrypt('secret', ORIGIN);
+
+    expect(await new NodeCrypto({ keyFile }).decrypt(envelope, ORIGIN)).toBe('secret');
+    await expect(new NodeCrypto().decrypt(envelope, ORIGIN)).rejects.toThrow(/Unknown session encryption key/);
+  });
+
+  it('should reject keys of the wrong length', () => {
+    expect(() => new NodeCrypto({ key: randomBytes(16) })).toThrow(InternalError);
+  });
+});
+
+describe('createPartyLayer (node)', () => {
+  it('should require an explicit origin', () => {
+    expect(() =>
+      createPartyLayer({ network: 'devnet', app: { name: 'Worker' } as { name: string; origin: string } })
+    ).toThrow(/app.origin is required/);
+  });
+});
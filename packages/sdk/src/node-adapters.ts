@@ -0,0 +1,241 @@
+/**
+ * Node adapter implementations
+ *
+ * Storage and crypto for server-side clients. Only imported by the Node
+ * entry point (`@partylayer/sdk/node`).
+ */
+
+import { promises as fs } from 'node:fs';
+import { dirname } from 'node:path';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import type { StorageAdapter, CryptoAdapter } from '@partylayer/core';
+import { InternalError } from '@partylayer/core';
+
+const ENVELOPE_VERSION = 'v1';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * In-memory storage adapter (entries are lost on exit)
+ */
+export class MemoryStorage implements StorageAdapter {
+  private data = new Map<string, string>();
+
+  async get(key: string): Promise<string | null> {
+    return this.data.get(key) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.data.clear();
+  }
+}
+
+/**
+ * File-backed storage adapter
+ *
+ * Keeps all entries in one JSON file, written atomically (temp file and
+ * rename) with owner-only permissions. Writes are serialized within the
+ * process; the file is not meant to be shared between processes.
+ */
+export class FileStorage implements StorageAdapter {
+  private path: string;
+  private data?: Promise<Record<string, string>>;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const data = await this.load();
+    return data[key] ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.update((data) => {
+      data[key] = value;
+    });
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.update((data) => {
+      delete data[key];
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.update((data) => {
+      for (const key of Object.keys(data)) {
+        delete data[key];
+      }
+    });
+  }
+
+  private load(): Promise<Record<string, string>> {
+    if (!this.data) {
+      this.data = fs.readFile(this.path, 'utf8').then(
+        (raw) => JSON.parse(raw) as Record<string, string>,
+        (err: NodeJS.ErrnoException) => {
+          if (err.code === 'ENOENT') {
+            return {};
+          }
+          throw new InternalError(`Failed to read storage file "${this.path}"`, err);
+        }
+      );
+      // Allow a retry after a failed read
+      this.data.catch(() => {
+        this.data = undefined;
+      });
+    }
+    return this.data;
+  }
+
+  private update(fn: (data: Record<string, string>) => void): Promise<void> {
+    const write = this.writes.then(async () => {
+      const data = await this.load();
+      fn(data);
+
+      const tmp = `${this.path}.${process.pid}.tmp`;
+      try {
+        await fs.mkdir(dirname(this.path), { recursive: true });
+        await fs.writeFile(tmp, JSON.stringify(data), { mode: 0o600 });
+        await fs.rename(tmp, this.path);
+      } catch (err) {
+        throw new InternalError(`Failed to write storage file "${this.path}"`, err);
+      }
+    });
+    // Keep the queue going after a failed write
+    this.writes = write.catch(() => {});
+    return write;
+  }
+}
+
+/**
+ * Node crypto adapter options
+ */
+export interface NodeCryptoOptions {
+  /** 32-byte AES key */
+  key?: Uint8Array;
+  /**
+   * File holding the key (hex). Created with a random key and owner-only
+   * permissions when missing. Ignored when `key` is set.
+   */
+  keyFile?: string;
+}
+
+/**
+ * Node crypto adapter (node:crypto)
+ *
+ * AES-256-GCM with the same envelope format as DefaultCrypto
+ * (`v1.<keyId>.<iv>.<ciphertext>`), the `key` argument (the origin) bound
+ * as additional data. Without `key` or `keyFile`, a random key is kept in
+ * memory and persisted sessions do not survive a restart.
+ */
+export class NodeCrypto implements CryptoAdapter {
+  private options: NodeCryptoOptions;
+  private material?: Promise<{ id: string; key: Buffer }>;
+
+  constructor(options: NodeCryptoOptions = {}) {
+    if (options.key && options.key.length !== KEY_LENGTH) {
+      throw new InternalError(`Encryption key must be ${KEY_LENGTH} bytes`);
+    }
+    this.options = options;
+  }
+
+  async encrypt(data: string, key: string): Promise<string> {
+    const { id, key: aesKey } = await this.getKey();
+    const iv = randomBytes(IV_LENGTH);
+
+    const cipher = createCipheriv('aes-256-gcm', aesKey, iv);
+    cipher.setAAD(Buffer.from(key, 'utf8'));
+    const ciphertext = Buffer.concat([cipher.update(data, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+
+    return [ENVELOPE_VERSION, id, iv.toString('base64'), ciphertext.toString('base64')].join('.');
+  }
+
+  async decrypt(encrypted: string, key: string): Promise<string> {
+    const [version, id, iv, ciphertext] = encrypted.split('.');
+    if (version !== ENVELOPE_VERSION || !id || !iv || !ciphertext) {
+      throw new InternalError('Unsupported session envelope');
+    }
+
+    const material = await this.getKey();
+    if (id !== material.id) {
+      throw new InternalError(`Unknown session encryption key "${id}"`);
+    }
+
+    try {
+      const bytes = Buffer.from(ciphertext, 'base64');
+      const decipher = createDecipheriv('aes-256-gcm', material.key, Buffer.from(iv, 'base64'));
+      decipher.setAAD(Buffer.from(key, 'utf8'));
+      decipher.setAuthTag(bytes.subarray(bytes.length - TAG_LENGTH));
+      return Buffer.concat([decipher.update(bytes.subarray(0, bytes.length - TAG_LENGTH)), decipher.final()]).toString(
+        'utf8'
+      );
+    } catch (err) {
+      throw new InternalError('Failed to decrypt session data', err);
+    }
+  }
+
+  async generateKey(): Promise<string> {
+    return randomBytes(KEY_LENGTH).toString('hex');
+  }
+
+  private getKey(): Promise<{ id: string; key: Buffer }> {
+    if (!this.material) {
+      this.material = this.loadKey().then((key) => ({
+        // Key ID derived from the key so envelopes name the key they need
+        id: createHash('sha256').update(key).digest('hex').slice(0, 16),
+        key,
+      }));
+      this.material.catch(() => {
+        this.material = undefined;
+      });
+    }
+    return this.material;
+  }
+
+  private async loadKey(): Promise<Buffer> {
+    const { key, keyFile } = this.options;
+    if (key) {
+      return Buffer.from(key);
+    }
+    if (!keyFile) {
+      return randomBytes(KEY_LENGTH);
+    }
+
+    try {
+      const stored = Buffer.from((await fs.readFile(keyFile, 'utf8')).trim(), 'hex');
+      if (stored.length !== KEY_LENGTH) {
+        throw new InternalError(`Key file "${keyFile}" does not hold a ${KEY_LENGTH}-byte hex key`);
+      }
+      return stored;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw err instanceof InternalError ? err : new InternalError(`Failed to read key file "${keyFile}"`, err);
+      }
+    }
+
+    const generated = randomBytes(KEY_LENGTH);
+    await fs.mkdir(dirname(keyFile), { recursive: true });
+    try {
+      // 'wx' fails if another process created the file in the meantime
+      await fs.writeFile(keyFile, generated.toString('hex'), { mode: 0o600, flag: 'wx' });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+        return this.loadKey();
+      }
+      throw new InternalError(`Failed to write key file "${keyFile}"`, err);
+    }
+    return generated;
+  }
+}
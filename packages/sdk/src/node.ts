@@ -0,0 +1,144 @@
+/**
+ * @partylayer/sdk/node
+ * Node entry point for server-side clients (backend workers, scripts)
+ *
+ * Unlike the main entry point, no built-in wallets are registered: they
+ * need a browser. Pass adapters that support Node, such as BronAdapter,
+ * and an explicit origin.
+ *
+ * @example
+ * ```typescript
+ * import { createPartyLayer, BronAdapter } from '@partylayer/sdk/node';
+ *
+ * const client = createPartyLayer({
+ *   network: 'devnet',
+ *   app: { name: 'Settlement worker', origin: 'https://app.example.com' },
+ *   adapters: [new BronAdapter({ auth, api })],
+ *   storagePath: '/var/lib/worker/partylayer.json',
+ * });
+ * ```
+ */
+
+import { InternalError } from '@partylayer/core';
+import { PartyLayerClient } from './client';
+import type { PartyLayerConfig } from './config';
+import { FileStorage, MemoryStorage, NodeCrypto, type NodeCryptoOptions } from './node-adapters';
+
+/**
+ * Node client configuration
+ */
+export interface NodePartyLayerConfig extends Omit<PartyLayerConfig, 'app'> {
+  /** Application info; the origin is required outside a browser */
+  app: {
+    name: string;
+    origin: string;
+  };
+  /**
+   * File for sessions and the registry cache (ignored when `storage` is set)
+   * @default in memory
+   */
+  storagePath?: string;
+  /**
+   * Session encryption key (ignored when `crypto` is set)
+   * @default key file at `${storagePath}.key`, or an in-memory key
+   */
+  encryption?: NodeCryptoOptions;
+}
+
+/**
+ * Create a PartyLayer client for Node
+ */
+export function createPartyLayer(config: NodePartyLayerConfig): PartyLayerClient {
+  if (!config.app?.origin) {
+    throw new InternalError('app.origin is required when running outside a browser');
+  }
+
+  const { storagePath, encryption, ...rest } = config;
+  return new PartyLayerClient({
+    ...rest,
+    storage: config.storage ?? (storagePath ? new FileStorage(storagePath) : new MemoryStorage()),
+    crypto:
+      config.crypto ??
+      new NodeCrypto(encryption ?? (storagePath ? { keyFile: `${storagePath}.key` } : {})),
+    adapters: config.adapters ?? [],
+    sync: config.sync ?? false,
+  });
+}
+
+export { PartyLayerClient } from './client';
+export type { WalletPreferences, AutoConnectPolicy } from './preferences';
+export { createSelectionStrategy } from './wallet-selection';
+export type { WalletCandidate, WalletSelectionStrategy } from './wallet-selection';
+export type { TransactionPreview, PreviewContract, PreviewExercise, PreviewFees } from './tx-preview';
+export { LedgerClient, mapLedgerApiError } from './ledger-client';
+export type {
+  LedgerClientOptions,
+  LedgerQueryOptions,
+  ActiveContractsOptions,
+  CompletionsOptions,
+  UpdatesOptions,
+  UpdatesPage,
+  ActiveContract,
+  ContractEvents,
+  PartyDetails,
+  CommandCompletion,
+  LedgerCreatedEvent,
+  LedgerArchivedEvent,
+  LedgerEvent,
+  LedgerUpdate,
+} from './ledger-client';
+export { ContractSubscription } from './contract-subscription';
+export type { ContractDelta } from './contract-subscription';
+export { FileStorage, MemoryStorage, NodeCrypto } from './node-adapters';
+export type { NodeCryptoOptions } from './node-adapters';
+export type {
+  PartyLayerConfig,
+  ConnectOptions,
+  SessionTargetOptions,
+  SignInOptions,
+  SignInResult,
+  BatchOptions,
+  PreviewTransactionOptions,
+  SubscribeContractsOptions,
+  BatchItemResult,
+  BatchResult,
+  TrackTransactionOptions,
+  WalletFilter,
+  AdapterClass,
+} from './config';
+export type {
+  PartyLayerEvent,
+  EventHandler,
+  SessionConnectedEvent,
+  SessionDisconnectedEvent,
+  SessionExpiredEvent,
+  SessionExpiringEvent,
+  SessionRefreshedEvent,
+  AccountsChangedEvent,
+  NetworkChangedEvent,
+  TxStatusEvent,
+  ErrorEvent,
+} from './events';
+export {
+  createSignInMessage,
+  formatSignInMessage,
+  parseSignInMessage,
+  verifySignIn,
+  generateSignInNonce,
+  verifyMessageSignature,
+  verifyTransactionSignature,
+  matchesKeyFingerprint,
+} from '@partylayer/core';
+export type {
+  SignInMessage,
+  SignInMessageParams,
+  VerifySignInParams,
+  SignInFailureReason,
+  SignInVerificationResult,
+  SignatureScheme,
+  SignatureFailureReason,
+  SignatureVerificationResult,
+  SignatureVerificationOptions,
+} from '@partylayer/core';
+export { BronAdapter } from '@partylayer/adapter-bron';
+export type { BronAdapterConfig, BronAuthConfig, BronApiConfig } from '@partylayer/adapter-bron';
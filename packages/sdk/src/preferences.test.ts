@@ -0,0 +1,154 @@
+/**
+ * Wallet Preferences and Auto-connect Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { WalletAdapter, StorageAdapter, AdapterConnectResult } from '@partylayer/core';
+import { toWalletId, toPartyId, WalletNotFoundError } from '@partylayer/core';
+import { PartyLayerClient } from './client';
+import type { AutoConnectPolicy } from './preferences';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+function connectResult(): AdapterConnectResult {
+  return {
+    partyId: toPartyId('party::a'),
+    accounts: [{ partyId: toPartyId('party::a'), primary: true }, { partyId: toPartyId('party::b') }],
+    session: { network: 'devnet', createdAt: Date.now() },
+    capabilities: ['connect'],
+  };
+}
+
+function createAdapter(overrides: Partial<WalletAdapter> = {}): WalletAdapter {
+  return {
+    walletId: toWalletId('wallet-a'),
+    name: 'Wallet A',
+    getCapabilities: () => ['connect'],
+    detectInstalled: async () => ({ installed: true }),
+    connect: async () => connectResult(),
+    connectSilently: async () => connectResult(),
+    disconnect: async () => {},
+    ...overrides,
+  };
+}
+
+function createClient(
+  storage: StorageAdapter,
+  adapter: WalletAdapter = createAdapter(),
+  autoConnect?: AutoConnectPolicy
+): PartyLayerClient {
+  const client = new PartyLayerClient({
+    network: 'devnet',
+    app: { name: 'Test dApp', origin: 'https://dapp.example' },
+    adapters: [adapter],
+    storage,
+    crypto: {
+      encrypt: async (data) => data,
+      decrypt: async (data) => data,
+      generateKey: async () => 'key',
+    },
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+    sync: false,
+    autoConnect,
+  });
+  vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+  vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+    throw new WalletNotFoundError(id);
+  });
+  return client;
+}
+
+/** Connect, select party::b and drop the persisted session (as if it expired) */
+async function connectAndForgetSession(storage: MemoryStorage): Promise<void> {
+  const client = createClient(storage);
+  const session = await client.connect({ walletId: toWalletId('wallet-a') });
+  await client.switchParty(toPartyId('party::b'));
+  client.destroy();
+  storage.data.delete(`session_${session.sessionId}`);
+}
+
+describe('Wallet preferences', () => {
+  it('should remember wallet, party and network and note disconnects', async () => {
+    const client = createClient(new MemoryStorage());
+    await client.connect({ walletId: toWalletId('wallet-a') });
+    await client.switchParty(toPartyId('party::b'));
+
+    expect(await client.getWalletPreferences()).toMatchObject({
+      walletId: 'wallet-a',
+      partyId: 'party::b',
+      network: 'devnet',
+      disconnected: false,
+    });
+
+    await client.disconnect();
+    expect(await client.getWalletPreferences()).toMatchObject({ walletId: 'wallet-a', disconnected: true });
+
+    await client.clearWalletPreferences();
+    expect(await client.getWalletPreferences()).toBeNull();
+    client.destroy();
+  });
+});
+
+describe('autoConnect', () => {
+  it('should reconnect silently to the last wallet and party when no session was restored', async () => {
+    const storage = new MemoryStorage();
+    await connectAndForgetSession(storage);
+
+    const connectSilently = vi.fn(async () => connectResult());
+    const client = createClient(storage, createAdapter({ connectSilently }), 'if-trusted');
+
+    const session = await client.getActiveSession();
+    expect(connectSilently).toHaveBeenCalledTimes(1);
+    expect(session).toMatchObject({ walletId: 'wallet-a', partyId: 'party::b' });
+    client.destroy();
+  });
+
+  it('should respect an explicit disconnect unless the policy is always', async () => {
+    const storage = new MemoryStorage();
+    const first = createClient(storage);
+    await first.connect({ walletId: toWalletId('wallet-a') });
+    await first.disconnect();
+    first.destroy();
+
+    const trusted = createClient(storage, createAdapter(), 'if-trusted');
+    expect(await trusted.getActiveSession()).toBeNull();
+    trusted.destroy();
+
+    const always = createClient(storage, createAdapter(), 'always');
+    expect(await always.getActiveSession()).toMatchObject({ walletId: 'wallet-a' });
+    always.destroy();
+  });
+
+  it('should stay disconnected by default or when the wallet needs approval', async () => {
+    const storage = new MemoryStorage();
+    await connectAndForgetSession(storage);
+
+    const connectSilently = vi.fn(async () => connectResult());
+    const off = createClient(storage, createAdapter({ connectSilently }));
+    expect(await off.getActiveSession()).toBeNull();
+    expect(connectSilently).not.toHaveBeenCalled();
+    off.destroy();
+
+    const needsApproval = createClient(storage, createAdapter({ connectSilently: async () => null }), 'always');
+    expect(await needsApproval.getActiveSession()).toBeNull();
+    expect(await needsApproval.connectSilently()).toBeNull();
+    needsApproval.destroy();
+  });
+});
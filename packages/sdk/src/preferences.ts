@@ -0,0 +1,97 @@
+/**
+ * Wallet Preferences
+ *
+ * Remembers the wallet, party and network of the last connection. The
+ * record outlives sessions: it survives disconnect and expiry, so the
+ * client can rank the wallet first and reconnect silently later.
+ *
+ * Stored as JSON under `wallet_preferences` in the StorageAdapter.
+ */
+
+import type { WalletId, PartyId, NetworkId, StorageAdapter, LoggerAdapter } from '@partylayer/core';
+
+const PREFERENCES_KEY = 'wallet_preferences';
+
+/**
+ * Persisted wallet preferences
+ */
+export interface WalletPreferences {
+  /** Wallet of the last connection */
+  walletId: WalletId;
+  /** Party selected in that wallet */
+  partyId: PartyId;
+  /** Network of the connection */
+  network: NetworkId;
+  /** Last update time */
+  updatedAt: number;
+  /** Whether the user disconnected explicitly since */
+  disconnected: boolean;
+}
+
+/**
+ * Silent reconnect policy
+ *
+ * - `never`: no automatic connection
+ * - `if-trusted`: reconnect to the last used wallet unless the user
+ *   disconnected from it
+ * - `always`: reconnect to the last used wallet, even after a disconnect
+ */
+export type AutoConnectPolicy = 'never' | 'if-trusted' | 'always';
+
+/**
+ * Wallet preferences store
+ *
+ * @internal
+ */
+export class PreferencesStore {
+  private storage: StorageAdapter;
+  private logger: LoggerAdapter;
+
+  constructor(storage: StorageAdapter, logger: LoggerAdapter) {
+    this.storage = storage;
+    this.logger = logger;
+  }
+
+  async load(): Promise<WalletPreferences | null> {
+    try {
+      const raw = await this.storage.get(PREFERENCES_KEY);
+      return raw ? (JSON.parse(raw) as WalletPreferences) : null;
+    } catch (err) {
+      this.logger.warn('Failed to read wallet preferences', err);
+      return null;
+    }
+  }
+
+  /**
+   * Record a connection to a wallet
+   */
+  async remember(preferences: Pick<WalletPreferences, 'walletId' | 'partyId' | 'network'>): Promise<void> {
+    await this.write({ ...preferences, updatedAt: Date.now(), disconnected: false });
+  }
+
+  /**
+   * Note an explicit disconnect from a wallet
+   */
+  async markDisconnected(walletId: WalletId): Promise<void> {
+    const current = await this.load();
+    if (current && current.walletId === walletId) {
+      await this.write({ ...current, updatedAt: Date.now(), disconnected: true });
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.storage.remove(PREFERENCES_KEY);
+    } catch (err) {
+      this.logger.warn('Failed to clear wallet preferences', err);
+    }
+  }
+
+  private async write(preferences: WalletPreferences): Promise<void> {
+    try {
+      await this.storage.set(PREFERENCES_KEY, JSON.stringify(preferences));
+    } catch (err) {
+      this.logger.warn('Failed to persist wallet preferences', err);
+    }
+  }
+}
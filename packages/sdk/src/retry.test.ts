@@ -0,0 +1,213 @@
+/**
+ * Retry Policy Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { WalletAdapter, StorageAdapter } from '@partylayer/core';
+import {
+  toWalletId,
+  toPartyId,
+  TransportError,
+  UserRejectedError,
+  WalletNotFoundError,
+  TimeoutError,
+} from '@partylayer/core';
+import { withRetry, resolveRetryRule, computeBackoff } from './retry';
+import { PartyLayerClient } from './client';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+const noSleep = async () => {};
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+describe('withRetry', () => {
+  it('should not retry without a policy', async () => {
+    const fn = vi.fn().mockRejectedValue(new TransportError('offline'));
+
+    await expect(withRetry('connect', fn, {})).rejects.toBeInstanceOf(TransportError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry transient errors up to maxAttempts', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new TransportError('offline'))
+      .mockRejectedValueOnce(new Error('network request failed'))
+      .mockResolvedValue('ok');
+    const sleep = vi.fn(noSleep);
+
+    await expect(withRetry('ledgerApi', fn, { policy: { maxAttempts: 3 }, sleep })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it('should rethrow the last error once attempts are exhausted', async () => {
+    const fn = vi.fn().mockRejectedValue(new TimeoutError('restore', 10));
+
+    await expect(
+      withRetry('restore', fn, { policy: { maxAttempts: 2 }, sleep: noSleep })
+    ).rejects.toBeInstanceOf(TimeoutError);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never retry user rejections', async () => {
+    const fn = vi.fn().mockRejectedValue(new UserRejectedError('connect'));
+    const shouldRetry = vi.fn(() => true);
+
+    await expect(
+      withRetry('connect', fn, {
+        policy: { maxAttempts: 5, retryOn: ['USER_REJECTED'], shouldRetry },
+        sleep: noSleep,
+      })
+    ).rejects.toBeInstanceOf(UserRejectedError);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(shouldRetry).not.toHaveBeenCalled();
+  });
+
+  it('should only retry the configured error codes', async () => {
+    const fn = vi.fn().mockRejectedValue(new WalletNotFoundError('x'));
+
+    await expect(
+      withRetry('registry', fn, { policy: { maxAttempts: 3 }, sleep: noSleep })
+    ).rejects.toBeInstanceOf(WalletNotFoundError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('retry rules', () => {
+  it('should apply per-operation overrides', () => {
+    const policy = {
+      maxAttempts: 4,
+      operations: { connect: false as const, ledgerApi: { retryOn: ['TRANSPORT_ERROR' as const] } },
+    };
+
+    expect(resolveRetryRule(policy, 'connect')).toBeNull();
+    expect(resolveRetryRule(policy, 'ledgerApi')).toMatchObject({
+      maxAttempts: 4,
+      retryOn: ['TRANSPORT_ERROR'],
+    });
+    expect(resolveRetryRule(policy, 'restore')?.retryOn).toContain('TIMEOUT');
+  });
+
+  it('should only retry connect and Ledger API writes when configured for them', () => {
+    const policy = { maxAttempts: 4 };
+
+    expect(resolveRetryRule(policy, 'connect')).toBeNull();
+    expect(resolveRetryRule(policy, 'ledgerApiWrite')).toBeNull();
+    expect(resolveRetryRule(policy, 'ledgerApi')).toMatchObject({ maxAttempts: 4 });
+    expect(
+      resolveRetryRule({ ...policy, operations: { connect: {}, ledgerApiWrite: { maxAttempts: 2 } } }, 'connect')
+    ).toMatchObject({ maxAttempts: 4 });
+    expect(
+      resolveRetryRule({ ...policy, operations: { ledgerApiWrite: { maxAttempts: 2 } } }, 'ledgerApiWrite')
+    ).toMatchObject({ maxAttempts: 2 });
+  });
+
+  it('should grow delays exponentially within the jitter band', () => {
+    const rule = resolveRetryRule({ baseDelayMs: 100, maxDelayMs: 300, jitter: 0.5 }, 'restore')!;
+
+    for (let i = 0; i < 20; i++) {
+      expect(computeBackoff(rule, 1)).toBeGreaterThanOrEqual(50);
+      expect(computeBackoff(rule, 1)).toBeLessThanOrEqual(100);
+      expect(computeBackoff(rule, 3)).toBeLessThanOrEqual(300);
+    }
+    expect(computeBackoff({ ...rule, jitter: 0 }, 2)).toBe(200);
+  });
+});
+
+describe('PartyLayerClient retry', () => {
+  it('should retry adapter connect with the configured policy', async () => {
+    const connect = vi
+      .fn()
+      .mockRejectedValueOnce(new TransportError('extension not responding'))
+      .mockResolvedValue({
+        partyId: toPartyId('party::a'),
+        session: { network: 'devnet', createdAt: Date.now() },
+        capabilities: ['connect'],
+      });
+    const adapter: WalletAdapter = {
+      walletId: toWalletId('wallet-a'),
+      name: 'Wallet A',
+      getCapabilities: () => ['connect'],
+      detectInstalled: async () => ({ installed: true }),
+      connect,
+      disconnect: async () => {},
+    };
+    const client = new PartyLayerClient({
+      network: 'devnet',
+      app: { name: 'Test dApp', origin: 'https://dapp.example' },
+      adapters: [adapter],
+      storage: new MemoryStorage(),
+      logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+      retry: { maxAttempts: 2, baseDelayMs: 1, operations: { connect: {} } },
+    });
+    vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+    vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+      throw new WalletNotFoundError(id);
+    });
+
+    const session = await client.connect({ walletId: adapter.walletId });
+
+    expect(session.partyId).toBe('party::a');
+    expect(connect).toHaveBeenCalledTimes(2);
+
+    client.destroy();
+  });
+
+  it('should retry Ledger API GETs but not writes by default', async () => {
+    const ledgerApi = vi.fn().mockRejectedValue(new TransportError('participant unreachable'));
+    const adapter: WalletAdapter = {
+      walletId: toWalletId('wallet-a'),
+      name: 'Wallet A',
+      getCapabilities: () => ['connect', 'ledgerApi'],
+      detectInstalled: async () => ({ installed: true }),
+      connect: async () => ({
+        partyId: toPartyId('party::a'),
+        session: { network: 'devnet', createdAt: Date.now() },
+        capabilities: ['connect', 'ledgerApi'],
+      }),
+      disconnect: async () => {},
+      ledgerApi,
+    };
+    const client = new PartyLayerClient({
+      network: 'devnet',
+      app: { name: 'Test dApp', origin: 'https://dapp.example' },
+      adapters: [adapter],
+      storage: new MemoryStorage(),
+      logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+    });
+    vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+    vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+      throw new WalletNotFoundError(id);
+    });
+    await client.connect({ walletId: adapter.walletId });
+
+    await expect(client.ledgerApi({ requestMethod: 'GET', resource: '/v2/state/ledger-end' })).rejects.toThrow();
+    expect(ledgerApi).toHaveBeenCalledTimes(2);
+
+    ledgerApi.mockClear();
+    await expect(
+      client.ledgerApi({ requestMethod: 'POST', resource: '/v2/commands/submit-and-wait', body: '{}' })
+    ).rejects.toThrow();
+    expect(ledgerApi).toHaveBeenCalledTimes(1);
+
+    client.destroy();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Retry and backoff for adapter and registry calls
+ *
+ * Errors are classified through mapUnknownErrorToPartyLayerError; only
+ * codes listed in `retryOn` are retried. USER_REJECTED is never retried,
+ * whatever the policy says.
+ *
+ * Operations that may prompt the user or change ledger state (connect,
+ * non-GET Ledger API requests) only follow their own entry in
+ * `operations`, never the global rule: a timed-out attempt may still have
+ * gone through.
+ */
+
+import type { ErrorCode, LoggerAdapter, PartyLayerError } from '@partylayer/core';
+import { mapUnknownErrorToPartyLayerError } from '@partylayer/core';
+
+/**
+ * Client operations covered by the retry policy
+ *
+ * `ledgerApi` covers GET requests; `ledgerApiWrite` covers POST, PUT and
+ * DELETE.
+ */
+export type RetryOperation = 'connect' | 'restore' | 'ledgerApi' | 'ledgerApiWrite' | 'registry';
+
+/** Operations retried only when configured in `operations` */
+const OPT_IN_OPERATIONS: ReadonlySet<RetryOperation> = new Set(['connect', 'ledgerApiWrite']);
+
+/**
+ * Retry settings (global or per operation)
+ */
+export interface RetryRule {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 250) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay in milliseconds (default: 5000) */
+  maxDelayMs?: number;
+  /** Backoff multiplier (default: 2) */
+  factor?: number;
+  /** Fraction of each delay that is randomized, 0 to 1 (default: 0.5) */
+  jitter?: number;
+  /** Error codes that are retried (default: TRANSPORT_ERROR, TIMEOUT, REGISTRY_FETCH_FAILED) */
+  retryOn?: ErrorCode[];
+}
+
+/**
+ * Retry policy
+ *
+ * @example
+ * ```typescript
+ * createPartyLayer({
+ *   // ...
+ *   retry: {
+ *     maxAttempts: 4,
+ *     operations: {
+ *       ledgerApi: { retryOn: ['TRANSPORT_ERROR'] },
+ *       // Opt in: retries a connect the user may already have approved
+ *       connect: { maxAttempts: 2 },
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export interface RetryPolicy extends RetryRule {
+  /**
+   * Per-operation overrides; `false` disables retries for that operation.
+   * `connect` and `ledgerApiWrite` are only retried when set here.
+   */
+  operations?: Partial<Record<RetryOperation, RetryRule | false>>;
+  /** Final say on whether an error is retried (USER_REJECTED is never retried) */
+  shouldRetry?: (error: PartyLayerError, attempt: number, operation: RetryOperation) => boolean;
+}
+
+const DEFAULT_RULE: Required<RetryRule> = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+  factor: 2,
+  jitter: 0.5,
+  retryOn: ['TRANSPORT_ERROR', 'TIMEOUT', 'REGISTRY_FETCH_FAILED'],
+};
+
+/**
+ * Resolve the effective rule for an operation.
+ *
+ * @returns null when retries are disabled
+ */
+export function resolveRetryRule(
+  policy: RetryPolicy | undefined,
+  operation: RetryOperation
+): Required<RetryRule> | null {
+  if (!policy) {
+    return null;
+  }
+
+  const override = policy.operations?.[operation];
+  if (override === false || (override === undefined && OPT_IN_OPERATIONS.has(operation))) {
+    return null;
+  }
+
+  const rule = { ...DEFAULT_RULE, ...pickRule(policy), ...pickRule(override ?? {}) };
+  return rule.maxAttempts > 1 ? rule : null;
+}
+
+/**
+ * Delay before retry number `attempt` (1-based)
+ */
+export function computeBackoff(rule: Required<RetryRule>, attempt: number): number {
+  const delay = Math.min(rule.maxDelayMs, rule.baseDelayMs * Math.pow(rule.factor, attempt - 1));
+  const jitter = Math.min(Math.max(rule.jitter, 0), 1);
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
+
+/**
+ * Run `fn`, retrying transient failures according to the policy.
+ *
+ * The last error is rethrown unchanged once attempts are exhausted or
+ * the error is not retryable.
+ */
+export async function withRetry<T>(
+  operation: RetryOperation,
+  fn: (attempt: number) => Promise<T>,
+  options: {
+    policy?: RetryPolicy;
+    logger?: LoggerAdapter;
+    sleep?: (ms: number) => Promise<void>;
+  }
+): Promise<T> {
+  const rule = resolveRetryRule(options.policy, operation);
+  if (!rule) {
+    return fn(1);
+  }
+
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      const error = mapUnknownErrorToPartyLayerError(err, {
+        phase: operation === 'ledgerApiWrite' ? 'ledgerApi' : operation,
+      });
+      const retryable =
+        attempt < rule.maxAttempts &&
+        error.code !== 'USER_REJECTED' &&
+        rule.retryOn.includes(error.code) &&
+        (options.policy?.shouldRetry?.(error, attempt, operation) ?? true);
+
+      if (!retryable) {
+        throw err;
+      }
+
+      const delay = computeBackoff(rule, attempt);
+      options.logger?.debug('Retrying operation', {
+        operation,
+        attempt,
+        delayMs: delay,
+        code: error.code,
+      });
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Copy the RetryRule fields that are set
+ */
+function pickRule(source: RetryRule): RetryRule {
+  const rule: Record<string, unknown> = {};
+  for (const key of Object.keys(DEFAULT_RULE) as Array<keyof RetryRule>) {
+    if (source[key] !== undefined) {
+      rule[key] = source[key];
+    }
+  }
+  return rule as RetryRule;
+}
@@ -0,0 +1,450 @@
+/**
+ * Multi-session Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type {
+  WalletAdapter,
+  Session,
+  PersistedSession,
+  StorageAdapter,
+  CryptoAdapter,
+  LoggerAdapter,
+} from '@partylayer/core';
+import {
+  toWalletId,
+  toPartyId,
+  toSessionId,
+  toSignature,
+  WalletNotFoundError,
+  SessionExpiredError,
+  PartyNotFoundError,
+  NetworkNotSupportedError,
+  CapabilityNotSupportedError,
+} from '@partylayer/core';
+import { SessionManager } from './session-manager';
+import { PartyLayerClient } from './client';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+const passthroughCrypto: CryptoAdapter = {
+  encrypt: async (data) => `enc:${data}`,
+  decrypt: async (data) => data.replace(/^enc:/, ''),
+  generateKey: async () => 'key',
+};
+
+const silentLogger: LoggerAdapter = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+function createSession(id: string, walletId = 'wallet-a'): Session {
+  return {
+    sessionId: toSessionId(id),
+    walletId: toWalletId(walletId),
+    partyId: toPartyId(`party::${id}`),
+    network: 'devnet',
+    createdAt: Date.now(),
+    origin: 'https://dapp.example',
+    capabilitiesSnapshot: ['connect', 'signMessage'],
+  };
+}
+
+class MockAdapter implements WalletAdapter {
+  readonly walletId;
+  readonly name;
+  signMessage = vi.fn(async (_ctx: unknown, session: Session, params: { message: string }) => ({
+    message: params.message,
+    signature: toSignature(`sig-${session.walletId}`),
+    partyId: session.partyId,
+  }));
+  restore = vi.fn(async (_ctx: unknown, persisted: PersistedSession): Promise<Session | null> => ({
+    ...persisted,
+  }));
+
+  constructor(id: string) {
+    this.walletId = toWalletId(id);
+    this.name = id;
+  }
+
+  getCapabilities() {
+    return ['connect', 'disconnect', 'restore', 'signMessage'] as const as never[];
+  }
+
+  async detectInstalled() {
+    return { installed: true };
+  }
+
+  async connect() {
+    return {
+      partyId: toPartyId(`party::${this.walletId}`),
+      session: {
+        walletId: this.walletId,
+        network: 'devnet',
+        createdAt: Date.now(),
+      },
+      capabilities: this.getCapabilities(),
+    };
+  }
+
+  async disconnect() {}
+}
+
+function createClient(storage: StorageAdapter, adapters: WalletAdapter[]): PartyLayerClient {
+  const client = new PartyLayerClient({
+    network: 'devnet',
+    app: { name: 'Test dApp', origin: 'https://dapp.example' },
+    adapters,
+    storage,
+    crypto: passthroughCrypto,
+    logger: silentLogger,
+  });
+  vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+  vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+    throw new WalletNotFoundError(id);
+  });
+  vi.spyOn(client.registryClient, 'getWallet').mockImplementation(async (id) => {
+    throw new WalletNotFoundError(id);
+  });
+  return client;
+}
+
+describe('SessionManager', () => {
+  let storage: MemoryStorage;
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    manager = new SessionManager({
+      storage,
+      crypto: passthroughCrypto,
+      origin: 'https://dapp.example',
+      logger: silentLogger,
+    });
+  });
+
+  it('should hold several sessions and track the active one', async () => {
+    await manager.add(createSession('s1'));
+    await manager.add(createSession('s2', 'wallet-b'));
+
+    expect(manager.list().map((s) => s.sessionId)).toEqual(['s1', 's2']);
+    expect(manager.getActive()?.sessionId).toBe('s2');
+
+    await manager.setActive(toSessionId('s1'));
+    expect(manager.getActive()?.sessionId).toBe('s1');
+  });
+
+  it('should not change the active session when activate is false', async () => {
+    await manager.add(createSession('s1'));
+    await manager.add(createSession('s2'), { activate: false });
+
+    expect(manager.getActive()?.sessionId).toBe('s1');
+  });
+
+  it('should fall back to the latest session when the active one is removed', async () => {
+    await manager.add(createSession('s1'));
+    await manager.add(createSession('s2'));
+    await manager.add(createSession('s3'), { activate: false });
+    await manager.setActive(toSessionId('s1'));
+
+    await manager.remove(toSessionId('s1'));
+    expect(manager.getActive()?.sessionId).toBe('s3');
+    expect(storage.data.has('session_s1')).toBe(false);
+  });
+
+  it('should persist all sessions and the active pointer', async () => {
+    await manager.add(createSession('s1'));
+    await manager.add(createSession('s2'));
+    await manager.setActive(toSessionId('s1'));
+
+    const { sessions, activeSessionId } = await manager.loadPersisted();
+    expect(sessions.map((s) => s.sessionId)).toEqual(['s1', 's2']);
+    expect(sessions[0].encrypted).toBe(storage.data.get('session_s1'));
+    expect(activeSessionId).toBe('s1');
+  });
+
+  it('should drop entries that cannot be decrypted', async () => {
+    await manager.add(createSession('s1'));
+    storage.data.set('session_s1', 'enc:not-json');
+
+    const { sessions } = await manager.loadPersisted();
+    expect(sessions).toHaveLength(0);
+    expect(storage.data.has('session_s1')).toBe(false);
+  });
+
+  it('should keep persisted sessions that were not restored in the index', async () => {
+    await manager.add(createSession('s1'));
+    await manager.add(createSession('s2'));
+    await manager.add(createSession('s3'));
+    storage.data.delete('session_s3');
+
+    const next = new SessionManager({
+      storage,
+      crypto: passthroughCrypto,
+      origin: 'https://dapp.example',
+      logger: silentLogger,
+    });
+    const { sessions } = await next.loadPersisted();
+    expect(sessions.map((s) => s.sessionId)).toEqual(['s1', 's2']);
+    expect(JSON.parse(storage.data.get('session_index')!)).toEqual(['s1', 's2']);
+
+    // Only s2 is restored; s1 stays persisted
+    await next.add(sessions[1]);
+    expect(JSON.parse(storage.data.get('session_index')!)).toEqual(['s1', 's2']);
+    expect((await next.loadPersisted()).sessions.map((s) => s.sessionId)).toEqual(['s1', 's2']);
+
+    // Until it is removed
+    await next.remove(toSessionId('s1'));
+    expect(JSON.parse(storage.data.get('session_index')!)).toEqual(['s2']);
+  });
+
+  it('should not persist the encrypted field echoed back by restore', async () => {
+    await manager.add({ ...createSession('s1'), encrypted: 'blob' } as PersistedSession);
+
+    expect(manager.get(toSessionId('s1'))).not.toHaveProperty('encrypted');
+    expect(storage.data.get('session_s1')).not.toContain('blob');
+  });
+});
+
+describe('PartyLayerClient multi-session', () => {
+  let storage: MemoryStorage;
+  let walletA: MockAdapter;
+  let walletB: MockAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    walletA = new MockAdapter('wallet-a');
+    walletB = new MockAdapter('wallet-b');
+  });
+
+  it('should keep concurrent sessions and target them explicitly', async () => {
+    const client = createClient(storage, [walletA, walletB]);
+
+    const sessionA = await client.connect({ walletId: walletA.walletId });
+    const sessionB = await client.connect({ walletId: walletB.walletId });
+
+    expect(await client.getSessions()).toHaveLength(2);
+    expect((await client.getActiveSession())?.sessionId).toBe(sessionB.sessionId);
+
+    const signed = await client.signMessage(
+      { message: 'hello' },
+      { sessionId: sessionA.sessionId }
+    );
+    expect(signed.signature).toBe('sig-wallet-a');
+    expect(walletA.signMessage).toHaveBeenCalledTimes(1);
+    expect(walletB.signMessage).not.toHaveBeenCalled();
+
+    client.destroy();
+  });
+
+  it('should reject calls that target an unknown session', async () => {
+    const client = createClient(storage, [walletA]);
+    await client.connect({ walletId: walletA.walletId });
+
+    await expect(
+      client.signMessage({ message: 'hello' }, { sessionId: toSessionId('missing') })
+    ).rejects.toBeInstanceOf(SessionExpiredError);
+
+    client.destroy();
+  });
+
+  it('should disconnect a single session and keep the others', async () => {
+    const client = createClient(storage, [walletA, walletB]);
+    const sessionA = await client.connect({ walletId: walletA.walletId });
+    const sessionB = await client.connect({ walletId: walletB.walletId });
+
+    await client.disconnect(sessionB.sessionId);
+
+    const remaining = await client.getSessions();
+    expect(remaining.map((s) => s.sessionId)).toEqual([sessionA.sessionId]);
+    expect((await client.getActiveSession())?.sessionId).toBe(sessionA.sessionId);
+
+    client.destroy();
+  });
+
+  it('should restore all sessions in a new client', async () => {
+    const first = createClient(storage, [walletA, walletB]);
+    const sessionA = await first.connect({ walletId: walletA.walletId });
+    await first.connect({ walletId: walletB.walletId });
+    await first.setActiveSession(sessionA.sessionId);
+    first.destroy();
+
+    const second = createClient(storage, [walletA, walletB]);
+    const sessions = await second.getSessions();
+
+    expect(sessions.map((s) => s.walletId)).toEqual(['wallet-a', 'wallet-b']);
+    expect((await second.getActiveSession())?.sessionId).toBe(sessionA.sessionId);
+    expect(walletA.restore).toHaveBeenCalledTimes(1);
+    expect(walletB.restore).toHaveBeenCalledTimes(1);
+
+    second.destroy();
+  });
+});
+
+describe('PartyLayerClient multi-party sessions', () => {
+  let storage: MemoryStorage;
+  let wallet: MockAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    wallet = new MockAdapter('wallet-a');
+    vi.spyOn(wallet, 'connect').mockResolvedValue({
+      partyId: toPartyId('party::one'),
+      accounts: [
+        { partyId: toPartyId('party::one'), primary: true },
+        { partyId: toPartyId('party::two'), primary: false },
+      ],
+      session: { walletId: wallet.walletId, network: 'devnet', createdAt: Date.now() },
+      capabilities: wallet.getCapabilities(),
+    });
+  });
+
+  it('should connect with a requested party', async () => {
+    const client = createClient(storage, [wallet]);
+    const session = await client.connect({
+      walletId: wallet.walletId,
+      partyId: toPartyId('party::two'),
+    });
+
+    expect(session.partyId).toBe('party::two');
+    expect(session.accounts).toHaveLength(2);
+
+    client.destroy();
+  });
+
+  it('should switch party, emit accounts:changed and persist the selection', async () => {
+    const client = createClient(storage, [wallet]);
+    const session = await client.connect({ walletId: wallet.walletId });
+    const listener = vi.fn();
+    client.on('accounts:changed', listener);
+
+    const switched = await client.switchParty(toPartyId('party::two'));
+
+    expect(switched.sessionId).toBe(session.sessionId);
+    expect(switched.partyId).toBe('party::two');
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: session.sessionId, partyId: 'party::two' })
+    );
+    expect(storage.data.get(`session_${session.sessionId}`)).toContain('party::two');
+
+    // The wallet would sign as party::one, its primary party
+    await expect(client.signMessage({ message: 'hello' })).rejects.toMatchObject({
+      code: 'CAPABILITY_NOT_SUPPORTED',
+    });
+    await expect(client.signIn({ domain: 'dapp.example' })).rejects.toMatchObject({
+      code: 'CAPABILITY_NOT_SUPPORTED',
+    });
+    expect(wallet.signMessage).not.toHaveBeenCalled();
+
+    await client.switchParty(toPartyId('party::one'));
+    await client.signMessage({ message: 'hello' });
+    expect(wallet.signMessage.mock.calls[0][1].partyId).toBe('party::one');
+
+    client.destroy();
+  });
+
+  it('should reject parties the session does not hold', async () => {
+    const client = createClient(storage, [wallet]);
+    await client.connect({ walletId: wallet.walletId });
+
+    await expect(client.switchParty(toPartyId('party::other'))).rejects.toBeInstanceOf(
+      PartyNotFoundError
+    );
+
+    client.destroy();
+  });
+});
+
+describe('PartyLayerClient network switching', () => {
+  let storage: MemoryStorage;
+  let wallet: MockAdapter;
+  let switchNetwork: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    wallet = new MockAdapter('wallet-a');
+    switchNetwork = vi.fn(async () => ({ partyId: toPartyId('party::testnet') }));
+    (wallet as WalletAdapter).switchNetwork = switchNetwork;
+  });
+
+  it('should re-key the session on the new network', async () => {
+    const client = createClient(storage, [wallet]);
+    const session = await client.connect({ walletId: wallet.walletId });
+    const listener = vi.fn();
+    client.on('network:changed', listener);
+
+    const switched = await client.switchNetwork('testnet');
+
+    expect(switched.sessionId).not.toBe(session.sessionId);
+    expect(switched.network).toBe('testnet');
+    expect(switched.partyId).toBe('party::testnet');
+    expect(switchNetwork.mock.calls[0][0].network).toBe('testnet');
+    expect(await client.getSession(session.sessionId)).toBeNull();
+    expect((await client.getActiveSession())?.sessionId).toBe(switched.sessionId);
+    expect(storage.data.has(`session_${session.sessionId}`)).toBe(false);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sessionId: switched.sessionId,
+        previousSessionId: session.sessionId,
+        network: 'testnet',
+        previousNetwork: 'devnet',
+      })
+    );
+
+    await client.signMessage({ message: 'hello' });
+    expect(wallet.signMessage.mock.calls[0][0]).toMatchObject({ network: 'testnet' });
+
+    client.destroy();
+  });
+
+  it('should reject networks the registry entry does not list', async () => {
+    const client = createClient(storage, [wallet]);
+    vi.spyOn(client.registryClient, 'getWallet').mockResolvedValue({
+      walletId: wallet.walletId,
+      name: wallet.name,
+      capabilities: ['connect', 'switchNetwork'],
+      adapter: { packageName: 'wallet-a', versionRange: '*' },
+      docs: [],
+      networks: ['devnet'],
+      channel: 'stable',
+    });
+    const session = await client.connect({ walletId: wallet.walletId });
+
+    await expect(client.switchNetwork('mainnet')).rejects.toBeInstanceOf(NetworkNotSupportedError);
+    expect(switchNetwork).not.toHaveBeenCalled();
+    expect((await client.getActiveSession())?.sessionId).toBe(session.sessionId);
+
+    client.destroy();
+  });
+
+  it('should reject wallets without switchNetwork', async () => {
+    const plain = new MockAdapter('wallet-b');
+    const client = createClient(storage, [plain]);
+    await client.connect({ walletId: plain.walletId });
+
+    await expect(client.switchNetwork('testnet')).rejects.toBeInstanceOf(
+      CapabilityNotSupportedError
+    );
+
+    client.destroy();
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Session Manager
+ *
+ * Holds every concurrent wallet session of a PartyLayerClient, keyed by
+ * SessionId, and persists them through the configured StorageAdapter and
+ * CryptoAdapter.
+ *
+ * Storage layout (keys are relative to the StorageAdapter namespace):
+ * - `session_<sessionId>`: encrypted session JSON
+ * - `session_index`: JSON array of persisted session IDs, including ones
+ *   this client has not restored (yet)
+ * - `active_session_id`: ID of the session used when no session is targeted
+ */
+
+import type {
+  SessionId,
+  Session,
+  PersistedSession,
+  StorageAdapter,
+  CryptoAdapter,
+  LoggerAdapter,
+} from '@partylayer/core';
+import { toSessionId } from '@partylayer/core';
+
+const SESSION_INDEX_KEY = 'session_index';
+const ACTIVE_SESSION_KEY = 'active_session_id';
+
+/**
+ * Drop storage-only fields that adapters may echo back from restore()
+ */
+function stripPersistedFields(session: Session | PersistedSession): Session {
+  const copy = { ...session } as Partial<PersistedSession>;
+  delete copy.encrypted;
+  return copy as Session;
+}
+
+/**
+ * Session manager options
+ */
+export interface SessionManagerOptions {
+  /** Storage backend */
+  storage: StorageAdapter;
+  /** Crypto used to encrypt persisted sessions */
+  crypto: CryptoAdapter;
+  /** Origin used as encryption key */
+  origin: string;
+  /** Logger */
+  logger: LoggerAdapter;
+}
+
+/**
+ * Sessions loaded from storage
+ */
+export interface PersistedSessionState {
+  /** Decrypted sessions, in persisted order */
+  sessions: PersistedSession[];
+  /** Persisted active session ID */
+  activeSessionId: SessionId | null;
+}
+
+/**
+ * Session manager
+ */
+export class SessionManager {
+  private sessions = new Map<SessionId, Session>();
+  private activeSessionId: SessionId | null = null;
+  private options: SessionManagerOptions;
+
+  constructor(options: SessionManagerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Get a session by ID
+   */
+  get(sessionId: SessionId): Session | null {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  /**
+   * List all sessions, oldest first
+   */
+  list(): Session[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Get the active session
+   */
+  getActive(): Session | null {
+    return this.activeSessionId ? this.get(this.activeSessionId) : null;
+  }
+
+  /**
+   * Add a session and persist it.
+   *
+   * The session becomes active when `activate` is set or when there
+   * is no active session yet.
+   */
+  async add(session: Session, options?: { activate?: boolean }): Promise<void> {
+    session = stripPersistedFields(session);
+    this.sessions.set(session.sessionId, session);
+    await this.persist(session);
+    await this.persistIndex();
+
+    if (options?.activate !== false || !this.activeSessionId) {
+      await this.setActive(session.sessionId);
+    }
+  }
+
+  /**
+   * Replace a known session (e.g. after restore updated its metadata)
+   */
+  async update(session: Session): Promise<void> {
+    if (!this.sessions.has(session.sessionId)) {
+      return;
+    }
+    session = stripPersistedFields(session);
+    this.sessions.set(session.sessionId, session);
+    await this.persist(session);
+  }
+
+  /**
+   * Remove a session from memory and storage.
+   *
+   * If the removed session was active, the most recently added
+   * remaining session becomes active.
+   */
+  async remove(sessionId: SessionId): Promise<Session | null> {
+    const session = this.get(sessionId);
+    this.sessions.delete(sessionId);
+
+    try {
+      await this.options.storage.remove(`session_${sessionId}`);
+    } catch (err) {
+      this.options.logger.warn('Failed to remove session', err);
+    }
+    await this.persistIndex([sessionId]);
+
+    if (this.activeSessionId === sessionId) {
+      const remaining = this.list();
+      const next = remaining[remaining.length - 1];
+      await this.setActive(next ? next.sessionId : null);
+    }
+
+    return session;
+  }
+
+  /**
+   * Add or replace a session in memory only.
+   *
+   * Used for changes another tab already persisted.
+   */
+  track(session: Session, options?: { activate?: boolean }): void {
+    this.sessions.set(session.sessionId, stripPersistedFields(session));
+    if (options?.activate || !this.activeSessionId) {
+      this.activeSessionId = session.sessionId;
+    }
+  }
+
+  /**
+   * Remove a session from memory only, with the same active-session
+   * fallback as remove()
+   */
+  untrack(sessionId: SessionId): Session | null {
+    const session = this.get(sessionId);
+    this.sessions.delete(sessionId);
+
+    if (this.activeSessionId === sessionId) {
+      const remaining = this.list();
+      this.activeSessionId = remaining.length ? remaining[remaining.length - 1].sessionId : null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Read and decrypt a single persisted session
+   */
+  async load(sessionId: SessionId): Promise<Session | null> {
+    const { storage, crypto, origin, logger } = this.options;
+    try {
+      const encrypted = await storage.get(`session_${sessionId}`);
+      if (!encrypted) {
+        return null;
+      }
+      return JSON.parse(await crypto.decrypt(encrypted, origin)) as Session;
+    } catch (err) {
+      logger.warn('Failed to load persisted session', { sessionId, err });
+      return null;
+    }
+  }
+
+  /**
+   * Set the active session
+   *
+   * @param options.persist Write the choice to storage (default: true)
+   */
+  async setActive(sessionId: SessionId | null, options?: { persist?: boolean }): Promise<void> {
+    if (sessionId && !this.sessions.has(sessionId)) {
+      throw new Error(`Unknown session "${sessionId}"`);
+    }
+
+    this.activeSessionId = sessionId;
+    if (options?.persist === false) {
+      return;
+    }
+    try {
+      if (sessionId) {
+        await this.options.storage.set(ACTIVE_SESSION_KEY, sessionId);
+      } else {
+        await this.options.storage.remove(ACTIVE_SESSION_KEY);
+      }
+    } catch (err) {
+      this.options.logger.warn('Failed to persist active session', err);
+    }
+  }
+
+  /**
+   * Load and decrypt all persisted sessions.
+   *
+   * Entries that are missing or cannot be decrypted are dropped from
+   * storage and the index. Loaded sessions are not added to the manager;
+   * the caller decides which ones survive restore. The others stay
+   * persisted until they are removed.
+   */
+  async loadPersisted(): Promise<PersistedSessionState> {
+    const { storage, crypto, origin, logger } = this.options;
+    const sessions: PersistedSession[] = [];
+    const dropped: string[] = [];
+
+    for (const id of await this.readIndex()) {
+      const key = `session_${id}`;
+      try {
+        const encrypted = await storage.get(key);
+        if (!encrypted) {
+          dropped.push(id);
+          continue;
+        }
+        const session = JSON.parse(await crypto.decrypt(encrypted, origin)) as Session;
+        sessions.push({ ...session, encrypted });
+      } catch (err) {
+        logger.warn('Failed to load persisted session', { sessionId: id, err });
+        await storage.remove(key).catch(() => {});
+        dropped.push(id);
+      }
+    }
+    if (dropped.length > 0) {
+      await this.persistIndex(dropped);
+    }
+
+    let activeSessionId: SessionId | null = null;
+    try {
+      const active = await storage.get(ACTIVE_SESSION_KEY);
+      activeSessionId = active ? toSessionId(active) : null;
+    } catch (err) {
+      logger.warn('Failed to read active session', err);
+    }
+
+    return { sessions, activeSessionId };
+  }
+
+  /**
+   * Re-encrypt every persisted session with the crypto's current key.
+   *
+   * Used after a key rotation. Entries that cannot be decrypted are
+   * dropped from storage.
+   */
+  async reencrypt(): Promise<void> {
+    const { storage, crypto, origin, logger } = this.options;
+
+    for (const id of await this.readIndex()) {
+      const key = `session_${id}`;
+      try {
+        const encrypted = await storage.get(key);
+        if (!encrypted) {
+          continue;
+        }
+        const data = await crypto.decrypt(encrypted, origin);
+        await storage.set(key, await crypto.encrypt(data, origin));
+      } catch (err) {
+        logger.warn('Failed to re-encrypt persisted session', { sessionId: id, err });
+        await storage.remove(key).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Forget all in-memory sessions (storage is left untouched)
+   */
+  clear(): void {
+    this.sessions.clear();
+    this.activeSessionId = null;
+  }
+
+  /**
+   * Persist a single session
+   */
+  private async persist(session: Session): Promise<void> {
+    try {
+      const data = JSON.stringify(session);
+      const encrypted = await this.options.crypto.encrypt(data, this.options.origin);
+      await this.options.storage.set(`session_${session.sessionId}`, encrypted);
+    } catch (err) {
+      this.options.logger.warn('Failed to persist session', err);
+    }
+  }
+
+  /**
+   * Read the persisted session index
+   */
+  private async readIndex(): Promise<string[]> {
+    try {
+      const index = await this.options.storage.get(SESSION_INDEX_KEY);
+      return index ? (JSON.parse(index) as string[]) : [];
+    } catch (err) {
+      this.options.logger.warn('Failed to read session index', err);
+      return [];
+    }
+  }
+
+  /**
+   * Persist the session index: the persisted IDs minus `removed`, plus
+   * the sessions in memory.
+   *
+   * Persisted sessions that were not restored (e.g. restore failed
+   * transiently or their adapter is not registered) are kept.
+   */
+  private async persistIndex(removed: string[] = []): Promise<void> {
+    try {
+      const ids = new Set((await this.readIndex()).filter((id) => !removed.includes(id)));
+      for (const id of this.sessions.keys()) {
+        ids.add(id);
+      }
+      await this.options.storage.set(SESSION_INDEX_KEY, JSON.stringify(Array.from(ids)));
+    } catch (err) {
+      this.options.logger.warn('Failed to persist session index', err);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Cross-tab Session Sync Tests
+ *
+ * Each PartyLayerClient stands in for a tab; they share one storage and
+ * talk over Node's BroadcastChannel.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { WalletAdapter, StorageAdapter } from '@partylayer/core';
+import { toWalletId, toPartyId, WalletNotFoundError } from '@partylayer/core';
+import { SessionSync } from './session-sync';
+import { PartyLayerClient } from './client';
+import type { PartyLayerEvent } from './events';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+const logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+const open: Array<{ destroy(): void } | { stop(): void }> = [];
+let channel = 0;
+
+function createAdapter(overrides: Partial<WalletAdapter> = {}): WalletAdapter {
+  return {
+    walletId: toWalletId('wallet-a'),
+    name: 'Wallet A',
+    getCapabilities: () => ['connect', 'restore'],
+    detectInstalled: async () => ({ installed: true }),
+    connect: async () => ({
+      partyId: toPartyId('party::a'),
+      accounts: [
+        { partyId: toPartyId('party::a'), primary: true },
+        { partyId: toPartyId('party::b') },
+      ],
+      session: { network: 'devnet', createdAt: Date.now() },
+      capabilities: ['connect', 'restore'],
+    }),
+    disconnect: async () => {},
+    ...overrides,
+  };
+}
+
+function createTab(storage: StorageAdapter, channelName: string, adapter = createAdapter()): PartyLayerClient {
+  const client = new PartyLayerClient({
+    network: 'devnet',
+    app: { name: 'Test dApp', origin: 'https://dapp.example' },
+    adapters: [adapter],
+    storage,
+    crypto: {
+      encrypt: async (data) => data,
+      decrypt: async (data) => data,
+      generateKey: async () => 'key',
+    },
+    logger,
+    sync: { channelName },
+  });
+  vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+  vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+    throw new WalletNotFoundError(id);
+  });
+  open.push(client);
+  return client;
+}
+
+function nextEvent<T extends PartyLayerEvent>(client: PartyLayerClient, type: T['type']): Promise<T> {
+  return new Promise((resolve) => {
+    const off = client.on<T>(type, (event) => {
+      off();
+      resolve(event);
+    });
+  });
+}
+
+afterEach(() => {
+  for (const item of open.splice(0)) {
+    if ('destroy' in item) item.destroy();
+    else item.stop();
+  }
+});
+
+describe('SessionSync leader election', () => {
+  it('should elect one leader and hand over when it stops', async () => {
+    const storage = new MemoryStorage();
+    const options = { channelName: `sync-test-${channel++}`, leaseMs: 40, storage, logger, onMessage: () => {} };
+    const first = new SessionSync(options);
+    const second = new SessionSync(options);
+    open.push(first, second);
+
+    await first.start();
+    await second.start();
+    expect(first.isLeader).toBe(true);
+    expect(second.isLeader).toBe(false);
+
+    first.stop();
+    await vi.waitFor(() => expect(second.isLeader).toBe(true));
+  });
+});
+
+describe('PartyLayerClient cross-tab sync', () => {
+  it('should propagate connect, party switches and disconnect', async () => {
+    const storage = new MemoryStorage();
+    const name = `sync-test-${channel++}`;
+    const tabA = createTab(storage, name);
+    const tabB = createTab(storage, name);
+    await tabB.getSessions();
+
+    const connected = nextEvent(tabB, 'session:connected');
+    const session = await tabA.connect({ walletId: toWalletId('wallet-a') });
+    await connected;
+    expect((await tabB.getActiveSession())?.sessionId).toBe(session.sessionId);
+
+    const accounts = nextEvent(tabB, 'accounts:changed');
+    await tabA.switchParty(toPartyId('party::b'));
+    expect(await accounts).toMatchObject({ partyId: 'party::b' });
+    expect((await tabB.getActiveSession())?.partyId).toBe('party::b');
+
+    const disconnected = nextEvent(tabB, 'session:disconnected');
+    await tabA.disconnect();
+    expect(await disconnected).toMatchObject({ sessionId: session.sessionId });
+    expect(await tabB.getActiveSession()).toBeNull();
+  });
+
+  it('should only restore sessions in the leader tab', async () => {
+    const storage = new MemoryStorage();
+    const name = `sync-test-${channel++}`;
+    const first = createTab(storage, name);
+    const session = await first.connect({ walletId: toWalletId('wallet-a') });
+    first.destroy();
+
+    const leaderRestore = vi.fn(async (_ctx: unknown, persisted: typeof session) => persisted);
+    const followerRestore = vi.fn(async (_ctx: unknown, persisted: typeof session) => persisted);
+    const leader = createTab(storage, name, createAdapter({ restore: leaderRestore }));
+    await leader.getSessions();
+    const follower = createTab(storage, name, createAdapter({ restore: followerRestore }));
+
+    expect((await follower.getActiveSession())?.sessionId).toBe(session.sessionId);
+    expect(leaderRestore).toHaveBeenCalledTimes(1);
+    expect(followerRestore).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Cross-tab Session Sync
+ *
+ * Propagates session changes between PartyLayerClient instances of the
+ * same origin (browser tabs) and elects one leader that runs restore and
+ * refresh.
+ *
+ * Transport: BroadcastChannel, falling back to `storage` events on
+ * localStorage. Messages only carry session IDs; receivers read the
+ * (encrypted) session from the shared StorageAdapter, so session data
+ * never travels over the channel.
+ *
+ * Leader election: Web Locks when available, otherwise a lease record in
+ * the StorageAdapter renewed by the leader.
+ */
+
+import type { SessionId, StorageAdapter, LoggerAdapter } from '@partylayer/core';
+
+/**
+ * Messages exchanged between tabs
+ */
+export type SessionSyncMessage =
+  | {
+      /** A session was added or changed; read it from storage */
+      type: 'upsert';
+      sessionId: SessionId;
+      reason: 'connect' | 'restore' | 'refresh' | 'party' | 'network';
+      /** Whether the session is now the active one */
+      active: boolean;
+      /** Session replaced by this one (network switch) */
+      previousSessionId?: SessionId;
+    }
+  | {
+      type: 'remove';
+      sessionId: SessionId;
+      reason: 'disconnect' | 'expired';
+    }
+  | {
+      /** The leader could not refresh a session ahead of expiry */
+      type: 'expiring';
+      sessionId: SessionId;
+    }
+  | {
+      type: 'active';
+      sessionId: SessionId | null;
+    };
+
+/**
+ * Session sync configuration
+ */
+export interface SessionSyncConfig {
+  /**
+   * BroadcastChannel name, localStorage key prefix and lock name
+   * @default 'partylayer_sessions'
+   */
+  channelName?: string;
+  /**
+   * Leader lease duration when Web Locks are unavailable
+   * @default 10000
+   */
+  leaseMs?: number;
+}
+
+/**
+ * Session sync options
+ */
+export interface SessionSyncOptions extends SessionSyncConfig {
+  /** Shared storage (holds the leader lease) */
+  storage: StorageAdapter;
+  /** Logger */
+  logger: LoggerAdapter;
+  /** Called for messages from other tabs */
+  onMessage: (message: SessionSyncMessage) => void;
+}
+
+type Envelope = SessionSyncMessage & { source: string };
+
+interface Lease {
+  holder: string;
+  expiresAt: number;
+}
+
+/**
+ * Check whether cross-tab sync can work in this environment
+ */
+export function isSessionSyncSupported(): boolean {
+  return (
+    typeof BroadcastChannel !== 'undefined' ||
+    (typeof window !== 'undefined' && typeof window.localStorage !== 'undefined')
+  );
+}
+
+/**
+ * Cross-tab session sync
+ *
+ * @internal
+ */
+export class SessionSync {
+  /** Identifier of this client instance */
+  readonly tabId = `tab_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+  private options: SessionSyncOptions;
+  private channelName: string;
+  private leaseMs: number;
+  private leader = false;
+  private stopped = false;
+  private channel?: BroadcastChannel;
+  private storageListener?: (event: StorageEvent) => void;
+  private leaseTimer?: ReturnType<typeof setInterval>;
+  private releaseLock?: () => void;
+
+  constructor(options: SessionSyncOptions) {
+    this.options = options;
+    this.channelName = options.channelName ?? 'partylayer_sessions';
+    this.leaseMs = options.leaseMs ?? 10000;
+  }
+
+  /**
+   * Whether this tab runs restore and refresh
+   */
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Open the transport and run the first leader election.
+   *
+   * Resolves once this tab knows whether it is the leader.
+   */
+  async start(): Promise<void> {
+    this.openTransport();
+
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      await this.electWithLocks();
+    } else {
+      await this.electWithLease();
+      this.leaseTimer = setInterval(() => {
+        this.electWithLease().catch((err) => this.options.logger.debug('Leader lease failed', err));
+      }, Math.max(1, Math.floor(this.leaseMs / 2)));
+      (this.leaseTimer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  /**
+   * Send a message to the other tabs
+   */
+  post(message: SessionSyncMessage): void {
+    if (this.stopped) {
+      return;
+    }
+
+    const envelope: Envelope = { ...message, source: this.tabId };
+    if (this.channel) {
+      this.channel.postMessage(envelope);
+    } else if (this.storageListener) {
+      try {
+        // A fresh value each time so repeated messages still fire `storage`
+        const key = `${this.channelName}_message`;
+        localStorage.setItem(key, JSON.stringify({ ...envelope, nonce: Math.random() }));
+        localStorage.removeItem(key);
+      } catch (err) {
+        this.options.logger.debug('Failed to post sync message', err);
+      }
+    }
+  }
+
+  /**
+   * Close the transport and give up leadership
+   */
+  stop(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+
+    this.channel?.close();
+    if (this.storageListener) {
+      window.removeEventListener('storage', this.storageListener);
+    }
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+    }
+    this.releaseLock?.();
+
+    if (this.leader && !this.releaseLock) {
+      // Let another tab take over without waiting for the lease to lapse
+      this.options.storage.remove(this.leaseKey).catch(() => {});
+    }
+    this.leader = false;
+  }
+
+  private get leaseKey(): string {
+    return `${this.channelName}_leader`;
+  }
+
+  private openTransport(): void {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.channelName);
+      this.channel.onmessage = (event: MessageEvent) => this.receive(event.data);
+      return;
+    }
+
+    if (typeof window !== 'undefined' && typeof window.localStorage !== 'undefined') {
+      const key = `${this.channelName}_message`;
+      this.storageListener = (event: StorageEvent) => {
+        if (event.key !== key || !event.newValue) {
+          return;
+        }
+        try {
+          this.receive(JSON.parse(event.newValue));
+        } catch {
+          /* ignore malformed messages */
+        }
+      };
+      window.addEventListener('storage', this.storageListener);
+    }
+  }
+
+  private receive(data: unknown): void {
+    const envelope = data as Partial<Envelope> | null;
+    if (this.stopped || !envelope || typeof envelope.type !== 'string' || envelope.source === this.tabId) {
+      return;
+    }
+
+    const message = { ...envelope } as Partial<Envelope> & { nonce?: unknown };
+    delete message.source;
+    delete message.nonce;
+    this.options.onMessage(message as SessionSyncMessage);
+  }
+
+  /**
+   * Try to take the lock; if another tab holds it, queue for it so this
+   * tab takes over when the leader goes away.
+   */
+  private electWithLocks(): Promise<void> {
+    const hold = () =>
+      new Promise<void>((resolve) => {
+        this.releaseLock = resolve;
+      });
+
+    return new Promise<void>((resolve) => {
+      navigator.locks
+        .request(this.channelName, { ifAvailable: true }, async (lock) => {
+          if (!lock) {
+            resolve();
+            if (this.stopped) return;
+
+            navigator.locks
+              .request(this.channelName, async () => {
+                if (this.stopped) return;
+                this.leader = true;
+                await hold();
+              })
+              .catch((err) => this.options.logger.debug('Leader lock failed', err));
+            return;
+          }
+
+          this.leader = true;
+          resolve();
+          await hold();
+        })
+        .catch((err) => {
+          this.options.logger.debug('Leader lock failed', err);
+          resolve();
+        });
+    });
+  }
+
+  /**
+   * Take or renew the lease if it is free, expired or ours
+   */
+  private async electWithLease(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    const { storage } = this.options;
+    let lease: Lease | null = null;
+    try {
+      const raw = await storage.get(this.leaseKey);
+      lease = raw ? (JSON.parse(raw) as Lease) : null;
+    } catch {
+      lease = null;
+    }
+
+    if (lease && lease.holder !== this.tabId && lease.expiresAt > Date.now()) {
+      this.leader = false;
+      return;
+    }
+
+    const next: Lease = { holder: this.tabId, expiresAt: Date.now() + this.leaseMs };
+    await storage.set(this.leaseKey, JSON.stringify(next));
+
+    // Read back: another tab may have written at the same time
+    const written = await storage.get(this.leaseKey);
+    this.leader = written !== null && (JSON.parse(written) as Lease).holder === this.tabId;
+  }
+}
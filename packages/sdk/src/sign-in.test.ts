@@ -0,0 +1,112 @@
+/**
+ * Sign-In-With-Canton Client Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createHash } from 'node:crypto';
+import type { WalletAdapter, StorageAdapter } from '@partylayer/core';
+import { toWalletId, toPartyId, toSignature, verifySignIn, WalletNotFoundError } from '@partylayer/core';
+import { PartyLayerClient } from './client';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+async function createClient() {
+  const keys = (await crypto.subtle.generateKey('Ed25519', true, ['sign', 'verify'])) as CryptoKeyPair;
+  const raw = Buffer.from(await crypto.subtle.exportKey('raw', keys.publicKey));
+  const publicKey = raw.toString('base64');
+  // The party's namespace is the key's fingerprint
+  const partyId = toPartyId(
+    `alice::1220${createHash('sha256').update(Buffer.from([0, 0, 0, 12])).update(raw).digest('hex')}`
+  );
+
+  const adapter: WalletAdapter = {
+    walletId: toWalletId('wallet-a'),
+    name: 'Wallet A',
+    getCapabilities: () => ['connect', 'signMessage'],
+    detectInstalled: async () => ({ installed: true }),
+    connect: async () => ({
+      partyId,
+      session: { network: 'devnet', createdAt: Date.now() },
+      capabilities: ['connect', 'signMessage'],
+    }),
+    disconnect: async () => {},
+    signMessage: async (_ctx, _session, params) => ({
+      partyId,
+      message: params.message,
+      nonce: params.nonce,
+      domain: params.domain,
+      signature: toSignature(
+        Buffer.from(
+          await crypto.subtle.sign('Ed25519', keys.privateKey, new TextEncoder().encode(params.message))
+        ).toString('base64')
+      ),
+    }),
+  };
+
+  const client = new PartyLayerClient({
+    network: 'devnet',
+    app: { name: 'Test dApp', origin: 'https://app.example.com' },
+    adapters: [adapter],
+    storage: new MemoryStorage(),
+    crypto: {
+      encrypt: async (data) => data,
+      decrypt: async (data) => data,
+      generateKey: async () => 'key',
+    },
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+    sync: false,
+  });
+  vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+  vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+    throw new WalletNotFoundError(id);
+  });
+  return { client, publicKey, partyId };
+}
+
+describe('signIn', () => {
+  it('should sign a message the server can verify', async () => {
+    const { client, publicKey, partyId } = await createClient();
+    await client.connect({ walletId: toWalletId('wallet-a') });
+
+    const { message, signed } = await client.signIn({
+      nonce: 'servernonce1',
+      statement: 'Sign in to Example',
+      resources: ['https://app.example.com/orders'],
+    });
+    expect(message).toMatchObject({
+      domain: 'app.example.com',
+      uri: 'https://app.example.com',
+      partyId,
+      network: 'devnet',
+    });
+
+    const result = await verifySignIn({
+      message: signed.message,
+      signature: signed.signature,
+      publicKey,
+      domain: 'app.example.com',
+      nonce: 'servernonce1',
+      partyId: signed.partyId,
+      network: 'devnet',
+    });
+    expect(result).toMatchObject({ valid: true, message: { resources: ['https://app.example.com/orders'] } });
+    client.destroy();
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Session Storage Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Session } from '@partylayer/core';
+import { toSessionId, toWalletId, toPartyId, InternalError } from '@partylayer/core';
+import { IndexedDBSessionStorage, LocalSessionStorage } from './storage';
+import { SessionKeyManager, MemoryKeyStore } from './key-manager';
+
+const ORIGIN = 'https://dapp.example';
+
+// ─── In-memory localStorage and IndexedDB ───────────────────────────────────
+
+class MemoryLocalStorage {
+  data = new Map<string, string>();
+  failRemovals = false;
+  get length() {
+    return this.data.size;
+  }
+  key(index: number) {
+    return Array.from(this.data.keys())[index] ?? null;
+  }
+  getItem(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  removeItem(key: string) {
+    if (this.failRemovals) throw new Error('storage unavailable');
+    this.data.delete(key);
+  }
+}
+
+type Row = Record<string, unknown>;
+
+/** Just enough of IndexedDB for IndexedDBSessionStorage */
+class FakeIndexedDB {
+  databases = new Map<string, Map<string, Row>>();
+  /** Transactions that will abort with QuotaExceededError */
+  quotaFailures = 0;
+
+  open(name: string) {
+    const request: Record<string, unknown> & { onupgradeneeded?: () => void; onsuccess?: () => void } = {};
+    setTimeout(() => {
+      let rows = this.databases.get(name);
+      const upgrade = !rows;
+      rows ??= new Map();
+      this.databases.set(name, rows);
+      request.result = this.connection(rows);
+      if (upgrade) request.onupgradeneeded?.();
+      request.onsuccess?.();
+    });
+    return request;
+  }
+
+  private connection(rows: Map<string, Row>) {
+    return {
+      createObjectStore: () => ({ createIndex: () => {} }),
+      transaction: () => this.transaction(rows),
+    };
+  }
+
+  private transaction(rows: Map<string, Row>) {
+    const snapshot = new Map(rows);
+    const callbacks: Array<() => void> = [];
+    const tx: Record<string, unknown> & {
+      oncomplete?: () => void;
+      onabort?: () => void;
+    } = {};
+
+    const request = (run: () => unknown) => {
+      const req: { result?: unknown; onsuccess?: () => void } = {};
+      req.result = run();
+      callbacks.push(() => req.onsuccess?.());
+      return req;
+    };
+    const index = (field: string) => ({
+      getAll: (value: unknown) => request(() => [...rows.values()].filter((row) => row[field] === value)),
+      openCursor: (range: { upper: number }) => {
+        const matches = [...rows.values()].filter((row) => (row[field] as number) <= range.upper);
+        const req: { result: unknown; onsuccess?: () => void } = { result: null };
+        callbacks.push(() => {
+          for (let i = 0; ; i++) {
+            const row = matches[i];
+            let advanced = false;
+            req.result = row
+              ? {
+                  delete: () => rows.delete(row.sessionId as string),
+                  continue: () => {
+                    advanced = true;
+                  },
+                }
+              : null;
+            req.onsuccess?.();
+            if (!row || !advanced) break;
+          }
+        });
+        return req;
+      },
+    });
+
+    tx.objectStore = () => ({
+      get: (key: string) => request(() => rows.get(key)),
+      getAll: () => request(() => [...rows.values()]),
+      getAllKeys: () => request(() => [...rows.keys()]),
+      put: (row: Row) => request(() => rows.set(row.sessionId as string, structuredClone(row))),
+      delete: (key: string) => request(() => rows.delete(key)),
+      clear: () => request(() => rows.clear()),
+      index,
+    });
+
+    setTimeout(() => {
+      callbacks.forEach((callback) => callback());
+      const wrote = [...rows].some(([key, row]) => snapshot.get(key) !== row);
+      if (wrote && this.quotaFailures > 0) {
+        this.quotaFailures--;
+        rows.clear();
+        snapshot.forEach((row, key) => rows.set(key, row));
+        tx.error = Object.assign(new Error('quota'), { name: 'QuotaExceededError' });
+        tx.onabort?.();
+        return;
+      }
+      tx.oncomplete?.();
+    });
+    return tx;
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function createSession(id: string, expiresAt?: number): Session {
+  return {
+    sessionId: toSessionId(id),
+    walletId: toWalletId('wallet-a'),
+    partyId: toPartyId('alice::1220abcd'),
+    network: 'devnet',
+    createdAt: 1,
+    origin: ORIGIN,
+    capabilitiesSnapshot: [],
+    ...(expiresAt !== undefined && { expiresAt }),
+  } as Session;
+}
+
+/** Encrypt the way LocalSessionStorage did before per-install keys */
+async function legacyEncrypt(data: string, origin: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(origin));
+  const key = await crypto.subtle.importKey('raw', hash, { name: 'AES-GCM' }, false, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(data)));
+  return btoa(String.fromCharCode(...iv, ...encrypted));
+}
+
+let localStorage: MemoryLocalStorage;
+let indexedDB: FakeIndexedDB;
+
+beforeEach(() => {
+  localStorage = new MemoryLocalStorage();
+  indexedDB = new FakeIndexedDB();
+  vi.stubGlobal('window', { localStorage });
+  vi.stubGlobal('localStorage', localStorage);
+  vi.stubGlobal('indexedDB', indexedDB);
+  vi.stubGlobal('IDBKeyRange', { upperBound: (upper: number) => ({ upper }) });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe('LocalSessionStorage', () => {
+  it('should read legacy entries and re-encrypt them with the current key', async () => {
+    const session = createSession('legacy-1');
+    localStorage.setItem('partylayer_session_legacy-1', await legacyEncrypt(JSON.stringify(session), ORIGIN));
+    localStorage.setItem('partylayer_session_legacy-2', btoa(JSON.stringify(createSession('legacy-2'))));
+    const storage = new LocalSessionStorage(ORIGIN, new SessionKeyManager(new MemoryKeyStore()));
+
+    expect(await storage.get('legacy-1')).toEqual(session);
+    expect(localStorage.getItem('partylayer_session_legacy-1')).toMatch(/^v1\./);
+    expect(await storage.get('legacy-1')).toEqual(session);
+    expect(await storage.get('legacy-2')).toMatchObject({ sessionId: 'legacy-2' });
+
+    // Another origin's legacy key does not decrypt, and the entry is dropped
+    localStorage.setItem('partylayer_session_other', await legacyEncrypt(JSON.stringify(session), 'https://other.example'));
+    expect(await storage.get('other')).toBeNull();
+    expect(localStorage.getItem('partylayer_session_other')).toBeNull();
+  });
+});
+
+describe('IndexedDBSessionStorage', () => {
+  it('should migrate legacy localStorage sessions', async () => {
+    const session = createSession('legacy-1');
+    localStorage.setItem('partylayer_session_legacy-1', await legacyEncrypt(JSON.stringify(session), ORIGIN));
+    const storage = new IndexedDBSessionStorage(ORIGIN, { keys: new SessionKeyManager(new MemoryKeyStore()) });
+
+    expect(await storage.getAll()).toEqual([session]);
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should resume a migration interrupted before localStorage was cleaned up', async () => {
+    const keys = new SessionKeyManager(new MemoryKeyStore());
+    await new LocalSessionStorage(ORIGIN, keys).set(createSession('s1'));
+
+    localStorage.failRemovals = true;
+    const first = new IndexedDBSessionStorage(ORIGIN, { keys });
+    expect(await first.getAll()).toHaveLength(1);
+    expect(localStorage.length).toBe(1);
+
+    // Updated after the migration; the stale localStorage copy must not win
+    await first.set({ ...createSession('s1'), createdAt: 2 });
+
+    localStorage.failRemovals = false;
+    const second = new IndexedDBSessionStorage(ORIGIN, { keys });
+    expect(await second.getAll()).toEqual([{ ...createSession('s1'), createdAt: 2 }]);
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should prune expired sessions when the quota is exceeded', async () => {
+    const storage = new IndexedDBSessionStorage(ORIGIN, { keys: new SessionKeyManager(new MemoryKeyStore()) });
+    await storage.set(createSession('expired', 1));
+
+    indexedDB.quotaFailures = 1;
+    await storage.set(createSession('fresh'));
+    expect((await storage.getAll()).map((s) => s.sessionId)).toEqual(['fresh']);
+
+    // Nothing left to prune
+    indexedDB.quotaFailures = 1;
+    const error = await storage.set(createSession('another')).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(InternalError);
+    expect((error as InternalError).message).toBe('Session storage quota exceeded');
+    expect(await storage.get('another')).toBeNull();
+  });
+});
@@ -4,6 +4,8 @@
  */
 
 import type { Session } from '@partylayer/core';
+import { InternalError } from '@partylayer/core';
+import { SessionKeyManager } from './key-manager';
 // InvalidSessionError removed - use SessionExpiredError or OriginNotAllowedError instead
 
 /**
@@ -11,115 +13,6 @@ import type { Session } from '@partylayer/core';
  */
 const STORAGE_PREFIX = 'partylayer_session_';
 
-/**
- * Simple encryption/decryption using Web Crypto API
- * In production, consider using a more robust encryption scheme
- */
-class SessionEncryption {
-  private static readonly ALGORITHM = 'AES-GCM';
-  private static readonly KEY_LENGTH = 256;
-  private static readonly IV_LENGTH = 12;
-
-  /**
-   * Generate encryption key from origin (deterministic)
-   */
-  private static async getKey(origin: string): Promise<CryptoKey> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(origin);
-    const hash = await crypto.subtle.digest('SHA-256', data);
-    return crypto.subtle.importKey(
-      'raw',
-      hash.slice(0, this.KEY_LENGTH / 8),
-      { name: this.ALGORITHM },
-      false,
-      ['encrypt', 'decrypt']
-    );
-  }
-
-  /**
-   * Encrypt session data
-   */
-  static async encrypt(
-    data: string,
-    origin: string
-  ): Promise<string> {
-    if (typeof crypto === 'undefined' || !crypto.subtle) {
-      // Fallback for environments without Web Crypto API
-      return btoa(data);
-    }
-
-    try {
-      const key = await this.getKey(origin);
-      const iv = crypto.getRandomValues(
-        new Uint8Array(this.IV_LENGTH)
-      );
-      const encoder = new TextEncoder();
-      const encoded = encoder.encode(data);
-
-      const encrypted = await crypto.subtle.encrypt(
-        {
-          name: this.ALGORITHM,
-          iv,
-        },
-        key,
-        encoded
-      );
-
-      // Combine IV and encrypted data
-      const combined = new Uint8Array(
-        iv.length + encrypted.byteLength
-      );
-      combined.set(iv);
-      combined.set(new Uint8Array(encrypted), iv.length);
-
-      // Convert to base64
-      return btoa(String.fromCharCode(...combined));
-    } catch (error) {
-      // Fallback to base64 if encryption fails
-      return btoa(data);
-    }
-  }
-
-  /**
-   * Decrypt session data
-   */
-  static async decrypt(
-    encrypted: string,
-    origin: string
-  ): Promise<string> {
-    if (typeof crypto === 'undefined' || !crypto.subtle) {
-      // Fallback for environments without Web Crypto API
-      return atob(encrypted);
-    }
-
-    try {
-      const key = await this.getKey(origin);
-      const combined = Uint8Array.from(
-        atob(encrypted),
-        (c) => c.charCodeAt(0)
-      );
-
-      const iv = combined.slice(0, this.IV_LENGTH);
-      const data = combined.slice(this.IV_LENGTH);
-
-      const decrypted = await crypto.subtle.decrypt(
-        {
-          name: this.ALGORITHM,
-          iv,
-        },
-        key,
-        data
-      );
-
-      const decoder = new TextDecoder();
-      return decoder.decode(decrypted);
-    } catch (error) {
-      // Fallback to base64 if decryption fails
-      return atob(encrypted);
-    }
-  }
-}
-
 /**
  * Session storage interface
  */
@@ -133,12 +26,17 @@ export interface SessionStorage {
 
 /**
  * LocalStorage-based session storage with encryption
+ *
+ * Entries written before per-install keys (see decryptLegacy()) are still
+ * read, and re-encrypted with the current key on first read.
  */
 export class LocalSessionStorage implements SessionStorage {
   private origin: string;
+  private keys: SessionKeyManager;
 
-  constructor(origin: string) {
+  constructor(origin: string, keys: SessionKeyManager = new SessionKeyManager()) {
     this.origin = origin;
+    this.keys = keys;
   }
 
   async get(sessionId: string): Promise<Session | null> {
@@ -154,10 +52,11 @@ export class LocalSessionStorage implements SessionStorage {
         return null;
       }
 
-      const decrypted = await SessionEncryption.decrypt(
-        encrypted,
-        this.origin
-      );
+      // Envelopes always contain dots, legacy base64 entries never do
+      const legacy = !encrypted.includes('.');
+      const decrypted = legacy
+        ? await decryptLegacy(encrypted, this.origin)
+        : await this.keys.decrypt(encrypted, this.origin);
       const session = JSON.parse(decrypted) as Session;
 
       // Validate origin matches
@@ -166,6 +65,9 @@ export class LocalSessionStorage implements SessionStorage {
         return null;
       }
 
+      if (legacy) {
+        await this.set(session);
+      }
       return session;
     } catch (error) {
       // If decryption/parsing fails, remove invalid entry
@@ -179,16 +81,33 @@ export class LocalSessionStorage implements SessionStorage {
       return;
     }
 
+    // Encryption errors propagate: sessions are never stored unencrypted
+    const key = `${STORAGE_PREFIX}${session.sessionId}`;
+    const encrypted = await this.keys.encrypt(JSON.stringify(session), this.origin);
+
     try {
-      const key = `${STORAGE_PREFIX}${session.sessionId}`;
-      const data = JSON.stringify(session);
-      const encrypted = await SessionEncryption.encrypt(data, this.origin);
       localStorage.setItem(key, encrypted);
     } catch (error) {
       // Silently fail if storage is unavailable
     }
   }
 
+  /**
+   * Rotate the encryption key and re-encrypt stored sessions.
+   *
+   * Entries that cannot be decrypted are removed.
+   */
+  async rotateKey(): Promise<void> {
+    await this.keys.rotate();
+
+    const sessions = await this.getAll();
+    for (const session of sessions) {
+      await this.set(session);
+    }
+
+    await this.keys.retireOldKeys();
+  }
+
   async remove(sessionId: string): Promise<void> {
     if (typeof window === 'undefined' || !window.localStorage) {
       return;
@@ -250,6 +169,313 @@ export class LocalSessionStorage implements SessionStorage {
   }
 }
 
+/**
+ * Persisted IndexedDB record.
+ *
+ * walletId, partyId and expiresAt are kept in the clear for the indexes;
+ * the full session is in the encrypted `data` envelope.
+ */
+interface SessionRecord {
+  sessionId: string;
+  walletId: string;
+  partyId: string;
+  origin: string;
+  expiresAt?: number;
+  data: string;
+}
+
+/**
+ * IndexedDB-based session storage with encryption
+ *
+ * Indexed by walletId, partyId and expiresAt. Every write is a single
+ * transaction. When the quota is exceeded, expired sessions are pruned and
+ * the write is retried once.
+ *
+ * On first use, sessions stored by LocalSessionStorage (including legacy
+ * entries) are moved over and removed from localStorage.
+ */
+export class IndexedDBSessionStorage implements SessionStorage {
+  private static readonly STORE = 'sessions';
+  private origin: string;
+  private keys: SessionKeyManager;
+  private dbName: string;
+  private db?: Promise<IDBDatabase>;
+  private migration?: Promise<void>;
+
+  constructor(
+    origin: string,
+    options: { keys?: SessionKeyManager; dbName?: string } = {}
+  ) {
+    this.origin = origin;
+    this.keys = options.keys ?? new SessionKeyManager();
+    this.dbName = options.dbName ?? 'partylayer_sessions';
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    const record = await this.read<SessionRecord | undefined>((store) => store.get(sessionId));
+    return record ? this.decode(record) : null;
+  }
+
+  async set(session: Session): Promise<void> {
+    await this.ready();
+    await this.put([await this.encode(session)]);
+  }
+
+  async remove(sessionId: string): Promise<void> {
+    await this.ready();
+    await this.write((store) => {
+      store.delete(sessionId);
+    });
+  }
+
+  async getAll(): Promise<Session[]> {
+    return this.decodeAll(await this.read<SessionRecord[]>((store) => store.getAll()));
+  }
+
+  /**
+   * Sessions of a wallet
+   */
+  async getByWallet(walletId: string): Promise<Session[]> {
+    return this.decodeAll(
+      await this.read<SessionRecord[]>((store) => store.index('walletId').getAll(walletId))
+    );
+  }
+
+  /**
+   * Sessions of a party
+   */
+  async getByParty(partyId: string): Promise<Session[]> {
+    return this.decodeAll(
+      await this.read<SessionRecord[]>((store) => store.index('partyId').getAll(partyId))
+    );
+  }
+
+  /**
+   * Delete sessions that expired at or before `now`
+   *
+   * @returns Number of deleted sessions
+   */
+  async removeExpired(now: number = Date.now()): Promise<number> {
+    await this.ready();
+    return this.pruneExpired(now);
+  }
+
+  async clear(): Promise<void> {
+    await this.ready();
+    await this.write((store) => {
+      store.clear();
+    });
+  }
+
+  private async pruneExpired(now: number): Promise<number> {
+    let removed = 0;
+    await this.write((store) => {
+      const cursor = store.index('expiresAt').openCursor(IDBKeyRange.upperBound(now));
+      cursor.onsuccess = () => {
+        if (cursor.result) {
+          cursor.result.delete();
+          removed++;
+          cursor.result.continue();
+        }
+      };
+    });
+    return removed;
+  }
+
+  private async encode(session: Session): Promise<SessionRecord> {
+    // Encryption errors propagate: sessions are never stored unencrypted
+    return {
+      sessionId: String(session.sessionId),
+      walletId: String(session.walletId),
+      partyId: String(session.partyId),
+      origin: session.origin,
+      ...(session.expiresAt !== undefined && { expiresAt: session.expiresAt }),
+      data: await this.keys.encrypt(JSON.stringify(session), this.origin),
+    };
+  }
+
+  private async decode(record: SessionRecord): Promise<Session | null> {
+    if (record.origin !== this.origin) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await this.keys.decrypt(record.data, this.origin)) as Session;
+    } catch {
+      // Unreadable (e.g. its key was retired): drop it
+      await this.remove(record.sessionId).catch(() => {});
+      return null;
+    }
+  }
+
+  private async decodeAll(records: SessionRecord[]): Promise<Session[]> {
+    const sessions: Session[] = [];
+    for (const record of records) {
+      const session = await this.decode(record);
+      if (session) {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  /**
+   * Write records in one transaction, pruning expired sessions and
+   * retrying once if the quota is exceeded
+   */
+  private async put(records: SessionRecord[]): Promise<void> {
+    const putAll = () =>
+      this.write((store) => {
+        for (const record of records) {
+          store.put(record);
+        }
+      });
+
+    try {
+      await putAll();
+    } catch (err) {
+      if (!isQuotaError(err)) {
+        throw new InternalError('Failed to store session', err);
+      }
+      if ((await this.pruneExpired(Date.now())) === 0) {
+        throw new InternalError('Session storage quota exceeded', err);
+      }
+      try {
+        await putAll();
+      } catch (retryErr) {
+        throw new InternalError('Session storage quota exceeded', retryErr);
+      }
+    }
+  }
+
+  private async read<T>(fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    await this.ready();
+    return this.query<T>(fn);
+  }
+
+  /**
+   * Run a readonly request without waiting for the migration
+   */
+  private async query<T>(fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(IndexedDBSessionStorage.STORE, 'readonly');
+      const request = fn(tx.objectStore(IndexedDBSessionStorage.STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Run a readwrite transaction; resolves once it has committed
+   */
+  private async write(fn: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(IndexedDBSessionStorage.STORE, 'readwrite');
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+      fn(tx.objectStore(IndexedDBSessionStorage.STORE));
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new InternalError('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(IndexedDBSessionStorage.STORE, {
+            keyPath: 'sessionId',
+          });
+          store.createIndex('walletId', 'walletId');
+          store.createIndex('partyId', 'partyId');
+          store.createIndex('expiresAt', 'expiresAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a retry after a failed open
+      this.db.catch(() => {
+        this.db = undefined;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Open the database and run the localStorage migration once
+   */
+  private ready(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.open().then(() => this.migrate());
+      this.migration.catch(() => {
+        this.migration = undefined;
+      });
+    }
+    return this.migration;
+  }
+
+  /**
+   * Move LocalSessionStorage entries of this origin into IndexedDB
+   *
+   * Sessions already in IndexedDB are not overwritten: they are newer if a
+   * previous migration stopped before removing the localStorage entries.
+   */
+  private async migrate(): Promise<void> {
+    const legacy = new LocalSessionStorage(this.origin, this.keys);
+    const sessions = await legacy.getAll();
+    if (sessions.length === 0) {
+      return;
+    }
+
+    const stored = new Set(await this.query<IDBValidKey[]>((store) => store.getAllKeys()));
+    const records: SessionRecord[] = [];
+    for (const session of sessions) {
+      if (!stored.has(String(session.sessionId))) {
+        records.push(await this.encode(session));
+      }
+    }
+    if (records.length > 0) {
+      await this.put(records);
+    }
+
+    // Only remove once the sessions are committed to IndexedDB
+    for (const session of sessions) {
+      await legacy.remove(session.sessionId);
+    }
+  }
+}
+
+/**
+ * Decrypt an entry written before per-install keys: base64 of the IV and
+ * the AES-GCM ciphertext under SHA-256(origin), or plain base64 where Web
+ * Crypto was unavailable or failed
+ */
+async function decryptLegacy(encrypted: string, origin: string): Promise<string> {
+  const combined = Uint8Array.from(atob(encrypted), (c) => c.charCodeAt(0));
+  try {
+    const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(origin));
+    const key = await crypto.subtle.importKey('raw', hash, { name: 'AES-GCM' }, false, ['decrypt']);
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: combined.slice(0, 12) },
+      key,
+      combined.slice(12)
+    );
+    return new TextDecoder().decode(decrypted);
+  } catch {
+    return atob(encrypted);
+  }
+}
+
+function isQuotaError(err: unknown): boolean {
+  return (err as { name?: unknown } | null)?.name === 'QuotaExceededError';
+}
+
 /**
  * Memory-based session storage (for testing/server-side)
  */
@@ -0,0 +1,216 @@
+/**
+ * Transaction Preview Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { WalletAdapter, StorageAdapter, LedgerApiParams } from '@partylayer/core';
+import {
+  toWalletId,
+  toPartyId,
+  DamlTransactionBuilder,
+  WalletNotFoundError,
+  CapabilityNotSupportedError,
+  TransactionFailedError,
+} from '@partylayer/core';
+import { parsePrepareResponse, PREPARE_RESOURCE } from './tx-preview';
+import { PartyLayerClient } from './client';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+// ─── Minimal protobuf encoder ───────────────────────────────────────────────
+
+type Field = [number, string | number | Uint8Array];
+
+function varint(value: number): number[] {
+  const out: number[] = [];
+  while (value >= 0x80) {
+    out.push((value % 128) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  out.push(value);
+  return out;
+}
+
+function encode(...fields: Field[]): Uint8Array {
+  const out: number[] = [];
+  for (const [field, value] of fields) {
+    if (typeof value === 'number') {
+      out.push(...varint(field * 8), ...varint(value));
+    } else {
+      const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+      out.push(...varint(field * 8 + 2), ...varint(bytes.length), ...bytes);
+    }
+  }
+  return new Uint8Array(out);
+}
+
+const id = (entity: string) => encode([1, 'pkg'], [2, 'Main'], [3, entity]);
+const node = (nodeId: string, v1: Uint8Array) => encode([1, nodeId], [1000, v1]);
+
+function preparedTransaction(): string {
+  const transfer = encode(
+    [3, encode(
+      [2, '00old'],
+      [3, 'my-pkg'],
+      [4, id('Asset')],
+      [5, 'alice'],
+      [6, 'alice'],
+      [6, 'bank'],
+      [7, 'alice'],
+      [9, 'Transfer'],
+      [11, 1],
+      [12, '1'],
+      [12, '2'],
+    )],
+  );
+  const created = encode([1, encode([2, '00new'], [3, 'my-pkg'], [4, id('Asset')], [6, 'bank'], [7, 'bank'], [7, 'bob'])]);
+  const rollback = encode([4, encode([1, '3'])]);
+  const rolledBack = encode([1, encode([2, '00ghost'], [4, id('Ghost')], [6, 'mallory'])]);
+  const fetch = encode([2, encode([2, '00rate'], [4, id('Rate')])]);
+
+  const transaction = encode(
+    [1, '2.1'],
+    [2, '0'],
+    [2, '4'],
+    [3, node('0', transfer)],
+    [3, node('1', created)],
+    [3, node('2', rollback)],
+    [3, node('3', rolledBack)],
+    [3, node('4', fetch)],
+  );
+  return Buffer.from(encode([1, transaction], [2, encode([1, 'metadata'])])).toString('base64');
+}
+
+function prepareResponse(extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    preparedTransaction: preparedTransaction(),
+    preparedTransactionHash: 'aGFzaA==',
+    hashingSchemeVersion: 'HASHING_SCHEME_VERSION_V2',
+    ...extra,
+  });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+describe('parsePrepareResponse', () => {
+  it('should summarize created and archived contracts, skipping rolled-back nodes', () => {
+    const preview = parsePrepareResponse(
+      prepareResponse({
+        costEstimation: {
+          estimationTimestamp: '2026-01-01T00:00:00Z',
+          confirmationRequestTrafficCostEstimation: 900,
+          confirmationResponseTrafficCostEstimation: 300,
+          totalTrafficCostEstimation: 1200,
+        },
+      }),
+      'cmd-1'
+    );
+
+    expect(preview.created).toEqual([
+      { templateId: 'pkg:Main:Asset', packageName: 'my-pkg', contractId: '00new', signatories: ['bank'], stakeholders: ['bank', 'bob'] },
+    ]);
+    expect(preview.archived).toEqual([
+      { templateId: 'pkg:Main:Asset', packageName: 'my-pkg', contractId: '00old', signatories: ['alice'], stakeholders: ['alice', 'bank'] },
+    ]);
+    expect(preview.exercised).toEqual([
+      { templateId: 'pkg:Main:Asset', contractId: '00old', choice: 'Transfer', consuming: true, actingParties: ['alice'] },
+    ]);
+    expect(preview.stakeholders.sort()).toEqual(['alice', 'bank', 'bob']);
+    expect(preview.fees).toEqual({
+      totalTrafficCost: 1200,
+      confirmationRequestTrafficCost: 900,
+      confirmationResponseTrafficCost: 300,
+      estimatedAt: '2026-01-01T00:00:00Z',
+    });
+    expect(preview.preparedTransactionHash).toBe('aGFzaA==');
+  });
+
+  it('should report rejected transactions', () => {
+    expect(() =>
+      parsePrepareResponse(JSON.stringify({ code: 'CONTRACT_NOT_FOUND', cause: 'Contract could not be found' }), 'cmd-1')
+    ).toThrow(TransactionFailedError);
+  });
+});
+
+describe('previewTransaction', () => {
+  class MemoryStorage implements StorageAdapter {
+    data = new Map<string, string>();
+    async get(key: string) {
+      return this.data.get(key) ?? null;
+    }
+    async set(key: string, value: string) {
+      this.data.set(key, value);
+    }
+    async remove(key: string) {
+      this.data.delete(key);
+    }
+    async clear() {
+      this.data.clear();
+    }
+  }
+
+  async function connectedClient(ledgerApi?: WalletAdapter['ledgerApi']) {
+    const adapter: WalletAdapter = {
+      walletId: toWalletId('wallet-a'),
+      name: 'Wallet A',
+      getCapabilities: () => ['connect', 'ledgerApi'],
+      detectInstalled: async () => ({ installed: true }),
+      connect: async () => ({
+        partyId: toPartyId('alice'),
+        session: { network: 'devnet', createdAt: Date.now() },
+        capabilities: ['connect', 'ledgerApi'],
+      }),
+      disconnect: async () => {},
+      ledgerApi,
+    };
+    const client = new PartyLayerClient({
+      network: 'devnet',
+      app: { name: 'Test dApp', origin: 'https://dapp.example' },
+      adapters: [adapter],
+      storage: new MemoryStorage(),
+      crypto: {
+        encrypt: async (data) => data,
+        decrypt: async (data) => data,
+        generateKey: async () => 'key',
+      },
+      logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+      sync: false,
+    });
+    vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+    vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (walletId) => {
+      throw new WalletNotFoundError(walletId);
+    });
+    await client.connect({ walletId: toWalletId('wallet-a') });
+    return client;
+  }
+
+  const tx = new DamlTransactionBuilder()
+    .exercise('#my-pkg:Main:Asset', '00old', 'Transfer', { newOwner: 'bob' })
+    .build();
+
+  it('should prepare the transaction through the ledgerApi proxy', async () => {
+    const ledgerApi = vi.fn(async (_ctx: unknown, _session: unknown, _params: LedgerApiParams) => ({
+      response: prepareResponse(),
+    }));
+    const client = await connectedClient(ledgerApi);
+
+    const preview = await client.previewTransaction(tx);
+
+    expect(preview.archived).toHaveLength(1);
+    const params = ledgerApi.mock.calls[0][2];
+    expect(params).toMatchObject({ requestMethod: 'POST', resource: PREPARE_RESOURCE });
+    expect(JSON.parse(params.body!)).toMatchObject({
+      actAs: ['alice'],
+      commandId: expect.stringMatching(/^preview_/),
+      commands: [{ ExerciseCommand: { contractId: '00old', choice: 'Transfer' } }],
+    });
+    client.destroy();
+  });
+
+  it('should fail with a capability error for wallets without ledgerApi', async () => {
+    const client = await connectedClient();
+    await expect(client.previewTransaction(tx)).rejects.toBeInstanceOf(CapabilityNotSupportedError);
+    client.destroy();
+  });
+});
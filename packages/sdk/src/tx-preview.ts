@@ -0,0 +1,371 @@
+/**
+ * Transaction Preview
+ *
+ * Dry-runs a transaction through the JSON Ledger API interactive
+ * submission `prepare` endpoint (via the wallet's ledgerApi proxy) and
+ * summarizes what it would do: contracts created and archived, choices
+ * exercised, parties involved and the estimated traffic cost. Nothing is
+ * signed or submitted.
+ *
+ * The prepared transaction comes back as a base64 protobuf
+ * (`com.daml.ledger.api.v2.interactive.PreparedTransaction`), decoded here
+ * with a minimal wire-format reader.
+ */
+
+import type { DamlTransaction, JsonApiCommands, PartyId } from '@partylayer/core';
+import { isDamlTransaction, toJsonApiCommands, InternalError, TransactionFailedError } from '@partylayer/core';
+
+/**
+ * JSON Ledger API prepare endpoint
+ */
+export const PREPARE_RESOURCE = '/v2/interactive-submission/prepare';
+
+/**
+ * A contract created or archived by the transaction
+ */
+export interface PreviewContract {
+  /** Template ID ("<package-id>:<module>:<entity>") */
+  templateId: string;
+  /** Package name (if reported) */
+  packageName?: string;
+  /** Contract ID (local to the prepared transaction for new contracts) */
+  contractId: string;
+  /** Signatories */
+  signatories: string[];
+  /** Signatories and observers */
+  stakeholders: string[];
+}
+
+/**
+ * A choice exercised by the transaction
+ */
+export interface PreviewExercise {
+  /** Template ID of the target contract */
+  templateId: string;
+  /** Interface ID, for choices exercised through an interface */
+  interfaceId?: string;
+  /** Target contract ID */
+  contractId: string;
+  /** Choice name */
+  choice: string;
+  /** Whether the choice archives the target contract */
+  consuming: boolean;
+  /** Parties exercising the choice */
+  actingParties: string[];
+}
+
+/**
+ * Estimated traffic cost (bytes of synchronizer traffic)
+ */
+export interface PreviewFees {
+  /** Total estimated traffic cost */
+  totalTrafficCost: number;
+  /** Cost of the confirmation request */
+  confirmationRequestTrafficCost?: number;
+  /** Cost of the confirmation responses */
+  confirmationResponseTrafficCost?: number;
+  /** When the estimate was made */
+  estimatedAt?: string;
+}
+
+/**
+ * Transaction preview
+ */
+export interface TransactionPreview {
+  /** Contracts the transaction creates */
+  created: PreviewContract[];
+  /** Contracts the transaction archives */
+  archived: PreviewContract[];
+  /** Choices the transaction exercises, in execution order */
+  exercised: PreviewExercise[];
+  /** Every party involved (signatories, stakeholders, acting parties) */
+  stakeholders: string[];
+  /** Traffic cost estimate, when the participant reports one */
+  fees?: PreviewFees;
+  /** Hash the wallet would sign (base64) */
+  preparedTransactionHash: string;
+  /** Hashing scheme version of the hash */
+  hashingSchemeVersion?: string;
+  /** Raw prepare response */
+  raw: unknown;
+}
+
+/**
+ * Prepare request for a transaction
+ *
+ * @internal
+ */
+export function buildPrepareRequest(
+  tx: DamlTransaction | JsonApiCommands,
+  defaults: { partyId: PartyId; commandId: string; userId?: string }
+): Record<string, unknown> {
+  const commands = isDamlTransaction(tx)
+    ? toJsonApiCommands(tx, { actAs: [defaults.partyId], commandId: defaults.commandId })
+    : tx;
+  if (!Array.isArray(commands?.commands)) {
+    throw new InternalError('previewTransaction expects a DamlTransaction or JSON Ledger API commands');
+  }
+
+  return {
+    ...commands,
+    actAs: commands.actAs?.length ? commands.actAs : [String(defaults.partyId)],
+    readAs: commands.readAs ?? [],
+    commandId: commands.commandId ?? defaults.commandId,
+    disclosedContracts: commands.disclosedContracts ?? [],
+    packageIdSelectionPreference: [],
+    verboseHashing: false,
+    ...(defaults.userId ? { userId: defaults.userId } : {}),
+  };
+}
+
+/**
+ * Summarize a prepare response
+ *
+ * @internal
+ * @throws TransactionFailedError if the participant rejected the transaction
+ * @throws InternalError if the response cannot be decoded
+ */
+export function parsePrepareResponse(response: string, commandId: string): TransactionPreview {
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(response) as Record<string, unknown>;
+  } catch (err) {
+    throw new InternalError('Invalid prepare response', err);
+  }
+
+  if (typeof body.preparedTransaction !== 'string' || typeof body.preparedTransactionHash !== 'string') {
+    const reason = typeof body.cause === 'string' ? body.cause : typeof body.code === 'string' ? body.code : undefined;
+    throw new TransactionFailedError(commandId, 'rejected', reason ?? 'prepare failed');
+  }
+
+  let summary: Pick<TransactionPreview, 'created' | 'archived' | 'exercised' | 'stakeholders'>;
+  try {
+    summary = summarize(decodeBase64(body.preparedTransaction));
+  } catch (err) {
+    throw new InternalError('Failed to decode the prepared transaction', err);
+  }
+
+  const preview: TransactionPreview = {
+    ...summary,
+    preparedTransactionHash: body.preparedTransactionHash,
+    raw: body,
+  };
+  if (typeof body.hashingSchemeVersion === 'string') {
+    preview.hashingSchemeVersion = body.hashingSchemeVersion;
+  }
+
+  const cost = body.costEstimation as Record<string, unknown> | undefined;
+  if (cost && typeof cost.totalTrafficCostEstimation === 'number') {
+    preview.fees = {
+      totalTrafficCost: cost.totalTrafficCostEstimation,
+      confirmationRequestTrafficCost: asNumber(cost.confirmationRequestTrafficCostEstimation),
+      confirmationResponseTrafficCost: asNumber(cost.confirmationResponseTrafficCostEstimation),
+      estimatedAt: typeof cost.estimationTimestamp === 'string' ? cost.estimationTimestamp : undefined,
+    };
+  }
+  return preview;
+}
+
+// ─── Prepared transaction ────────────────────────────────────────────────────
+
+// Field numbers from com.daml.ledger.api.v2.interactive (PreparedTransaction,
+// DamlTransaction) and its transaction.v1 node messages
+const PREPARED_TRANSACTION = { transaction: 1 };
+const DAML_TRANSACTION = { roots: 2, nodes: 3 };
+const VERSIONED_NODE = { nodeId: 1, v1: 1000 };
+const NODE = { create: 1, fetch: 2, exercise: 3, rollback: 4 };
+const CREATE = { contractId: 2, packageName: 3, templateId: 4, signatories: 6, stakeholders: 7 };
+const EXERCISE = {
+  contractId: 2,
+  packageName: 3,
+  templateId: 4,
+  signatories: 5,
+  stakeholders: 6,
+  actingParties: 7,
+  interfaceId: 8,
+  choiceId: 9,
+  consuming: 11,
+  children: 12,
+  choiceObservers: 14,
+};
+const IDENTIFIER = { packageId: 1, moduleName: 2, entityName: 3 };
+
+function summarize(bytes: Uint8Array): Pick<TransactionPreview, 'created' | 'archived' | 'exercised' | 'stakeholders'> {
+  const transaction = message(decodeMessage(bytes), PREPARED_TRANSACTION.transaction);
+  if (!transaction) {
+    throw new Error('missing transaction');
+  }
+
+  const nodes = new Map<string, Fields>();
+  for (const node of messages(transaction, DAML_TRANSACTION.nodes)) {
+    const v1 = message(node, VERSIONED_NODE.v1);
+    if (v1) {
+      nodes.set(string(node, VERSIONED_NODE.nodeId) ?? '', v1);
+    }
+  }
+
+  const created: PreviewContract[] = [];
+  const archived: PreviewContract[] = [];
+  const exercised: PreviewExercise[] = [];
+  const parties = new Set<string>();
+
+  // Walk from the roots so rolled-back subtrees are left out
+  const visit = (nodeId: string) => {
+    const node = nodes.get(nodeId);
+    if (!node) {
+      throw new Error(`unknown node ${nodeId}`);
+    }
+
+    const create = message(node, NODE.create);
+    if (create) {
+      const contract: PreviewContract = {
+        templateId: identifier(message(create, CREATE.templateId)),
+        contractId: string(create, CREATE.contractId) ?? '',
+        signatories: strings(create, CREATE.signatories),
+        stakeholders: strings(create, CREATE.stakeholders),
+      };
+      const packageName = string(create, CREATE.packageName);
+      if (packageName) contract.packageName = packageName;
+      created.push(contract);
+      [...contract.signatories, ...contract.stakeholders].forEach((p) => parties.add(p));
+      return;
+    }
+
+    const exercise = message(node, NODE.exercise);
+    if (exercise) {
+      const templateId = identifier(message(exercise, EXERCISE.templateId));
+      const contractId = string(exercise, EXERCISE.contractId) ?? '';
+      const consuming = number(exercise, EXERCISE.consuming) === 1;
+      const interfaceId = message(exercise, EXERCISE.interfaceId);
+      const entry: PreviewExercise = {
+        templateId,
+        contractId,
+        choice: string(exercise, EXERCISE.choiceId) ?? '',
+        consuming,
+        actingParties: strings(exercise, EXERCISE.actingParties),
+      };
+      if (interfaceId) entry.interfaceId = identifier(interfaceId);
+      exercised.push(entry);
+
+      const signatories = strings(exercise, EXERCISE.signatories);
+      const stakeholders = strings(exercise, EXERCISE.stakeholders);
+      if (consuming) {
+        const contract: PreviewContract = { templateId, contractId, signatories, stakeholders };
+        const packageName = string(exercise, EXERCISE.packageName);
+        if (packageName) contract.packageName = packageName;
+        archived.push(contract);
+      }
+      [...signatories, ...stakeholders, ...entry.actingParties, ...strings(exercise, EXERCISE.choiceObservers)].forEach(
+        (p) => parties.add(p)
+      );
+
+      strings(exercise, EXERCISE.children).forEach(visit);
+    }
+    // Fetches change nothing; rollback children did not happen
+  };
+  strings(transaction, DAML_TRANSACTION.roots).forEach(visit);
+
+  return { created, archived, exercised, stakeholders: [...parties] };
+}
+
+function identifier(fields: Fields | undefined): string {
+  if (!fields) {
+    return '';
+  }
+  return [IDENTIFIER.packageId, IDENTIFIER.moduleName, IDENTIFIER.entityName]
+    .map((field) => string(fields, field) ?? '')
+    .join(':');
+}
+
+// ─── Protobuf wire format ────────────────────────────────────────────────────
+
+/** Field number → values (varints as numbers, length-delimited as bytes) */
+type Fields = Map<number, Array<number | Uint8Array>>;
+
+function decodeMessage(bytes: Uint8Array): Fields {
+  const fields: Fields = new Map();
+  let pos = 0;
+
+  const varint = (): number => {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      if (pos >= bytes.length) {
+        throw new Error('truncated varint');
+      }
+      const byte = bytes[pos++];
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) {
+        return value;
+      }
+      scale *= 128;
+    }
+  };
+
+  while (pos < bytes.length) {
+    const key = varint();
+    const field = Math.floor(key / 8);
+    let value: number | Uint8Array;
+    switch (key % 8) {
+      case 0:
+        value = varint();
+        break;
+      case 1:
+        pos += 8;
+        continue;
+      case 2: {
+        const length = varint();
+        if (pos + length > bytes.length) {
+          throw new Error('truncated field');
+        }
+        value = bytes.subarray(pos, pos + length);
+        pos += length;
+        break;
+      }
+      case 5:
+        pos += 4;
+        continue;
+      default:
+        throw new Error(`unsupported wire type ${key % 8}`);
+    }
+    const values = fields.get(field) ?? [];
+    values.push(value);
+    fields.set(field, values);
+  }
+  return fields;
+}
+
+function messages(fields: Fields, field: number): Fields[] {
+  return (fields.get(field) ?? []).filter((v): v is Uint8Array => v instanceof Uint8Array).map(decodeMessage);
+}
+
+function message(fields: Fields, field: number): Fields | undefined {
+  return messages(fields, field)[0];
+}
+
+function strings(fields: Fields, field: number): string[] {
+  const decoder = new TextDecoder();
+  return (fields.get(field) ?? []).filter((v): v is Uint8Array => v instanceof Uint8Array).map((v) => decoder.decode(v));
+}
+
+function string(fields: Fields, field: number): string | undefined {
+  return strings(fields, field)[0];
+}
+
+function number(fields: Fields, field: number): number | undefined {
+  const value = fields.get(field)?.[0];
+  return typeof value === 'number' ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,297 @@
+/**
+ * Transaction Tracker Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type {
+  WalletAdapter,
+  TxReceipt,
+  TxStatusUpdate,
+  StorageAdapter,
+  LedgerApiParams,
+} from '@partylayer/core';
+import {
+  toWalletId,
+  toPartyId,
+  toSessionId,
+  toTransactionHash,
+  WalletNotFoundError,
+  TransactionFailedError,
+  TimeoutError,
+} from '@partylayer/core';
+import {
+  TransactionTracker,
+  mapAdapterTxStatus,
+  findCompletionStatus,
+} from './tx-tracker';
+import { PartyLayerClient } from './client';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+const receipt: TxReceipt = {
+  transactionHash: toTransactionHash('tx-1'),
+  submittedAt: Date.now(),
+  commandId: 'cmd-1',
+};
+
+function createTracker(): TransactionTracker {
+  return new TransactionTracker({ receipt, sessionId: toSessionId('s1') });
+}
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+function createAdapter(overrides: Partial<WalletAdapter>): WalletAdapter {
+  return {
+    walletId: toWalletId('wallet-a'),
+    name: 'Wallet A',
+    getCapabilities: () => ['connect', 'submitTransaction'],
+    detectInstalled: async () => ({ installed: true }),
+    connect: async () => ({
+      partyId: toPartyId('party::a'),
+      session: { network: 'devnet', createdAt: Date.now() },
+      capabilities: ['connect', 'submitTransaction'],
+    }),
+    disconnect: async () => {},
+    ...overrides,
+  };
+}
+
+async function connectClient(adapter: WalletAdapter): Promise<PartyLayerClient> {
+  const client = new PartyLayerClient({
+    network: 'devnet',
+    app: { name: 'Test dApp', origin: 'https://dapp.example' },
+    adapters: [adapter],
+    storage: new MemoryStorage(),
+    crypto: {
+      encrypt: async (data) => data,
+      decrypt: async (data) => data,
+      generateKey: async () => 'key',
+    },
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+  });
+  vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+  vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+    throw new WalletNotFoundError(id);
+  });
+  await client.connect({ walletId: adapter.walletId });
+  return client;
+}
+
+describe('TransactionTracker', () => {
+  it('should start as submitted and record status changes', () => {
+    const tracker = createTracker();
+    expect(tracker.status).toBe('submitted');
+
+    tracker.update('pending');
+    tracker.update('pending');
+    tracker.update('committed');
+    tracker.update('failed');
+
+    expect(tracker.status).toBe('committed');
+    expect(tracker.done).toBe(true);
+  });
+
+  it('should iterate updates until a terminal status', async () => {
+    const tracker = createTracker();
+    const seen: TxStatusUpdate[] = [];
+    const iterating = (async () => {
+      for await (const update of tracker) {
+        seen.push(update);
+      }
+    })();
+
+    tracker.update('pending');
+    await Promise.resolve();
+    tracker.update('committed');
+    await iterating;
+
+    expect(seen.map((u) => u.status)).toEqual(['pending', 'committed']);
+    expect(seen[1].txId).toBe('tx-1');
+  });
+
+  it('should resolve waitFor on the requested status', async () => {
+    const tracker = createTracker();
+    const waiting = tracker.waitFor('committed');
+    tracker.update('committed', { updateId: 'u-1' });
+
+    await expect(waiting).resolves.toMatchObject({ status: 'committed', raw: { updateId: 'u-1' } });
+    await expect(tracker.waitFor('committed')).resolves.toMatchObject({ status: 'committed' });
+  });
+
+  it('should reject waitFor committed when the transaction fails', async () => {
+    const tracker = createTracker();
+    const waiting = tracker.waitFor('committed');
+    tracker.update('rejected');
+
+    await expect(waiting).rejects.toBeInstanceOf(TransactionFailedError);
+    await expect(tracker.waitFor('failed')).resolves.toMatchObject({ status: 'rejected' });
+  });
+
+  it('should time out waitFor', async () => {
+    const tracker = createTracker();
+    await expect(tracker.waitFor('committed', { timeoutMs: 5 })).rejects.toBeInstanceOf(TimeoutError);
+    expect(tracker.done).toBe(false);
+  });
+
+  it('should run cleanups once tracking ends', () => {
+    const tracker = createTracker();
+    const cleanup = vi.fn();
+    tracker.addCleanup(cleanup);
+
+    tracker.update('failed');
+    tracker.stop();
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('status mapping', () => {
+  it('should map CIP-0103 txChanged payloads for the tracked command', () => {
+    expect(mapAdapterTxStatus({ status: 'signed', commandId: 'cmd-1' }, receipt)).toBe('submitted');
+    expect(mapAdapterTxStatus({ status: 'executed', commandId: 'cmd-1' }, receipt)).toBe('committed');
+    expect(mapAdapterTxStatus({ status: 'failed', commandId: 'cmd-1' }, receipt)).toBe('failed');
+    expect(mapAdapterTxStatus({ status: 'executed', commandId: 'other' }, receipt)).toBeNull();
+    expect(mapAdapterTxStatus('executed', receipt)).toBeNull();
+  });
+
+  it('should read completions from a JSON Ledger API response', () => {
+    const ok = JSON.stringify([
+      { completionResponse: { Completion: { value: { commandId: 'cmd-0', status: { code: 3 } } } } },
+      { completionResponse: { Completion: { value: { commandId: 'cmd-1', updateId: 'u-1', status: { code: 0 } } } } },
+    ]);
+    const failed = JSON.stringify([
+      { completionResponse: { Completion: { value: { commandId: 'cmd-1', status: { code: 9 } } } } },
+    ]);
+
+    expect(findCompletionStatus(ok, 'cmd-1')).toBe('committed');
+    expect(findCompletionStatus(failed, 'cmd-1')).toBe('failed');
+    expect(findCompletionStatus(ok, 'cmd-2')).toBeNull();
+    expect(findCompletionStatus('not json', 'cmd-1')).toBeNull();
+  });
+});
+
+describe('PartyLayerClient.trackTransaction', () => {
+  it('should follow adapter txStatus events and emit tx:status', async () => {
+    let emitTxStatus: (payload: unknown) => void = () => {};
+    const unsubscribe = vi.fn();
+    const adapter = createAdapter({
+      on: (_event, handler) => {
+        emitTxStatus = handler;
+        return unsubscribe;
+      },
+    });
+    const client = await connectClient(adapter);
+    const listener = vi.fn();
+    client.on('tx:status', listener);
+
+    const tracker = await client.trackTransaction(receipt, { pollAfterMs: 60_000 });
+    emitTxStatus({ status: 'executed', commandId: 'cmd-1' });
+
+    await expect(tracker.waitFor('committed')).resolves.toMatchObject({ status: 'committed' });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ txId: 'tx-1', status: 'committed' }));
+    expect(unsubscribe).toHaveBeenCalled();
+
+    client.destroy();
+  });
+
+  it('should poll ledger completions from the ledger end for wallets without events', async () => {
+    const completions = [
+      [{ completionResponse: { OffsetCheckpoint: { value: { offset: 50 } } } }],
+      [{ completionResponse: { Completion: { value: { commandId: 'cmd-1', status: { code: 0 }, offset: 51 } } } }],
+    ];
+    const ledgerApi = vi.fn(async (_ctx: unknown, _session: unknown, params: LedgerApiParams) => ({
+      response: JSON.stringify(params.requestMethod === 'GET' ? { offset: 42 } : completions.shift() ?? []),
+    }));
+    const client = await connectClient(createAdapter({ ledgerApi }));
+
+    const tracker = await client.trackTransaction(receipt, { pollIntervalMs: 5, userId: 'app-user' });
+    await tracker.waitFor('committed', { timeoutMs: 1000 });
+
+    const requests = ledgerApi.mock.calls.map(([, , params]) => params);
+    expect(requests).toHaveLength(3);
+    expect(requests[0]).toEqual({ requestMethod: 'GET', resource: '/v2/state/ledger-end' });
+    expect(requests[1]).toMatchObject({ requestMethod: 'POST', resource: '/v2/commands/completions' });
+    expect(requests.slice(1).map((params) => JSON.parse(params.body!))).toEqual([
+      { parties: ['party::a'], beginExclusive: 42, userId: 'app-user' },
+      { parties: ['party::a'], beginExclusive: 50, userId: 'app-user' },
+    ]);
+
+    client.destroy();
+  });
+
+  it('should poll from a given offset without reading the ledger end', async () => {
+    const ledgerApi = vi.fn(async (_ctx: unknown, _session: unknown, _params: LedgerApiParams) => ({
+      response: JSON.stringify([{ completion: { commandId: 'cmd-1', status: { code: 3 } } }]),
+    }));
+    const client = await connectClient(createAdapter({ ledgerApi }));
+
+    const tracker = await client.trackTransaction(receipt, { pollIntervalMs: 5, beginExclusive: 7 });
+    await tracker.waitFor('failed', { timeoutMs: 1000 });
+
+    expect(ledgerApi).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(ledgerApi.mock.calls[0][2].body!)).toEqual({ parties: ['party::a'], beginExclusive: 7 });
+
+    client.destroy();
+  });
+
+  it('should find a command that completed before tracking started', async () => {
+    let ledgerEnd = 42;
+    const ledgerApi = vi.fn(async (_ctx: unknown, _session: unknown, params: LedgerApiParams) => {
+      if (params.requestMethod === 'GET') {
+        return { response: JSON.stringify({ offset: ledgerEnd }) };
+      }
+      const { beginExclusive } = JSON.parse(params.body!) as { beginExclusive: number };
+      const completion = { commandId: 'cmd-1', status: { code: 0 }, offset: 43 };
+      return {
+        response: JSON.stringify(
+          beginExclusive < completion.offset ? [{ completionResponse: { Completion: { value: completion } } }] : []
+        ),
+      };
+    });
+    // The wallet waits for the ledger, and its txStatus events fire before it returns
+    const adapter = createAdapter({
+      ledgerApi,
+      on: () => () => {},
+      submitTransaction: async () => {
+        ledgerEnd = 60;
+        return receipt;
+      },
+    });
+    const client = await connectClient(adapter);
+
+    const submitted = await client.submitTransaction({ signedTx: {} });
+    expect(submitted.beginExclusive).toBe(42);
+
+    const tracker = await client.trackTransaction(submitted, { pollAfterMs: 5, pollIntervalMs: 5 });
+    await expect(tracker.waitFor('committed', { timeoutMs: 1000 })).resolves.toMatchObject({ status: 'committed' });
+
+    client.destroy();
+  });
+
+  it('should treat a receipt with an update ID as committed', async () => {
+    const ledgerApi = vi.fn();
+    const client = await connectClient(createAdapter({ ledgerApi }));
+
+    const tracker = await client.trackTransaction({ ...receipt, updateId: 'update-1' });
+    expect(tracker.status).toBe('committed');
+    await expect(tracker.waitFor('committed')).resolves.toMatchObject({ status: 'committed' });
+    expect(ledgerApi).not.toHaveBeenCalled();
+
+    client.destroy();
+  });
+});
@@ -0,0 +1,434 @@
+/**
+ * Transaction Tracker
+ *
+ * Follows a submitted transaction until it reaches a terminal state.
+ * Status updates are fed in by the client from two sources:
+ * - adapter `txStatus` events (CIP-0103 txChanged-shaped payloads)
+ * - JSON Ledger API completion polling, for wallets that never emit
+ */
+
+import type {
+  SessionId,
+  TransactionStatus,
+  TxReceipt,
+  TxStatusUpdate,
+  LedgerApiParams,
+  LedgerApiResult,
+  PartyId,
+} from '@partylayer/core';
+import {
+  InternalError,
+  TimeoutError,
+  TransactionFailedError,
+} from '@partylayer/core';
+
+const TERMINAL_STATUSES: TransactionStatus[] = ['committed', 'rejected', 'failed'];
+
+/**
+ * Check if a status is terminal
+ */
+export function isTerminalStatus(status: TransactionStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+/**
+ * waitFor options
+ */
+export interface WaitForOptions {
+  /** Reject with TimeoutError after this many milliseconds (default: no timeout) */
+  timeoutMs?: number;
+}
+
+/**
+ * Transaction tracker options
+ */
+export interface TransactionTrackerOptions {
+  /** Receipt returned by submitTransaction */
+  receipt: TxReceipt;
+  /** Session the transaction was submitted through */
+  sessionId: SessionId;
+  /** Called for every status change */
+  onUpdate?: (update: TxStatusUpdate) => void;
+}
+
+/**
+ * Transaction tracker
+ *
+ * Exposes the current `status`, an async iterator over status updates
+ * (ending at the terminal state) and `waitFor()`.
+ */
+export class TransactionTracker implements AsyncIterable<TxStatusUpdate> {
+  readonly receipt: TxReceipt;
+  readonly sessionId: SessionId;
+  private current: TransactionStatus = 'submitted';
+  private history: TxStatusUpdate[] = [];
+  private listeners = new Set<() => void>();
+  private cleanups: Array<() => void> = [];
+  private stopped = false;
+  private onUpdate?: (update: TxStatusUpdate) => void;
+
+  constructor(options: TransactionTrackerOptions) {
+    this.receipt = options.receipt;
+    this.sessionId = options.sessionId;
+    this.onUpdate = options.onUpdate;
+  }
+
+  /**
+   * Current status
+   */
+  get status(): TransactionStatus {
+    return this.current;
+  }
+
+  /**
+   * Whether tracking has ended (terminal status or stopped)
+   */
+  get done(): boolean {
+    return this.stopped || isTerminalStatus(this.current);
+  }
+
+  /**
+   * Record a status update.
+   *
+   * Repeated statuses and updates after a terminal status are ignored.
+   *
+   * @internal
+   */
+  update(status: TransactionStatus, raw?: unknown): void {
+    if (this.done || status === this.current) {
+      return;
+    }
+
+    this.current = status;
+    const update: TxStatusUpdate = {
+      sessionId: this.sessionId,
+      txId: this.receipt.transactionHash,
+      status,
+      raw,
+      timestamp: Date.now(),
+    };
+    this.history.push(update);
+    this.onUpdate?.(update);
+
+    if (isTerminalStatus(status)) {
+      this.teardown();
+    }
+    this.notify();
+  }
+
+  /**
+   * Register a cleanup run when tracking ends
+   *
+   * @internal
+   */
+  addCleanup(cleanup: () => void): void {
+    if (this.done) {
+      cleanup();
+      return;
+    }
+    this.cleanups.push(cleanup);
+  }
+
+  /**
+   * Stop tracking (unsubscribes from adapter events and stops polling)
+   */
+  stop(): void {
+    if (this.done) {
+      return;
+    }
+    this.stopped = true;
+    this.teardown();
+    this.notify();
+  }
+
+  /**
+   * Wait until the transaction reaches a terminal status.
+   *
+   * Resolves with the matching update. Rejects with TransactionFailedError
+   * when waiting for 'committed' and the transaction fails, with
+   * InternalError when it ends in another state or tracking is stopped,
+   * and with TimeoutError after `timeoutMs`.
+   */
+  waitFor(
+    status: 'committed' | 'failed',
+    options?: WaitForOptions
+  ): Promise<TxStatusUpdate> {
+    return new Promise<TxStatusUpdate>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const check = (): boolean => {
+        const last = this.history[this.history.length - 1];
+        if (last && this.matches(last.status, status)) {
+          resolve(last);
+        } else if (isTerminalStatus(this.current)) {
+          reject(
+            status === 'committed'
+              ? new TransactionFailedError(String(this.receipt.transactionHash), this.current)
+              : new InternalError(
+                  `Transaction "${this.receipt.transactionHash}" ended as "${this.current}"`
+                )
+          );
+        } else if (this.stopped) {
+          reject(new InternalError('Transaction tracking stopped'));
+        } else {
+          return false;
+        }
+
+        if (timer) clearTimeout(timer);
+        this.listeners.delete(listener);
+        return true;
+      };
+
+      const listener = () => {
+        check();
+      };
+
+      if (check()) {
+        return;
+      }
+
+      this.listeners.add(listener);
+      if (options?.timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          this.listeners.delete(listener);
+          reject(new TimeoutError(`waitFor ${status}`, options.timeoutMs!));
+        }, options.timeoutMs);
+      }
+    });
+  }
+
+  /**
+   * Iterate over status updates, starting with those already recorded
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<TxStatusUpdate> {
+    let index = 0;
+    for (;;) {
+      while (index < this.history.length) {
+        yield this.history[index++];
+      }
+      if (this.done) {
+        return;
+      }
+      await new Promise<void>((resolve) => {
+        const listener = () => {
+          this.listeners.delete(listener);
+          resolve();
+        };
+        this.listeners.add(listener);
+      });
+    }
+  }
+
+  /**
+   * 'failed' also matches 'rejected'
+   */
+  private matches(actual: TransactionStatus, expected: 'committed' | 'failed'): boolean {
+    return expected === 'failed'
+      ? actual === 'failed' || actual === 'rejected'
+      : actual === expected;
+  }
+
+  private notify(): void {
+    for (const listener of Array.from(this.listeners)) {
+      listener();
+    }
+  }
+
+  private teardown(): void {
+    for (const cleanup of this.cleanups.splice(0)) {
+      try {
+        cleanup();
+      } catch {
+        /* ignore cleanup failures */
+      }
+    }
+  }
+}
+
+/**
+ * Map an adapter `txStatus` payload to a status for this receipt.
+ *
+ * Payloads follow the CIP-0103 txChanged shape
+ * (`{ status: 'pending' | 'signed' | 'executed' | 'failed', commandId }`);
+ * payloads for other commands return null.
+ */
+export function mapAdapterTxStatus(
+  payload: unknown,
+  receipt: TxReceipt
+): TransactionStatus | null {
+  if (typeof payload !== 'object' || payload === null) {
+    return null;
+  }
+
+  const p = payload as { status?: unknown; commandId?: unknown; txId?: unknown };
+  const id = p.commandId ?? p.txId;
+  if (id !== receipt.commandId && id !== receipt.transactionHash) {
+    return null;
+  }
+
+  switch (p.status) {
+    case 'pending':
+      return 'pending';
+    case 'signed':
+    case 'submitted':
+      return 'submitted';
+    case 'executed':
+    case 'committed':
+      return 'committed';
+    case 'rejected':
+      return 'rejected';
+    case 'failed':
+      return 'failed';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Find the completion for a command in a JSON Ledger API
+ * `/v2/commands/completions` response.
+ *
+ * @returns 'committed' or 'failed', or null if the command has no completion yet
+ */
+export function findCompletionStatus(
+  response: string,
+  commandId: string
+): TransactionStatus | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response);
+  } catch {
+    return null;
+  }
+
+  const completion = findByCommandId(parsed, commandId);
+  if (!completion) {
+    return null;
+  }
+
+  const code = (completion.status as { code?: unknown } | undefined)?.code;
+  return code === undefined || code === 0 ? 'committed' : 'failed';
+}
+
+function findByCommandId(
+  value: unknown,
+  commandId: string
+): Record<string, unknown> | null {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findByCommandId(item, commandId);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (record.commandId === commandId) {
+    return record;
+  }
+  for (const child of Object.values(record)) {
+    const found = findByCommandId(child, commandId);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Highest `offset` in a JSON Ledger API `/v2/commands/completions`
+ * response (completions and offset checkpoints)
+ */
+function findLastOffset(value: unknown): number | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+
+  let last: number | null = null;
+  for (const [key, child] of Object.entries(value)) {
+    const offset = key === 'offset' && typeof child === 'number' ? child : findLastOffset(child);
+    if (offset !== null && (last === null || offset > last)) {
+      last = offset;
+    }
+  }
+  return last;
+}
+
+/**
+ * Poll JSON Ledger API completions until the tracker is done
+ *
+ * Reads from `beginExclusive`, or from the ledger end read when polling
+ * is set up, and moves past the completions and checkpoints already seen.
+ *
+ * @internal
+ */
+export function pollCompletions(
+  tracker: TransactionTracker,
+  options: {
+    ledgerApi: (params: LedgerApiParams) => Promise<LedgerApiResult>;
+    commandId: string;
+    partyId: PartyId;
+    userId?: string;
+    beginExclusive?: number;
+    delayMs: number;
+    intervalMs: number;
+    onError: (err: unknown) => void;
+  }
+): void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let offset = options.beginExclusive;
+
+  const readLedgerEnd = async () => {
+    try {
+      const result = await options.ledgerApi({ requestMethod: 'GET', resource: '/v2/state/ledger-end' });
+      const end = (JSON.parse(result.response) as { offset?: unknown } | null)?.offset;
+      if (typeof end !== 'number') {
+        throw new InternalError('Unexpected /v2/state/ledger-end response');
+      }
+      offset ??= end;
+    } catch (err) {
+      options.onError(err);
+    }
+  };
+  let ledgerEnd = offset === undefined ? readLedgerEnd() : undefined;
+
+  const poll = async () => {
+    if (tracker.done) return;
+    await ledgerEnd;
+    if (offset === undefined) {
+      // The first read failed; try again on every poll
+      ledgerEnd = readLedgerEnd();
+      await ledgerEnd;
+    }
+    if (offset !== undefined) {
+      try {
+        const result = await options.ledgerApi({
+          requestMethod: 'POST',
+          resource: '/v2/commands/completions',
+          body: JSON.stringify({
+            parties: [options.partyId],
+            beginExclusive: offset,
+            ...(options.userId && { userId: options.userId }),
+          }),
+        });
+        const status = findCompletionStatus(result.response, options.commandId);
+        if (status) {
+          tracker.update(status, result.response);
+        }
+        const last = findLastOffset(JSON.parse(result.response));
+        if (last !== null && last > offset) {
+          offset = last;
+        }
+      } catch (err) {
+        options.onError(err);
+      }
+    }
+    if (!tracker.done) {
+      timer = setTimeout(poll, options.intervalMs);
+    }
+  };
+
+  timer = setTimeout(poll, options.delayMs);
+  tracker.addCleanup(() => clearTimeout(timer));
+}
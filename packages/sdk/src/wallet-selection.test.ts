@@ -0,0 +1,164 @@
+/**
+ * Wallet Selection Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { WalletAdapter, StorageAdapter, WalletInfo } from '@partylayer/core';
+import { toWalletId, toPartyId, WalletNotFoundError } from '@partylayer/core';
+import { createSelectionStrategy, type WalletCandidate, type WalletSelectionContext } from './wallet-selection';
+import { PartyLayerClient } from './client';
+
+// Built-in wallet SDKs expect a browser; the tests register their own adapters
+vi.mock('./builtin-adapters', () => ({ getBuiltinAdapters: () => [] }));
+
+class MemoryStorage implements StorageAdapter {
+  data = new Map<string, string>();
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async remove(key: string) {
+    this.data.delete(key);
+  }
+  async clear() {
+    this.data.clear();
+  }
+}
+
+function wallet(id: string, overrides: Partial<WalletInfo> = {}): WalletInfo {
+  return {
+    walletId: toWalletId(id),
+    name: id,
+    website: '',
+    icons: {},
+    capabilities: ['connect', 'signMessage'],
+    adapter: { packageName: 'test', versionRange: '*' },
+    docs: [],
+    networks: ['devnet'],
+    channel: 'stable',
+    ...overrides,
+  };
+}
+
+function candidate(id: string, overrides: Partial<WalletCandidate> = {}, info?: Partial<WalletInfo>): WalletCandidate {
+  return { wallet: wallet(id, info), installed: true, lastUsed: false, ...overrides };
+}
+
+const context: WalletSelectionContext = {
+  network: 'devnet',
+  channel: 'stable',
+  requiredCapabilities: [],
+  lastUsedWalletId: null,
+};
+
+function ids(candidates: WalletCandidate[]): string[] {
+  return candidates.map((c) => String(c.wallet.walletId));
+}
+
+function createAdapter(id: string, installed: boolean): WalletAdapter {
+  return {
+    walletId: toWalletId(id),
+    name: id,
+    getCapabilities: () => ['connect'],
+    detectInstalled: async () => ({ installed, reason: installed ? undefined : 'Extension missing' }),
+    connect: async () => ({
+      partyId: toPartyId(`party::${id}`),
+      session: { network: 'devnet', createdAt: Date.now() },
+      capabilities: ['connect'],
+    }),
+    disconnect: async () => {},
+  };
+}
+
+function createClient(adapters: WalletAdapter[], storage = new MemoryStorage()): PartyLayerClient {
+  const client = new PartyLayerClient({
+    network: 'devnet',
+    app: { name: 'Test dApp', origin: 'https://dapp.example' },
+    adapters,
+    storage,
+    crypto: {
+      encrypt: async (data) => data,
+      decrypt: async (data) => data,
+      generateKey: async () => 'key',
+    },
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+    sync: false,
+  });
+  vi.spyOn(client.registryClient, 'getWallets').mockResolvedValue([]);
+  vi.spyOn(client.registryClient, 'getWalletEntry').mockImplementation(async (id) => {
+    throw new WalletNotFoundError(id);
+  });
+  return client;
+}
+
+describe('createSelectionStrategy', () => {
+  it('should rank installed, then last used, then preferred order, then channel', () => {
+    const strategy = createSelectionStrategy({ order: [toWalletId('d'), toWalletId('c')] });
+
+    const ranked = strategy(
+      [
+        candidate('a', { installed: false, lastUsed: true }),
+        candidate('b', {}, { channel: 'beta' }),
+        candidate('c'),
+        candidate('d'),
+        candidate('e', { lastUsed: true }),
+      ],
+      context
+    );
+
+    expect(ids(ranked as WalletCandidate[])).toEqual(['e', 'd', 'c', 'b', 'a']);
+  });
+
+  it('should drop wallets missing the network or capabilities', () => {
+    const strategy = createSelectionStrategy({ installedOnly: true });
+
+    const ranked = strategy(
+      [
+        candidate('a', {}, { networks: ['mainnet'] }),
+        candidate('b', {}, { capabilities: ['connect'] }),
+        candidate('c', { installed: false }),
+        candidate('d'),
+      ],
+      { ...context, requiredCapabilities: ['signMessage'] }
+    );
+
+    expect(ids(ranked as WalletCandidate[])).toEqual(['d']);
+  });
+});
+
+describe('PartyLayerClient wallet selection', () => {
+  it('should rank registered wallets with detected install state', async () => {
+    const client = createClient([createAdapter('a', false), createAdapter('b', true)]);
+
+    const ranked = await client.rankWallets();
+
+    expect(ids(ranked)).toEqual(['b', 'a']);
+    expect(ranked[1]).toMatchObject({ installed: false, installReason: 'Extension missing' });
+    client.destroy();
+  });
+
+  it('should prefer the last used wallet on later connects', async () => {
+    const storage = new MemoryStorage();
+    const first = createClient([createAdapter('a', true), createAdapter('b', true)], storage);
+    await first.connect({ walletId: toWalletId('b') });
+    first.destroy();
+
+    const client = createClient([createAdapter('a', true), createAdapter('b', true)], storage);
+    const session = await client.connect({ preferInstalled: true });
+
+    expect(session.walletId).toBe('b');
+    client.destroy();
+  });
+
+  it('should connect with a custom strategy and fail when it returns nothing', async () => {
+    const client = createClient([createAdapter('a', true), createAdapter('b', true)]);
+
+    const session = await client.connect({ strategy: (candidates) => [...candidates].reverse() });
+    expect(session.walletId).toBe('b');
+
+    await expect(client.connect({ strategy: () => [] })).rejects.toBeInstanceOf(WalletNotFoundError);
+    client.destroy();
+  });
+});
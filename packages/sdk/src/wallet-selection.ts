@@ -0,0 +1,113 @@
+/**
+ * Wallet Selection
+ *
+ * Ranks connect candidates without a UI. The client gathers candidates
+ * from listWallets() and each adapter's detectInstalled(), and a
+ * WalletSelectionStrategy orders them; connect() uses the first one.
+ */
+
+import type { WalletInfo, WalletId, NetworkId, CapabilityKey } from '@partylayer/core';
+
+/**
+ * A wallet that connect() could use
+ */
+export interface WalletCandidate {
+  /** Wallet info (registry entry or registered adapter) */
+  wallet: WalletInfo;
+  /** Result of the adapter's detectInstalled() (false without an adapter) */
+  installed: boolean;
+  /** Reason reported when not installed */
+  installReason?: string;
+  /** Whether this wallet made the last successful connection */
+  lastUsed: boolean;
+}
+
+/**
+ * Inputs to a selection strategy besides the candidates
+ */
+export interface WalletSelectionContext {
+  /** Network the client connects to */
+  network: NetworkId;
+  /** Registry channel the client is configured for */
+  channel: 'stable' | 'beta';
+  /** Capabilities the connect call requires */
+  requiredCapabilities: CapabilityKey[];
+  /** Wallet of the last successful connection */
+  lastUsedWalletId: WalletId | null;
+}
+
+/**
+ * Orders candidates, best first. Candidates left out are not used; an
+ * empty result makes connect() fail with WalletNotFoundError.
+ */
+export type WalletSelectionStrategy = (
+  candidates: WalletCandidate[],
+  context: WalletSelectionContext
+) => WalletCandidate[] | Promise<WalletCandidate[]>;
+
+/**
+ * Options of the default strategy
+ */
+export interface SelectionStrategyOptions {
+  /**
+   * Drop wallets that are not installed
+   * @default false
+   */
+  installedOnly?: boolean;
+  /**
+   * Rank the last used wallet ahead of other installed wallets
+   * @default true
+   */
+  preferLastUsed?: boolean;
+  /** Preferred wallets, best first; ranked after installed state and last use */
+  order?: WalletId[];
+}
+
+/**
+ * Create the default selection strategy.
+ *
+ * Drops wallets that do not support the network or the required
+ * capabilities, then ranks by:
+ * 1. installed before not installed
+ * 2. last used wallet first (unless `preferLastUsed: false`)
+ * 3. position in `order`
+ * 4. wallets on the client's registry channel before others
+ * 5. original listWallets() order
+ */
+export function createSelectionStrategy(options: SelectionStrategyOptions = {}): WalletSelectionStrategy {
+  const { installedOnly = false, preferLastUsed = true, order = [] } = options;
+
+  return (candidates, context) => {
+    const eligible = candidates.filter(
+      ({ wallet, installed }) =>
+        (installed || !installedOnly) &&
+        wallet.networks.includes(context.network) &&
+        context.requiredCapabilities.every((cap) => wallet.capabilities.includes(cap))
+    );
+
+    const rank = (candidate: WalletCandidate): number[] => {
+      const position = order.indexOf(candidate.wallet.walletId);
+      return [
+        candidate.installed ? 0 : 1,
+        preferLastUsed && candidate.lastUsed ? 0 : 1,
+        position === -1 ? order.length : position,
+        candidate.wallet.channel === context.channel ? 0 : 1,
+      ];
+    };
+
+    // Array.prototype.sort is stable, so ties keep listWallets() order
+    return eligible
+      .map((candidate) => ({ candidate, key: rank(candidate) }))
+      .sort((a, b) => compareKeys(a.key, b.key))
+      .map(({ candidate }) => candidate);
+  };
+}
+
+function compareKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return 0;
+}